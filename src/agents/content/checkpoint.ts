@@ -0,0 +1,50 @@
+// Slack formatting for scheduled content checkpoints
+
+import { formatDraftSummary, truncate } from '../../shared/slack.js';
+import { formatScores } from './critic-loop.js';
+import { ContentCheckpointReport } from './types.js';
+
+export const formatCheckpointReport = (report: ContentCheckpointReport): string => {
+  const sections: string[] = [':calendar: *Content checkpoint*'];
+
+  if (report.checkpoints.length === 0) {
+    sections.push('No drafts are waiting for review.');
+  } else {
+    const drafts = report.checkpoints.map(checkpoint => {
+      const rounds = checkpoint.rounds && checkpoint.rounds > 1 ? ` after ${checkpoint.rounds - 1} revision${checkpoint.rounds === 2 ? '' : 's'}` : '';
+      const scores = checkpoint.scores ? `\nCritic score: ${formatScores(checkpoint.scores)}${rounds}` : '';
+      const critique = checkpoint.criticFeedback.length > 0
+        ? `\n> ${truncate(checkpoint.criticFeedback[0], 600).replace(/\n/g, '\n> ')}`
+        : '';
+      const revised = checkpoint.revised ? '\n_Revised by the critic. Approve it from the new card below, not the earlier one._' : '';
+      return `${formatDraftSummary(checkpoint.draft)}${scores}${revised}${critique}`;
+    });
+    sections.push(`*Drafts awaiting review (${report.checkpoints.length})*\n\n${drafts.join('\n\n')}`);
+  }
+
+  if (report.research.items.length > 0) {
+    const items = report.research.items.map(item => `• <${item.url}|${item.title}> — ${truncate(item.summary, 140)}`);
+    sections.push(`*Unused research (${report.research.items.length})*\n${items.join('\n')}`);
+  }
+
+  // Clusters include the recurring signals, grouped by meaning
+  const trends = report.research.trends || [];
+  if (trends.length > 0) {
+    const clusters = trends.map(cluster => {
+      const heard = cluster.observations.slice(0, 3).map(observation => `"${truncate(observation, 80)}"`).join(', ');
+      return `• _${cluster.angle}_ (×${cluster.frequency}) — ${heard}`;
+    });
+    sections.push(`*Trending signals → suggested angles*\n${clusters.join('\n')}`);
+  } else if (report.research.signals.length > 0) {
+    const signals = report.research.signals.map(signal =>
+      `• ${signal.observation} (×${signal.frequency}) → _${signal.potentialAngle}_`
+    );
+    sections.push(`*Recurring signals*\n${signals.join('\n')}`);
+  }
+
+  if (report.research.synthesis) {
+    sections.push(`*Synthesis*\n${report.research.synthesis}`);
+  }
+
+  return sections.join('\n\n');
+};
@@ -0,0 +1,146 @@
+// Critic-revise loop - score a draft against the critic rubric, revise it and
+// score again until it clears the threshold or runs out of rounds, then leave
+// the best-scoring version in place for human review
+
+import Database from 'better-sqlite3';
+import { z } from 'zod';
+import { LLMClient, LLMCaller } from '../../shared/llm.js';
+import { DraftStorage } from '../../db/drafts.js';
+import { CRITIC_SCORING_PROMPT, CRITIC_SYSTEM_PROMPT, DRAFT_REVISION_PROMPT } from './prompts.js';
+import { Draft, RubricScores } from './types.js';
+
+export interface CriticLoopOptions {
+  maxRounds?: number;   // Revisions after the first review (default 2)
+  threshold?: number;   // Average score that ends the loop early (default 8)
+}
+
+// The critic's verdict on one version of a draft
+export interface CriticReview {
+  version: number;
+  scores: RubricScores;
+  overall: number;      // Average of the rubric scores
+  critique: string;
+}
+
+export interface CriticLoopResult {
+  draft: Draft;             // As left for the human: the best-scoring version
+  reviews: CriticReview[];  // One per version scored, in order
+  best: CriticReview;
+  thresholdMet: boolean;
+}
+
+export const RUBRIC: Array<keyof RubricScores> = ['hook', 'value', 'voice', 'structure', 'cta'];
+
+const DEFAULT_MAX_ROUNDS = 2;
+const DEFAULT_THRESHOLD = 8;
+
+// Each round is two model calls, so callers can't ask for more than this
+export const MAX_ROUNDS = 5;
+
+const score = z.number().describe('1-10');
+
+const reviewSchema = z.object({
+  scores: z.object({ hook: score, value: score, voice: score, structure: score, cta: score }),
+  critique: z.string()
+});
+
+const revisionSchema = z.object({
+  title: z.string(),
+  body: z.string(),
+  note: z.string()
+});
+
+// Models occasionally stray outside the scale; keep scores comparable
+const clampScores = (scores: RubricScores): RubricScores =>
+  Object.fromEntries(RUBRIC.map(key => [key, Math.min(10, Math.max(1, scores[key]))])) as unknown as RubricScores;
+
+export const overallScore = (scores: RubricScores): number =>
+  Math.round((RUBRIC.reduce((sum, key) => sum + scores[key], 0) / RUBRIC.length) * 10) / 10;
+
+export const formatScores = (scores: RubricScores): string =>
+  `${overallScore(scores)}/10 (${RUBRIC.map(key => `${key} ${scores[key]}`).join(' · ')})`;
+
+export class CriticLoop {
+  private drafts: DraftStorage;
+
+  constructor(db: Database.Database, private llm: LLMClient, private options: CriticLoopOptions = {}) {
+    this.drafts = new DraftStorage(db);
+  }
+
+  // Score the draft's current version and keep the scores on that version
+  async review(draftId: string, caller?: LLMCaller): Promise<CriticReview> {
+    const draft = this.requireDraft(draftId);
+    const result = await this.llm.generateObject(
+      `Please critique this ${draft.contentType}:\n\nTitle: ${draft.title}\n\nContent:\n${draft.body}`,
+      reviewSchema,
+      {
+        systemPrompt: `${CRITIC_SYSTEM_PROMPT}\n\n${CRITIC_SCORING_PROMPT}`,
+        schemaName: 'critic_review',
+        purpose: 'critic',
+        caller: caller ?? { agent: 'content' }
+      }
+    );
+
+    const version = Math.max(this.drafts.latestVersion(draftId), 1);
+    const scores = clampScores(result.scores);
+    const critique = result.critique.trim();
+    this.drafts.recordCritique(draftId, version, scores, critique);
+    return { version, scores, overall: overallScore(scores), critique };
+  }
+
+  // The stored review of the current version, if the critic has seen it
+  latestReview(draftId: string): CriticReview | null {
+    const version = this.drafts.getVersion(draftId, this.drafts.latestVersion(draftId));
+    if (!version?.scores) return null;
+    return { version: version.version, scores: version.scores, overall: overallScore(version.scores), critique: version.critique || '' };
+  }
+
+  async run(draftId: string, options: CriticLoopOptions = {}, caller?: LLMCaller): Promise<CriticLoopResult> {
+    const maxRounds = options.maxRounds ?? this.options.maxRounds ?? DEFAULT_MAX_ROUNDS;
+    const threshold = options.threshold ?? this.options.threshold ?? DEFAULT_THRESHOLD;
+
+    const reviews = [await this.review(draftId, caller)];
+    while (reviews.at(-1)!.overall < threshold && reviews.length <= maxRounds) {
+      await this.revise(draftId, reviews.at(-1)!, reviews.length, caller);
+      reviews.push(await this.review(draftId, caller));
+    }
+
+    // Earliest version wins a tie, so a revision has to actually score higher
+    const best = reviews.reduce((top, review) => (review.overall > top.overall ? review : top));
+    const latest = reviews.at(-1)!;
+    if (best !== latest) {
+      this.drafts.restoreVersion(draftId, best.version);
+      this.drafts.recordCritique(draftId, this.drafts.latestVersion(draftId), best.scores, best.critique);
+    }
+
+    return { draft: this.requireDraft(draftId), reviews, best, thresholdMet: best.overall >= threshold };
+  }
+
+  private async revise(draftId: string, review: CriticReview, round: number, caller?: LLMCaller): Promise<void> {
+    const draft = this.requireDraft(draftId);
+    const revision = await this.llm.generateObject(
+      `Title: ${draft.title}\n\nContent:\n${draft.body}\n\n## Critic scores\n${formatScores(review.scores)}\n\n## Critique\n${review.critique}`,
+      revisionSchema,
+      {
+        systemPrompt: DRAFT_REVISION_PROMPT,
+        schemaName: 'draft_revision',
+        purpose: 'content',
+        caller: caller ?? { agent: 'content' }
+      }
+    );
+
+    this.drafts.update(
+      draftId,
+      { title: revision.title.trim() || draft.title, body: revision.body.trim() || draft.body },
+      `Critic round ${round}: ${revision.note.trim()}`
+    );
+  }
+
+  private requireDraft(id: string): Draft {
+    const draft = this.drafts.get(id);
+    if (!draft) {
+      throw new Error(`Draft not found: ${id}`);
+    }
+    return draft;
+  }
+}
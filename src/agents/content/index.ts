@@ -6,19 +6,118 @@ import { tool } from 'ai';
 import { LLMClient } from '../../shared/llm.js';
 import { DraftStorage } from '../../db/drafts.js';
 import { ResearchStorage } from '../../db/research.js';
-import { AgentResponse, ExtractedEntity, EntityRef, SearchResult } from '../../shared/types.js';
-import { CONTENT_AGENT_SYSTEM_PROMPT, CRITIC_SYSTEM_PROMPT } from './prompts.js';
-import { Draft, ContentType, InterviewEntry, TopicQueueItem } from './types.js';
+import { CONTENT_KINDS, ContentKind, ContentSearch, ContentSearchResult } from '../../db/search.js';
+import { AgentResponse, ExtractedEntity, PendingAction, SearchResult, ToolRisk, UndoOperation } from '../../shared/types.js';
+import { ActionLogStorage } from '../../db/action-log.js';
+import { CONTENT_AGENT_SYSTEM_PROMPT } from './prompts.js';
+import {
+  Draft,
+  DraftVersion,
+  DraftWithCriticFeedback,
+  ContentType,
+  ResearchItem,
+  SignalCluster,
+  ContentCheckpoint,
+  ContentCheckpointReport,
+  InterviewEntry,
+  TopicQueueItem,
+  ResearchSynthesis
+} from './types.js';
 import { getSkillsPrompt } from '../../shared/skills.js';
-
-export class ContentAgent {
+import { traceToActions, actionsToEntities } from '../../shared/actions.js';
+import { gateTools, runPendingAction } from '../../shared/policy.js';
+import { diffLines, formatDiff } from '../../shared/diff.js';
+import { Agent, AgentDefinition, AgentHandleOptions } from '../registry.js';
+import { ResearchCandidate, describeResearch, normalizeTags, researchSource } from './research-library.js';
+import { RecordedSignal, SignalLog } from './signals.js';
+import { ResearchSynthesizer, SynthesisOptions } from './synthesis.js';
+import { CriticLoop, CriticLoopOptions, CriticLoopResult, CriticReview, MAX_ROUNDS } from './critic-loop.js';
+import { EmbeddingProvider } from '../../shared/embeddings.js';
+import { truncate } from '../../shared/slack.js';
+
+// Entity type written by each tool, used to label actions
+const CONTENT_TOOL_ENTITIES: Record<string, string> = {
+  createDraft: 'draft',
+  getDraft: 'draft',
+  updateDraft: 'draft',
+  restoreDraftVersion: 'draft',
+  approveDraft: 'draft',
+  rejectDraft: 'draft',
+  citeResearch: 'draft',
+  refineDraft: 'draft'
+};
+
+// Risk of each tool, checked against the confirmation policy
+const CONTENT_TOOL_RISKS: Record<string, ToolRisk> = {
+  listDrafts: 'read',
+  getDraft: 'read',
+  listDraftVersions: 'read',
+  diffDraftVersions: 'read',
+  listTopics: 'read',
+  webSearch: 'read',
+  fetchUrl: 'read',
+  searchResearch: 'read',
+  searchContent: 'read',
+  trendingSignals: 'read',
+  criticizeDraft: 'read',
+  createDraft: 'write',
+  updateDraft: 'write',
+  restoreDraftVersion: 'write',
+  approveDraft: 'write',
+  rejectDraft: 'write',
+  refineDraft: 'write',
+  addInterview: 'write',
+  addTopic: 'write',
+  saveResearch: 'write',
+  citeResearch: 'write',
+  logSignal: 'write',
+  synthesizeResearch: 'write',
+  deleteDraft: 'destructive'
+};
+
+export const CONTENT_AGENT_DEFINITION: AgentDefinition = {
+  name: 'content',
+  label: 'Content',
+  description: 'Handles LinkedIn content creation, drafts, research, topics, and writing assistance',
+  keywords: ['draft', 'write', 'post', 'LinkedIn', 'content', 'article', 'topic'],
+  examples: ['Write a LinkedIn post about...', 'Show my drafts', 'Add topic...'],
+  quickPatterns: [
+    /^(write|draft|create|edit)\s+(a\s+)?(linkedin|post|article|content)/,
+    /^show\s+(my\s+)?drafts?/,
+    /^(approve|reject)\s+(draft|this)/,
+    /^what.*topics?/,
+    /^add\s+topic/,
+    /^search\s+(my\s+)?(drafts|research|interviews|topics|content)/,
+    /^synthesi[sz]e\s+(my\s+|the\s+)?(research|signals)/
+  ],
+  toolRisks: CONTENT_TOOL_RISKS
+};
+
+// What fetchUrl returns for a page it couldn't read
+const NO_CONTENT = "No content extracted";
+
+// Overridable so tests can point web search at a local fake
+const tavilyBaseUrl = (): string => process.env.TAVILY_API_BASE_URL || 'https://api.tavily.com';
+
+export class ContentAgent implements Agent {
+  readonly definition = CONTENT_AGENT_DEFINITION;
   private draftStorage: DraftStorage;
   private researchStorage: ResearchStorage;
+  private contentSearch: ContentSearch;
+  private signalLog: SignalLog;
+  private synthesizer: ResearchSynthesizer;
+  private criticLoop: CriticLoop;
+  private actionLog: ActionLogStorage;
   private llm: LLMClient;
 
-  constructor(db: Database.Database, llm: LLMClient) {
+  constructor(db: Database.Database, llm: LLMClient, embeddings?: EmbeddingProvider, critic?: CriticLoopOptions) {
     this.draftStorage = new DraftStorage(db);
     this.researchStorage = new ResearchStorage(db);
+    this.contentSearch = new ContentSearch(db);
+    this.signalLog = new SignalLog(db, embeddings);
+    this.synthesizer = new ResearchSynthesizer(db, llm);
+    this.criticLoop = new CriticLoop(db, llm, critic);
+    this.actionLog = new ActionLogStorage(db);
     this.llm = llm;
   }
 
@@ -26,59 +125,145 @@ export class ContentAgent {
   async handle(
     message: string,
     history: Array<{ role: 'user' | 'assistant'; content: string }>,
-    entities: ExtractedEntity[]
+    entities: ExtractedEntity[],
+    options: AgentHandleOptions = {}
   ): Promise<AgentResponse> {
-    const tools = this.getTools();
+    const createdDrafts: Draft[] = [];
+    const syntheses: ResearchSynthesis[] = [];
+    let pendingAction: PendingAction | undefined;
+    const tools = gateTools(this.getTools(createdDrafts, options.contextId, options.userId, syntheses), {
+      agent: 'content',
+      risks: CONTENT_TOOL_RISKS,
+      policy: options.toolPolicy,
+      access: options.toolAccess,
+      onHold: pending => { pendingAction = pending; }
+    });
 
     // Load skills and build system prompt
     const skillsPrompt = getSkillsPrompt('content');
     const systemPrompt = CONTENT_AGENT_SYSTEM_PROMPT + skillsPrompt;
 
-    const response = await this.llm.chat(
+    const { text: response, trace, model } = await this.llm.chatWithTrace(
       message,
       history.map(h => ({ role: h.role, content: h.content })),
       {
         systemPrompt,
         tools,
-        maxSteps: 10
+        maxSteps: 10,
+        onEvent: options.onEvent,
+        purpose: 'content',
+        caller: { agent: 'content', userId: options.userId }
       }
     );
 
-    // Extract any entities mentioned in the response
-    const responseEntities: EntityRef[] = [];
-
-    // Check if a draft was created/mentioned and add as entity
-    const drafts = await this.listDrafts();
-    if (drafts.length > 0) {
-      const latestDraft = drafts[0];
-      if (response.toLowerCase().includes(latestDraft.title.toLowerCase())) {
-        responseEntities.push({
-          type: 'contact', // Using 'contact' as a general entity type
-          id: latestDraft.id,
-          name: latestDraft.title,
-          mentionedAt: new Date().toISOString()
-        });
-      }
-    }
+    // Track the drafts the tools touched so follow-ups can refer to them
+    const actions = traceToActions(trace, CONTENT_TOOL_ENTITIES);
 
     return {
       message: response,
-      entities: responseEntities
+      entities: actionsToEntities(actions, (_type, draft) => draft?.title),
+      actions,
+      drafts: this.refreshDrafts(createdDrafts),
+      syntheses,
+      pendingAction,
+      model
     };
   }
 
-  // Get tools for this agent
-  private getTools() {
+  // Run a tool call the user confirmed
+  async resume(pending: PendingAction, options: AgentHandleOptions = {}): Promise<AgentResponse> {
+    const createdDrafts: Draft[] = [];
+    const syntheses: ResearchSynthesis[] = [];
+    const { message, trace } = await runPendingAction(this.getTools(createdDrafts, options.contextId, options.userId, syntheses), pending);
+    const actions = traceToActions(trace, CONTENT_TOOL_ENTITIES);
+
+    return {
+      message,
+      entities: actionsToEntities(actions, (_type, draft) => draft?.title),
+      actions,
+      drafts: this.refreshDrafts(createdDrafts),
+      syntheses
+    };
+  }
+
+  // Re-read drafts touched during the turn so their cards show later edits and citations
+  private refreshDrafts(drafts: Draft[]): Draft[] {
+    return drafts.map(draft => this.draftStorage.get(draft.id) ?? draft);
+  }
+
+  // Replay an inverse recorded by one of the tools below
+  async undo(operation: UndoOperation): Promise<void> {
+    const { id } = operation.args;
+    switch (operation.op) {
+      case 'deleteDraft':
+        await this.deleteDraft(id);
+        return;
+      case 'restoreVersion':
+        this.draftStorage.restoreVersion(id, operation.args.version);
+        return;
+      case 'setStatus':
+        this.draftStorage.updateStatus(id, operation.args.status, operation.args.feedback);
+        return;
+      case 'deleteTopic':
+        this.researchStorage.deleteTopic(id);
+        return;
+      case 'deleteResearch':
+        for (const researchId of operation.args.ids) this.researchStorage.deleteResearchItem(researchId);
+        return;
+      case 'uncite':
+        this.researchStorage.unlinkFromDraft(id, operation.args.researchIds);
+        return;
+      case 'deleteSignal':
+        this.researchStorage.deleteSignal(id);
+        return;
+      case 'uncountSignal':
+        this.researchStorage.uncountSignal(id, operation.args.date);
+        return;
+      case 'deleteSynthesis':
+        this.synthesizer.syntheses.delete(id);
+        return;
+      default:
+        throw new Error(`Unknown content undo operation: ${operation.op}`);
+    }
+  }
+
+  // Get tools for this agent. Drafts created by the LLM are collected so they
+  // can be posted for approval once the turn completes. Mutations are recorded
+  // in the action log for the conversation so "undo that" can reverse them.
+  // Search hits and fetched pages are kept for the turn so saveResearch can
+  // file them without fetching again. Syntheses are collected like drafts so
+  // their angles can be posted as buttons.
+  private getTools(createdDrafts: Draft[] = [], contextId?: string, userId?: string, syntheses: ResearchSynthesis[] = []) {
+    const seen = new Map<string, ResearchCandidate>();
+    const logAction = (toolName: string, description: string, inverse: UndoOperation | null) => {
+      if (contextId) this.actionLog.record({ contextId, agent: 'content', toolName, description, inverse });
+    };
+    // Version to go back to after an edit (edits to pre-versioning drafts snapshot them as version 1)
+    const currentVersion = (id: string) => Math.max(this.draftStorage.latestVersion(id), 1);
+    const statusUndo = (id: string): UndoOperation | null => {
+      const draft = this.draftStorage.get(id);
+      return draft ? { op: 'setStatus', args: { id, status: draft.status, feedback: draft.feedback } } : null;
+    };
+
     return {
       createDraft: tool({
         description: "Create a new content draft",
         inputSchema: z.object({
           title: z.string().describe("Title of the content"),
           body: z.string().describe("Main content/body of the draft"),
-          contentType: z.enum(["linkedin_post", "linkedin_article", "blog_post"]).describe("Type of content")
+          contentType: z.enum(["linkedin_post", "linkedin_article", "blog_post"]).describe("Type of content"),
+          researchIds: z.array(z.string()).optional().describe("IDs of saved research items the draft draws on (optional)")
         }),
-        execute: async ({ title, body, contentType }) => {
+        execute: async ({ title, body, contentType, researchIds }) => {
+          // A bad research id fails before the draft exists, so a retry doesn't duplicate it
+          this.requireResearch(researchIds || []);
           const draft = await this.createDraft({ title, body, contentType });
+          createdDrafts.push(draft);
+          // Undoing the draft drops its citations too
+          logAction('createDraft', `Created draft "${title}"`, { op: 'deleteDraft', args: { id: draft.id } });
+          if (researchIds?.length) {
+            return JSON.stringify((await this.citeResearch(draft.id, researchIds)).draft);
+          }
           return JSON.stringify(draft);
         }
       }),
@@ -104,14 +289,58 @@ export class ContentAgent {
       }),
 
       updateDraft: tool({
-        description: "Update an existing draft's title or body",
+        description: "Update an existing draft's title or body. The previous wording is kept as a version.",
         inputSchema: z.object({
           id: z.string().describe("Draft ID (UUID)"),
           title: z.string().optional().describe("New title (optional)"),
-          body: z.string().optional().describe("New body content (optional)")
+          body: z.string().optional().describe("New body content (optional)"),
+          note: z.string().optional().describe("Short description of what changed (optional)")
         }),
-        execute: async ({ id, title, body }) => {
-          const draft = await this.updateDraft(id, { title, body });
+        execute: async ({ id, title, body, note }) => {
+          const version = currentVersion(id);
+          const draft = await this.updateDraft(id, { title, body }, note);
+          logAction('updateDraft', `Edited draft "${draft.title}"`, { op: 'restoreVersion', args: { id, version } });
+          return JSON.stringify(draft);
+        }
+      }),
+
+      listDraftVersions: tool({
+        description: "List the version history of a draft",
+        inputSchema: z.object({
+          id: z.string().describe("Draft ID (UUID)")
+        }),
+        execute: async ({ id }) => {
+          const versions = await this.listDraftVersions(id);
+          return JSON.stringify(versions);
+        }
+      }),
+
+      diffDraftVersions: tool({
+        description: "Show what changed between two versions of a draft",
+        inputSchema: z.object({
+          id: z.string().describe("Draft ID (UUID)"),
+          fromVersion: z.number().describe("Older version number"),
+          toVersion: z.number().optional().describe("Newer version number (defaults to the latest)")
+        }),
+        execute: async ({ id, fromVersion, toVersion }) => {
+          return this.diffDraftVersions(id, fromVersion, toVersion);
+        }
+      }),
+
+      restoreDraftVersion: tool({
+        description: "Roll a draft back to an earlier version (e.g. \"go back to version 2\")",
+        inputSchema: z.object({
+          id: z.string().describe("Draft ID (UUID)"),
+          version: z.number().describe("Version number to restore")
+        }),
+        execute: async ({ id, version }) => {
+          const previous = currentVersion(id);
+          const draft = await this.restoreDraftVersion(id, version);
+          logAction(
+            'restoreDraftVersion',
+            `Restored draft "${draft.title}" to version ${version}`,
+            { op: 'restoreVersion', args: { id, version: previous } }
+          );
           return JSON.stringify(draft);
         }
       }),
@@ -123,7 +352,9 @@ export class ContentAgent {
           feedback: z.string().optional().describe("Optional feedback on why it was approved")
         }),
         execute: async ({ id, feedback }) => {
+          const inverse = statusUndo(id);
           const draft = await this.updateDraftStatus(id, "approved", feedback);
+          logAction('approveDraft', `Approved draft "${draft.title}"`, inverse);
           return JSON.stringify(draft);
         }
       }),
@@ -135,7 +366,9 @@ export class ContentAgent {
           feedback: z.string().describe("Reason for rejection")
         }),
         execute: async ({ id, feedback }) => {
+          const inverse = statusUndo(id);
           const draft = await this.updateDraftStatus(id, "rejected", feedback);
+          logAction('rejectDraft', `Rejected draft "${draft.title}"`, inverse);
           return JSON.stringify(draft);
         }
       }),
@@ -146,7 +379,10 @@ export class ContentAgent {
           id: z.string().describe("Draft ID (UUID)")
         }),
         execute: async ({ id }) => {
+          const draft = this.draftStorage.get(id);
           await this.deleteDraft(id);
+          // Versions are deleted with the draft, so this can't be reversed
+          logAction('deleteDraft', `Deleted draft "${draft?.title || id}"`, null);
           return "Draft deleted successfully";
         }
       }),
@@ -159,6 +395,7 @@ export class ContentAgent {
         }),
         execute: async ({ question, answer }) => {
           const entry = await this.addInterview(question, answer);
+          logAction('addInterview', `Added interview answer to "${question.slice(0, 60)}"`, null);
           return JSON.stringify(entry);
         }
       }),
@@ -171,6 +408,7 @@ export class ContentAgent {
         }),
         execute: async ({ topic, notes }) => {
           const entry = await this.addTopic(topic, notes);
+          logAction('addTopic', `Queued topic "${topic}"`, { op: 'deleteTopic', args: { id: entry.id } });
           return JSON.stringify(entry);
         }
       }),
@@ -192,6 +430,9 @@ export class ContentAgent {
         }),
         execute: async ({ query, numResults = 5 }) => {
           const results = await this.webSearch(query, numResults);
+          for (const result of results) {
+            if (!seen.has(result.url)) seen.set(result.url, { url: result.url, title: result.title, text: result.snippet });
+          }
           return JSON.stringify(results, null, 2);
         }
       }),
@@ -203,18 +444,175 @@ export class ContentAgent {
         }),
         execute: async ({ url }) => {
           const content = await this.fetchUrl(url);
+          seen.set(url, { url, title: seen.get(url)?.title, text: content });
           return content;
         }
       }),
 
+      saveResearch: tool({
+        description: "Save web search results or fetched pages to the research library. A summary and tags are generated for each.",
+        inputSchema: z.object({
+          urls: z.array(z.string()).describe("URLs of search results or pages to save"),
+          tags: z.array(z.string()).optional().describe("Extra tags to add to every item (optional)")
+        }),
+        execute: async ({ urls, tags = [] }) => {
+          const alreadySaved: ResearchItem[] = [];
+          const unreadable: string[] = [];
+          const candidates: ResearchCandidate[] = [];
+          for (const url of new Set(urls)) {
+            const existing = this.researchStorage.findResearchByUrl(url);
+            if (existing) {
+              alreadySaved.push(existing);
+              continue;
+            }
+            const candidate = seen.get(url) ?? { url, text: await this.fetchUrl(url) };
+            if (candidate.text === NO_CONTENT) unreadable.push(url);
+            else candidates.push(candidate);
+          }
+
+          const saved = await this.saveResearch(candidates, tags, userId);
+          if (saved.length > 0) {
+            logAction(
+              'saveResearch',
+              saved.length === 1 ? `Saved research "${saved[0].title}"` : `Saved ${saved.length} research items`,
+              { op: 'deleteResearch', args: { ids: saved.map(item => item.id) } }
+            );
+          }
+          return JSON.stringify({ saved, alreadySaved, ...(unreadable.length > 0 ? { unreadable } : {}) });
+        }
+      }),
+
+      searchResearch: tool({
+        description: "Search the research library by text, tag or source (e.g. \"reddit\")",
+        inputSchema: z.object({
+          query: z.string().optional().describe("Text to find in titles, summaries and tags"),
+          tag: z.string().optional().describe("Exact tag"),
+          source: z.string().optional().describe("Site the item came from, e.g. reddit or palantir"),
+          unusedOnly: z.boolean().optional().describe("Only items no draft has cited yet"),
+          limit: z.number().optional().describe("Maximum results (default 20)")
+        }),
+        execute: async ({ query, tag, source, unusedOnly, limit }) => {
+          const items = await this.searchResearch({ text: query, tag, source, unused: unusedOnly, limit });
+          return items.length > 0 ? JSON.stringify(items) : "No research items match";
+        }
+      }),
+
+      searchContent: tool({
+        description: "Full-text search across drafts, research, interview answers, topics and signals (e.g. \"which drafts mentioned Foundry ontology?\"). Matches come back ranked, with *highlighted* snippets.",
+        inputSchema: z.object({
+          query: z.string().describe("Words to find; wrap an exact phrase in double quotes"),
+          kinds: z.array(z.enum(CONTENT_KINDS as [ContentKind, ...ContentKind[]])).optional().describe("Only search these kinds (default: all)"),
+          limit: z.number().optional().describe("Maximum results (default 10)")
+        }),
+        execute: async ({ query, kinds, limit }) => {
+          const results = await this.searchContent(query, { kinds, limit });
+          return results.length > 0 ? JSON.stringify(results) : `No matches for "${query}"`;
+        }
+      }),
+
+      logSignal: tool({
+        description: "Log a recurring observation (a pain point, question or opinion heard from customers or online). An observation that means the same as a logged one counts towards it instead of being added.",
+        inputSchema: z.object({
+          observation: z.string().describe("What was observed, e.g. \"SMBs are drowning in Excel\""),
+          source: z.string().describe("Where it came from, e.g. reddit, a sales call, an interview"),
+          potentialAngle: z.string().describe("Content angle it suggests")
+        }),
+        execute: async ({ observation, source, potentialAngle }) => {
+          const recorded = await this.logSignal({ observation, source, potentialAngle });
+          const { signal } = recorded;
+          logAction(
+            'logSignal',
+            recorded.merged
+              ? `Counted "${truncate(observation, 60)}" towards signal "${truncate(signal.observation, 60)}"`
+              : `Logged signal "${truncate(observation, 60)}"`,
+            recorded.merged
+              ? { op: 'uncountSignal', args: { id: signal.id, date: recorded.previousDate } }
+              : { op: 'deleteSignal', args: { id: signal.id } }
+          );
+          return JSON.stringify(recorded);
+        }
+      }),
+
+      trendingSignals: tool({
+        description: "Recurring signals grouped by meaning, most frequent first, each with a suggested content angle",
+        inputSchema: z.object({
+          minFrequency: z.number().optional().describe("Only clusters seen at least this many times (default 2)"),
+          limit: z.number().optional().describe("Maximum clusters (default 10)")
+        }),
+        execute: async ({ minFrequency = 2, limit }) => {
+          const clusters = await this.trendingSignals({ minFrequency, limit });
+          return clusters.length > 0 ? JSON.stringify(clusters) : "No recurring signals yet";
+        }
+      }),
+
+      synthesizeResearch: tool({
+        description: "Synthesize saved research and signals from a date range or tag set into themes and content angles. The angles are offered to the user as buttons that add them to the topic queue.",
+        inputSchema: z.object({
+          since: z.string().optional().describe("Start date (YYYY-MM-DD); default: the last 14 days when no dates or tags are given"),
+          until: z.string().optional().describe("End date (YYYY-MM-DD, optional)"),
+          tags: z.array(z.string()).optional().describe("Only research with any of these tags; leaves signals out (optional)")
+        }),
+        execute: async ({ since, until, tags }) => {
+          const synthesis = await this.synthesizeResearch({ since, until, tags }, userId);
+          if (!synthesis) return "No research or signals in that range";
+          syntheses.push(synthesis);
+          logAction(
+            'synthesizeResearch',
+            `Synthesized ${synthesis.researchIds.length} research items and ${synthesis.signalIds.length} signals`,
+            { op: 'deleteSynthesis', args: { id: synthesis.id } }
+          );
+          return JSON.stringify(synthesis);
+        }
+      }),
+
+      citeResearch: tool({
+        description: "Link saved research items to a draft that uses them. They appear in the draft's Sources footer and are marked used.",
+        inputSchema: z.object({
+          draftId: z.string().describe("Draft ID (UUID)"),
+          researchIds: z.array(z.string()).describe("Research item IDs to cite")
+        }),
+        execute: async ({ draftId, researchIds }) => {
+          const { draft, linked } = await this.citeResearch(draftId, researchIds);
+          if (linked.length > 0) {
+            logAction(
+              'citeResearch',
+              `Cited ${linked.length} source${linked.length === 1 ? '' : 's'} in draft "${draft.title}"`,
+              { op: 'uncite', args: { id: draftId, researchIds: linked } }
+            );
+          }
+          return JSON.stringify(draft);
+        }
+      }),
+
       criticizeDraft: tool({
-        description: "Get critic feedback on a draft before human review",
+        description: "Score a draft against the critic rubric (hook, value, voice, structure, CTA; 1-10 each) and get the critique",
         inputSchema: z.object({
           id: z.string().describe("Draft ID to critique")
         }),
         execute: async ({ id }) => {
-          const feedback = await this.criticizeDraft(id);
-          return feedback;
+          const review = await this.criticizeDraft(id, userId);
+          return review ? JSON.stringify(review) : "Draft not found";
+        }
+      }),
+
+      refineDraft: tool({
+        description: "Have the critic score a draft and revise it until it clears the score threshold or runs out of rounds. Each round is saved as a version and the best-scoring one is kept.",
+        inputSchema: z.object({
+          id: z.string().describe("Draft ID (UUID)"),
+          maxRounds: z.number().int().min(0).max(MAX_ROUNDS).optional().describe(`Maximum revisions, 0-${MAX_ROUNDS} (optional)`),
+          threshold: z.number().min(1).max(10).optional().describe("Average score (1-10) that's good enough (optional)")
+        }),
+        execute: async ({ id, maxRounds, threshold }) => {
+          const version = currentVersion(id);
+          const result = await this.refineDraft(id, { maxRounds, threshold }, userId);
+          if (result.reviews.length > 1) {
+            logAction(
+              'refineDraft',
+              `Revised draft "${result.draft.title}" over ${result.reviews.length - 1} critic round${result.reviews.length === 2 ? '' : 's'}`,
+              { op: 'restoreVersion', args: { id, version } }
+            );
+          }
+          return JSON.stringify(result);
         }
       })
     };
@@ -229,19 +627,61 @@ export class ContentAgent {
     return this.draftStorage.list();
   }
 
-  async getDraft(id: string): Promise<Draft | null> {
-    return this.draftStorage.get(id);
+  async getDraft(id: string): Promise<DraftWithCriticFeedback | null> {
+    const draft = this.draftStorage.get(id);
+    if (!draft) return null;
+
+    return {
+      ...draft,
+      humanFeedback: draft.feedback ? [draft.feedback] : [],
+      version: this.draftStorage.latestVersion(id)
+    };
+  }
+
+  async updateDraft(id: string, updates: { title?: string; body?: string }, note?: string): Promise<Draft> {
+    return this.draftStorage.update(id, updates, note);
+  }
+
+  // Version history operations
+  async listDraftVersions(id: string): Promise<DraftVersion[]> {
+    return this.draftStorage.listVersions(id);
+  }
+
+  async diffDraftVersions(id: string, fromVersion: number, toVersion?: number): Promise<string> {
+    const target = toVersion ?? this.draftStorage.latestVersion(id);
+    const before = this.draftStorage.getVersion(id, fromVersion);
+    const after = this.draftStorage.getVersion(id, target);
+
+    if (!before || !after) {
+      return `Version ${!before ? fromVersion : target} not found for this draft`;
+    }
+
+    const sections: string[] = [];
+    if (before.title !== after.title) {
+      sections.push(`Title: "${before.title}" → "${after.title}"`);
+    }
+
+    const bodyDiff = diffLines(before.body, after.body);
+    if (bodyDiff.every(line => line.type === 'same')) {
+      sections.push('Body unchanged');
+    } else {
+      sections.push('```diff\n' + formatDiff(bodyDiff) + '\n```');
+    }
+
+    return `Changes from version ${fromVersion} to version ${target}:\n\n${sections.join('\n\n')}`;
   }
 
-  async updateDraft(id: string, updates: { title?: string; body?: string }): Promise<Draft> {
-    return this.draftStorage.update(id, updates);
+  async restoreDraftVersion(id: string, version: number): Promise<Draft> {
+    return this.draftStorage.restoreVersion(id, version);
   }
 
   async updateDraftStatus(id: string, status: 'approved' | 'rejected', feedback?: string): Promise<Draft> {
     return this.draftStorage.updateStatus(id, status, feedback);
   }
 
+  // Citations are dropped first so the research goes back to unused
   async deleteDraft(id: string): Promise<void> {
+    this.researchStorage.unlinkFromDraft(id);
     return this.draftStorage.delete(id);
   }
 
@@ -263,14 +703,75 @@ export class ContentAgent {
     return this.researchStorage.listTopics(limit);
   }
 
-  // Research operations
+  // Research library operations
+  async saveResearch(candidates: ResearchCandidate[], tags: string[] = [], userId?: string): Promise<ResearchItem[]> {
+    const descriptions = await describeResearch(this.llm, candidates, { agent: 'content', userId });
+    const date = new Date().toISOString();
+
+    return candidates.map((candidate, index) => this.researchStorage.createResearchItem({
+      date,
+      source: researchSource(candidate.url),
+      url: candidate.url,
+      title: descriptions[index].title,
+      summary: descriptions[index].summary,
+      tags: normalizeTags([...tags, ...descriptions[index].tags]),
+      usedInPost: false
+    }));
+  }
+
+  async searchResearch(options: { text?: string; tag?: string; source?: string; unused?: boolean; limit?: number }): Promise<ResearchItem[]> {
+    return this.researchStorage.searchResearchItems(options);
+  }
+
+  async searchContent(query: string, options: { kinds?: ContentKind[]; limit?: number } = {}): Promise<ContentSearchResult[]> {
+    return this.contentSearch.search(query, options);
+  }
+
+  // Signal operations
+  async logSignal(input: { observation: string; source: string; potentialAngle: string }): Promise<RecordedSignal> {
+    return this.signalLog.record(input);
+  }
+
+  async trendingSignals(options: { minFrequency?: number; limit?: number } = {}): Promise<SignalCluster[]> {
+    return this.signalLog.clusters(options);
+  }
+
+  // Dates are checked here so a bad one fails the tool call instead of matching nothing
+  async synthesizeResearch(options: SynthesisOptions, userId?: string): Promise<ResearchSynthesis | null> {
+    for (const date of [options.since, options.until]) {
+      if (date !== undefined && Number.isNaN(Date.parse(date))) {
+        throw new Error(`Invalid date: ${date}`);
+      }
+    }
+    return this.synthesizer.synthesize(options, { agent: 'content', userId });
+  }
+
+  // Returns the draft with its sources and the ids that weren't cited before
+  async citeResearch(draftId: string, researchIds: string[]): Promise<{ draft: Draft; linked: string[] }> {
+    if (!this.draftStorage.get(draftId)) {
+      throw new Error(`Draft not found: ${draftId}`);
+    }
+    this.requireResearch(researchIds);
+
+    const linked = this.researchStorage.linkToDraft(draftId, researchIds);
+    return { draft: this.draftStorage.get(draftId)!, linked };
+  }
+
+  private requireResearch(researchIds: string[]): void {
+    const missing = researchIds.filter(id => !this.researchStorage.getResearchItem(id));
+    if (missing.length > 0) {
+      throw new Error(`Research item not found: ${missing.join(', ')}`);
+    }
+  }
+
+  // Web research operations
   async webSearch(query: string, numResults: number = 5): Promise<SearchResult[]> {
     const apiKey = process.env.TAVILY_API_KEY;
     if (!apiKey) {
       throw new Error("TAVILY_API_KEY not configured. Add it to .env file.");
     }
 
-    const response = await fetch("https://api.tavily.com/search", {
+    const response = await fetch(`${tavilyBaseUrl()}/search`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json"
@@ -303,7 +804,7 @@ export class ContentAgent {
       throw new Error("TAVILY_API_KEY not configured. Add it to .env file.");
     }
 
-    const response = await fetch("https://api.tavily.com/extract", {
+    const response = await fetch(`${tavilyBaseUrl()}/extract`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json"
@@ -320,30 +821,69 @@ export class ContentAgent {
 
     const data = await response.json() as TavilyExtractResponse;
     if (data.results && data.results.length > 0) {
-      return data.results[0].raw_content || "No content extracted";
+      return data.results[0].raw_content || NO_CONTENT;
     }
-    return "No content extracted";
+    return NO_CONTENT;
   }
 
-  // Critic pass on a draft
-  async criticizeDraft(id: string): Promise<string> {
-    const draft = await this.getDraft(id);
-    if (!draft) {
-      return "Draft not found";
-    }
-
-    const message = `Please critique this ${draft.contentType}:
+  // Scored critic pass on a draft's current version
+  async criticizeDraft(id: string, userId?: string): Promise<CriticReview | null> {
+    if (!this.draftStorage.get(id)) return null;
+    return this.criticLoop.review(id, { agent: 'content', userId });
+  }
 
-Title: ${draft.title}
+  // Critic-revise loop; the best-scoring version is left as the draft
+  async refineDraft(id: string, options: CriticLoopOptions = {}, userId?: string): Promise<CriticLoopResult> {
+    return this.criticLoop.run(id, options, { agent: 'content', userId });
+  }
 
-Content:
-${draft.body}`;
+  // Gather pending drafts (refined by the critic loop), unused research, recurring
+  // signals and a synthesis of what came in since the last one for a
+  // scheduled checkpoint
+  async runCheckpoint(options: { researchLimit?: number; minSignalFrequency?: number } = {}): Promise<ContentCheckpointReport> {
+    const pending = this.draftStorage.listByStatus('pending');
+
+    // Drafts the critic already scored (and nobody has edited since) aren't revised again
+    const checkpoints: ContentCheckpoint[] = [];
+    for (const draft of pending) {
+      let checkpoint: ContentCheckpoint = { draft, criticFeedback: [], needsHumanReview: true };
+      try {
+        const stored = this.criticLoop.latestReview(draft.id);
+        const { draft: best, reviews, best: review } = stored
+          ? { draft, reviews: [stored], best: stored }
+          : await this.criticLoop.run(draft.id);
+        checkpoint = {
+          draft: best,
+          criticFeedback: [review.critique],
+          scores: review.scores,
+          rounds: reviews.length,
+          revised: best.title !== draft.title || best.body !== draft.body,
+          needsHumanReview: true
+        };
+      } catch (error) {
+        console.warn(`[ContentAgent] Critic failed for draft ${draft.id}:`, error);
+      }
+      checkpoints.push(checkpoint);
+    }
 
-    const feedback = await this.llm.chat(message, [], {
-      systemPrompt: CRITIC_SYSTEM_PROMPT
-    });
+    let synthesis: ResearchSynthesis | undefined;
+    try {
+      const since = this.synthesizer.syntheses.latestCheckpoint()?.createdAt;
+      synthesis = await this.synthesizer.synthesize({ ...(since ? { since } : {}), checkpoint: true }) ?? undefined;
+    } catch (error) {
+      console.warn('[ContentAgent] Research synthesis failed:', error);
+    }
 
-    return feedback;
+    return {
+      checkpoints,
+      synthesis,
+      research: {
+        items: this.researchStorage.listResearchItems({ unused: true, limit: options.researchLimit ?? 10 }),
+        signals: this.researchStorage.listSignals({ minFrequency: options.minSignalFrequency ?? 3, limit: 10 }),
+        trends: await this.signalLog.clusters({ minFrequency: options.minSignalFrequency ?? 3, limit: 5 })
+      },
+      generatedAt: new Date().toISOString()
+    };
   }
 }
 
@@ -0,0 +1,107 @@
+// Research library - file web search hits and fetched pages as ResearchItems
+// with a generated summary and tags
+
+import { z } from 'zod';
+import { LLMClient, LLMCaller } from '../../shared/llm.js';
+import { truncate } from '../../shared/slack.js';
+import { RESEARCH_TAGGING_PROMPT } from './prompts.js';
+
+// A page seen this turn, before it is saved
+export interface ResearchCandidate {
+  url: string;
+  title?: string;
+  text: string;  // Search snippet or extracted page content
+}
+
+export interface ResearchDescription {
+  title: string;
+  summary: string;
+  tags: string[];
+}
+
+const descriptionSchema = z.object({
+  items: z.array(z.object({
+    title: z.string(),
+    summary: z.string(),
+    tags: z.array(z.string())
+  }))
+});
+
+const MAX_TAGS = 5;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'because', 'been', 'before', 'being', 'between', 'could', 'does', 'each',
+  'every', 'from', 'have', 'here', 'into', 'just', 'like', 'more', 'most', 'much', 'only', 'other',
+  'over', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'through', 'very', 'what', 'when', 'where', 'which', 'while', 'will', 'with',
+  'without', 'would', 'your', 'https', 'http', 'www'
+]);
+
+// Library source for a URL: the site name, e.g. "reddit" for old.reddit.com
+export const researchSource = (url: string): string => {
+  try {
+    const parts = new URL(url).hostname.replace(/^www\./, '').split('.');
+    return parts.length > 1 ? parts[parts.length - 2] : parts[0];
+  } catch {
+    return 'web';
+  }
+};
+
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(tag => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, ' ')).filter(Boolean))]
+    .slice(0, MAX_TAGS);
+
+// Used when the model is unavailable: the opening sentences and the most frequent words
+const fallbackDescription = (candidate: ResearchCandidate): ResearchDescription => {
+  const text = candidate.text.replace(/\s+/g, ' ').trim();
+  const sentences = text.match(/[^.!?]+[.!?]+/g)?.slice(0, 2).join('').trim() || text;
+
+  const counts = new Map<string, number>();
+  for (const word of `${candidate.title || ''} ${text}`.toLowerCase().match(/[a-z][a-z-]{3,}/g) || []) {
+    if (!STOP_WORDS.has(word)) counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  const keywords = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([word]) => word);
+
+  return {
+    title: candidate.title || truncate(text, 80) || candidate.url,
+    summary: truncate(sentences, 280),
+    tags: keywords
+  };
+};
+
+// One model call for the whole batch; falls back per item if it fails or comes back short
+export const describeResearch = async (
+  llm: LLMClient,
+  candidates: ResearchCandidate[],
+  caller?: LLMCaller
+): Promise<ResearchDescription[]> => {
+  if (candidates.length === 0) return [];
+
+  let described: ResearchDescription[] = [];
+  try {
+    const prompt = candidates.map((candidate, index) =>
+      `## Item ${index + 1}\nURL: ${candidate.url}\nTitle: ${candidate.title || '(none)'}\n\n${truncate(candidate.text, 4000)}`
+    ).join('\n\n');
+    ({ items: described } = await llm.generateObject(prompt, descriptionSchema, {
+      systemPrompt: RESEARCH_TAGGING_PROMPT,
+      schemaName: 'research_items',
+      purpose: 'summarizer',
+      caller
+    }));
+  } catch (error) {
+    console.warn('[ContentAgent] Research tagging failed, using keywords:', error);
+  }
+
+  return candidates.map((candidate, index) => {
+    const fallback = fallbackDescription(candidate);
+    const description = described[index];
+    if (!description) return fallback;
+
+    const tags = normalizeTags(description.tags);
+    return {
+      title: candidate.title || description.title.trim() || fallback.title,
+      summary: description.summary.trim() || fallback.summary,
+      tags: tags.length > 0 ? tags : fallback.tags
+    };
+  });
+};
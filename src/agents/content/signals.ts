@@ -0,0 +1,132 @@
+// Signal log - recurring observations merged by embedding similarity, and
+// clustered into trends that suggest content angles
+
+import Database from 'better-sqlite3';
+import { ResearchStorage } from '../../db/research.js';
+import { EmbeddingProvider, HashingEmbeddings, cosineSimilarity } from '../../shared/embeddings.js';
+import { SignalCluster, SignalLogEntry } from './types.js';
+
+export interface SignalInput {
+  source: string;
+  observation: string;
+  potentialAngle: string;
+  date?: string;            // Default: now
+}
+
+export interface RecordedSignal {
+  signal: SignalLogEntry;
+  merged: boolean;          // Counted against an existing signal instead of added
+  similarity?: number;      // To the signal it was merged into
+  previousDate?: string;    // That signal's last-seen date before this sighting
+}
+
+export class SignalLog {
+  private storage: ResearchStorage;
+  private fallback = new HashingEmbeddings();
+
+  constructor(db: Database.Database, private embeddings: EmbeddingProvider = new HashingEmbeddings()) {
+    this.storage = new ResearchStorage(db);
+  }
+
+  // Count the observation against the most similar signal above the threshold, else add it
+  async record(input: SignalInput): Promise<RecordedSignal> {
+    const date = input.date ?? new Date().toISOString();
+    const { provider, vector, match } = await this.nearest(input.observation);
+    if (match) return this.count(match, date);
+
+    const signal = this.storage.createSignal({ ...input, date, frequency: 1 });
+    this.storage.saveSignalEmbedding(signal.id, provider.id, vector);
+    return { signal, merged: false };
+  }
+
+  // Count the observation against the most similar signal above the threshold;
+  // null when nothing logged means the same
+  async incrementSignalFrequency(observation: string, date?: string): Promise<RecordedSignal | null> {
+    const { match } = await this.nearest(observation);
+    return match ? this.count(match, date ?? new Date().toISOString()) : null;
+  }
+
+  async findSimilar(observation: string): Promise<{ signal: SignalLogEntry; similarity: number } | null> {
+    return (await this.nearest(observation)).match;
+  }
+
+  // Greedy clustering, most frequent signals first: each joins the first
+  // cluster whose leading signal it is similar to, or starts its own
+  async clusters(options: { minFrequency?: number; limit?: number } = {}): Promise<SignalCluster[]> {
+    const signals = this.storage.listSignals();
+    if (signals.length === 0) return [];
+
+    const { provider, vectors } = await this.signalVectors(signals);
+    const groups: Array<{ lead: number[]; members: SignalLogEntry[] }> = [];
+    for (const signal of signals) {
+      const vector = vectors.get(signal.id)!;
+      const group = groups.find(candidate => cosineSimilarity(candidate.lead, vector) >= provider.threshold);
+      if (group) group.members.push(signal);
+      else groups.push({ lead: vector, members: [signal] });
+    }
+
+    return groups
+      .map(({ members }): SignalCluster => ({
+        angle: members[0].potentialAngle,
+        observations: members.map(member => member.observation),
+        frequency: members.reduce((sum, member) => sum + member.frequency, 0),
+        signalIds: members.map(member => member.id),
+        lastSeen: members.reduce((latest, member) => (member.date > latest ? member.date : latest), members[0].date)
+      }))
+      .filter(cluster => cluster.frequency >= (options.minFrequency ?? 1))
+      .sort((a, b) => b.frequency - a.frequency || b.lastSeen.localeCompare(a.lastSeen))
+      .slice(0, options.limit ?? 10);
+  }
+
+  private count(match: { signal: SignalLogEntry; similarity: number }, date: string): RecordedSignal {
+    this.storage.countSignal(match.signal.id, date);
+    return {
+      signal: this.storage.getSignal(match.signal.id)!,
+      merged: true,
+      similarity: match.similarity,
+      previousDate: match.signal.date
+    };
+  }
+
+  private async nearest(observation: string) {
+    const signals = this.storage.listSignals();
+    const { provider, vectors } = await this.signalVectors(signals, observation);
+    const vector = vectors.get('')!;
+
+    let match: { signal: SignalLogEntry; similarity: number } | null = null;
+    for (const signal of signals) {
+      const similarity = cosineSimilarity(vector, vectors.get(signal.id)!);
+      if (similarity >= provider.threshold && (!match || similarity > match.similarity)) {
+        match = { signal, similarity };
+      }
+    }
+    return { provider, vector, match };
+  }
+
+  // Stored vectors for the signals, embedding (and saving) any that are
+  // missing, plus `text` under the key ''. If the configured provider fails,
+  // everything is embedded with the offline fallback instead.
+  private async signalVectors(signals: SignalLogEntry[], text?: string) {
+    try {
+      return { provider: this.embeddings, vectors: await this.vectorsWith(this.embeddings, signals, text) };
+    } catch (error) {
+      if (this.embeddings.id === this.fallback.id) throw error;
+      console.warn(`[SignalLog] ${this.embeddings.id} embeddings failed, using ${this.fallback.id}:`, error);
+      return { provider: this.fallback as EmbeddingProvider, vectors: await this.vectorsWith(this.fallback, signals, text) };
+    }
+  }
+
+  private async vectorsWith(provider: EmbeddingProvider, signals: SignalLogEntry[], text?: string): Promise<Map<string, number[]>> {
+    const vectors = this.storage.listSignalEmbeddings(provider.id);
+    const missing = signals.filter(signal => !vectors.has(signal.id));
+    const texts = [...missing.map(signal => signal.observation), ...(text === undefined ? [] : [text])];
+
+    const embedded = await provider.embed(texts);
+    missing.forEach((signal, index) => {
+      vectors.set(signal.id, embedded[index]);
+      this.storage.saveSignalEmbedding(signal.id, provider.id, embedded[index]);
+    });
+    if (text !== undefined) vectors.set('', embedded[missing.length]);
+    return vectors;
+  }
+}
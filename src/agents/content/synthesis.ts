@@ -0,0 +1,103 @@
+// Research synthesis - run RESEARCH_SYNTHESIS_PROMPT over the research items
+// and signals from a date range or tag set, and keep the result with its inputs
+
+import Database from 'better-sqlite3';
+import { z } from 'zod';
+import { LLMClient, LLMCaller } from '../../shared/llm.js';
+import { ResearchStorage } from '../../db/research.js';
+import { SynthesisStorage } from '../../db/syntheses.js';
+import { truncate } from '../../shared/slack.js';
+import { RESEARCH_SYNTHESIS_PROMPT } from './prompts.js';
+import { ResearchItem, ResearchSynthesis, SignalLogEntry } from './types.js';
+
+export interface SynthesisOptions {
+  since?: string;     // ISO date; with no dates or tags, the last DEFAULT_DAYS days
+  until?: string;
+  tags?: string[];    // Research items with any of these tags; signals aren't tagged, so they're left out
+  checkpoint?: boolean; // A scheduled run, which the next checkpoint's window starts from
+}
+
+const DEFAULT_DAYS = 14;
+const MAX_RESEARCH = 30;
+const MAX_SIGNALS = 20;
+
+const synthesisSchema = z.object({
+  synthesis: z.string(),
+  angles: z.array(z.object({
+    title: z.string(),
+    rationale: z.string()
+  }))
+});
+
+const describeInputs = (items: ResearchItem[], signals: SignalLogEntry[]): string => {
+  const sections: string[] = [];
+  if (items.length > 0) {
+    sections.push(`## Research items\n${items.map((item, index) =>
+      `${index + 1}. ${item.title} (${item.source}, ${item.date.slice(0, 10)}${item.tags.length ? `, tags: ${item.tags.join(', ')}` : ''})\n   ${truncate(item.summary, 500)}`
+    ).join('\n')}`);
+  }
+  if (signals.length > 0) {
+    sections.push(`## Signals\n${signals.map(signal =>
+      `- ${signal.observation} (×${signal.frequency}, ${signal.source}) → ${signal.potentialAngle}`
+    ).join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
+
+export class ResearchSynthesizer {
+  readonly syntheses: SynthesisStorage;
+  private research: ResearchStorage;
+
+  constructor(db: Database.Database, private llm: LLMClient) {
+    this.syntheses = new SynthesisStorage(db);
+    this.research = new ResearchStorage(db);
+  }
+
+  // Null when nothing falls in the range, so no model call is made
+  async synthesize(options: SynthesisOptions = {}, caller?: LLMCaller): Promise<ResearchSynthesis | null> {
+    const tags = (options.tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean);
+    const since = options.since ?? (options.until || tags.length > 0
+      ? undefined
+      : new Date(Date.now() - DEFAULT_DAYS * 24 * 60 * 60 * 1000).toISOString());
+    const range = { since, until: options.until };
+
+    const items = this.research.searchResearchItems({ ...range, tags, limit: MAX_RESEARCH });
+    const signals = tags.length > 0 ? [] : this.research.listSignals({ ...range, limit: MAX_SIGNALS });
+    if (items.length === 0 && signals.length === 0) return null;
+
+    const result = await this.llm.generateObject(describeInputs(items, signals), synthesisSchema, {
+      systemPrompt: RESEARCH_SYNTHESIS_PROMPT,
+      schemaName: 'research_synthesis',
+      purpose: 'summarizer',
+      caller: caller ?? { agent: 'content' }
+    });
+
+    return this.syntheses.create({
+      ...range,
+      tags,
+      synthesis: result.synthesis.trim(),
+      angles: result.angles.map(angle => ({ title: angle.title.trim(), rationale: angle.rationale.trim() })),
+      researchIds: items.map(item => item.id),
+      signalIds: signals.map(signal => signal.id),
+      ...(options.checkpoint ? { checkpoint: true } : {})
+    });
+  }
+}
+
+export const formatSynthesis = (synthesis: ResearchSynthesis): string => {
+  const scope = [
+    synthesis.since ? `since ${synthesis.since.slice(0, 10)}` : '',
+    synthesis.until ? `until ${synthesis.until.slice(0, 10)}` : '',
+    synthesis.tags.length ? `tagged ${synthesis.tags.join(', ')}` : ''
+  ].filter(Boolean).join(', ');
+
+  const angles = synthesis.angles.map((angle, index) =>
+    `${index + 1}. ${angle.title} — ${angle.rationale}${angle.topicId ? ' (queued)' : ''}`
+  );
+
+  return [
+    `Research synthesis (${synthesis.researchIds.length} research items, ${synthesis.signalIds.length} signals${scope ? `, ${scope}` : ''})`,
+    synthesis.synthesis,
+    angles.length > 0 ? `Angles:\n${angles.join('\n')}` : ''
+  ].filter(Boolean).join('\n\n');
+};
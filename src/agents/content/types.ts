@@ -1,15 +1,19 @@
 // Content Agent types
 
-import { Draft, ContentType, ApprovalStatus, ResearchItem, SignalLogEntry, InterviewEntry, TopicQueueItem } from '../../shared/types.js';
+import { Draft, DraftVersion, ContentType, ApprovalStatus, ResearchItem, SignalLogEntry, InterviewEntry, TopicQueueItem, ResearchSynthesis, SynthesisAngle, RubricScores } from '../../shared/types.js';
 
 export {
   Draft,
+  DraftVersion,
   ContentType,
   ApprovalStatus,
   ResearchItem,
   SignalLogEntry,
   InterviewEntry,
-  TopicQueueItem
+  TopicQueueItem,
+  ResearchSynthesis,
+  SynthesisAngle,
+  RubricScores
 };
 
 export interface CreateDraftInput {
@@ -32,11 +36,32 @@ export interface DraftWithCriticFeedback extends Draft {
 export interface ResearchResult {
   items: ResearchItem[];
   signals: SignalLogEntry[];
+  trends?: SignalCluster[];
   synthesis?: string;
 }
 
+// Signals that say the same thing, grouped by embedding similarity
+export interface SignalCluster {
+  angle: string;            // Suggested topic: the potential angle of the most frequent signal
+  observations: string[];   // Most frequent first
+  frequency: number;        // Total across the cluster
+  signalIds: string[];
+  lastSeen: string;
+}
+
 export interface ContentCheckpoint {
-  draft: Draft;
+  draft: Draft;             // The best-scoring version once the critic loop has run
   criticFeedback: string[];
+  scores?: RubricScores;    // Of that version
+  rounds?: number;          // Versions the critic scored
+  revised?: boolean;        // The loop changed the text, so earlier approval cards are out of date
   needsHumanReview: boolean;
 }
+
+// Everything gathered for a scheduled content checkpoint
+export interface ContentCheckpointReport {
+  checkpoints: ContentCheckpoint[];
+  research: ResearchResult;
+  synthesis?: ResearchSynthesis;  // Posted as its own card, with angles to queue
+  generatedAt: string;
+}
@@ -0,0 +1,73 @@
+// Per-request credentials - resolves which HubSpot/Linear account a Slack user acts as
+
+import Database from 'better-sqlite3';
+import { UserStorage, HubSpotTokens } from '../db/users.js';
+import { HubSpotConfig } from './hubspot/types.js';
+import { LinearApiConfig } from './linear/types.js';
+import { createHubSpotOAuth, TokenStore } from './hubspot/oauth.js';
+import { createAuthError } from '../shared/errors.js';
+
+export interface CredentialsConfig {
+  encryptionKey?: string;   // Key for credentials stored in the users table
+  sharedFallback?: boolean; // Use the env credentials for users who haven't connected (default: true)
+}
+
+// Refresh OAuth tokens this long before they expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export class CredentialResolver {
+  readonly users: UserStorage;
+  private sharedFallback: boolean;
+
+  constructor(db: Database.Database, config: CredentialsConfig = {}) {
+    this.users = new UserStorage(db, config.encryptionKey);
+    this.sharedFallback = config.sharedFallback ?? true;
+  }
+
+  // The user's own Linear key, else the shared LINEAR_API_KEY when allowed
+  async linear(userId?: string): Promise<LinearApiConfig | null> {
+    const apiKey = userId ? this.users.get(userId)?.linearApiKey : undefined;
+    if (apiKey) return { apiKey };
+
+    const sharedKey = process.env.LINEAR_API_KEY;
+    return this.sharedFallback && sharedKey ? { apiKey: sharedKey } : null;
+  }
+
+  // The user's own HubSpot token (refreshed if needed), else the shared token or OAuth file
+  async hubspot(userId?: string): Promise<HubSpotConfig | null> {
+    const tokens = userId ? this.users.get(userId)?.hubspot : undefined;
+    if (tokens) return { accessToken: await this.freshHubSpotToken(userId!, tokens) };
+
+    if (!this.sharedFallback) return null;
+    const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
+    // An empty token makes the client fall back to the shared OAuth token file
+    return accessToken || process.env.HUBSPOT_CLIENT_ID ? { accessToken: accessToken || '' } : null;
+  }
+
+  private async freshHubSpotToken(userId: string, tokens: HubSpotTokens): Promise<string> {
+    if (!tokens.refreshToken || !tokens.expiresAt || Date.now() < tokens.expiresAt - REFRESH_MARGIN_MS) {
+      return tokens.accessToken;
+    }
+
+    // Refreshed tokens are written back to the user's row
+    const store: TokenStore = {
+      load: async () => ({
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken!,
+        expiresAt: tokens.expiresAt!,
+        tokenType: 'bearer'
+      }),
+      save: async token => {
+        this.users.setHubSpotTokens(userId, {
+          accessToken: token.accessToken,
+          refreshToken: token.refreshToken,
+          expiresAt: token.expiresAt
+        });
+      }
+    };
+
+    const accessToken = await createHubSpotOAuth(undefined, store).getAccessToken();
+    if (!accessToken) throw createAuthError('HubSpot');
+    return accessToken;
+  }
+}
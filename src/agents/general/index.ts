@@ -0,0 +1,68 @@
+// General Agent - greetings, help, and anything no other agent claims
+
+import { LLMClient } from '../../shared/llm.js';
+import { AgentResponse, ExtractedEntity } from '../../shared/types.js';
+import { Agent, AgentCatalog, AgentDefinition, AgentHandleOptions } from '../registry.js';
+
+export const GENERAL_AGENT_DEFINITION: AgentDefinition = {
+  name: 'general',
+  label: 'General',
+  description: 'For general questions, greetings, or unclear requests',
+  keywords: [],
+  examples: [],
+  quickPatterns: [
+    /^(hi|hello|hey|good\s+(morning|afternoon|evening))/,
+    /^(thanks|thank\s+you)/,
+    /^help$/,
+    /^what\s+can\s+you\s+do/
+  ]
+};
+
+// Build the help prompt from whatever agents are registered
+export const buildGeneralSystemPrompt = (definitions: AgentDefinition[]): string => {
+  const specialists = definitions.filter(d => d.name !== 'general');
+
+  const capabilities = specialists
+    .map((d, i) => `${i + 1}. ${d.label} Agent: ${d.description}`)
+    .join('\n');
+
+  const commands = specialists
+    .filter(d => d.examples.length > 0)
+    .map(d => `- ${d.label}: ${d.examples.map(e => `"${e}"`).join(', ')}`)
+    .join('\n');
+
+  return `You are a helpful assistant with ${specialists.length} main capabilities:
+
+${capabilities}
+
+For general questions or greetings, respond helpfully. If the user's request is unclear, ask clarifying questions to understand what they need.
+
+Available commands:
+${commands}
+
+Be friendly and conversational, but concise.`;
+};
+
+export class GeneralAgent implements Agent {
+  readonly definition = GENERAL_AGENT_DEFINITION;
+
+  constructor(private llm: LLMClient, private catalog: AgentCatalog) {}
+
+  async handle(
+    message: string,
+    history: Array<{ role: 'user' | 'assistant'; content: string }>,
+    _entities: ExtractedEntity[],
+    options: AgentHandleOptions = {}
+  ): Promise<AgentResponse> {
+    const { text, model } = await this.llm.chatWithTrace(message, history.map(h => ({
+      role: h.role,
+      content: h.content
+    })), {
+      systemPrompt: buildGeneralSystemPrompt(this.catalog.definitions()),
+      onEvent: options.onEvent,
+      caller: { agent: 'general', userId: options.userId }
+    });
+
+    return { message: text, model };
+  }
+}
@@ -8,6 +8,7 @@ import {
   HubSpotTask,
   HubSpotNote,
   HubSpotApiResponse,
+  HubSpotObjectType,
   Pipeline
 } from './types.js';
 import {
@@ -23,9 +24,11 @@ const HUBSPOT_API_BASE = 'https://api.hubapi.com';
 export class HubSpotApiClient {
   private accessToken: string | null;
   private oauth: HubSpotOAuth | null = null;
+  private baseUrl: string;
 
   constructor(config: HubSpotConfig) {
     this.accessToken = config.accessToken || null;
+    this.baseUrl = config.baseUrl || process.env.HUBSPOT_API_BASE_URL || HUBSPOT_API_BASE;
     
     // If no access token but OAuth credentials exist, set up OAuth
     if (!this.accessToken && process.env.HUBSPOT_CLIENT_ID) {
@@ -62,7 +65,7 @@ export class HubSpotApiClient {
     const token = await this.getToken();
     
     return withRetry(async () => {
-      const response = await fetch(`${HUBSPOT_API_BASE}${endpoint}`, {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
         method,
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -172,6 +175,14 @@ export class HubSpotApiClient {
     return response.results || [];
   }
 
+  async listCompanies(limit: number = 100): Promise<HubSpotCompany[]> {
+    const response = await this.request<HubSpotApiResponse<HubSpotCompany>>(
+      'GET',
+      `/crm/v3/objects/companies?limit=${limit}&properties=name,domain,industry,lifecyclestage`
+    );
+    return response.results || [];
+  }
+
   // ===== DEALS =====
 
   async createDeal(properties: Record<string, string>): Promise<HubSpotDeal> {
@@ -259,6 +270,21 @@ export class HubSpotApiClient {
     return response.results || [];
   }
 
+  // ===== ANY OBJECT =====
+
+  async updateObject(
+    objectType: HubSpotObjectType,
+    id: string,
+    properties: Record<string, string>
+  ): Promise<{ id: string; properties: Record<string, string> }> {
+    return this.request('PATCH', `/crm/v3/objects/${objectType}/${id}`, { properties });
+  }
+
+  // Archive (soft-delete) an object - it can be restored from the HubSpot recycle bin
+  async archiveObject(objectType: HubSpotObjectType, id: string): Promise<void> {
+    await this.request<void>('DELETE', `/crm/v3/objects/${objectType}/${id}`);
+  }
+
   // ===== ASSOCIATIONS =====
 
   async associateContactToDeal(contactId: string, dealId: string): Promise<void> {
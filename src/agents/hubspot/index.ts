@@ -5,8 +5,13 @@ import { z } from 'zod';
 import { tool } from 'ai';
 import { LLMClient } from '../../shared/llm.js';
 import { HubSpotApiClient } from './api.js';
-import { AgentResponse, ExtractedEntity, EntityRef } from '../../shared/types.js';
+import { AgentResponse, ExtractedEntity, EntityType, PendingAction, ToolRisk, UndoOperation } from '../../shared/types.js';
+import { ActionLogStorage } from '../../db/action-log.js';
 import { getSkillsPrompt } from '../../shared/skills.js';
+import { traceToActions, actionsToEntities } from '../../shared/actions.js';
+import { gateTools, runPendingAction } from '../../shared/policy.js';
+import { Agent, AgentDefinition, AgentHandleOptions } from '../registry.js';
+import { CredentialResolver } from '../credentials.js';
 import {
   CreateContactInput,
   CreateCompanyInput,
@@ -14,7 +19,8 @@ import {
   CreateTaskInput,
   CreateNoteInput,
   HubSpotContact,
-  HubSpotDeal
+  HubSpotDeal,
+  HubSpotObjectType
 } from './types.js';
 
 const HUBSPOT_AGENT_SYSTEM_PROMPT = `You are a HubSpot CRM assistant. You help users manage their contacts, companies, deals, tasks, and notes through natural conversation.
@@ -75,35 +81,105 @@ const HUBSPOT_AGENT_SYSTEM_PROMPT = `You are a HubSpot CRM assistant. You help u
    - Bold important info
    - Keep it concise`;
 
-export class HubSpotAgent {
-  private api: HubSpotApiClient | null = null;
+// Entity type written by each tool, used to label actions
+const HUBSPOT_TOOL_ENTITIES: Record<string, string> = {
+  addContact: 'contact',
+  updateContact: 'contact',
+  addCompany: 'company',
+  createDeal: 'deal',
+  updateDealStage: 'deal',
+  createTask: 'task',
+  completeTask: 'task',
+  logNote: 'note'
+};
+
+// Risk of each tool, checked against the confirmation policy
+const HUBSPOT_TOOL_RISKS: Record<string, ToolRisk> = {
+  findContact: 'read',
+  listContacts: 'read',
+  findCompany: 'read',
+  listDeals: 'read',
+  pipelineSummary: 'read',
+  listTasks: 'read',
+  addContact: 'write',
+  updateContact: 'write',
+  addCompany: 'write',
+  createDeal: 'write',
+  updateDealStage: 'write',
+  createTask: 'write',
+  completeTask: 'write',
+  logNote: 'write'
+};
+
+export const HUBSPOT_AGENT_DEFINITION: AgentDefinition = {
+  name: 'hubspot',
+  label: 'HubSpot',
+  description: 'Handles CRM operations - contacts, companies, deals, tasks, and notes',
+  keywords: ['contact', 'company', 'deal', 'task', 'note', 'CRM', 'HubSpot', 'pipeline', 'follow up'],
+  hints: [
+    'Names with titles like "CTO at Company" → hubspot contact',
+    'Dollar amounts, deal stages → hubspot deal'
+  ],
+  examples: ['Add contact...', 'Create deal...', 'Log note on...', 'Follow up with...'],
+  quickPatterns: [
+    /^(add|create|update|find|show|list)\s+(a\s+)?(contact|company|deal|note)/,
+    /^(create|add)\s+(a\s+)?task\s+to\s+follow/,  // "create a task to follow up" -> hubspot
+    /^log\s+(a\s+)?note/,
+    /^(create|add)\s+.*as\s+a\s+contact/,
+    /^follow\s*up\s+(with|on)/,
+    /pipeline\s+summary/,
+    /show\s+(my\s+)?(deals|contacts)/,
+    /hubspot/i
+  ],
+  toolRisks: HUBSPOT_TOOL_RISKS
+};
+
+export class HubSpotAgent implements Agent {
+  readonly definition = HUBSPOT_AGENT_DEFINITION;
   private llm: LLMClient;
+  private actionLog: ActionLogStorage;
+  private credentials: CredentialResolver;
 
-  constructor(db: Database.Database, llm: LLMClient) {
+  constructor(db: Database.Database, llm: LLMClient, credentials: CredentialResolver = new CredentialResolver(db)) {
     this.llm = llm;
+    this.actionLog = new ActionLogStorage(db);
+    this.credentials = credentials;
+  }
+
+  // API client for the requesting user - supports both direct token and OAuth
+  private async client(userId?: string): Promise<HubSpotApiClient | null> {
+    const config = await this.credentials.hubspot(userId);
+    return config ? new HubSpotApiClient(config) : null;
+  }
 
-    // Initialize API client - supports both direct token and OAuth
-    const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
-    const clientId = process.env.HUBSPOT_CLIENT_ID;
-    
-    if (accessToken || clientId) {
-      this.api = new HubSpotApiClient({ accessToken: accessToken || '' });
+  private notConnected(userId?: string): AgentResponse {
+    if (!userId) {
+      return { message: "HubSpot is not configured. Please add HUBSPOT_ACCESS_TOKEN to your environment.", needsCredentials: 'hubspot' };
     }
+    return {
+      message: "HubSpot isn't connected for your account yet. I've sent you a DM with how to connect it.",
+      needsCredentials: 'hubspot'
+    };
   }
 
   // Main handler for HubSpot-related messages
   async handle(
     message: string,
     history: Array<{ role: 'user' | 'assistant'; content: string }>,
-    entities: ExtractedEntity[]
+    entities: ExtractedEntity[],
+    options: AgentHandleOptions = {}
   ): Promise<AgentResponse> {
-    if (!this.api) {
-      return {
-        message: "HubSpot is not configured. Please add HUBSPOT_ACCESS_TOKEN to your environment."
-      };
-    }
-
-    const tools = this.getTools();
+    const api = await this.client(options.userId);
+    if (!api) return this.notConnected(options.userId);
+
+    let pendingAction: PendingAction | undefined;
+    const tools = gateTools(this.getTools(api, options.contextId), {
+      agent: 'hubspot',
+      risks: HUBSPOT_TOOL_RISKS,
+      policy: options.toolPolicy,
+      access: options.toolAccess,
+      onHold: pending => { pendingAction = pending; }
+    });
 
     // Load skills and build system prompt
     const skillsPrompt = getSkillsPrompt('hubspot');
@@ -119,61 +195,92 @@ export class HubSpotAgent {
       }
     }
 
-    const response = await this.llm.chat(
+    const { text: response, trace, model } = await this.llm.chatWithTrace(
       message + contextAddition,
       history.map(h => ({ role: h.role, content: h.content })),
       {
         systemPrompt,
         tools,
-        maxSteps: 10
+        maxSteps: 10,
+        onEvent: options.onEvent,
+        purpose: 'crm',
+        caller: { agent: 'hubspot', userId: options.userId }
       }
     );
 
-    // Extract entities from the response for context tracking
-    const responseEntities = await this.extractEntitiesFromResponse(response);
+    // Track the objects the tools touched so follow-ups can refer to them
+    const actions = traceToActions(trace, HUBSPOT_TOOL_ENTITIES);
 
     return {
       message: response,
-      entities: responseEntities
+      entities: actionsToEntities(actions, (type, object) => this.entityName(type, object)),
+      actions,
+      pendingAction,
+      model
     };
   }
 
-  // Extract entities mentioned in the response
-  private async extractEntitiesFromResponse(response: string): Promise<EntityRef[]> {
-    const entities: EntityRef[] = [];
-
-    // Simple pattern matching for common formats
-    // "Added Maria Lopez" or "Created contact: Maria Lopez"
-    const contactPattern = /(?:Added|Created contact:?)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g;
-    let match;
-    while ((match = contactPattern.exec(response)) !== null) {
-      entities.push({
-        type: 'contact',
-        id: 'pending', // Will be resolved on next message
-        name: match[1],
-        mentionedAt: new Date().toISOString()
-      });
-    }
+  // Run a tool call the user confirmed
+  async resume(pending: PendingAction, options: AgentHandleOptions = {}): Promise<AgentResponse> {
+    const api = await this.client(options.userId);
+    if (!api) return this.notConnected(options.userId);
 
-    // "Created deal: Deal Name" or "Deal: Deal Name"
-    const dealPattern = /(?:Created deal:?|Deal:)\s+([^\n—]+)/g;
-    while ((match = dealPattern.exec(response)) !== null) {
-      entities.push({
-        type: 'deal',
-        id: 'pending',
-        name: match[1].trim(),
-        mentionedAt: new Date().toISOString()
-      });
-    }
+    const { message, trace } = await runPendingAction(this.getTools(api, options.contextId), pending);
+    const actions = traceToActions(trace, HUBSPOT_TOOL_ENTITIES);
 
-    return entities;
+    return {
+      message,
+      entities: actionsToEntities(actions, (type, object) => this.entityName(type, object)),
+      actions
+    };
   }
 
-  // Get tools for this agent
-  private getTools() {
-    if (!this.api) return {};
+  // Display name for an entity from its HubSpot object
+  private entityName(type: EntityType, object: any): string | undefined {
+    const props = object?.properties || {};
+    switch (type) {
+      case 'contact':
+        return [props.firstname, props.lastname].filter(Boolean).join(' ') || props.email;
+      case 'company':
+        return props.name;
+      case 'deal':
+        return props.dealname;
+      case 'task':
+        return props.hs_task_subject;
+      case 'note':
+        return props.hs_note_body?.slice(0, 60);
+      default:
+        return undefined;
+    }
+  }
+
+  // Replay an inverse recorded by one of the tools below
+  async undo(operation: UndoOperation, options: AgentHandleOptions = {}): Promise<void> {
+    const api = await this.client(options.userId);
+    if (!api) throw new Error('HubSpot not configured');
+
+    const { objectType, id, properties } = operation.args;
+    switch (operation.op) {
+      case 'archive':
+        await api.archiveObject(objectType, id);
+        return;
+      case 'update':
+        await api.updateObject(objectType, id, properties);
+        return;
+      default:
+        throw new Error(`Unknown HubSpot undo operation: ${operation.op}`);
+    }
+  }
 
-    const api = this.api;
+  // Get tools for this agent. Mutations are recorded in the action log for
+  // the conversation so "undo that" can reverse them.
+  private getTools(api: HubSpotApiClient, contextId?: string) {
+    const logAction = (toolName: string, description: string, inverse: UndoOperation | null) => {
+      if (contextId) this.actionLog.record({ contextId, agent: 'hubspot', toolName, description, inverse });
+    };
+    const archive = (objectType: HubSpotObjectType, id: string): UndoOperation => ({ op: 'archive', args: { objectType, id } });
+    const restore = (objectType: HubSpotObjectType, id: string, properties: Record<string, string>): UndoOperation =>
+      ({ op: 'update', args: { objectType, id, properties } });
 
     return {
       addContact: tool({
@@ -187,7 +294,8 @@ export class HubSpotAgent {
           phone: z.string().optional().describe("Phone number")
         }),
         execute: async (input) => {
-          const contact = await this.addContact(input);
+          const contact = await this.addContact(api, input);
+          logAction('addContact', `Added contact ${this.entityName('contact', contact) || contact.id}`, archive('contacts', contact.id));
           return JSON.stringify(contact);
         }
       }),
@@ -223,7 +331,10 @@ export class HubSpotAgent {
           if (updates.title) props.jobtitle = updates.title;
           if (updates.phone) props.phone = updates.phone;
 
+          const before = await api.getContact(id);
           const contact = await api.updateContact(id, props);
+          const previous = Object.fromEntries(Object.keys(props).map(key => [key, before.properties[key] ?? '']));
+          logAction('updateContact', `Updated ${Object.keys(props).join(', ')} on contact ${this.entityName('contact', before) || id}`, restore('contacts', id, previous));
           return JSON.stringify(contact);
         }
       }),
@@ -247,7 +358,8 @@ export class HubSpotAgent {
           industry: z.string().optional().describe("Industry")
         }),
         execute: async (input) => {
-          const company = await this.addCompany(input);
+          const company = await this.addCompany(api, input);
+          logAction('addCompany', `Added company ${input.name}`, archive('companies', company.id));
           return JSON.stringify(company);
         }
       }),
@@ -273,7 +385,8 @@ export class HubSpotAgent {
           pipeline: z.string().optional().describe("Pipeline name/ID")
         }),
         execute: async (input) => {
-          const deal = await this.createDeal(input);
+          const deal = await this.createDeal(api, input);
+          logAction('createDeal', `Created deal ${input.name}`, archive('deals', deal.id));
           return JSON.stringify(deal);
         }
       }),
@@ -285,7 +398,13 @@ export class HubSpotAgent {
           stage: z.string().describe("New stage name or ID")
         }),
         execute: async ({ id, stage }) => {
+          const before = await api.getDeal(id);
           const deal = await api.updateDeal(id, { dealstage: stage });
+          logAction(
+            'updateDealStage',
+            `Moved deal ${before.properties.dealname || id} from ${before.properties.dealstage || 'no stage'} to ${stage}`,
+            restore('deals', id, { dealstage: before.properties.dealstage || '' })
+          );
           return JSON.stringify(deal);
         }
       }),
@@ -324,7 +443,8 @@ export class HubSpotAgent {
           associatedDealId: z.string().optional().describe("Deal ID to associate with")
         }),
         execute: async (input) => {
-          const task = await this.createTask(input);
+          const task = await this.createTask(api, input);
+          logAction('createTask', `Created task ${input.subject}`, archive('tasks', task.id));
           return JSON.stringify(task);
         }
       }),
@@ -335,7 +455,13 @@ export class HubSpotAgent {
           id: z.string().describe("Task ID")
         }),
         execute: async ({ id }) => {
+          const before = await api.getTask(id);
           const task = await api.updateTask(id, { hs_task_status: 'COMPLETED' });
+          logAction(
+            'completeTask',
+            `Completed task ${before.properties.hs_task_subject || id}`,
+            restore('tasks', id, { hs_task_status: before.properties.hs_task_status || 'NOT_STARTED' })
+          );
           return JSON.stringify(task);
         }
       }),
@@ -359,8 +485,14 @@ export class HubSpotAgent {
           dealId: z.string().optional().describe("Deal ID to attach note to"),
           companyId: z.string().optional().describe("Company ID to attach note to")
         }),
-        execute: async (input) => {
-          const note = await this.logNote(input);
+        execute: async ({ body, contactId, dealId, companyId }) => {
+          const note = await this.logNote(api, {
+            body,
+            associatedContactId: contactId,
+            associatedDealId: dealId,
+            associatedCompanyId: companyId
+          });
+          logAction('logNote', `Logged note "${body.slice(0, 60)}"`, archive('notes', note.id));
           return JSON.stringify(note);
         }
       })
@@ -369,9 +501,7 @@ export class HubSpotAgent {
 
   // Helper methods
 
-  async addContact(input: CreateContactInput): Promise<HubSpotContact> {
-    if (!this.api) throw new Error('HubSpot not configured');
-
+  async addContact(api: HubSpotApiClient, input: CreateContactInput): Promise<HubSpotContact> {
     const properties: Record<string, string> = {};
     if (input.firstName) properties.firstname = input.firstName;
     if (input.lastName) properties.lastname = input.lastName;
@@ -380,22 +510,22 @@ export class HubSpotAgent {
     if (input.title) properties.jobtitle = input.title;
     if (input.phone) properties.phone = input.phone;
 
-    const contact = await this.api.createContact(properties);
+    const contact = await api.createContact(properties);
 
     // If company name provided, try to find or create company and associate
     if (input.company) {
       try {
-        const companies = await this.api.searchCompanies(input.company);
+        const companies = await api.searchCompanies(input.company);
         let companyId: string;
 
         if (companies.length > 0) {
           companyId = companies[0].id;
         } else {
-          const newCompany = await this.api.createCompany({ name: input.company });
+          const newCompany = await api.createCompany({ name: input.company });
           companyId = newCompany.id;
         }
 
-        await this.api.associateContactToCompany(contact.id, companyId);
+        await api.associateContactToCompany(contact.id, companyId);
       } catch (e) {
         // Non-fatal - contact was still created
         console.warn('Failed to associate contact with company:', e);
@@ -405,31 +535,25 @@ export class HubSpotAgent {
     return contact;
   }
 
-  async addCompany(input: CreateCompanyInput): Promise<any> {
-    if (!this.api) throw new Error('HubSpot not configured');
-
+  async addCompany(api: HubSpotApiClient, input: CreateCompanyInput): Promise<any> {
     const properties: Record<string, string> = { name: input.name };
     if (input.domain) properties.domain = input.domain;
     if (input.industry) properties.industry = input.industry;
 
-    return this.api.createCompany(properties);
+    return api.createCompany(properties);
   }
 
-  async createDeal(input: CreateDealInput): Promise<HubSpotDeal> {
-    if (!this.api) throw new Error('HubSpot not configured');
-
+  async createDeal(api: HubSpotApiClient, input: CreateDealInput): Promise<HubSpotDeal> {
     const properties: Record<string, string> = { dealname: input.name };
     if (input.stage) properties.dealstage = input.stage;
     if (input.amount) properties.amount = input.amount.toString();
     if (input.closeDate) properties.closedate = input.closeDate;
     if (input.pipeline) properties.pipeline = input.pipeline;
 
-    return this.api.createDeal(properties);
+    return api.createDeal(properties);
   }
 
-  async createTask(input: CreateTaskInput): Promise<any> {
-    if (!this.api) throw new Error('HubSpot not configured');
-
+  async createTask(api: HubSpotApiClient, input: CreateTaskInput): Promise<any> {
     const properties: Record<string, string> = {
       hs_task_subject: input.subject,
       hs_task_status: 'NOT_STARTED'
@@ -439,38 +563,36 @@ export class HubSpotAgent {
     if (input.dueDate) properties.hs_timestamp = new Date(input.dueDate).getTime().toString();
     if (input.priority) properties.hs_task_priority = input.priority;
 
-    const task = await this.api.createTask(properties);
+    const task = await api.createTask(properties);
 
     // Associate with contact or deal if specified
     if (input.associatedContactId) {
-      await this.api.associateTaskTo(task.id, 'contacts', input.associatedContactId);
+      await api.associateTaskTo(task.id, 'contacts', input.associatedContactId);
     }
     if (input.associatedDealId) {
-      await this.api.associateTaskTo(task.id, 'deals', input.associatedDealId);
+      await api.associateTaskTo(task.id, 'deals', input.associatedDealId);
     }
 
     return task;
   }
 
-  async logNote(input: CreateNoteInput): Promise<any> {
-    if (!this.api) throw new Error('HubSpot not configured');
-
+  async logNote(api: HubSpotApiClient, input: CreateNoteInput): Promise<any> {
     const properties: Record<string, string> = {
       hs_note_body: input.body,
       hs_timestamp: Date.now().toString()
     };
 
-    const note = await this.api.createNote(properties);
+    const note = await api.createNote(properties);
 
     // Associate with entities
     if (input.associatedContactId) {
-      await this.api.associateNoteTo(note.id, 'contacts', input.associatedContactId);
+      await api.associateNoteTo(note.id, 'contacts', input.associatedContactId);
     }
     if (input.associatedDealId) {
-      await this.api.associateNoteTo(note.id, 'deals', input.associatedDealId);
+      await api.associateNoteTo(note.id, 'deals', input.associatedDealId);
     }
     if (input.associatedCompanyId) {
-      await this.api.associateNoteTo(note.id, 'companies', input.associatedCompanyId);
+      await api.associateNoteTo(note.id, 'companies', input.associatedCompanyId);
     }
 
     return note;
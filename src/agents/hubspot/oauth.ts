@@ -20,8 +20,29 @@ export interface TokenData {
   tokenType: string;
 }
 
+// Where tokens are kept between runs
+export interface TokenStore {
+  load(): Promise<TokenData | null>;
+  save(token: TokenData): Promise<void>;
+}
+
 const TOKEN_FILE = path.join(process.cwd(), 'data', '.hubspot-token.json');
 
+// Single shared token on disk - the default for the CLI flow
+export const fileTokenStore: TokenStore = {
+  async load() {
+    try {
+      return JSON.parse(await fs.readFile(TOKEN_FILE, 'utf-8'));
+    } catch {
+      return null;
+    }
+  },
+  async save(token) {
+    await fs.mkdir(path.dirname(TOKEN_FILE), { recursive: true });
+    await fs.writeFile(TOKEN_FILE, JSON.stringify(token, null, 2));
+  }
+};
+
 // Generate PKCE code verifier and challenge
 function generatePKCE(): { verifier: string; challenge: string } {
   const verifier = randomBytes(32).toString('base64url');
@@ -32,28 +53,23 @@ function generatePKCE(): { verifier: string; challenge: string } {
 export class HubSpotOAuth {
   private config: OAuthConfig;
   private tokenData: TokenData | null = null;
+  private store: TokenStore;
 
-  constructor(config: OAuthConfig) {
+  constructor(config: OAuthConfig, store: TokenStore = fileTokenStore) {
     this.config = config;
+    this.store = store;
   }
 
-  // Load saved token from disk
+  // Load saved token from the store
   async loadToken(): Promise<TokenData | null> {
-    try {
-      const data = await fs.readFile(TOKEN_FILE, 'utf-8');
-      this.tokenData = JSON.parse(data);
-      return this.tokenData;
-    } catch {
-      return null;
-    }
+    this.tokenData = await this.store.load();
+    return this.tokenData;
   }
 
-  // Save token to disk
+  // Save token to the store
   async saveToken(token: TokenData): Promise<void> {
     this.tokenData = token;
-    const dir = path.dirname(TOKEN_FILE);
-    await fs.mkdir(dir, { recursive: true });
-    await fs.writeFile(TOKEN_FILE, JSON.stringify(token, null, 2));
+    await this.store.save(token);
   }
 
   // Check if token is valid and not expired
@@ -229,7 +245,7 @@ export class HubSpotOAuth {
 }
 
 // Default OAuth configuration
-export function createHubSpotOAuth(scopes?: string[]): HubSpotOAuth {
+export function createHubSpotOAuth(scopes?: string[], store?: TokenStore): HubSpotOAuth {
   const clientId = process.env.HUBSPOT_CLIENT_ID;
   const clientSecret = process.env.HUBSPOT_CLIENT_SECRET;
 
@@ -245,5 +261,5 @@ export function createHubSpotOAuth(scopes?: string[]): HubSpotOAuth {
     clientSecret,
     redirectUri: 'http://localhost:3000/oauth/callback',
     scopes: defaultScopes
-  });
+  }, store);
 }
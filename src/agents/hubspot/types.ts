@@ -3,8 +3,12 @@
 export interface HubSpotConfig {
   accessToken: string;
   portalId?: string;
+  baseUrl?: string; // Defaults to HUBSPOT_API_BASE_URL, then https://api.hubapi.com
 }
 
+// CRM object types as they appear in /crm/v3/objects/{type}
+export type HubSpotObjectType = 'contacts' | 'companies' | 'deals' | 'tasks' | 'notes';
+
 // API Response types
 export interface HubSpotApiResponse<T> {
   results?: T[];
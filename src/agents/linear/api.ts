@@ -17,13 +17,15 @@ const LINEAR_API_URL = 'https://api.linear.app/graphql';
 
 export class LinearApiClient {
   private apiKey: string;
+  private apiUrl: string;
 
   constructor(config: LinearApiConfig) {
     this.apiKey = config.apiKey;
+    this.apiUrl = config.apiUrl || process.env.LINEAR_API_URL || LINEAR_API_URL;
   }
 
   private async query<T>(query: string, variables?: Record<string, any>): Promise<T> {
-    const response = await fetch(LINEAR_API_URL, {
+    const response = await fetch(this.apiUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -320,6 +322,28 @@ export class LinearApiClient {
     return data.commentCreate.comment;
   }
 
+  // Archive an issue (Linear keeps archived issues restorable)
+  async archiveIssue(id: string): Promise<void> {
+    await this.query<{ issueArchive: { success: boolean } }>(`
+      mutation($id: String!) {
+        issueArchive(id: $id) {
+          success
+        }
+      }
+    `, { id });
+  }
+
+  // Delete a comment
+  async deleteComment(id: string): Promise<void> {
+    await this.query<{ commentDelete: { success: boolean } }>(`
+      mutation($id: String!) {
+        commentDelete(id: $id) {
+          success
+        }
+      }
+    `, { id });
+  }
+
   // Get projects
   async getProjects(first: number = 20): Promise<LinearProject[]> {
     const data = await this.query<{ projects: { nodes: LinearProject[] } }>(`
@@ -332,6 +356,7 @@ export class LinearApiClient {
             state
             progress
             targetDate
+            completedAt
             teams {
               nodes {
                 id
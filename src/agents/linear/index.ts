@@ -5,8 +5,14 @@ import { z } from 'zod';
 import { tool } from 'ai';
 import { LLMClient } from '../../shared/llm.js';
 import { LinearApiClient } from './api.js';
-import { AgentResponse, ExtractedEntity, EntityRef } from '../../shared/types.js';
+import { UpdateIssueInput } from './types.js';
+import { AgentResponse, ExtractedEntity, EntityType, PendingAction, ToolRisk, UndoOperation } from '../../shared/types.js';
+import { ActionLogStorage } from '../../db/action-log.js';
 import { getSkillsPrompt } from '../../shared/skills.js';
+import { traceToActions, actionsToEntities } from '../../shared/actions.js';
+import { gateTools, runPendingAction } from '../../shared/policy.js';
+import { Agent, AgentDefinition, AgentHandleOptions } from '../registry.js';
+import { CredentialResolver } from '../credentials.js';
 
 const LINEAR_AGENT_BASE_PROMPT = `You are a Linear project management assistant. You help manage issues, track projects, and keep the team organized.
 
@@ -14,6 +20,7 @@ IMPORTANT: You have tools to interact with Linear. Always use them to fulfill re
 
 ## Tools Available
 
+- **getMe**: Get the authenticated user - use their ID for "assign it to me"
 - **getMyIssues**: Get issues assigned to the authenticated user. Use this when user asks about "my issues", "my tasks", "what am I working on", etc.
 - **searchIssues**: Search for issues by keyword
 - **getIssue**: Get details of a specific issue by identifier (e.g., RAA-123)
@@ -39,36 +46,103 @@ IMPORTANT: You have tools to interact with Linear. Always use them to fulfill re
 4. Format responses for Slack with bullet points and bold identifiers
 5. Include issue URLs in responses when available`;
 
-export class LinearAgent {
-  private api: LinearApiClient | null = null;
+// Entity type written by each tool, used to label actions
+const LINEAR_TOOL_ENTITIES: Record<string, string> = {
+  createIssue: 'issue',
+  updateIssue: 'issue',
+  getIssue: 'issue',
+  addComment: 'comment'
+};
+
+// Risk of each tool, checked against the confirmation policy
+const LINEAR_TOOL_RISKS: Record<string, ToolRisk> = {
+  getMe: 'read',
+  getMyIssues: 'read',
+  searchIssues: 'read',
+  getIssue: 'read',
+  getTeams: 'read',
+  getProjects: 'read',
+  getCurrentCycle: 'read',
+  getWorkflowStates: 'read',
+  getTeamMembers: 'read',
+  createIssue: 'write',
+  updateIssue: 'write',
+  addComment: 'write'
+};
+
+export const LINEAR_AGENT_DEFINITION: AgentDefinition = {
+  name: 'linear',
+  label: 'Linear',
+  description: 'Handles project management - issues, sprints, projects, team tasks',
+  keywords: ['issue', 'ticket', 'bug', 'feature', 'sprint', 'cycle', 'project', 'Linear', 'backlog', 'my tasks', 'assigned'],
+  hints: ['Issue identifiers like "ENG-123", "PROJ-456" → linear issue'],
+  examples: ['Create issue...', 'My tasks', 'Current sprint', 'Update issue...'],
+  quickPatterns: [
+    /^(create|add|new)\s+(an?\s+)?(issue|ticket|bug)/,
+    /^(show|list|get)\s+(my\s+)?(issues|tickets)/,
+    /^my\s+(issues|tasks|tickets)/,
+    /^(current|active)\s+(sprint|cycle)/,
+    /^(update|close|complete|mark)\s+(issue|ticket)/,
+    /^what('s| is)\s+(in\s+)?(the\s+)?(sprint|backlog|cycle)/,
+    /linear/i,
+    /^sprint\b/,
+    /^backlog\b/,
+    /assign\s+to\s+(factory|codex|droid)/i,
+    /\b[A-Z]+-\d+\b/ // Issue identifiers like ENG-123 (matched case-sensitively)
+  ],
+  toolRisks: LINEAR_TOOL_RISKS
+};
+
+export class LinearAgent implements Agent {
+  readonly definition = LINEAR_AGENT_DEFINITION;
   private llm: LLMClient;
+  private actionLog: ActionLogStorage;
+  private credentials: CredentialResolver;
   private defaultTeamId: string | null = null;
 
-  constructor(db: Database.Database, llm: LLMClient) {
+  constructor(db: Database.Database, llm: LLMClient, credentials: CredentialResolver = new CredentialResolver(db)) {
     this.llm = llm;
+    this.actionLog = new ActionLogStorage(db);
+    this.credentials = credentials;
+  }
+
+  // API client for the requesting user, so "my issues" are theirs
+  private async client(userId?: string): Promise<LinearApiClient | null> {
+    const config = await this.credentials.linear(userId);
+    return config ? new LinearApiClient(config) : null;
+  }
 
-    const apiKey = process.env.LINEAR_API_KEY;
-    if (apiKey) {
-      this.api = new LinearApiClient({ apiKey });
+  private notConnected(userId?: string): AgentResponse {
+    if (!userId) {
+      return { message: "Linear is not configured. Please add LINEAR_API_KEY to your environment.", needsCredentials: 'linear' };
     }
+    return {
+      message: "Linear isn't connected for your account yet. I've sent you a DM with how to connect it.",
+      needsCredentials: 'linear'
+    };
   }
 
   async handle(
     message: string,
     history: Array<{ role: 'user' | 'assistant'; content: string }>,
-    entities: ExtractedEntity[]
+    entities: ExtractedEntity[],
+    options: AgentHandleOptions = {}
   ): Promise<AgentResponse> {
-    if (!this.api) {
-      return {
-        message: "Linear is not configured. Please add LINEAR_API_KEY to your environment."
-      };
-    }
+    const api = await this.client(options.userId);
+    if (!api) return this.notConnected(options.userId);
 
     // Load skills and build system prompt
     const skillsPrompt = getSkillsPrompt('linear');
     const systemPrompt = LINEAR_AGENT_BASE_PROMPT + skillsPrompt;
 
-    const tools = this.getTools();
+    let pendingAction: PendingAction | undefined;
+    const tools = gateTools(this.getTools(api, options.contextId), {
+      agent: 'linear',
+      risks: LINEAR_TOOL_RISKS,
+      policy: options.toolPolicy,
+      access: options.toolAccess,
+      onHold: pending => { pendingAction = pending; }
+    });
 
     // Build context about resolved entities
     let contextAddition = '';
@@ -80,47 +154,78 @@ export class LinearAgent {
       }
     }
 
-    const response = await this.llm.chat(
+    const { text: response, trace, model } = await this.llm.chatWithTrace(
       message + contextAddition,
       history.map(h => ({ role: h.role, content: h.content })),
       {
         systemPrompt,
         tools,
-        maxSteps: 10
+        maxSteps: 10,
+        onEvent: options.onEvent,
+        purpose: 'linear',
+        caller: { agent: 'linear', userId: options.userId }
       }
     );
 
-    // Extract entities from response for context tracking
-    const responseEntities = this.extractEntitiesFromResponse(response);
+    // Track the issues the tools touched so follow-ups can refer to them
+    const actions = traceToActions(trace, LINEAR_TOOL_ENTITIES);
 
     return {
       message: response,
-      entities: responseEntities
+      entities: actionsToEntities(actions, (type, object) => this.entityName(type, object)),
+      actions,
+      pendingAction,
+      model
     };
   }
 
-  private extractEntitiesFromResponse(response: string): EntityRef[] {
-    const entities: EntityRef[] = [];
-
-    // Extract issue identifiers like ENG-123, PROJ-456
-    const issuePattern = /\b([A-Z]+-\d+)\b/g;
-    let match;
-    while ((match = issuePattern.exec(response)) !== null) {
-      entities.push({
-        type: 'deal', // Using 'deal' as a proxy for 'issue'
-        id: match[1],
-        name: match[1],
-        mentionedAt: new Date().toISOString()
-      });
-    }
+  // Run a tool call the user confirmed
+  async resume(pending: PendingAction, options: AgentHandleOptions = {}): Promise<AgentResponse> {
+    const api = await this.client(options.userId);
+    if (!api) return this.notConnected(options.userId);
+
+    const { message, trace } = await runPendingAction(this.getTools(api, options.contextId), pending);
+    const actions = traceToActions(trace, LINEAR_TOOL_ENTITIES);
 
-    return entities;
+    return {
+      message,
+      entities: actionsToEntities(actions, (type, object) => this.entityName(type, object)),
+      actions
+    };
   }
 
-  private getTools() {
-    if (!this.api) return {};
+  // Display name for an issue, e.g. "ENG-12: Fix login timeout"
+  private entityName(type: EntityType, object: any): string | undefined {
+    if (type !== 'issue' || !object?.identifier) return undefined;
+    return object.title ? `${object.identifier}: ${object.title}` : object.identifier;
+  }
 
-    const api = this.api;
+  // Replay an inverse recorded by one of the tools below
+  async undo(operation: UndoOperation, options: AgentHandleOptions = {}): Promise<void> {
+    const api = await this.client(options.userId);
+    if (!api) throw new Error('Linear not configured');
+
+    switch (operation.op) {
+      case 'archiveIssue':
+        await api.archiveIssue(operation.args.id);
+        return;
+      case 'updateIssue':
+        await api.updateIssue(operation.args as UpdateIssueInput);
+        return;
+      case 'deleteComment':
+        await api.deleteComment(operation.args.id);
+        return;
+      default:
+        throw new Error(`Unknown Linear undo operation: ${operation.op}`);
+    }
+  }
+
+  // Mutations are recorded in the action log for the conversation so
+  // "undo that" can reverse them
+  private getTools(api: LinearApiClient, contextId?: string) {
+    const logAction = (toolName: string, description: string, inverse: UndoOperation | null) => {
+      if (contextId) this.actionLog.record({ contextId, agent: 'linear', toolName, description, inverse });
+    };
 
     return {
       createIssue: tool({
@@ -135,6 +240,7 @@ export class LinearAgent {
         }),
         execute: async (input) => {
           const issue = await api.createIssue(input);
+          logAction('createIssue', `Created ${issue.identifier}: ${issue.title}`, { op: 'archiveIssue', args: { id: issue.id } });
           return JSON.stringify(issue);
         }
       }),
@@ -150,7 +256,27 @@ export class LinearAgent {
           assigneeId: z.string().optional().describe("New assignee ID")
         }),
         execute: async (input) => {
+          const before = await api.getIssue(input.id);
           const issue = await api.updateIssue(input);
+          if (before) {
+            // Only the fields this call changed are put back
+            const previous: Omit<UpdateIssueInput, 'id'> = {
+              title: before.title,
+              description: before.description,
+              priority: before.priority,
+              stateId: before.state?.id,
+              assigneeId: before.assignee?.id ?? null
+            };
+            const changed = Object.keys(input).filter(key => key !== 'id' && input[key as keyof typeof input] !== undefined);
+            logAction(
+              'updateIssue',
+              `Updated ${changed.join(', ')} on ${before.identifier}`,
+              {
+                op: 'updateIssue',
+                args: { id: before.id, ...Object.fromEntries(changed.map(key => [key, previous[key as keyof typeof previous]])) }
+              }
+            );
+          }
           return JSON.stringify(issue);
         }
       }),
@@ -167,6 +293,15 @@ export class LinearAgent {
         }
       }),
 
+      getMe: tool({
+        description: "Get the authenticated user. Use their ID when the user asks to assign something to themselves",
+        inputSchema: z.object({}),
+        execute: async () => {
+          const viewer = await api.getViewer();
+          return JSON.stringify(viewer);
+        }
+      }),
+
       getMyIssues: tool({
         description: "Get issues assigned to the current user. Call this when user asks about 'my issues', 'my tasks', etc.",
         inputSchema: z.object({
@@ -197,6 +332,7 @@ export class LinearAgent {
         }),
         execute: async (input) => {
           const comment = await api.addComment(input);
+          logAction('addComment', `Commented on issue ${input.issueId}`, { op: 'deleteComment', args: { id: comment.id } });
           return JSON.stringify(comment);
         }
       }),
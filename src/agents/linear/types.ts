@@ -51,6 +51,7 @@ export interface LinearProject {
   state: string;
   progress: number;
   targetDate?: string;
+  completedAt?: string | null;
   teams: {
     nodes: LinearTeam[];
   };
@@ -99,7 +100,7 @@ export interface UpdateIssueInput {
   title?: string;
   description?: string;
   priority?: number;
-  assigneeId?: string;
+  assigneeId?: string | null; // null unassigns
   stateId?: string;
   projectId?: string;
 }
@@ -111,4 +112,5 @@ export interface CreateCommentInput {
 
 export interface LinearApiConfig {
   apiKey: string;
+  apiUrl?: string; // Defaults to LINEAR_API_URL, then https://api.linear.app/graphql
 }
@@ -0,0 +1,82 @@
+// Agent registry - the single place agents are declared to the orchestrator
+
+import { AgentType, AgentResponse, ExtractedEntity, PendingAction, ToolRisk, UndoOperation } from '../shared/types.js';
+import { LLMStreamEvent } from '../shared/llm.js';
+import { ToolAccess, ToolPolicy } from '../shared/policy.js';
+
+// Static description of an agent, used to build routing and help prompts
+export interface AgentDefinition {
+  name: AgentType;
+  label: string;           // Display name, e.g. "HubSpot"
+  description: string;     // What the agent handles, one line
+  keywords: string[];      // Words that hint at this agent (classifier prompt)
+  hints?: string[];        // Extra routing rules for the classifier prompt
+  examples: string[];      // Example requests (help prompt)
+  quickPatterns: RegExp[]; // Messages routed without an LLM call
+  toolRisks?: Record<string, ToolRisk>; // Risk of each tool; untagged tools count as writes
+}
+
+// Per-turn options passed from the orchestrator to the agent
+export interface AgentHandleOptions {
+  onEvent?: (event: LLMStreamEvent) => void; // Progress for streaming replies
+  contextId?: string;                        // Conversation the turn belongs to (keys the action log)
+  toolPolicy?: ToolPolicy;                   // Which tool calls need confirmation (default: destructive ones)
+  userId?: string;                           // Slack user the turn acts for (picks their credentials)
+  userGroups?: string[];                     // Slack user groups they belong to (role assignment)
+  toolAccess?: ToolAccess;                   // Which tools their role allows (default: all)
+}
+
+export interface Agent {
+  readonly definition: AgentDefinition;
+
+  handle(
+    message: string,
+    history: Array<{ role: 'user' | 'assistant'; content: string }>,
+    entities: ExtractedEntity[],
+    options?: AgentHandleOptions
+  ): Promise<AgentResponse>;
+
+  // Replay an inverse recorded in the action log. Agents without mutating tools omit it.
+  undo?(operation: UndoOperation, options?: AgentHandleOptions): Promise<void>;
+
+  // Run a tool call the user has confirmed. Agents without gated tools omit it.
+  resume?(pending: PendingAction, options?: AgentHandleOptions): Promise<AgentResponse>;
+}
+
+// Anything that can list agent definitions (the registry, or a static list)
+export interface AgentCatalog {
+  definitions(): AgentDefinition[];
+}
+
+export class AgentRegistry implements AgentCatalog {
+  private agents: Map<string, Agent> = new Map();
+
+  // Register an agent; registration order is the quick-match priority order
+  register(agent: Agent): void {
+    if (this.agents.has(agent.definition.name)) {
+      throw new Error(`Agent already registered: ${agent.definition.name}`);
+    }
+    this.agents.set(agent.definition.name, agent);
+  }
+
+  get(name: AgentType): Agent | undefined {
+    return this.agents.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.agents.has(name);
+  }
+
+  list(): Agent[] {
+    return [...this.agents.values()];
+  }
+
+  definitions(): AgentDefinition[] {
+    return this.list().map(agent => agent.definition);
+  }
+}
+
+// Wrap a fixed list of definitions as a catalog
+export const staticCatalog = (definitions: AgentDefinition[]): AgentCatalog => ({
+  definitions: () => definitions
+});
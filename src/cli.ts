@@ -3,6 +3,27 @@ import { ContentAgent } from "./agent.js";
 import { JsonStorage } from "./storage.js";
 import { parseArgs, parseContentType, requireFlag } from "./commands.js";
 import { SlackBot } from "./slack.js";
+import { PermissionStore, PermissionMatrix } from "./shared/permissions.js";
+import { initializeDatabase, closeDatabase } from "./db/index.js";
+import { AuditLog, AuditEventType, formatAuditEvents } from "./db/audit.js";
+import { UsageStorage, UsageGrouping } from "./db/usage.js";
+import { CONTENT_KINDS, ContentKind, ContentSearch, formatSearchResults } from "./db/search.js";
+import { ResearchSynthesizer, formatSynthesis } from "./agents/content/synthesis.js";
+import { UsageMeter } from "./shared/usage.js";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { loadLLMConfig } from "./config.js";
+import { LLMClient, createLanguageModel } from "./shared/llm.js";
+import { IntentClassifier } from "./orchestrator/classifier.js";
+import {
+  EvalBaseline,
+  compareToBaseline,
+  formatEvalReport,
+  parseEvalCorpus,
+  runClassifierEval,
+  scoreEval,
+  toBaseline
+} from "./orchestrator/classifier-eval.js";
+import { loadRecordings, recordReplies, replayModel, saveRecordings } from "./shared/recorded-llm.js";
 
 const usage = `Usage:
   npm run dev -- init
@@ -14,8 +35,233 @@ const usage = `Usage:
   npm run dev -- topic --topic "Topic" [--notes "Notes"]
   npm run dev -- snapshot
   npm run dev -- slack
+  npm run dev -- roles list
+  npm run dev -- roles assign (--user <slackUserId> | --group <slackGroupId>) --role <role>
+  npm run dev -- roles unassign (--user <slackUserId> | --group <slackGroupId>) [--role <role>]
+  npm run dev -- roles grant --role <role> --agent <agent|*> --tool <tool|*|risk:read|risk:write>
+  npm run dev -- roles revoke --role <role> --agent <agent|*> --tool <tool>
+  npm run dev -- roles default --role <role>
+  npm run dev -- usage [--since <ISO date>] [--until <ISO date>] [--user <slackUserId>] [--agent <agent>] [--by user|agent|model|day]
+  npm run dev -- classifier-eval [--corpus <file.jsonl>] [--recordings <file.json>] [--baseline <file.json>] [--live | --record] [--quick] [--save-baseline] [--format text|json]
+  npm run dev -- synthesize [--since <ISO date>] [--until <ISO date>] [--tags <tag,tag>] [--format text|json]
+  npm run dev -- search --query "<words>" [--kind draft,research,interview,topic,signal] [--limit <n>] [--format text|json]
+  npm run dev -- audit [--since <ISO date>] [--until <ISO date>] [--user <slackUserId>] [--agent <agent>] [--type <eventType>] [--format json|csv] [--limit <n>]
 `;
 
+// Edit the permission matrix in PERMISSIONS_FILE; a running bot picks up the change
+const runRoles = (subcommand: string | undefined, flags: Record<string, string | undefined>): PermissionMatrix => {
+  const store = new PermissionStore(process.env.PERMISSIONS_FILE || "data/permissions.json");
+  const matrix = structuredClone(store.get());
+
+  const subject = (): { map: Record<string, string[]>; id: string } => {
+    if (flags["--user"]) return { map: matrix.users, id: flags["--user"] };
+    if (flags["--group"]) return { map: matrix.groups, id: flags["--group"] };
+    throw new Error("Missing required --user or --group");
+  };
+
+  const knownRole = (): string => {
+    const role = requireFlag(flags, "--role");
+    if (!matrix.roles[role] && subcommand !== "grant") {
+      throw new Error(`Unknown role: ${role} (roles: ${Object.keys(matrix.roles).join(", ")})`);
+    }
+    return role;
+  };
+
+  switch (subcommand) {
+    case "list":
+      return matrix;
+    case "assign": {
+      const role = knownRole();
+      const { map, id } = subject();
+      map[id] = [...new Set([...(map[id] || []), role])];
+      break;
+    }
+    case "unassign": {
+      const { map, id } = subject();
+      const role = flags["--role"];
+      const remaining = role ? (map[id] || []).filter((r) => r !== role) : [];
+      if (remaining.length > 0) map[id] = remaining;
+      else delete map[id];
+      break;
+    }
+    case "grant": {
+      const role = knownRole();
+      const agent = requireFlag(flags, "--agent");
+      const tool = requireFlag(flags, "--tool");
+      const grants = (matrix.roles[role] ??= {});
+      grants[agent] = [...new Set([...(grants[agent] || []), tool])];
+      break;
+    }
+    case "revoke": {
+      const role = knownRole();
+      const agent = requireFlag(flags, "--agent");
+      const tool = requireFlag(flags, "--tool");
+      const remaining = (matrix.roles[role][agent] || []).filter((t) => t !== tool);
+      if (remaining.length > 0) matrix.roles[role][agent] = remaining;
+      else delete matrix.roles[role][agent];
+      break;
+    }
+    case "default":
+      matrix.defaultRole = knownRole();
+      break;
+    default:
+      throw new Error(`Unknown roles command: ${subcommand ?? ""}\n${usage}`);
+  }
+
+  store.save(matrix);
+  return matrix;
+};
+
+// Parse an optional --since/--until flag as an ISO timestamp
+const dateFlag = (flags: Record<string, string | undefined>, flag: string): string | undefined => {
+  const value = flags[flag];
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid date for ${flag}: ${value}`);
+  return date.toISOString();
+};
+
+const startOfToday = (): string => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today.toISOString();
+};
+
+// Summarize LLM spend from the bot's database (DATABASE_PATH); defaults to today, by agent
+const runUsage = async (flags: Record<string, string | undefined>): Promise<unknown> => {
+  const by = flags["--by"] ?? "agent";
+  if (!["user", "agent", "model", "day"].includes(by)) {
+    throw new Error(`Unknown grouping: ${by}. Use user, agent, model or day.`);
+  }
+
+  const db = await initializeDatabase({ path: process.env.DATABASE_PATH || "./data/db/main.sqlite" });
+  try {
+    const storage = new UsageStorage(db);
+    const filter = {
+      since: dateFlag(flags, "--since") ?? startOfToday(),
+      until: dateFlag(flags, "--until"),
+      userId: flags["--user"],
+      agent: flags["--agent"]
+    };
+    return { total: storage.total(filter), [by]: storage.summarize(filter, by as UsageGrouping) };
+  } finally {
+    closeDatabase();
+  }
+};
+
+// Export audit events from the bot's database (DATABASE_PATH); defaults to today, as JSON
+const runAudit = async (flags: Record<string, string | undefined>): Promise<string> => {
+  const format = flags["--format"] ?? "json";
+  if (format !== "json" && format !== "csv") {
+    throw new Error(`Unknown format: ${format}. Use json or csv.`);
+  }
+  const db = await initializeDatabase({ path: process.env.DATABASE_PATH || "./data/db/main.sqlite" });
+  try {
+    const events = new AuditLog(db).query({
+      since: dateFlag(flags, "--since") ?? startOfToday(),
+      until: dateFlag(flags, "--until"),
+      userId: flags["--user"],
+      agent: flags["--agent"],
+      type: flags["--type"] as AuditEventType | undefined,
+      limit: flags["--limit"] ? Number(flags["--limit"]) : undefined
+    });
+    return formatAuditEvents(events, format);
+  } finally {
+    closeDatabase();
+  }
+};
+
+// Full-text search over the bot's content (DATABASE_PATH)
+const runSearch = async (flags: Record<string, string | undefined>): Promise<string> => {
+  const query = requireFlag(flags, "--query");
+  const format = flags["--format"] ?? "text";
+  if (format !== "text" && format !== "json") {
+    throw new Error(`Unknown format: ${format}. Use text or json.`);
+  }
+  const kinds = flags["--kind"]?.split(",").map((kind) => kind.trim()) as ContentKind[] | undefined;
+  const unknown = kinds?.filter((kind) => !CONTENT_KINDS.includes(kind));
+  if (unknown?.length) {
+    throw new Error(`Unknown kind: ${unknown.join(", ")}. Use ${CONTENT_KINDS.join(", ")}.`);
+  }
+
+  const db = await initializeDatabase({ path: process.env.DATABASE_PATH || "./data/db/main.sqlite" });
+  try {
+    const results = new ContentSearch(db).search(query, {
+      kinds,
+      limit: flags["--limit"] ? Number(flags["--limit"]) : undefined
+    });
+    return format === "json" ? JSON.stringify(results, null, 2) : formatSearchResults(query, results);
+  } finally {
+    closeDatabase();
+  }
+};
+
+// Synthesize research and signals in the bot's database (DATABASE_PATH);
+// defaults to the last 14 days. Model spend is recorded like the bot's own.
+const runSynthesize = async (flags: Record<string, string | undefined>): Promise<string> => {
+  const format = flags["--format"] ?? "text";
+  if (format !== "text" && format !== "json") {
+    throw new Error(`Unknown format: ${format}. Use text or json.`);
+  }
+
+  const db = await initializeDatabase({ path: process.env.DATABASE_PATH || "./data/db/main.sqlite" });
+  try {
+    const meter = new UsageMeter(new UsageStorage(db));
+    const synthesizer = new ResearchSynthesizer(db, new LLMClient(loadLLMConfig(), (usage) => meter.record(usage)));
+    const synthesis = await synthesizer.synthesize({
+      since: dateFlag(flags, "--since"),
+      until: dateFlag(flags, "--until"),
+      tags: flags["--tags"]?.split(",")
+    }, { agent: "content" });
+
+    if (!synthesis) return format === "json" ? "null" : "No research or signals in that range.";
+    return format === "json" ? JSON.stringify(synthesis, null, 2) : formatSynthesis(synthesis);
+  } finally {
+    closeDatabase();
+  }
+};
+
+const EVAL_DIR = "tests/eval/classifier";
+
+// Score the intent classifier on a labeled corpus. Replays recorded model replies
+// unless --live (or --record, which also saves them); fails on regressions vs the baseline.
+const runClassifierEvalCommand = async (flags: Record<string, string | undefined>): Promise<{ output: string; failed: boolean }> => {
+  const format = flags["--format"] ?? "text";
+  if (format !== "text" && format !== "json") {
+    throw new Error(`Unknown format: ${format}. Use text or json.`);
+  }
+  const corpusFile = flags["--corpus"] ?? `${EVAL_DIR}/corpus.jsonl`;
+  const recordingsFile = flags["--recordings"] ?? `${EVAL_DIR}/recordings.json`;
+  const baselineFile = flags["--baseline"] ?? `${EVAL_DIR}/baseline.json`;
+  const record = "--record" in flags;
+
+  const config = loadLLMConfig();
+  const recordings = record ? {} : loadRecordings(recordingsFile);
+  const live = "--live" in flags || record;
+  const choice = config.models?.classifier ?? config;
+  const languageModel = !live
+    ? replayModel(recordings)
+    : record
+      ? recordReplies(createLanguageModel(choice, config.baseURL), recordings)
+      : undefined;
+  const llm = new LLMClient(languageModel ? { ...config, models: {}, fallbacks: [], languageModel } : config);
+
+  const cases = parseEvalCorpus(readFileSync(corpusFile, "utf8"));
+  const report = scoreEval(await runClassifierEval(new IntentClassifier(llm), cases, { quick: "--quick" in flags }));
+  if (record) saveRecordings(recordingsFile, recordings);
+
+  if ("--save-baseline" in flags) {
+    writeFileSync(baselineFile, JSON.stringify(toBaseline(report), null, 2) + "\n");
+  }
+  const baseline = existsSync(baselineFile) ? JSON.parse(readFileSync(baselineFile, "utf8")) as EvalBaseline : undefined;
+  const comparison = baseline ? compareToBaseline(report, baseline) : undefined;
+
+  return {
+    output: format === "json" ? JSON.stringify({ ...report, comparison }, null, 2) : formatEvalReport(report, comparison),
+    failed: (comparison?.regressions.length ?? 0) > 0
+  };
+};
+
 const args = process.argv.slice(2);
 
 const run = async (): Promise<void> => {
@@ -99,6 +345,33 @@ const run = async (): Promise<void> => {
       console.log("Slack bot running (Socket Mode).");
       return;
     }
+    case "roles": {
+      const matrix = runRoles(args[1], flags);
+      console.log(JSON.stringify(matrix, null, 2));
+      return;
+    }
+    case "usage": {
+      console.log(JSON.stringify(await runUsage(flags), null, 2));
+      return;
+    }
+    case "audit": {
+      console.log(await runAudit(flags));
+      return;
+    }
+    case "search": {
+      console.log(await runSearch(flags));
+      return;
+    }
+    case "synthesize": {
+      console.log(await runSynthesize(flags));
+      return;
+    }
+    case "classifier-eval": {
+      const { output, failed } = await runClassifierEvalCommand(flags);
+      console.log(output);
+      if (failed) process.exitCode = 1;
+      return;
+    }
     default: {
       console.log(usage);
       return;
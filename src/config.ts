@@ -1,7 +1,14 @@
 // Application configuration
 
 import { LogLevel } from '@slack/bolt';
-import { LLMConfig } from './shared/llm.js';
+import { LLMConfig, LLMProvider, LLMPurpose, ModelChoice, ToolProtocol } from './shared/llm.js';
+import { ToolPolicy } from './shared/policy.js';
+import { CredentialsConfig } from './agents/credentials.js';
+import { ToolRisk } from './shared/types.js';
+import { BudgetLimits, UsageConfig, loadPrices } from './shared/usage.js';
+import { WorkflowsConfig, loadWorkflows } from './workflows/index.js';
+import { EmbeddingsConfig, EmbeddingsProviderName } from './shared/embeddings.js';
+import { CriticLoopOptions, MAX_ROUNDS } from './agents/content/critic-loop.js';
 
 export interface Config {
   slack: {
@@ -15,6 +22,9 @@ export interface Config {
 
   llm: LLMConfig;
 
+  // Embeddings used to merge and cluster content signals
+  embeddings: EmbeddingsConfig;
+
   hubspot: {
     accessToken?: string;
     portalId?: string;
@@ -24,6 +34,7 @@ export interface Config {
     researchSources: string[];
     checkpointDays: string[];
     checkpointTime: string;
+    critic: CriticLoopOptions;  // Critic-revise rounds before drafts reach a human
   };
 
   scheduler: {
@@ -37,6 +48,26 @@ export interface Config {
     maxEntitiesPerType: number;
   };
 
+  // Tool confirmation policy per agent name
+  policies: Record<string, ToolPolicy>;
+
+  // Per-user HubSpot/Linear credentials
+  credentials: CredentialsConfig;
+
+  // Role/permission matrix; unset means everyone may use every tool
+  permissions?: {
+    file: string;
+  };
+
+  // Slack user IDs allowed to see audit and usage reports when there's no permissions file
+  admins: string[];
+
+  // LLM price table and spend budgets
+  usage: UsageConfig;
+
+  // Cross-agent workflows
+  workflows: WorkflowsConfig;
+
   database: {
     path: string;
   };
@@ -58,11 +89,13 @@ export const loadConfig = (): Config => {
       logLevel: parseLogLevel(process.env.SLACK_LOG_LEVEL)
     },
 
-    llm: {
-      provider: (process.env.LLM_PROVIDER as 'openai' | 'anthropic') || 'openai',
-      model: process.env.LLM_MODEL || 'gpt-4o',
-      maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '4096'),
-      temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7')
+    llm: loadLLMConfig(),
+
+    embeddings: {
+      provider: parseEmbeddingsProvider(process.env.EMBEDDINGS_PROVIDER) || (process.env.OPENAI_API_KEY ? 'openai' : 'hashing'),
+      model: process.env.EMBEDDINGS_MODEL || undefined,
+      baseURL: process.env.LOCAL_LLM_BASE_URL || undefined,
+      threshold: process.env.SIGNAL_SIMILARITY_THRESHOLD ? parseFloat(process.env.SIGNAL_SIMILARITY_THRESHOLD) : undefined
     },
 
     hubspot: {
@@ -73,7 +106,8 @@ export const loadConfig = (): Config => {
     content: {
       researchSources: (process.env.CONTENT_RESEARCH_SOURCES || 'palantir,medium,reddit').split(','),
       checkpointDays: (process.env.CONTENT_CHECKPOINT_DAYS || 'tuesday,thursday').split(','),
-      checkpointTime: process.env.CONTENT_CHECKPOINT_TIME || '09:00'
+      checkpointTime: process.env.CONTENT_CHECKPOINT_TIME || '09:00',
+      critic: parseCritic()
     },
 
     scheduler: {
@@ -87,6 +121,33 @@ export const loadConfig = (): Config => {
       maxEntitiesPerType: parseInt(process.env.CONTEXT_MAX_ENTITIES || '5')
     },
 
+    policies: {
+      // HubSpot and Linear writes change shared records, so they wait for a yes by default
+      content: parsePolicy('CONTENT', 'destructive'),
+      hubspot: parsePolicy('HUBSPOT', 'write'),
+      linear: parsePolicy('LINEAR', 'write')
+    },
+
+    credentials: {
+      encryptionKey: process.env.CREDENTIALS_ENCRYPTION_KEY,
+      sharedFallback: process.env.SHARED_CREDENTIALS !== 'false'
+    },
+
+    permissions: process.env.PERMISSIONS_FILE ? { file: process.env.PERMISSIONS_FILE } : undefined,
+
+    admins: (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean),
+
+    usage: {
+      prices: loadPrices(process.env.LLM_PRICES_FILE),
+      budgets: {
+        user: parseBudget('USER'),
+        agent: parseBudget('AGENT'),
+        onExceeded: process.env.BUDGET_ACTION === 'refuse' ? 'refuse' : 'warn'
+      }
+    },
+
+    workflows: loadWorkflows(process.env.WORKFLOWS_FILE),
+
     database: {
       path: process.env.DATABASE_PATH || './data/db/main.sqlite'
     },
@@ -98,6 +159,22 @@ export const loadConfig = (): Config => {
   };
 };
 
+// Model settings from LLM_* variables; also used by CLI commands that need no Slack setup
+export const loadLLMConfig = (): LLMConfig => ({
+  provider: parseProvider(process.env.LLM_PROVIDER) || 'openai',
+  model: process.env.LLM_MODEL || 'gpt-4o',
+  maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '4096'),
+  temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
+  baseURL: process.env.LOCAL_LLM_BASE_URL || undefined,
+  toolProtocol: parseToolProtocol(process.env.LLM_TOOL_PROTOCOL),
+  timeoutMs: process.env.LLM_TIMEOUT_MS ? parseInt(process.env.LLM_TIMEOUT_MS) : undefined,
+  models: parseModels(),
+  fallbacks: (process.env.LLM_FALLBACKS || '')
+    .split(',')
+    .map(value => parseModelChoice(value))
+    .filter((choice): choice is ModelChoice => choice !== null)
+});
+
 const requireEnv = (name: string): string => {
   const value = process.env[name];
   if (!value) {
@@ -106,6 +183,92 @@ const requireEnv = (name: string): string => {
   return value;
 };
 
+const parseProvider = (value?: string): LLMProvider | undefined => {
+  const provider = value?.trim().toLowerCase();
+  return provider === 'openai' || provider === 'anthropic' || provider === 'local' ? provider : undefined;
+};
+
+const parseEmbeddingsProvider = (value?: string): EmbeddingsProviderName | undefined => {
+  const provider = value?.trim().toLowerCase();
+  return provider === 'openai' || provider === 'local' || provider === 'hashing' ? provider : undefined;
+};
+
+const parseToolProtocol = (value?: string): ToolProtocol | undefined => {
+  const protocol = value?.trim().toLowerCase();
+  return protocol === 'native' || protocol === 'json' || protocol === 'auto' ? protocol : undefined;
+};
+
+// "anthropic:claude-3-5-haiku-latest", or just a model name for LLM_PROVIDER
+// (model names may contain colons themselves, e.g. local:llama3.1:8b)
+const parseModelChoice = (value?: string): ModelChoice | null => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+
+  const separator = trimmed.indexOf(':');
+  const provider = separator > 0 ? parseProvider(trimmed.slice(0, separator)) : undefined;
+  return {
+    provider: provider || parseProvider(process.env.LLM_PROVIDER) || 'openai',
+    model: provider ? trimmed.slice(separator + 1) : trimmed
+  };
+};
+
+const LLM_PURPOSES: LLMPurpose[] = ['classifier', 'summarizer', 'content', 'critic', 'crm', 'linear'];
+
+// LLM_MODEL_<PURPOSE>=[provider:]model, e.g. LLM_MODEL_CLASSIFIER=gpt-4o-mini
+const parseModels = (): LLMConfig['models'] => {
+  const models: LLMConfig['models'] = {};
+  for (const purpose of LLM_PURPOSES) {
+    const choice = parseModelChoice(process.env[`LLM_MODEL_${purpose.toUpperCase()}`]);
+    if (choice) models[purpose] = choice;
+  }
+  return models;
+};
+
+const TOOL_RISKS: ToolRisk[] = ['read', 'write', 'destructive'];
+
+// CONFIRM_<AGENT>_AT=read|write|destructive|never (default: `fallback`)
+// <AGENT>_TOOL_RISKS=updateDealStage:destructive,logNote:read
+const parsePolicy = (agent: string, fallback: ToolPolicy['confirmAt']): ToolPolicy => {
+  const confirmAt = process.env[`CONFIRM_${agent}_AT`]?.trim().toLowerCase();
+  const risks: Record<string, ToolRisk> = {};
+
+  for (const pair of (process.env[`${agent}_TOOL_RISKS`] || '').split(',')) {
+    const [tool, risk] = pair.split(':').map(part => part.trim());
+    if (tool && TOOL_RISKS.includes(risk as ToolRisk)) {
+      risks[tool] = risk as ToolRisk;
+    }
+  }
+
+  return {
+    confirmAt: confirmAt === 'never' || TOOL_RISKS.includes(confirmAt as ToolRisk)
+      ? confirmAt as ToolPolicy['confirmAt']
+      : fallback,
+    risks
+  };
+};
+
+// BUDGET_<USER|AGENT>_DAILY_USD / BUDGET_<USER|AGENT>_MONTHLY_USD; unset or invalid means no limit
+const parseBudget = (scope: string): BudgetLimits => {
+  const limit = (name: string): number | undefined => {
+    const value = parseFloat(process.env[name] || '');
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+  return {
+    daily: limit(`BUDGET_${scope}_DAILY_USD`),
+    monthly: limit(`BUDGET_${scope}_MONTHLY_USD`)
+  };
+};
+
+// CRITIC_MAX_ROUNDS (0-5) / CRITIC_SCORE_THRESHOLD (1-10); unset or invalid means the loop's defaults
+const parseCritic = (): CriticLoopOptions => {
+  const maxRounds = Number(process.env.CRITIC_MAX_ROUNDS || NaN);
+  const threshold = Number(process.env.CRITIC_SCORE_THRESHOLD || NaN);
+  return {
+    maxRounds: Number.isInteger(maxRounds) && maxRounds >= 0 && maxRounds <= MAX_ROUNDS ? maxRounds : undefined,
+    threshold: Number.isFinite(threshold) && threshold >= 1 && threshold <= 10 ? threshold : undefined
+  };
+};
+
 const parseLogLevel = (level?: string): LogLevel | undefined => {
   if (!level) return undefined;
 
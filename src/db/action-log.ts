@@ -0,0 +1,92 @@
+// Action log storage - mutating tool calls and how to reverse them, per conversation
+
+import Database from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+import { AgentType, UndoOperation } from '../shared/types.js';
+
+export interface ActionLogEntry {
+  id: string;
+  contextId: string;
+  agent: AgentType;
+  toolName: string;
+  description: string;           // What was done, e.g. "Moved deal Acme to closedwon"
+  inverse: UndoOperation | null; // null when the action can't be reversed
+  createdAt: string;
+  undoneAt?: string;
+}
+
+export class ActionLogStorage {
+  constructor(private db: Database.Database) {}
+
+  record(input: Omit<ActionLogEntry, 'id' | 'createdAt' | 'undoneAt'>): ActionLogEntry {
+    const entry: ActionLogEntry = {
+      ...input,
+      id: randomUUID(),
+      createdAt: new Date().toISOString()
+    };
+
+    this.db.prepare(`
+      INSERT INTO action_log (id, context_id, agent, tool_name, description, inverse, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.id,
+      entry.contextId,
+      entry.agent,
+      entry.toolName,
+      entry.description,
+      entry.inverse ? JSON.stringify(entry.inverse) : null,
+      entry.createdAt
+    );
+
+    return entry;
+  }
+
+  // Most recent action in a conversation that hasn't been undone yet
+  getLatest(contextId: string): ActionLogEntry | null {
+    const row = this.db.prepare(`
+      SELECT * FROM action_log
+      WHERE context_id = ? AND undone_at IS NULL
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT 1
+    `).get(contextId) as ActionLogRow | undefined;
+    return row ? this.rowToEntry(row) : null;
+  }
+
+  // Actions recorded in a conversation since a point in time, oldest first
+  listSince(contextId: string, since: string): ActionLogEntry[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM action_log
+      WHERE context_id = ? AND created_at >= ?
+      ORDER BY created_at ASC, rowid ASC
+    `).all(contextId, since) as ActionLogRow[];
+    return rows.map(row => this.rowToEntry(row));
+  }
+
+  markUndone(id: string): void {
+    this.db.prepare('UPDATE action_log SET undone_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+  }
+
+  private rowToEntry(row: ActionLogRow): ActionLogEntry {
+    return {
+      id: row.id,
+      contextId: row.context_id,
+      agent: row.agent,
+      toolName: row.tool_name,
+      description: row.description,
+      inverse: row.inverse ? JSON.parse(row.inverse) : null,
+      createdAt: row.created_at,
+      undoneAt: row.undone_at || undefined
+    };
+  }
+}
+
+interface ActionLogRow {
+  id: string;
+  context_id: string;
+  agent: string;
+  tool_name: string;
+  description: string;
+  inverse: string | null;
+  created_at: string;
+  undone_at: string | null;
+}
@@ -0,0 +1,163 @@
+// Audit event storage - requests, routing, tool calls, mutations and errors, with pluggable sinks
+
+import Database from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+
+export type AuditEventType = 'request' | 'classification' | 'tool_call' | 'mutation' | 'response' | 'denial' | 'error';
+
+export type AuditOutcome = 'ok' | 'error' | 'denied' | 'held';
+
+export interface AuditEvent {
+  id: string;
+  createdAt: string;
+  type: AuditEventType;
+  userId?: string;
+  channelId?: string;
+  threadTs?: string;
+  agent?: string;
+  toolName?: string;
+  durationMs?: number;
+  outcome: AuditOutcome;
+  summary: string;                   // One line for people, e.g. "Moved deal Acme to closedwon"
+  details?: Record<string, unknown>;
+}
+
+export type AuditEventInput = Omit<AuditEvent, 'id' | 'createdAt'>;
+
+export interface AuditFilter {
+  since?: string;  // ISO timestamp, inclusive
+  until?: string;  // ISO timestamp, exclusive
+  userId?: string;
+  channelId?: string;
+  agent?: string;
+  type?: AuditEventType;
+  limit?: number;  // Default 1000, oldest first
+}
+
+// Somewhere else events go as they are recorded, e.g. a Slack channel
+export type AuditSink = (event: AuditEvent) => void | Promise<void>;
+
+export class AuditLog {
+  private sinks: AuditSink[] = [];
+
+  constructor(private db: Database.Database) {}
+
+  addSink(sink: AuditSink): void {
+    this.sinks.push(sink);
+  }
+
+  record(input: AuditEventInput): AuditEvent {
+    const event: AuditEvent = {
+      ...input,
+      id: randomUUID(),
+      createdAt: new Date().toISOString()
+    };
+
+    this.db.prepare(`
+      INSERT INTO audit_events (
+        id, created_at, type, user_id, channel_id, thread_ts, agent, tool_name,
+        duration_ms, outcome, summary, details
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      event.id,
+      event.createdAt,
+      event.type,
+      event.userId ?? null,
+      event.channelId ?? null,
+      event.threadTs ?? null,
+      event.agent ?? null,
+      event.toolName ?? null,
+      event.durationMs ?? null,
+      event.outcome,
+      event.summary,
+      event.details ? JSON.stringify(event.details) : null
+    );
+
+    // Sinks must never break the request being audited
+    for (const sink of this.sinks) {
+      Promise.resolve()
+        .then(() => sink(event))
+        .catch(error => console.error('[audit] Sink failed:', error));
+    }
+
+    return event;
+  }
+
+  query(filter: AuditFilter = {}): AuditEvent[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const add = (sql: string, value: unknown) => {
+      conditions.push(sql);
+      params.push(value);
+    };
+
+    if (filter.since) add('created_at >= ?', filter.since);
+    if (filter.until) add('created_at < ?', filter.until);
+    if (filter.userId) add('user_id = ?', filter.userId);
+    if (filter.channelId) add('channel_id = ?', filter.channelId);
+    if (filter.agent) add('agent = ?', filter.agent);
+    if (filter.type) add('type = ?', filter.type);
+
+    const rows = this.db.prepare(`
+      SELECT * FROM audit_events
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY created_at ASC, rowid ASC
+      LIMIT ?
+    `).all(...params, filter.limit ?? 1000) as AuditEventRow[];
+
+    return rows.map(row => this.rowToEvent(row));
+  }
+
+  private rowToEvent(row: AuditEventRow): AuditEvent {
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      type: row.type as AuditEventType,
+      userId: row.user_id || undefined,
+      channelId: row.channel_id || undefined,
+      threadTs: row.thread_ts || undefined,
+      agent: row.agent || undefined,
+      toolName: row.tool_name || undefined,
+      durationMs: row.duration_ms ?? undefined,
+      outcome: row.outcome as AuditOutcome,
+      summary: row.summary,
+      details: row.details ? JSON.parse(row.details) : undefined
+    };
+  }
+}
+
+const CSV_COLUMNS: Array<keyof AuditEvent> = [
+  'createdAt', 'type', 'userId', 'channelId', 'threadTs', 'agent', 'toolName', 'durationMs', 'outcome', 'summary'
+];
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Export events as pretty JSON or CSV (details are left out of CSV)
+export const formatAuditEvents = (events: AuditEvent[], format: 'json' | 'csv'): string => {
+  if (format === 'json') {
+    return JSON.stringify(events, null, 2);
+  }
+  return [
+    CSV_COLUMNS.join(','),
+    ...events.map(event => CSV_COLUMNS.map(column => csvCell(event[column])).join(','))
+  ].join('\n');
+};
+
+interface AuditEventRow {
+  id: string;
+  created_at: string;
+  type: string;
+  user_id: string | null;
+  channel_id: string | null;
+  thread_ts: string | null;
+  agent: string | null;
+  tool_name: string | null;
+  duration_ms: number | null;
+  outcome: string;
+  summary: string;
+  details: string | null;
+}
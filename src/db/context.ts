@@ -2,7 +2,7 @@
 
 import Database from 'better-sqlite3';
 import { randomUUID } from 'node:crypto';
-import { ConversationContext, ConversationTurn, EntityRef, AgentType } from '../shared/types.js';
+import { ConversationContext, ConversationTurn, EntityRef, EntityType, AgentType, PendingAction } from '../shared/types.js';
 
 export interface ContextConfig {
   historyLength: number;      // Max turns to keep (default: 10)
@@ -16,6 +16,27 @@ const DEFAULT_CONFIG: ContextConfig = {
   maxEntitiesPerType: 5
 };
 
+// Entity lists are keyed by the plural of EntityRef.type
+const ENTITY_LISTS: Record<EntityType, keyof ConversationContext['entities']> = {
+  contact: 'contacts',
+  deal: 'deals',
+  company: 'companies',
+  task: 'tasks',
+  note: 'notes',
+  issue: 'issues',
+  draft: 'drafts'
+};
+
+const emptyEntities = (): ConversationContext['entities'] => ({
+  contacts: [],
+  deals: [],
+  companies: [],
+  tasks: [],
+  notes: [],
+  issues: [],
+  drafts: []
+});
+
 export class ContextStorage {
   private config: ContextConfig;
 
@@ -71,11 +92,7 @@ export class ContextStorage {
       userId,
       activeAgent: null,
       history: [],
-      entities: {
-        contacts: [],
-        deals: [],
-        companies: []
-      },
+      entities: emptyEntities(),
       createdAt: now.toISOString(),
       lastActivityAt: now.toISOString(),
       expiresAt: expiresAt.toISOString()
@@ -127,19 +144,29 @@ export class ContextStorage {
     `).run(agent, contextId);
   }
 
+  // Hold a tool call for confirmation, or clear it with null
+  setPendingAction(contextId: string, pending: PendingAction | null): void {
+    this.db.prepare(`
+      UPDATE conversation_contexts
+      SET pending_action = ?
+      WHERE id = ?
+    `).run(pending ? JSON.stringify(pending) : null, contextId);
+  }
+
   // Add entity reference
   addEntity(contextId: string, entity: EntityRef): void {
     const context = this.getById(contextId);
     if (!context) return;
 
-    const entityList = context.entities[entity.type === 'task' ? 'contacts' : `${entity.type}s` as keyof typeof context.entities];
+    const entityList = context.entities[ENTITY_LISTS[entity.type]];
     if (!entityList) return;
 
     // Check if entity already exists
     const existingIndex = entityList.findIndex(e => e.id === entity.id);
     if (existingIndex >= 0) {
-      // Update timestamp
-      entityList[existingIndex] = entity;
+      // Move to the end so it counts as the most recent mention
+      entityList.splice(existingIndex, 1);
+      entityList.push(entity);
     } else {
       // Add new entity
       entityList.push(entity);
@@ -154,11 +181,11 @@ export class ContextStorage {
   }
 
   // Get the most recently mentioned entity of a type
-  getRecentEntity(contextId: string, type: 'contact' | 'deal' | 'company'): EntityRef | null {
+  getRecentEntity(contextId: string, type: EntityType): EntityRef | null {
     const context = this.getById(contextId);
     if (!context) return null;
 
-    const entityList = context.entities[`${type}s` as keyof typeof context.entities];
+    const entityList = context.entities[ENTITY_LISTS[type]];
     if (!entityList || entityList.length === 0) return null;
 
     return entityList[entityList.length - 1];
@@ -245,7 +272,9 @@ export class ContextStorage {
       userId: row.user_id,
       activeAgent: row.active_agent as AgentType | null,
       history: JSON.parse(row.history),
-      entities: JSON.parse(row.entities),
+      pendingAction: row.pending_action ? JSON.parse(row.pending_action) : undefined,
+      // Contexts saved before tasks/notes/issues/drafts were tracked lack those lists
+      entities: { ...emptyEntities(), ...JSON.parse(row.entities) },
       createdAt: row.created_at,
       lastActivityAt: row.last_activity_at,
       expiresAt: row.expires_at
@@ -260,6 +289,7 @@ interface ContextRow {
   user_id: string;
   active_agent: string | null;
   history: string;
+  pending_action: string | null;
   entities: string;
   created_at: string;
   last_activity_at: string;
@@ -2,7 +2,7 @@
 
 import Database from 'better-sqlite3';
 import { randomUUID } from 'node:crypto';
-import { Draft, ContentType, ApprovalStatus } from '../shared/types.js';
+import { Draft, DraftSource, DraftVersion, ContentType, ApprovalStatus, RubricScores } from '../shared/types.js';
 
 export class DraftStorage {
   constructor(private db: Database.Database) {}
@@ -20,18 +20,22 @@ export class DraftStorage {
       status: 'pending'
     };
 
-    this.db.prepare(`
-      INSERT INTO drafts (id, title, body, content_type, created_at, updated_at, status)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).run(
-      draft.id,
-      draft.title,
-      draft.body,
-      draft.contentType,
-      draft.createdAt,
-      draft.updatedAt,
-      draft.status
-    );
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO drafts (id, title, body, content_type, created_at, updated_at, status)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        draft.id,
+        draft.title,
+        draft.body,
+        draft.contentType,
+        draft.createdAt,
+        draft.updatedAt,
+        draft.status
+      );
+
+      this.insertVersion(draft.id, 1, draft.title, draft.body, 'Initial draft', now);
+    })();
 
     return draft;
   }
@@ -48,35 +52,133 @@ export class DraftStorage {
     return rows.map(this.rowToDraft);
   }
 
-  // Get a draft by ID
+  // Get a draft by ID, with the research it cites
   get(id: string): Draft | null {
     const row = this.db.prepare('SELECT * FROM drafts WHERE id = ?').get(id) as DraftRow | undefined;
-    return row ? this.rowToDraft(row) : null;
+    if (!row) return null;
+
+    const draft = this.rowToDraft(row);
+    const sources = this.listSources(id);
+    return sources.length > 0 ? { ...draft, sources } : draft;
+  }
+
+  // Research items linked to a draft, in the order they were cited
+  listSources(id: string): DraftSource[] {
+    return this.db.prepare(`
+      SELECT r.id, r.title, r.url FROM draft_sources s
+      JOIN research_items r ON r.id = s.research_id
+      WHERE s.draft_id = ?
+      ORDER BY s.created_at, s.rowid
+    `).all(id) as DraftSource[];
   }
 
-  // Update a draft
-  update(id: string, updates: { title?: string; body?: string }): Draft {
+  // Update a draft, snapshotting the new content as the next version
+  update(id: string, updates: { title?: string; body?: string }, note?: string): Draft {
     const draft = this.get(id);
     if (!draft) {
       throw new Error(`Draft not found: ${id}`);
     }
 
     const now = new Date().toISOString();
+    const title = updates.title ?? draft.title;
+    const body = updates.body ?? draft.body;
 
-    this.db.prepare(`
-      UPDATE drafts
-      SET title = ?, body = ?, updated_at = ?
-      WHERE id = ?
-    `).run(
-      updates.title ?? draft.title,
-      updates.body ?? draft.body,
-      now,
-      id
-    );
+    this.db.transaction(() => {
+      // Drafts created before versioning existed have no history yet -
+      // keep their original wording as version 1 before overwriting it
+      let latest = this.latestVersion(id);
+      if (latest === 0) {
+        this.insertVersion(id, 1, draft.title, draft.body, 'Initial draft', draft.createdAt);
+        latest = 1;
+      }
+
+      this.db.prepare(`
+        UPDATE drafts
+        SET title = ?, body = ?, updated_at = ?
+        WHERE id = ?
+      `).run(title, body, now, id);
+
+      this.insertVersion(id, latest + 1, title, body, note, now);
+    })();
 
     return this.get(id)!;
   }
 
+  // --- Versions ---
+
+  // List all versions of a draft, oldest first
+  listVersions(draftId: string): DraftVersion[] {
+    const rows = this.db.prepare(
+      'SELECT * FROM draft_versions WHERE draft_id = ? ORDER BY version ASC'
+    ).all(draftId) as DraftVersionRow[];
+    return rows.map(this.rowToVersion);
+  }
+
+  // Get a specific version of a draft
+  getVersion(draftId: string, version: number): DraftVersion | null {
+    const row = this.db.prepare(
+      'SELECT * FROM draft_versions WHERE draft_id = ? AND version = ?'
+    ).get(draftId, version) as DraftVersionRow | undefined;
+    return row ? this.rowToVersion(row) : null;
+  }
+
+  // Get the latest version number of a draft (0 if it has no history)
+  latestVersion(draftId: string): number {
+    const row = this.db.prepare(
+      'SELECT MAX(version) AS version FROM draft_versions WHERE draft_id = ?'
+    ).get(draftId) as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  // Attach the critic's scores and critique to a version. Drafts created before
+  // versioning existed get their current wording snapshotted as version 1 first.
+  recordCritique(draftId: string, version: number, scores: RubricScores, critique: string): void {
+    const draft = this.get(draftId);
+    if (!draft) {
+      throw new Error(`Draft not found: ${draftId}`);
+    }
+
+    this.db.transaction(() => {
+      if (this.latestVersion(draftId) === 0) {
+        this.insertVersion(draftId, 1, draft.title, draft.body, 'Initial draft', draft.createdAt);
+      }
+      const result = this.db.prepare(
+        'UPDATE draft_versions SET scores = ?, critique = ? WHERE draft_id = ? AND version = ?'
+      ).run(JSON.stringify(scores), critique, draftId, version);
+      if (result.changes === 0) {
+        throw new Error(`Version ${version} not found for draft: ${draftId}`);
+      }
+    })();
+  }
+
+  // Restore an earlier version - recorded as a new version so nothing is lost
+  restoreVersion(draftId: string, version: number): Draft {
+    const target = this.getVersion(draftId, version);
+    if (!target) {
+      throw new Error(`Version ${version} not found for draft: ${draftId}`);
+    }
+
+    return this.update(
+      draftId,
+      { title: target.title, body: target.body },
+      `Restored from version ${version}`
+    );
+  }
+
+  private insertVersion(
+    draftId: string,
+    version: number,
+    title: string,
+    body: string,
+    note: string | undefined,
+    createdAt: string
+  ): void {
+    this.db.prepare(`
+      INSERT INTO draft_versions (id, draft_id, version, title, body, note, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(randomUUID(), draftId, version, title, body, note || null, createdAt);
+  }
+
   // Update draft status
   updateStatus(id: string, status: ApprovalStatus, feedback?: string): Draft {
     const draft = this.get(id);
@@ -102,7 +204,11 @@ export class DraftStorage {
       throw new Error(`Draft not found: ${id}`);
     }
 
-    this.db.prepare('DELETE FROM drafts WHERE id = ?').run(id);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM draft_versions WHERE draft_id = ?').run(id);
+      this.db.prepare('DELETE FROM draft_sources WHERE draft_id = ?').run(id);
+      this.db.prepare('DELETE FROM drafts WHERE id = ?').run(id);
+    })();
   }
 
   // Convert row to Draft
@@ -118,6 +224,20 @@ export class DraftStorage {
       feedback: row.feedback || undefined
     };
   }
+
+  // Convert row to DraftVersion
+  private rowToVersion(row: DraftVersionRow): DraftVersion {
+    return {
+      id: row.id,
+      draftId: row.draft_id,
+      version: row.version,
+      title: row.title,
+      body: row.body,
+      note: row.note || undefined,
+      createdAt: row.created_at,
+      ...(row.scores ? { scores: JSON.parse(row.scores), critique: row.critique || '' } : {})
+    };
+  }
 }
 
 interface DraftRow {
@@ -130,3 +250,15 @@ interface DraftRow {
   status: string;
   feedback: string | null;
 }
+
+interface DraftVersionRow {
+  id: string;
+  draft_id: string;
+  version: number;
+  title: string;
+  body: string;
+  note: string | null;
+  created_at: string;
+  scores: string | null;
+  critique: string | null;
+}
@@ -171,6 +171,263 @@ const getMigrations = (): Migration[] => [
       );
       CREATE INDEX idx_hubspot_type ON hubspot_cache(entity_type);
     `
+  },
+  {
+    name: '008_create_draft_versions',
+    sql: `
+      CREATE TABLE draft_versions (
+        id TEXT PRIMARY KEY,
+        draft_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        note TEXT,
+        created_at TEXT NOT NULL,
+        UNIQUE(draft_id, version)
+      );
+      CREATE INDEX idx_draft_versions_draft ON draft_versions(draft_id);
+    `
+  },
+  {
+    name: '009_create_schedule_state',
+    sql: `
+      CREATE TABLE schedule_state (
+        job_name TEXT PRIMARY KEY,
+        last_slot TEXT NOT NULL,
+        last_run_at TEXT
+      );
+    `
+  },
+  {
+    name: '010_create_action_log',
+    sql: `
+      CREATE TABLE action_log (
+        id TEXT PRIMARY KEY,
+        context_id TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        description TEXT NOT NULL,
+        inverse TEXT,
+        created_at TEXT NOT NULL,
+        undone_at TEXT
+      );
+      CREATE INDEX idx_action_log_context ON action_log(context_id, created_at);
+    `
+  },
+  {
+    name: '011_add_context_pending_action',
+    sql: `
+      ALTER TABLE conversation_contexts ADD COLUMN pending_action TEXT;
+    `
+  },
+  {
+    name: '012_create_users',
+    sql: `
+      CREATE TABLE users (
+        slack_user_id TEXT PRIMARY KEY,
+        linear_api_key TEXT,
+        hubspot_access_token TEXT,
+        hubspot_refresh_token TEXT,
+        hubspot_expires_at INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `
+  },
+  {
+    name: '013_create_audit_events',
+    sql: `
+      CREATE TABLE audit_events (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        type TEXT NOT NULL,
+        user_id TEXT,
+        channel_id TEXT,
+        thread_ts TEXT,
+        agent TEXT,
+        tool_name TEXT,
+        duration_ms INTEGER,
+        outcome TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        details TEXT
+      );
+      CREATE INDEX idx_audit_events_created ON audit_events(created_at);
+      CREATE INDEX idx_audit_events_user ON audit_events(user_id, created_at);
+    `
+  },
+  {
+    name: '014_create_llm_usage',
+    sql: `
+      CREATE TABLE llm_usage (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        purpose TEXT NOT NULL,
+        agent TEXT,
+        user_id TEXT,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cost_usd REAL NOT NULL
+      );
+      CREATE INDEX idx_llm_usage_created ON llm_usage(created_at);
+      CREATE INDEX idx_llm_usage_user ON llm_usage(user_id, created_at);
+      CREATE INDEX idx_llm_usage_agent ON llm_usage(agent, created_at);
+    `
+  },
+  {
+    name: '015_create_workflow_runs',
+    sql: `
+      CREATE TABLE workflow_runs (
+        id TEXT PRIMARY KEY,
+        workflow TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        status TEXT NOT NULL,
+        steps TEXT NOT NULL,
+        user_id TEXT,
+        channel_id TEXT,
+        thread_ts TEXT,
+        message_ts TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (workflow, subject)
+      );
+      CREATE INDEX idx_workflow_runs_created ON workflow_runs(created_at);
+    `
+  },
+  {
+    name: '016_create_draft_sources',
+    sql: `
+      CREATE TABLE draft_sources (
+        draft_id TEXT NOT NULL,
+        research_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (draft_id, research_id)
+      );
+      CREATE INDEX idx_draft_sources_research ON draft_sources(research_id);
+    `
+  },
+  {
+    // One index over all content kinds so results rank against each other.
+    // Triggers keep it in step with the source tables.
+    name: '017_create_content_search',
+    sql: `
+      CREATE VIRTUAL TABLE content_search USING fts5(
+        kind UNINDEXED,
+        item_id UNINDEXED,
+        title,
+        body,
+        date UNINDEXED,
+        tokenize = 'porter unicode61'
+      );
+      INSERT INTO content_search (kind, item_id, title, body, date)
+        SELECT 'draft', id, title, body, updated_at FROM drafts;
+      INSERT INTO content_search (kind, item_id, title, body, date)
+        SELECT 'research', id, title, summary || ' ' || tags, date FROM research_items;
+      INSERT INTO content_search (kind, item_id, title, body, date)
+        SELECT 'interview', id, question, answer, created_at FROM interviews;
+      INSERT INTO content_search (kind, item_id, title, body, date)
+        SELECT 'topic', id, topic, COALESCE(notes, ''), created_at FROM topics;
+      INSERT INTO content_search (kind, item_id, title, body, date)
+        SELECT 'signal', id, observation, potential_angle, date FROM signal_log;
+      CREATE TRIGGER drafts_search_insert AFTER INSERT ON drafts BEGIN
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('draft', new.id, new.title, new.body, new.updated_at);
+      END;
+      CREATE TRIGGER drafts_search_update AFTER UPDATE OF title, body ON drafts BEGIN
+        DELETE FROM content_search WHERE kind = 'draft' AND item_id = old.id;
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('draft', new.id, new.title, new.body, new.updated_at);
+      END;
+      CREATE TRIGGER drafts_search_delete AFTER DELETE ON drafts BEGIN
+        DELETE FROM content_search WHERE kind = 'draft' AND item_id = old.id;
+      END;
+      CREATE TRIGGER research_items_search_insert AFTER INSERT ON research_items BEGIN
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('research', new.id, new.title, new.summary || ' ' || new.tags, new.date);
+      END;
+      CREATE TRIGGER research_items_search_update AFTER UPDATE OF title, summary, tags ON research_items BEGIN
+        DELETE FROM content_search WHERE kind = 'research' AND item_id = old.id;
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('research', new.id, new.title, new.summary || ' ' || new.tags, new.date);
+      END;
+      CREATE TRIGGER research_items_search_delete AFTER DELETE ON research_items BEGIN
+        DELETE FROM content_search WHERE kind = 'research' AND item_id = old.id;
+      END;
+      CREATE TRIGGER interviews_search_insert AFTER INSERT ON interviews BEGIN
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('interview', new.id, new.question, new.answer, new.created_at);
+      END;
+      CREATE TRIGGER interviews_search_update AFTER UPDATE OF question, answer ON interviews BEGIN
+        DELETE FROM content_search WHERE kind = 'interview' AND item_id = old.id;
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('interview', new.id, new.question, new.answer, new.created_at);
+      END;
+      CREATE TRIGGER interviews_search_delete AFTER DELETE ON interviews BEGIN
+        DELETE FROM content_search WHERE kind = 'interview' AND item_id = old.id;
+      END;
+      CREATE TRIGGER topics_search_insert AFTER INSERT ON topics BEGIN
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('topic', new.id, new.topic, COALESCE(new.notes, ''), new.created_at);
+      END;
+      CREATE TRIGGER topics_search_update AFTER UPDATE OF topic, notes ON topics BEGIN
+        DELETE FROM content_search WHERE kind = 'topic' AND item_id = old.id;
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('topic', new.id, new.topic, COALESCE(new.notes, ''), new.created_at);
+      END;
+      CREATE TRIGGER topics_search_delete AFTER DELETE ON topics BEGIN
+        DELETE FROM content_search WHERE kind = 'topic' AND item_id = old.id;
+      END;
+      CREATE TRIGGER signal_log_search_insert AFTER INSERT ON signal_log BEGIN
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('signal', new.id, new.observation, new.potential_angle, new.date);
+      END;
+      CREATE TRIGGER signal_log_search_update AFTER UPDATE OF observation, potential_angle ON signal_log BEGIN
+        DELETE FROM content_search WHERE kind = 'signal' AND item_id = old.id;
+        INSERT INTO content_search (kind, item_id, title, body, date) VALUES ('signal', new.id, new.observation, new.potential_angle, new.date);
+      END;
+      CREATE TRIGGER signal_log_search_delete AFTER DELETE ON signal_log BEGIN
+        DELETE FROM content_search WHERE kind = 'signal' AND item_id = old.id;
+      END;
+    `
+  },
+  {
+    name: '018_create_signal_embeddings',
+    sql: `
+      CREATE TABLE signal_embeddings (
+        signal_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (signal_id, provider)
+      );
+    `
+  },
+  {
+    name: '019_create_research_syntheses',
+    sql: `
+      CREATE TABLE research_syntheses (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        since TEXT,
+        until TEXT,
+        tags TEXT NOT NULL DEFAULT '[]',
+        synthesis TEXT NOT NULL,
+        angles TEXT NOT NULL DEFAULT '[]'
+      );
+      CREATE INDEX idx_research_syntheses_created ON research_syntheses(created_at);
+      CREATE TABLE research_synthesis_inputs (
+        synthesis_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        item_id TEXT NOT NULL,
+        PRIMARY KEY (synthesis_id, kind, item_id)
+      );
+    `
+  },
+  {
+    name: '020_add_draft_version_critique',
+    sql: `
+      ALTER TABLE draft_versions ADD COLUMN scores TEXT;
+      ALTER TABLE draft_versions ADD COLUMN critique TEXT;
+    `
+  },
+  {
+    name: '021_add_synthesis_checkpoint',
+    sql: `
+      ALTER TABLE research_syntheses ADD COLUMN checkpoint INTEGER NOT NULL DEFAULT 0;
+    `
   }
 ];
 
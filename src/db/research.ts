@@ -56,10 +56,112 @@ export class ResearchStorage {
     return rows.map(this.rowToResearchItem);
   }
 
+  getResearchItem(id: string): ResearchItem | null {
+    const row = this.db.prepare('SELECT * FROM research_items WHERE id = ?').get(id) as ResearchRow | undefined;
+    return row ? this.rowToResearchItem(row) : null;
+  }
+
+  findResearchByUrl(url: string): ResearchItem | null {
+    const row = this.db.prepare('SELECT * FROM research_items WHERE url = ?').get(url) as ResearchRow | undefined;
+    return row ? this.rowToResearchItem(row) : null;
+  }
+
+  // Library search: text matches title, summary or a tag; tag and source match
+  // exactly; `tags` matches items with any of them; dates bound the item date
+  searchResearchItems(options: {
+    text?: string;
+    tag?: string;
+    tags?: string[];
+    source?: string;
+    unused?: boolean;
+    since?: string;
+    until?: string;
+    limit?: number;
+  } = {}): ResearchItem[] {
+    let query = 'SELECT * FROM research_items WHERE 1=1';
+    const params: any[] = [];
+
+    if (options.text) {
+      query += ' AND (title LIKE ? OR summary LIKE ? OR tags LIKE ?)';
+      params.push(`%${options.text}%`, `%${options.text}%`, `%${options.text}%`);
+    }
+
+    if (options.tag) {
+      query += ' AND EXISTS (SELECT 1 FROM json_each(research_items.tags) WHERE value = ?)';
+      params.push(options.tag.toLowerCase());
+    }
+
+    if (options.tags?.length) {
+      query += ` AND EXISTS (SELECT 1 FROM json_each(research_items.tags) WHERE value IN (${options.tags.map(() => '?').join(', ')}))`;
+      params.push(...options.tags.map(tag => tag.toLowerCase()));
+    }
+
+    if (options.source) {
+      query += ' AND source = ?';
+      params.push(options.source.toLowerCase());
+    }
+
+    if (options.since) {
+      query += ' AND date >= ?';
+      params.push(options.since);
+    }
+
+    if (options.until) {
+      query += ' AND date < ?';
+      params.push(options.until);
+    }
+
+    if (options.unused) {
+      query += ' AND used_in_post = 0';
+    }
+
+    query += ' ORDER BY date DESC LIMIT ?';
+    params.push(options.limit ?? 20);
+
+    const rows = this.db.prepare(query).all(...params) as ResearchRow[];
+    return rows.map(this.rowToResearchItem);
+  }
+
   markResearchUsed(id: string): void {
     this.db.prepare('UPDATE research_items SET used_in_post = 1 WHERE id = ?').run(id);
   }
 
+  // Cite research items in a draft. Returns the ids that weren't linked yet.
+  linkToDraft(draftId: string, researchIds: string[]): string[] {
+    const now = new Date().toISOString();
+    const insert = this.db.prepare('INSERT OR IGNORE INTO draft_sources (draft_id, research_id, created_at) VALUES (?, ?, ?)');
+
+    return this.db.transaction(() => researchIds.filter(id => {
+      if (insert.run(draftId, id, now).changes === 0) return false;
+      this.markResearchUsed(id);
+      return true;
+    }))();
+  }
+
+  // Drop citations (all of the draft's by default). Items no other draft
+  // cites go back to unused.
+  unlinkFromDraft(draftId: string, researchIds?: string[]): void {
+    const ids = researchIds ?? (this.db.prepare('SELECT research_id FROM draft_sources WHERE draft_id = ?')
+      .all(draftId) as Array<{ research_id: string }>).map(row => row.research_id);
+
+    this.db.transaction(() => {
+      for (const id of ids) {
+        this.db.prepare('DELETE FROM draft_sources WHERE draft_id = ? AND research_id = ?').run(draftId, id);
+        this.db.prepare(`
+          UPDATE research_items SET used_in_post = 0
+          WHERE id = ? AND NOT EXISTS (SELECT 1 FROM draft_sources WHERE research_id = ?)
+        `).run(id, id);
+      }
+    })();
+  }
+
+  deleteResearchItem(id: string): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM draft_sources WHERE research_id = ?').run(id);
+      this.db.prepare('DELETE FROM research_items WHERE id = ?').run(id);
+    })();
+  }
+
   private rowToResearchItem(row: ResearchRow): ResearchItem {
     return {
       id: row.id,
@@ -96,25 +198,62 @@ export class ResearchStorage {
     return entry;
   }
 
-  incrementSignalFrequency(id: string): void {
-    this.db.prepare('UPDATE signal_log SET frequency = frequency + 1 WHERE id = ?').run(id);
+  // Count one more sighting; `date` marks when the signal was last seen
+  countSignal(id: string, date?: string): void {
+    this.db.prepare(`
+      UPDATE signal_log SET frequency = frequency + 1, date = MAX(date, COALESCE(?, date)) WHERE id = ?
+    `).run(date ?? null, id);
   }
 
-  findSimilarSignal(observation: string): SignalLogEntry | null {
-    // Simple substring match - could be enhanced with fuzzy matching
-    const row = this.db.prepare(`
-      SELECT * FROM signal_log
-      WHERE observation LIKE ? OR ? LIKE '%' || observation || '%'
-      ORDER BY frequency DESC LIMIT 1
-    `).get(`%${observation}%`, observation) as SignalRow | undefined;
+  // Take a sighting back off, restoring the last-seen date from before it
+  uncountSignal(id: string, previousDate?: string): void {
+    this.db.prepare(`
+      UPDATE signal_log SET frequency = MAX(frequency - 1, 1), date = COALESCE(?, date) WHERE id = ?
+    `).run(previousDate ?? null, id);
+  }
 
+  getSignal(id: string): SignalLogEntry | null {
+    const row = this.db.prepare('SELECT * FROM signal_log WHERE id = ?').get(id) as SignalRow | undefined;
     return row ? this.rowToSignal(row) : null;
   }
 
-  listSignals(options: { limit?: number; minFrequency?: number } = {}): SignalLogEntry[] {
+  deleteSignal(id: string): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM signal_embeddings WHERE signal_id = ?').run(id);
+      this.db.prepare('DELETE FROM signal_log WHERE id = ?').run(id);
+    })();
+  }
+
+  // Vectors are stored per embedding provider; only vectors from the same one are comparable
+  saveSignalEmbedding(signalId: string, provider: string, vector: number[]): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO signal_embeddings (signal_id, provider, vector, created_at) VALUES (?, ?, ?, ?)
+    `).run(signalId, provider, Buffer.from(new Float32Array(vector).buffer), new Date().toISOString());
+  }
+
+  listSignalEmbeddings(provider: string): Map<string, number[]> {
+    const rows = this.db.prepare('SELECT signal_id, vector FROM signal_embeddings WHERE provider = ?')
+      .all(provider) as Array<{ signal_id: string; vector: Buffer }>;
+    return new Map(rows.map(row => [
+      row.signal_id,
+      Array.from(new Float32Array(new Uint8Array(row.vector).buffer)) // Copied: the blob may not be 4-byte aligned
+    ]));
+  }
+
+  listSignals(options: { limit?: number; minFrequency?: number; since?: string; until?: string } = {}): SignalLogEntry[] {
     let query = 'SELECT * FROM signal_log WHERE 1=1';
     const params: any[] = [];
 
+    if (options.since) {
+      query += ' AND date >= ?';
+      params.push(options.since);
+    }
+
+    if (options.until) {
+      query += ' AND date < ?';
+      params.push(options.until);
+    }
+
     if (options.minFrequency) {
       query += ' AND frequency >= ?';
       params.push(options.minFrequency);
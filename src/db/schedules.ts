@@ -0,0 +1,43 @@
+// Schedule state storage - remembers which slot each job last ran for
+
+import Database from 'better-sqlite3';
+
+export interface ScheduleState {
+  jobName: string;
+  lastSlot: string;      // ISO time of the scheduled slot last handled
+  lastRunAt?: string;    // When the job actually ran (absent if only initialized)
+}
+
+export class ScheduleStorage {
+  constructor(private db: Database.Database) {}
+
+  get(jobName: string): ScheduleState | null {
+    const row = this.db.prepare('SELECT * FROM schedule_state WHERE job_name = ?').get(jobName) as ScheduleRow | undefined;
+    return row ? this.rowToState(row) : null;
+  }
+
+  // Record that a slot has been handled, optionally with when it actually ran
+  markSlot(jobName: string, slot: string, ranAt?: string): void {
+    this.db.prepare(`
+      INSERT INTO schedule_state (job_name, last_slot, last_run_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(job_name) DO UPDATE SET
+        last_slot = excluded.last_slot,
+        last_run_at = COALESCE(excluded.last_run_at, schedule_state.last_run_at)
+    `).run(jobName, slot, ranAt || null);
+  }
+
+  private rowToState(row: ScheduleRow): ScheduleState {
+    return {
+      jobName: row.job_name,
+      lastSlot: row.last_slot,
+      lastRunAt: row.last_run_at || undefined
+    };
+  }
+}
+
+interface ScheduleRow {
+  job_name: string;
+  last_slot: string;
+  last_run_at: string | null;
+}
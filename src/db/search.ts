@@ -0,0 +1,101 @@
+// Full-text search over drafts, research, interviews, topics and signals,
+// backed by the content_search FTS5 index (kept in sync by triggers)
+
+import Database from 'better-sqlite3';
+
+export type ContentKind = 'draft' | 'research' | 'interview' | 'topic' | 'signal';
+
+export const CONTENT_KINDS: ContentKind[] = ['draft', 'research', 'interview', 'topic', 'signal'];
+
+export interface ContentSearchResult {
+  kind: ContentKind;
+  id: string;          // Row id in the kind's own table
+  title: string;       // Highlighted; the question for interviews, the observation for signals
+  snippet: string;     // Highlighted excerpt of the body around the matches
+  date: string;
+  score: number;       // Higher is a better match
+}
+
+export interface ContentSearchOptions {
+  kinds?: ContentKind[];        // Default: all
+  limit?: number;               // Default 10
+  marks?: [string, string];     // Wrapped around matched terms (default: Slack bold)
+}
+
+interface SearchRow {
+  kind: ContentKind;
+  item_id: string;
+  title: string;
+  snippet: string;
+  date: string;
+  rank: number;
+}
+
+// Matches in the title count for more than matches in the body
+const TITLE_WEIGHT = 4;
+
+// Turn free text into an FTS5 query: "quoted phrases" stay phrases, every
+// other word is quoted so punctuation can't break the syntax, and all must match
+export const toMatchQuery = (text: string): string => {
+  const terms: string[] = [];
+  const rest = text.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = phrase.match(/[\p{L}\p{N}]+/gu);
+    if (words) terms.push(`"${words.join(' ')}"`);
+    return ' ';
+  });
+  for (const word of rest.match(/[\p{L}\p{N}]+/gu) || []) {
+    terms.push(`"${word}"`);
+  }
+  return terms.join(' ');
+};
+
+export class ContentSearch {
+  constructor(private db: Database.Database) {}
+
+  // Best matches first; an empty query finds nothing
+  search(query: string, options: ContentSearchOptions = {}): ContentSearchResult[] {
+    const match = toMatchQuery(query);
+    if (!match) return [];
+
+    const [open, close] = options.marks ?? ['*', '*'];
+    const kinds = options.kinds?.length ? options.kinds : CONTENT_KINDS;
+
+    const rows = this.db.prepare(`
+      SELECT kind, item_id, date,
+        highlight(content_search, 2, ?, ?) AS title,
+        snippet(content_search, 3, ?, ?, '…', 24) AS snippet,
+        bm25(content_search, 0, 0, ${TITLE_WEIGHT}, 1, 0) AS rank
+      FROM content_search
+      WHERE content_search MATCH ? AND kind IN (${kinds.map(() => '?').join(', ')})
+      ORDER BY rank
+      LIMIT ?
+    `).all(open, close, open, close, match, ...kinds, options.limit ?? 10) as SearchRow[];
+
+    return rows.map(row => ({
+      kind: row.kind,
+      id: row.item_id,
+      title: row.title,
+      snippet: row.snippet,
+      date: row.date,
+      score: Math.round(-row.rank * 1000) / 1000
+    }));
+  }
+}
+
+const KIND_LABELS: Record<ContentKind, string> = {
+  draft: 'Draft',
+  research: 'Research',
+  interview: 'Interview',
+  topic: 'Topic',
+  signal: 'Signal'
+};
+
+export const formatSearchResults = (query: string, results: ContentSearchResult[]): string => {
+  if (results.length === 0) return `No matches for "${query}".`;
+
+  const lines = results.map(result => {
+    const snippet = result.snippet ? `\n  ${result.snippet.replace(/\s+/g, ' ')}` : '';
+    return `• ${KIND_LABELS[result.kind]}: ${result.title} (${result.date.slice(0, 10)}, id ${result.id})${snippet}`;
+  });
+  return `${results.length} match${results.length === 1 ? '' : 'es'} for "${query}":\n${lines.join('\n')}`;
+};
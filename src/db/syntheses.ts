@@ -0,0 +1,101 @@
+// Research synthesis storage - each synthesis with the research items and signals it drew on
+
+import Database from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+import { ResearchSynthesis } from '../shared/types.js';
+
+export type ResearchSynthesisInput = Omit<ResearchSynthesis, 'id' | 'createdAt'>;
+
+export class SynthesisStorage {
+  constructor(private db: Database.Database) {}
+
+  create(input: ResearchSynthesisInput): ResearchSynthesis {
+    const synthesis: ResearchSynthesis = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+    const link = this.db.prepare('INSERT OR IGNORE INTO research_synthesis_inputs (synthesis_id, kind, item_id) VALUES (?, ?, ?)');
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO research_syntheses (id, created_at, since, until, tags, synthesis, angles, checkpoint)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        synthesis.id,
+        synthesis.createdAt,
+        synthesis.since ?? null,
+        synthesis.until ?? null,
+        JSON.stringify(synthesis.tags),
+        synthesis.synthesis,
+        JSON.stringify(synthesis.angles),
+        synthesis.checkpoint ? 1 : 0
+      );
+      for (const id of synthesis.researchIds) link.run(synthesis.id, 'research', id);
+      for (const id of synthesis.signalIds) link.run(synthesis.id, 'signal', id);
+    })();
+
+    return synthesis;
+  }
+
+  get(id: string): ResearchSynthesis | null {
+    const row = this.db.prepare('SELECT * FROM research_syntheses WHERE id = ?').get(id) as SynthesisRow | undefined;
+    return row ? this.rowToSynthesis(row) : null;
+  }
+
+  latest(): ResearchSynthesis | null {
+    const row = this.db.prepare('SELECT * FROM research_syntheses ORDER BY created_at DESC LIMIT 1').get() as SynthesisRow | undefined;
+    return row ? this.rowToSynthesis(row) : null;
+  }
+
+  // The last synthesis a scheduled checkpoint ran; ad-hoc ones don't move its window
+  latestCheckpoint(): ResearchSynthesis | null {
+    const row = this.db.prepare('SELECT * FROM research_syntheses WHERE checkpoint = 1 ORDER BY created_at DESC LIMIT 1')
+      .get() as SynthesisRow | undefined;
+    return row ? this.rowToSynthesis(row) : null;
+  }
+
+  // Record that an angle went into the topic queue
+  markAngleQueued(id: string, index: number, topicId: string, userId?: string): ResearchSynthesis {
+    const synthesis = this.get(id);
+    if (!synthesis?.angles[index]) {
+      throw new Error(`Synthesis angle not found: ${id} #${index}`);
+    }
+
+    synthesis.angles[index] = { ...synthesis.angles[index], topicId, ...(userId ? { queuedBy: userId } : {}) };
+    this.db.prepare('UPDATE research_syntheses SET angles = ? WHERE id = ?').run(JSON.stringify(synthesis.angles), id);
+    return synthesis;
+  }
+
+  delete(id: string): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM research_synthesis_inputs WHERE synthesis_id = ?').run(id);
+      this.db.prepare('DELETE FROM research_syntheses WHERE id = ?').run(id);
+    })();
+  }
+
+  private rowToSynthesis(row: SynthesisRow): ResearchSynthesis {
+    const inputs = this.db.prepare('SELECT kind, item_id FROM research_synthesis_inputs WHERE synthesis_id = ? ORDER BY rowid')
+      .all(row.id) as Array<{ kind: string; item_id: string }>;
+
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      since: row.since || undefined,
+      until: row.until || undefined,
+      tags: JSON.parse(row.tags),
+      synthesis: row.synthesis,
+      angles: JSON.parse(row.angles),
+      researchIds: inputs.filter(input => input.kind === 'research').map(input => input.item_id),
+      signalIds: inputs.filter(input => input.kind === 'signal').map(input => input.item_id),
+      ...(row.checkpoint ? { checkpoint: true } : {})
+    };
+  }
+}
+
+interface SynthesisRow {
+  id: string;
+  created_at: string;
+  since: string | null;
+  until: string | null;
+  tags: string;
+  synthesis: string;
+  angles: string;
+  checkpoint: number;
+}
@@ -0,0 +1,133 @@
+// LLM usage storage - one row per model call, with tokens and estimated cost
+
+import Database from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+
+export interface UsageEntry {
+  id: string;
+  createdAt: string;
+  provider: string;
+  model: string;
+  purpose: string;      // 'chat', 'summary', 'fallback' or 'object'
+  agent?: string;       // Calling agent, or 'classifier'
+  userId?: string;      // Slack user the call was made for
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;      // Estimated from the price table at the time of the call
+}
+
+export type UsageEntryInput = Omit<UsageEntry, 'id' | 'createdAt'>;
+
+export interface UsageFilter {
+  since?: string;  // ISO timestamp, inclusive
+  until?: string;  // ISO timestamp, exclusive
+  userId?: string;
+  agent?: string;
+}
+
+export type UsageGrouping = 'user' | 'agent' | 'model' | 'day';
+
+export interface UsageTotal {
+  key: string;     // User ID, agent, model or day (YYYY-MM-DD); 'unknown' when unattributed
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+const GROUP_COLUMNS: Record<UsageGrouping, string> = {
+  user: 'user_id',
+  agent: 'agent',
+  model: 'model',
+  day: 'substr(created_at, 1, 10)'
+};
+
+export class UsageStorage {
+  constructor(private db: Database.Database) {}
+
+  record(input: UsageEntryInput): UsageEntry {
+    const entry: UsageEntry = {
+      ...input,
+      id: randomUUID(),
+      createdAt: new Date().toISOString()
+    };
+
+    this.db.prepare(`
+      INSERT INTO llm_usage (
+        id, created_at, provider, model, purpose, agent, user_id,
+        input_tokens, output_tokens, cost_usd
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.id,
+      entry.createdAt,
+      entry.provider,
+      entry.model,
+      entry.purpose,
+      entry.agent ?? null,
+      entry.userId ?? null,
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.costUsd
+    );
+
+    return entry;
+  }
+
+  // Spend matching the filter, summed
+  total(filter: UsageFilter = {}): UsageTotal {
+    const { where, params } = this.where(filter);
+    const row = this.db.prepare(`
+      SELECT 'total' AS key, ${TOTAL_COLUMNS} FROM llm_usage ${where}
+    `).get(...params) as UsageTotalRow;
+    return this.rowToTotal(row);
+  }
+
+  // Spend matching the filter, per user/agent/model/day, most expensive first
+  summarize(filter: UsageFilter, by: UsageGrouping): UsageTotal[] {
+    const { where, params } = this.where(filter);
+    const rows = this.db.prepare(`
+      SELECT COALESCE(${GROUP_COLUMNS[by]}, 'unknown') AS key, ${TOTAL_COLUMNS}
+      FROM llm_usage ${where}
+      GROUP BY 1
+      ORDER BY cost_usd DESC, key ASC
+    `).all(...params) as UsageTotalRow[];
+    return rows.map(row => this.rowToTotal(row));
+  }
+
+  private where(filter: UsageFilter): { where: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.since) { conditions.push('created_at >= ?'); params.push(filter.since); }
+    if (filter.until) { conditions.push('created_at < ?'); params.push(filter.until); }
+    if (filter.userId) { conditions.push('user_id = ?'); params.push(filter.userId); }
+    if (filter.agent) { conditions.push('agent = ?'); params.push(filter.agent); }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  private rowToTotal(row: UsageTotalRow): UsageTotal {
+    return {
+      key: row.key,
+      calls: row.calls,
+      inputTokens: row.input_tokens ?? 0,
+      outputTokens: row.output_tokens ?? 0,
+      costUsd: row.cost_usd ?? 0
+    };
+  }
+}
+
+const TOTAL_COLUMNS = `
+  COUNT(*) AS calls,
+  SUM(input_tokens) AS input_tokens,
+  SUM(output_tokens) AS output_tokens,
+  SUM(cost_usd) AS cost_usd
+`;
+
+interface UsageTotalRow {
+  key: string;
+  calls: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cost_usd: number | null;
+}
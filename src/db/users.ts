@@ -0,0 +1,100 @@
+// User profile storage - per-user HubSpot/Linear credentials, encrypted at rest
+
+import Database from 'better-sqlite3';
+import { encryptSecret, decryptSecret } from '../shared/crypto.js';
+
+export interface HubSpotTokens {
+  accessToken: string;
+  refreshToken?: string; // Set for OAuth tokens; private app tokens don't expire
+  expiresAt?: number;    // Epoch ms
+}
+
+export interface UserProfile {
+  slackUserId: string;
+  linearApiKey?: string;
+  hubspot?: HubSpotTokens;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class UserStorage {
+  // encryptionKey comes from CREDENTIALS_ENCRYPTION_KEY; without it nothing can be stored or read
+  constructor(private db: Database.Database, private encryptionKey?: string) {}
+
+  get(slackUserId: string): UserProfile | null {
+    const row = this.db.prepare('SELECT * FROM users WHERE slack_user_id = ?').get(slackUserId) as UserRow | undefined;
+    return row ? this.rowToProfile(row) : null;
+  }
+
+  setLinearApiKey(slackUserId: string, apiKey: string | null): UserProfile {
+    this.ensure(slackUserId);
+    this.db.prepare('UPDATE users SET linear_api_key = ?, updated_at = ? WHERE slack_user_id = ?')
+      .run(apiKey ? this.encrypt(apiKey) : null, new Date().toISOString(), slackUserId);
+    return this.get(slackUserId)!;
+  }
+
+  setHubSpotTokens(slackUserId: string, tokens: HubSpotTokens | null): UserProfile {
+    this.ensure(slackUserId);
+    this.db.prepare(`
+      UPDATE users
+      SET hubspot_access_token = ?, hubspot_refresh_token = ?, hubspot_expires_at = ?, updated_at = ?
+      WHERE slack_user_id = ?
+    `).run(
+      tokens ? this.encrypt(tokens.accessToken) : null,
+      tokens?.refreshToken ? this.encrypt(tokens.refreshToken) : null,
+      tokens?.expiresAt ?? null,
+      new Date().toISOString(),
+      slackUserId
+    );
+    return this.get(slackUserId)!;
+  }
+
+  private ensure(slackUserId: string): void {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT OR IGNORE INTO users (slack_user_id, created_at, updated_at) VALUES (?, ?, ?)
+    `).run(slackUserId, now, now);
+  }
+
+  private encrypt(value: string): string {
+    return encryptSecret(value, this.requireKey());
+  }
+
+  private decrypt(value: string | null): string | undefined {
+    return value ? decryptSecret(value, this.requireKey()) : undefined;
+  }
+
+  private requireKey(): string {
+    if (!this.encryptionKey) {
+      throw new Error('CREDENTIALS_ENCRYPTION_KEY must be set to store per-user credentials');
+    }
+    return this.encryptionKey;
+  }
+
+  private rowToProfile(row: UserRow): UserProfile {
+    const accessToken = this.decrypt(row.hubspot_access_token);
+    return {
+      slackUserId: row.slack_user_id,
+      linearApiKey: this.decrypt(row.linear_api_key),
+      hubspot: accessToken
+        ? {
+            accessToken,
+            refreshToken: this.decrypt(row.hubspot_refresh_token),
+            expiresAt: row.hubspot_expires_at ?? undefined
+          }
+        : undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+interface UserRow {
+  slack_user_id: string;
+  linear_api_key: string | null;
+  hubspot_access_token: string | null;
+  hubspot_refresh_token: string | null;
+  hubspot_expires_at: number | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,129 @@
+// Workflow run storage - one row per workflow fired, with the state of each step
+
+import Database from 'better-sqlite3';
+import { randomUUID } from 'node:crypto';
+import { PendingAction } from '../shared/types.js';
+
+export type WorkflowStepStatus = 'waiting' | 'proposed' | 'running' | 'done' | 'skipped' | 'failed';
+
+export type WorkflowRunStatus = 'awaiting_approval' | 'done' | 'skipped' | 'failed';
+
+export interface WorkflowStepState {
+  action: string;                // Catalogue action, e.g. "content.propose_topic"
+  approve: 'manual' | 'auto';
+  status: WorkflowStepStatus;
+  call: PendingAction;           // The tool call it makes, planned when the workflow fires
+  result?: string;               // What running it said, or why it failed
+  decidedBy?: string;            // Slack user who approved or skipped it
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflow: string;
+  subject: string;               // What fired it, e.g. "deal:123"; a workflow runs once per subject
+  summary: string;               // "Deal Acme renewal moved to closed won"
+  status: WorkflowRunStatus;
+  steps: WorkflowStepState[];
+  userId?: string;               // Who triggered it, when it came from a conversation
+  channelId?: string;            // Where the run's card is posted
+  threadTs?: string;
+  messageTs?: string;            // The card, once posted
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WorkflowRunInput = Omit<WorkflowRun, 'id' | 'createdAt' | 'updatedAt' | 'messageTs'>;
+
+export class WorkflowRunStorage {
+  constructor(private db: Database.Database) {}
+
+  // Null when the workflow already ran for this subject
+  create(input: WorkflowRunInput): WorkflowRun | null {
+    const now = new Date().toISOString();
+    const run: WorkflowRun = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO workflow_runs (
+        id, workflow, subject, summary, status, steps, user_id, channel_id, thread_ts, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.id,
+      run.workflow,
+      run.subject,
+      run.summary,
+      run.status,
+      JSON.stringify(run.steps),
+      run.userId ?? null,
+      run.channelId ?? null,
+      run.threadTs ?? null,
+      run.createdAt,
+      run.updatedAt
+    );
+
+    return result.changes > 0 ? run : null;
+  }
+
+  // Whether the workflow already ran for this subject
+  hasRun(workflow: string, subject: string): boolean {
+    return !!this.db.prepare('SELECT 1 FROM workflow_runs WHERE workflow = ? AND subject = ?').get(workflow, subject);
+  }
+
+  get(id: string): WorkflowRun | null {
+    const row = this.db.prepare('SELECT * FROM workflow_runs WHERE id = ?').get(id) as WorkflowRunRow | undefined;
+    return row ? this.rowToRun(row) : null;
+  }
+
+  // Saves status and steps; the card location is only set by setMessage
+  update(run: WorkflowRun): WorkflowRun {
+    const updated = { ...run, updatedAt: new Date().toISOString() };
+    this.db.prepare(`
+      UPDATE workflow_runs SET status = ?, steps = ?, updated_at = ? WHERE id = ?
+    `).run(updated.status, JSON.stringify(updated.steps), updated.updatedAt, updated.id);
+    return updated;
+  }
+
+  // Where the run's Slack card was posted
+  setMessage(id: string, channelId: string, messageTs: string): void {
+    this.db.prepare('UPDATE workflow_runs SET channel_id = ?, message_ts = ? WHERE id = ?').run(channelId, messageTs, id);
+  }
+
+  // Most recent first
+  listRecent(limit: number = 10): WorkflowRun[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM workflow_runs ORDER BY created_at DESC, rowid DESC LIMIT ?
+    `).all(limit) as WorkflowRunRow[];
+    return rows.map(row => this.rowToRun(row));
+  }
+
+  private rowToRun(row: WorkflowRunRow): WorkflowRun {
+    return {
+      id: row.id,
+      workflow: row.workflow,
+      subject: row.subject,
+      summary: row.summary,
+      status: row.status as WorkflowRunStatus,
+      steps: JSON.parse(row.steps),
+      userId: row.user_id ?? undefined,
+      channelId: row.channel_id ?? undefined,
+      threadTs: row.thread_ts ?? undefined,
+      messageTs: row.message_ts ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+interface WorkflowRunRow {
+  id: string;
+  workflow: string;
+  subject: string;
+  summary: string;
+  status: string;
+  steps: string;
+  user_id: string | null;
+  channel_id: string | null;
+  thread_ts: string | null;
+  message_ts: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -1,8 +1,33 @@
 #!/usr/bin/env node
 // HubSpot OAuth CLI - Run this to authorize the app
+// Pass --user <Slack user ID> to link a user's own HubSpot login instead of the shared token
 
 import 'dotenv/config';
-import { createHubSpotOAuth } from './agents/hubspot/oauth.js';
+import { createHubSpotOAuth, TokenStore } from './agents/hubspot/oauth.js';
+import { initializeDatabase, closeDatabase } from './db/index.js';
+import { UserStorage } from './db/users.js';
+
+// Store tokens encrypted on the user's row instead of the shared token file
+async function userTokenStore(slackUserId: string): Promise<TokenStore> {
+  const db = await initializeDatabase({ path: process.env.DATABASE_PATH });
+  const users = new UserStorage(db, process.env.CREDENTIALS_ENCRYPTION_KEY);
+
+  return {
+    load: async () => {
+      const tokens = users.get(slackUserId)?.hubspot;
+      return tokens?.refreshToken && tokens.expiresAt
+        ? { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken, expiresAt: tokens.expiresAt, tokenType: 'bearer' }
+        : null;
+    },
+    save: async token => {
+      users.setHubSpotTokens(slackUserId, {
+        accessToken: token.accessToken,
+        refreshToken: token.refreshToken,
+        expiresAt: token.expiresAt
+      });
+    }
+  };
+}
 
 async function main() {
   console.log('HubSpot OAuth Setup\n');
@@ -12,13 +37,26 @@ async function main() {
     process.exit(1);
   }
 
-  const oauth = createHubSpotOAuth();
+  const userFlag = process.argv.indexOf('--user');
+  const slackUserId = userFlag >= 0 ? process.argv[userFlag + 1] : undefined;
+  if (userFlag >= 0 && !slackUserId) {
+    console.error('Error: --user needs a Slack user ID, e.g. --user U0123ABCD');
+    process.exit(1);
+  }
+  if (slackUserId && !process.env.CREDENTIALS_ENCRYPTION_KEY) {
+    console.error('Error: CREDENTIALS_ENCRYPTION_KEY must be set in .env to store per-user tokens');
+    process.exit(1);
+  }
+
+  const oauth = createHubSpotOAuth(undefined, slackUserId ? await userTokenStore(slackUserId) : undefined);
 
   // Check for existing token
   const existingToken = await oauth.getAccessToken();
   if (existingToken) {
     console.log('Valid OAuth token already exists.');
-    console.log('To re-authorize, delete data/.hubspot-token.json and run again.');
+    console.log(slackUserId
+      ? `To re-authorize, have ${slackUserId} send "disconnect hubspot" to the bot and run again.`
+      : 'To re-authorize, delete data/.hubspot-token.json and run again.');
     process.exit(0);
   }
 
@@ -29,8 +67,9 @@ async function main() {
   try {
     const tokenData = await oauth.runAuthServer(3000);
     console.log('\nAuthorization successful!');
-    console.log('Token saved to data/.hubspot-token.json');
+    console.log(slackUserId ? `Token saved for Slack user ${slackUserId}` : 'Token saved to data/.hubspot-token.json');
     console.log('Expires at:', new Date(tokenData.expiresAt).toLocaleString());
+    closeDatabase();
   } catch (error) {
     console.error('\nAuthorization failed:', error);
     process.exit(1);
@@ -4,6 +4,13 @@ import 'dotenv/config';
 import { initializeDatabase, closeDatabase } from './db/index.js';
 import { Orchestrator } from './orchestrator/index.js';
 import { SlackApp } from './slack/app.js';
+import { Scheduler } from './scheduler/index.js';
+import { ContentAgent } from './agents/content/index.js';
+import { formatCheckpointReport } from './agents/content/checkpoint.js';
+import { buildSynthesisCard, synthesisCardText } from './slack/synthesis.js';
+import { buildDraftCard, draftCardText } from './slack/approvals.js';
+import { LLMClient } from './shared/llm.js';
+import { createEmbeddingProvider } from './shared/embeddings.js';
 import { loadConfig } from './config.js';
 
 async function main() {
@@ -21,6 +28,14 @@ async function main() {
   const orchestrator = new Orchestrator(db, {
     llm: config.llm,
     context: config.context,
+    policies: config.policies,
+    credentials: config.credentials,
+    permissions: config.permissions,
+    admins: config.admins,
+    usage: config.usage,
+    workflows: config.workflows,
+    embeddings: config.embeddings,
+    critic: config.content.critic,
     classifier: {
       confidenceThreshold: 0.5,
       directRouteThreshold: 0.8
@@ -29,13 +44,58 @@ async function main() {
   console.log('[Main] Orchestrator created');
 
   // Create and start Slack app
-  const slackApp = new SlackApp(config.slack, orchestrator);
+  const slackApp = new SlackApp(config.slack, orchestrator, db);
   await slackApp.start();
   console.log('[Main] Slack app started');
 
+  // Scheduled content checkpoints. The critic and synthesis spend model calls,
+  // so they don't run when there's no channel to post the report to.
+  const scheduler = new Scheduler(db, { timezone: config.scheduler.timezone });
+  if (config.scheduler.enabled && !config.slack.defaultChannel) {
+    console.warn('[Main] SLACK_DEFAULT_CHANNEL is not set, so scheduled content checkpoints are off');
+  } else if (config.scheduler.enabled) {
+    const contentAgent = new ContentAgent(
+      db,
+      new LLMClient(config.llm, usage => orchestrator.usage.record(usage)),
+      createEmbeddingProvider(config.embeddings),
+      config.content.critic
+    );
+
+    scheduler.addJob({
+      name: 'content-checkpoint',
+      days: config.content.checkpointDays,
+      time: config.content.checkpointTime,
+      run: async () => {
+        const report = await contentAgent.runCheckpoint();
+        await slackApp.notify(formatCheckpointReport(report));
+        // Cards posted before the critic revised a draft still show the old text
+        for (const { draft } of report.checkpoints.filter(checkpoint => checkpoint.revised)) {
+          await slackApp.notify(draftCardText(draft), buildDraftCard(draft));
+        }
+        if (report.synthesis) {
+          await slackApp.notify(synthesisCardText(report.synthesis), buildSynthesisCard(report.synthesis));
+        }
+      }
+    });
+
+    scheduler.start();
+    console.log('[Main] Scheduler started');
+  }
+
+  // Linear has no webhook here, so completed projects are picked up by polling
+  const workflowPoll = orchestrator.workflows.listensTo('linear.project_completed')
+    ? setInterval(() => {
+      orchestrator.workflows.pollLinear().catch(error => {
+        console.error('[Main] Linear workflow poll failed:', error);
+      });
+    }, orchestrator.workflows.pollMinutes * 60 * 1000)
+    : undefined;
+
   // Handle graceful shutdown
   const shutdown = async () => {
     console.log('[Main] Shutting down...');
+    scheduler.stop();
+    if (workflowPoll) clearInterval(workflowPoll);
     await slackApp.stop();
     closeDatabase();
     console.log('[Main] Shutdown complete');
@@ -0,0 +1,61 @@
+// "show audit for today" - query the audit log from Slack
+
+import { AuditEvent, AuditFilter, formatAuditEvents } from '../db/audit.js';
+import { parsePeriod } from '../shared/period.js';
+
+export interface AuditCommand {
+  filter: AuditFilter;
+  format: 'summary' | 'json' | 'csv';
+  period: string; // As the user said it, for the reply
+}
+
+// Slack messages are capped well above this, but long exports belong in the CLI
+const MAX_REPLY_CHARS = 3500;
+
+const COMMAND_PATTERN = /^show\s+(the\s+)?audit(\s+log)?\b/i;
+
+// "show audit [log] [for today|yesterday|this week|this month|the last N hours|days] [for <@U123>] [as json|csv]"
+export const parseAuditCommand = (message: string, now: Date = new Date()): AuditCommand | null => {
+  const text = message.trim();
+  if (!COMMAND_PATTERN.test(text)) return null;
+
+  const period = parsePeriod(text, now);
+  const filter: AuditFilter = { since: period.since, until: period.until };
+
+  const user = text.match(/\bfor\s+<@([A-Z0-9]+)(\|[^>]*)?>/i);
+  if (user) filter.userId = user[1];
+
+  const format = text.match(/\bas\s+(json|csv)\b/i)?.[1].toLowerCase() as 'json' | 'csv' | undefined;
+
+  return { filter, format: format || 'summary', period: period.label };
+};
+
+// One line per event, newest last
+const summaryLine = (event: AuditEvent): string => {
+  const time = event.createdAt.slice(11, 19);
+  const who = event.userId ? ` <@${event.userId}>` : '';
+  const where = event.agent ? ` ${event.agent}${event.toolName ? `.${event.toolName}` : ''}` : '';
+  const outcome = event.outcome === 'ok' ? '' : ` [${event.outcome}]`;
+  return `\`${time}\` ${event.type}${who}${where}${outcome} — ${event.summary}`;
+};
+
+export const formatAuditReply = (command: AuditCommand, events: AuditEvent[]): string => {
+  if (events.length === 0) {
+    return `No audit events for ${command.period}.`;
+  }
+
+  const header = `${events.length} audit event${events.length === 1 ? '' : 's'} for ${command.period}:`;
+  const body = command.format === 'summary'
+    ? events.map(summaryLine).join('\n')
+    : formatAuditEvents(events, command.format);
+
+  if (body.length <= MAX_REPLY_CHARS) {
+    return command.format === 'summary' ? `${header}\n${body}` : `${header}\n\`\`\`\n${body}\n\`\`\``;
+  }
+
+  const truncated = body.slice(0, MAX_REPLY_CHARS);
+  const note = '_Truncated - run `npm run cli -- audit` for the full export._';
+  return command.format === 'summary'
+    ? `${header}\n${truncated.slice(0, truncated.lastIndexOf('\n'))}\n${note}`
+    : `${header}\n\`\`\`\n${truncated}\n\`\`\`\n${note}`;
+};
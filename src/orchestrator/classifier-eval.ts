@@ -0,0 +1,283 @@
+// Classifier evaluation - run IntentClassifier over a labeled corpus, score
+// routing per agent and compare against a saved baseline
+
+import { IntentClassifier } from './classifier.js';
+import { ConversationContext, EntityType } from '../shared/types.js';
+
+// One labeled message. The corpus is JSONL, one case per line.
+export interface EvalCase {
+  id: string;
+  message: string;
+  context?: {
+    activeAgent?: string;
+    history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+    entities?: Array<{ type: EntityType; name: string }>;
+  };
+  expected: {
+    agent: string;
+    entities?: Array<{ type: string; value: string }>; // Omit to leave entities unscored
+  };
+}
+
+export interface EvalCaseResult {
+  id: string;
+  message: string;
+  expected: string;
+  actual: string;
+  source: 'quick' | 'llm';         // Answered by a quick pattern or the model
+  correct: boolean;
+  entities?: { expected: number; found: number; matched: number };
+  failure?: string;                 // Why classification fell back, if it did
+}
+
+export interface AgentScore {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;                  // Cases labeled with this agent
+}
+
+export interface EvalReport {
+  total: number;
+  correct: number;
+  accuracy: number;
+  agents: Record<string, AgentScore>;
+  entities: { precision: number; recall: number };
+  confusion: Record<string, Record<string, number>>; // expected -> actual -> count
+  cases: EvalCaseResult[];
+}
+
+// What a later run is compared against
+export interface EvalBaseline {
+  accuracy: number;
+  agents: Record<string, { precision: number; recall: number }>;
+  entities: { precision: number; recall: number };
+  passed: string[];                 // Case ids routed correctly
+}
+
+export interface EvalComparison {
+  regressions: string[];
+  improvements: string[];
+}
+
+const ENTITY_TYPES = ['contacts', 'deals', 'companies', 'tasks', 'notes', 'issues', 'drafts'] as const;
+
+export const parseEvalCorpus = (jsonl: string): EvalCase[] => {
+  const cases: EvalCase[] = [];
+  const ids = new Set<string>();
+
+  jsonl.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    const parsed = JSON.parse(line) as EvalCase;
+    if (!parsed.id || !parsed.message || !parsed.expected?.agent) {
+      throw new Error(`Line ${index + 1}: each case needs "id", "message" and "expected.agent"`);
+    }
+    if (ids.has(parsed.id)) {
+      throw new Error(`Line ${index + 1}: duplicate case id "${parsed.id}"`);
+    }
+    ids.add(parsed.id);
+    cases.push(parsed);
+  });
+
+  return cases;
+};
+
+// The conversation a case's message arrives in
+const evalContext = (evalCase: EvalCase): ConversationContext | undefined => {
+  if (!evalCase.context) return undefined;
+
+  const timestamp = '2026-01-01T00:00:00.000Z';
+  const entities = Object.fromEntries(ENTITY_TYPES.map(key => [key, []])) as unknown as ConversationContext['entities'];
+  (evalCase.context.entities || []).forEach((entity, index) => {
+    entities[`${entity.type}s` as keyof ConversationContext['entities']]?.push({
+      type: entity.type,
+      id: `${entity.type}-${index + 1}`,
+      name: entity.name,
+      mentionedAt: timestamp
+    });
+  });
+
+  return {
+    id: `eval-${evalCase.id}`,
+    slackChannelId: 'C-EVAL',
+    userId: 'U-EVAL',
+    activeAgent: evalCase.context.activeAgent ?? null,
+    history: (evalCase.context.history || []).map(turn => ({ ...turn, timestamp })),
+    entities,
+    createdAt: timestamp,
+    lastActivityAt: timestamp,
+    expiresAt: timestamp
+  };
+};
+
+const entityKey = (entity: { type: string; value: string }): string =>
+  `${entity.type.toLowerCase()}:${entity.value.trim().toLowerCase()}`;
+
+// Classify every case in order. With `quick`, patterns answer first, as in routing.
+export const runClassifierEval = async (
+  classifier: IntentClassifier,
+  cases: EvalCase[],
+  options: { quick?: boolean } = {}
+): Promise<EvalCaseResult[]> => {
+  const results: EvalCaseResult[] = [];
+
+  for (const evalCase of cases) {
+    const quick = options.quick ? classifier.quickClassify(evalCase.message) : null;
+    const result = quick || await classifier.classify(evalCase.message, evalContext(evalCase), 'U-EVAL');
+
+    const expectedEntities = evalCase.expected.entities;
+    const found = new Set(result.entities.map(entityKey));
+    results.push({
+      id: evalCase.id,
+      message: evalCase.message,
+      expected: evalCase.expected.agent,
+      actual: result.agent,
+      source: quick ? 'quick' : 'llm',
+      correct: result.agent === evalCase.expected.agent,
+      ...(expectedEntities ? {
+        entities: {
+          expected: expectedEntities.length,
+          found: found.size,
+          matched: expectedEntities.filter(entity => found.has(entityKey(entity))).length
+        }
+      } : {}),
+      ...(result.failure ? { failure: result.failure.message } : {})
+    });
+  }
+
+  return results;
+};
+
+// Nothing to get wrong counts as perfect: an agent never predicted has precision 1
+const ratio = (count: number, total: number): number => (total === 0 ? 1 : count / total);
+
+export const scoreEval = (results: EvalCaseResult[]): EvalReport => {
+  const labels = [...new Set(results.flatMap(result => [result.expected, result.actual]))];
+  const confusion: EvalReport['confusion'] = {};
+  for (const expected of labels) {
+    confusion[expected] = Object.fromEntries(labels.map(actual => [actual, 0]));
+  }
+  for (const result of results) {
+    confusion[result.expected][result.actual]++;
+  }
+
+  const agents: EvalReport['agents'] = {};
+  for (const label of labels) {
+    const truePositives = confusion[label][label];
+    const support = labels.reduce((sum, actual) => sum + confusion[label][actual], 0);
+    const predicted = labels.reduce((sum, expected) => sum + confusion[expected][label], 0);
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    agents[label] = {
+      precision,
+      recall,
+      f1: precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall),
+      support
+    };
+  }
+
+  const scored = results.filter(result => result.entities);
+  const sum = (key: 'expected' | 'found' | 'matched') => scored.reduce((total, result) => total + result.entities![key], 0);
+  const correct = results.filter(result => result.correct).length;
+
+  return {
+    total: results.length,
+    correct,
+    accuracy: ratio(correct, results.length),
+    agents,
+    entities: { precision: ratio(sum('matched'), sum('found')), recall: ratio(sum('matched'), sum('expected')) },
+    confusion,
+    cases: results
+  };
+};
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+export const toBaseline = (report: EvalReport): EvalBaseline => ({
+  accuracy: round(report.accuracy),
+  agents: Object.fromEntries(Object.entries(report.agents).map(([agent, score]) => [
+    agent,
+    { precision: round(score.precision), recall: round(score.recall) }
+  ])),
+  entities: { precision: round(report.entities.precision), recall: round(report.entities.recall) },
+  passed: report.cases.filter(result => result.correct).map(result => result.id)
+});
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+// Metric drops beyond `tolerance`, and cases that passed in the baseline but fail now
+export const compareToBaseline = (report: EvalReport, baseline: EvalBaseline, tolerance: number = 0.02): EvalComparison => {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+
+  const compare = (name: string, now: number, before: number) => {
+    if (now < before - tolerance) regressions.push(`${name} fell from ${percent(before)} to ${percent(now)}`);
+    else if (now > before + tolerance) improvements.push(`${name} rose from ${percent(before)} to ${percent(now)}`);
+  };
+
+  compare('Accuracy', report.accuracy, baseline.accuracy);
+  for (const [agent, before] of Object.entries(baseline.agents)) {
+    const now = report.agents[agent];
+    if (!now) continue;
+    compare(`${agent} precision`, now.precision, before.precision);
+    compare(`${agent} recall`, now.recall, before.recall);
+  }
+  compare('Entity precision', report.entities.precision, baseline.entities.precision);
+  compare('Entity recall', report.entities.recall, baseline.entities.recall);
+
+  const passed = new Set(baseline.passed);
+  for (const result of report.cases) {
+    if (passed.has(result.id) && !result.correct) {
+      regressions.push(`${result.id} now goes to ${result.actual} (expected ${result.expected})`);
+    } else if (!passed.has(result.id) && result.correct) {
+      improvements.push(`${result.id} now goes to ${result.expected}`);
+    }
+  }
+
+  return { regressions, improvements };
+};
+
+const table = (rows: string[][]): string => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+};
+
+export const formatEvalReport = (report: EvalReport, comparison?: EvalComparison): string => {
+  const labels = Object.keys(report.agents);
+  const quick = report.cases.filter(result => result.source === 'quick').length;
+
+  const sections = [
+    `Classifier eval: ${report.correct}/${report.total} routed correctly (${percent(report.accuracy)})` +
+      (quick > 0 ? `, ${quick} by quick patterns` : ''),
+    table([
+      ['Agent', 'Precision', 'Recall', 'F1', 'Support'],
+      ...labels.map(label => {
+        const score = report.agents[label];
+        return [label, percent(score.precision), percent(score.recall), percent(score.f1), String(score.support)];
+      })
+    ]),
+    `Entities: precision ${percent(report.entities.precision)}, recall ${percent(report.entities.recall)}`,
+    `Confusion (rows: expected, columns: actual)\n${table([
+      ['', ...labels],
+      ...labels.map(expected => [expected, ...labels.map(actual => String(report.confusion[expected][actual]))])
+    ])}`
+  ];
+
+  const misrouted = report.cases.filter(result => !result.correct);
+  if (misrouted.length > 0) {
+    sections.push(`Misrouted:\n${misrouted.map(result =>
+      `• ${result.id} "${result.message}" → ${result.actual} (expected ${result.expected})${result.failure ? ` — ${result.failure}` : ''}`
+    ).join('\n')}`);
+  }
+
+  if (comparison) {
+    sections.push(comparison.regressions.length > 0
+      ? `Regressions vs baseline:\n${comparison.regressions.map(line => `• ${line}`).join('\n')}`
+      : 'No regressions vs baseline.');
+    if (comparison.improvements.length > 0) {
+      sections.push(`Improvements vs baseline:\n${comparison.improvements.map(line => `• ${line}`).join('\n')}`);
+    }
+  }
+
+  return sections.join('\n\n');
+};
@@ -1,12 +1,20 @@
 // Intent classifier for the orchestrator
 
+import { z } from 'zod';
 import { LLMClient } from '../shared/llm.js';
+import { AgentErrorClass, ErrorCategory } from '../shared/errors.js';
 import {
   AgentType,
   ClassificationResult,
   ExtractedEntity,
-  ConversationContext
+  ConversationContext,
+  SubIntent
 } from '../shared/types.js';
+import { AgentCatalog, AgentDefinition, staticCatalog } from '../agents/registry.js';
+import { CONTENT_AGENT_DEFINITION } from '../agents/content/index.js';
+import { HUBSPOT_AGENT_DEFINITION } from '../agents/hubspot/index.js';
+import { LINEAR_AGENT_DEFINITION } from '../agents/linear/index.js';
+import { GENERAL_AGENT_DEFINITION } from '../agents/general/index.js';
 
 export interface ClassifierConfig {
   confidenceThreshold: number;  // Below this, ask for clarification (default: 0.5)
@@ -18,49 +26,97 @@ const DEFAULT_CONFIG: ClassifierConfig = {
   directRouteThreshold: 0.8
 };
 
-const CLASSIFICATION_SYSTEM_PROMPT = `You are an intent classifier for a multi-agent system. Your job is to determine which agent should handle a user's message.
+// What the model must return. Agent names are checked against the catalog
+// afterwards, so an unknown one falls back to 'general' instead of failing.
+export const CLASSIFICATION_SCHEMA = z.object({
+  agent: z.string(),
+  intent: z.string(),
+  confidence: z.number().min(0).max(1),
+  entities: z.array(z.object({
+    type: z.string(),
+    value: z.string()
+  })).default([]),
+  subIntents: z.array(z.object({
+    agent: z.string(),
+    intent: z.string(),
+    request: z.string(),
+    entities: z.array(z.object({
+      type: z.string(),
+      value: z.string()
+    })).default([]),
+    dependsOn: z.number().int().nullable().optional()
+  })).default([])
+});
+
+// Build the classification prompt from the registered agent definitions
+export const buildClassificationPrompt = (definitions: AgentDefinition[]): string => {
+  const agents = definitions.map(d => `- ${d.name}: ${d.description}`).join('\n');
+  const agentNames = definitions.map(d => `"${d.name}"`).join(' | ');
+
+  const patterns = [
+    ...definitions
+      .filter(d => d.keywords.length > 0)
+      .map(d => `- ${d.keywords.map(k => `"${k}"`).join(', ')} → ${d.name}`),
+    ...definitions.flatMap(d => (d.hints || []).map(hint => `- ${hint}`))
+  ].join('\n');
+
+  return `You are an intent classifier for a multi-agent system. Your job is to determine which agent should handle a user's message.
 
 Available agents:
-- content: Handles LinkedIn content creation, drafts, research, topics, and writing assistance
-- hubspot: Handles CRM operations - contacts, companies, deals, tasks, and notes
-- linear: Handles project management - issues, sprints, projects, team tasks
-- general: For general questions, greetings, or unclear requests
+${agents}
 
 Analyze the message and respond with a JSON object:
 {
-  "agent": "content" | "hubspot" | "linear" | "general",
+  "agent": ${agentNames},
   "intent": "brief description of what the user wants",
   "confidence": 0.0 to 1.0,
   "entities": [
     {
-      "type": "contact" | "deal" | "company" | "task" | "date" | "amount" | "issue",
+      "type": "contact" | "deal" | "company" | "task" | "note" | "issue" | "draft" | "date" | "amount",
       "value": "extracted value"
     }
+  ],
+  "subIntents": [
+    {
+      "agent": ${agentNames},
+      "intent": "what this part asks for",
+      "request": "this part rewritten as a standalone request",
+      "entities": [],
+      "dependsOn": null
+    }
   ]
 }
 
+If the message asks for several things that belong to different agents (e.g. "log a note on the Acme deal and open a Linear ticket to build their dashboard"), list each one in "subIntents" in the order they should happen, and set "agent" to the first one's agent. Set "dependsOn" to the index of an earlier sub-intent whose result this one needs, or null if it can run on its own. For a single request, leave "subIntents" empty.
+
 Key patterns:
-- "draft", "write", "post", "LinkedIn", "content", "article", "topic" → content
-- "contact", "company", "deal", "task", "note", "CRM", "HubSpot", "pipeline", "follow up" → hubspot
-- "issue", "ticket", "bug", "feature", "sprint", "cycle", "project", "Linear", "backlog", "my tasks", "assigned" → linear
-- Names with titles like "CTO at Company" → hubspot contact
-- Dollar amounts, deal stages → hubspot deal
-- Issue identifiers like "ENG-123", "PROJ-456" → linear issue
+${patterns}
 
 Pronouns (he/she/they/it) should NOT be classified as entities - the orchestrator will resolve them from context.
 
 IMPORTANT: Consider conversation context when classifying. If the user is continuing a conversation about a specific domain, assume they're still talking about it even without explicit keywords.`;
+};
+
+// Agents the classifier knows about when none are supplied
+const BUILTIN_AGENTS: AgentCatalog = staticCatalog([
+  CONTENT_AGENT_DEFINITION,
+  HUBSPOT_AGENT_DEFINITION,
+  LINEAR_AGENT_DEFINITION,
+  GENERAL_AGENT_DEFINITION
+]);
 
 export class IntentClassifier {
   private llm: LLMClient;
   private config: ClassifierConfig;
+  private agents: AgentCatalog;
 
-  constructor(llm: LLMClient, config?: Partial<ClassifierConfig>) {
+  constructor(llm: LLMClient, config?: Partial<ClassifierConfig>, agents: AgentCatalog = BUILTIN_AGENTS) {
     this.llm = llm;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.agents = agents;
   }
 
-  async classify(message: string, context?: ConversationContext): Promise<ClassificationResult> {
+  async classify(message: string, context?: ConversationContext, userId?: string): Promise<ClassificationResult> {
     // Build context string for the prompt
     let contextInfo = '';
     if (context) {
@@ -78,6 +134,12 @@ export class IntentClassifier {
       for (const company of context.entities.companies.slice(-3)) {
         recentEntities.push(`Company: ${company.name}`);
       }
+      for (const issue of context.entities.issues.slice(-3)) {
+        recentEntities.push(`Issue: ${issue.name}`);
+      }
+      for (const draft of context.entities.drafts.slice(-3)) {
+        recentEntities.push(`Draft: ${draft.name}`);
+      }
 
       if (recentEntities.length > 0) {
         contextInfo += `Recent entities: ${recentEntities.join(', ')}\n`;
@@ -99,131 +161,50 @@ export class IntentClassifier {
       : `User message: "${message}"`;
 
     try {
-      const response = await this.llm.chat(userMessage, [], {
-        systemPrompt: CLASSIFICATION_SYSTEM_PROMPT
+      const parsed = await this.llm.generateObject(userMessage, CLASSIFICATION_SCHEMA, {
+        systemPrompt: buildClassificationPrompt(this.agents.definitions()),
+        schemaName: 'classification',
+        purpose: 'classifier',
+        caller: { agent: 'classifier', userId }
       });
 
-      // Parse JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          agent: this.validateAgent(parsed.agent),
-          intent: parsed.intent || 'Unknown intent',
-          confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0.5,
-          entities: this.validateEntities(parsed.entities || [])
-        };
-      }
+      const subIntents = this.validateSubIntents(parsed.subIntents);
+      return {
+        agent: subIntents ? subIntents[0].agent : this.validateAgent(parsed.agent),
+        intent: parsed.intent || 'Unknown intent',
+        confidence: parsed.confidence,
+        entities: this.validateEntities(parsed.entities),
+        ...(subIntents ? { subIntents } : {})
+      };
     } catch (error) {
       console.error('Classification error:', error);
-    }
-
-    // Default to general agent on error
-    return {
-      agent: 'general',
-      intent: 'Classification failed',
-      confidence: 0.3,
-      entities: []
-    };
-  }
-
-  // Quick classification for common patterns (no LLM call)
-  quickClassify(message: string): ClassificationResult | null {
-    const lower = message.toLowerCase().trim();
-
-    // Content agent patterns
-    const contentPatterns = [
-      /^(write|draft|create|edit)\s+(a\s+)?(linkedin|post|article|content)/,
-      /^show\s+(my\s+)?drafts?/,
-      /^(approve|reject)\s+(draft|this)/,
-      /^what.*topics?/,
-      /^add\s+topic/
-    ];
-
-    for (const pattern of contentPatterns) {
-      if (pattern.test(lower)) {
-        return {
-          agent: 'content',
-          intent: 'Content operation',
-          confidence: 0.95,
-          entities: []
-        };
-      }
-    }
 
-    // HubSpot patterns
-    const hubspotPatterns = [
-      /^(add|create|update|find|show|list)\s+(a\s+)?(contact|company|deal|note)/,
-      /^(create|add)\s+(a\s+)?task\s+to\s+follow/,  // "create a task to follow up" -> hubspot
-      /^log\s+(a\s+)?note/,
-      /^(create|add)\s+.*as\s+a\s+contact/,
-      /^follow\s*up\s+(with|on)/,
-      /pipeline\s+summary/,
-      /show\s+(my\s+)?(deals|contacts)/,
-      /hubspot/i
-    ];
-
-    for (const pattern of hubspotPatterns) {
-      if (pattern.test(lower)) {
-        return {
-          agent: 'hubspot',
-          intent: 'HubSpot operation',
-          confidence: 0.95,
-          entities: []
-        };
-      }
-    }
-
-    // Linear patterns
-    const linearPatterns = [
-      /^(create|add|new)\s+(an?\s+)?(issue|ticket|bug)/,
-      /^(show|list|get)\s+(my\s+)?(issues|tickets)/,
-      /^my\s+(issues|tasks|tickets)/,
-      /^(current|active)\s+(sprint|cycle)/,
-      /^(update|close|complete|mark)\s+(issue|ticket)/,
-      /^what('s| is)\s+(in\s+)?(the\s+)?(sprint|backlog|cycle)/,
-      /linear/i,
-      /^sprint\b/,
-      /^backlog\b/,
-      /assign\s+to\s+(factory|codex|droid)/i
-    ];
-
-    // Check for issue identifiers like ENG-123
-    const hasIssueId = /\b[A-Z]+-\d+\b/.test(message);
-
-    for (const pattern of linearPatterns) {
-      if (pattern.test(lower) || pattern.test(message)) {
-        return {
-          agent: 'linear',
-          intent: 'Linear operation',
-          confidence: 0.95,
-          entities: []
-        };
-      }
-    }
-
-    if (hasIssueId) {
+      // Default to general agent on error, keeping what went wrong for the audit log
       return {
-        agent: 'linear',
-        intent: 'Linear issue reference',
-        confidence: 0.9,
-        entities: []
+        agent: 'general',
+        intent: 'Classification failed',
+        confidence: 0.3,
+        entities: [],
+        failure: {
+          category: error instanceof AgentErrorClass ? error.category : ErrorCategory.UNKNOWN,
+          message: error instanceof Error ? error.message : String(error),
+          rawOutput: error instanceof AgentErrorClass ? error.details?.rawOutput as string | undefined : undefined
+        }
       };
     }
+  }
 
-    // General patterns
-    const generalPatterns = [
-      /^(hi|hello|hey|good\s+(morning|afternoon|evening))/,
-      /^(thanks|thank\s+you)/,
-      /^help$/,
-      /^what\s+can\s+you\s+do/
-    ];
+  // Quick classification for common patterns (no LLM call).
+  // Agents are checked in registration order; first match wins.
+  quickClassify(message: string): ClassificationResult | null {
+    const lower = message.toLowerCase().trim();
 
-    for (const pattern of generalPatterns) {
-      if (pattern.test(lower)) {
+    for (const definition of this.agents.definitions()) {
+      // Test the original text too, for case-sensitive patterns like issue IDs
+      if (definition.quickPatterns.some(pattern => pattern.test(lower) || pattern.test(message))) {
         return {
-          agent: 'general',
-          intent: 'Greeting or general query',
+          agent: definition.name,
+          intent: `${definition.label} operation`,
           confidence: 0.95,
           entities: []
         };
@@ -244,12 +225,33 @@ export class IntentClassifier {
   }
 
   private validateAgent(agent: string): AgentType {
-    if (['content', 'hubspot', 'general'].includes(agent)) {
-      return agent as AgentType;
+    if (this.agents.definitions().some(d => d.name === agent)) {
+      return agent;
     }
     return 'general';
   }
 
+  // Sub-intents worth fanning out: two or more, spanning more than one agent.
+  // A dependency must point at an earlier sub-intent, which rules out cycles.
+  private validateSubIntents(subIntents: z.infer<typeof CLASSIFICATION_SCHEMA>['subIntents'] = []): SubIntent[] | undefined {
+    // Dropping empty sub-intents shifts the rest, so dependsOn is renumbered to match
+    const kept = subIntents.flatMap((sub, index) => (sub.request.trim() ? [{ sub, index }] : []));
+    const renumbered = new Map(kept.map(({ index }, position) => [index, position]));
+
+    const valid: SubIntent[] = kept.map(({ sub, index }) => {
+      const dependsOn = typeof sub.dependsOn === 'number' && sub.dependsOn < index ? renumbered.get(sub.dependsOn) : undefined;
+      return {
+        agent: this.validateAgent(sub.agent),
+        intent: sub.intent,
+        request: sub.request.trim(),
+        entities: this.validateEntities(sub.entities),
+        ...(dependsOn !== undefined ? { dependsOn } : {})
+      };
+    });
+
+    return new Set(valid.map(sub => sub.agent)).size > 1 ? valid : undefined;
+  }
+
   private validateEntities(entities: any[]): ExtractedEntity[] {
     if (!Array.isArray(entities)) return [];
 
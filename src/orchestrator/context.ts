@@ -1,7 +1,7 @@
 // Orchestrator context management layer
 
 import { ContextStorage, ContextConfig } from '../db/context.js';
-import { ConversationContext, ConversationTurn, EntityRef, AgentType } from '../shared/types.js';
+import { ConversationContext, ConversationTurn, EntityRef, EntityType, AgentType, AgentAction, PendingAction } from '../shared/types.js';
 import Database from 'better-sqlite3';
 
 export class ContextManager {
@@ -27,12 +27,20 @@ export class ContextManager {
   }
 
   // Add an assistant response to context
-  addAssistantMessage(contextId: string, content: string, agent?: AgentType): void {
+  addAssistantMessage(
+    contextId: string,
+    content: string,
+    agent?: AgentType,
+    actions?: AgentAction[],
+    model?: string
+  ): void {
     const turn: ConversationTurn = {
       role: 'assistant',
       content,
       timestamp: new Date().toISOString(),
-      agent
+      agent,
+      actions: actions && actions.length > 0 ? actions : undefined,
+      model
     };
     this.storage.addTurn(contextId, turn);
   }
@@ -48,13 +56,18 @@ export class ContextManager {
     return context?.activeAgent || null;
   }
 
+  // Hold a tool call until the user confirms it, or clear it with null
+  setPendingAction(contextId: string, pending: PendingAction | null): void {
+    this.storage.setPendingAction(contextId, pending);
+  }
+
   // Add an entity reference to context
   addEntityReference(contextId: string, entity: EntityRef): void {
     this.storage.addEntity(contextId, entity);
   }
 
   // Get the most recent entity of a type
-  getRecentEntity(contextId: string, type: 'contact' | 'deal' | 'company'): EntityRef | null {
+  getRecentEntity(contextId: string, type: EntityType): EntityRef | null {
     return this.storage.getRecentEntity(contextId, type);
   }
 
@@ -87,7 +100,10 @@ export class ContextManager {
     const allEntities = [
       ...context.entities.contacts.map(e => `Contact: ${e.name}`),
       ...context.entities.deals.map(e => `Deal: ${e.name}`),
-      ...context.entities.companies.map(e => `Company: ${e.name}`)
+      ...context.entities.companies.map(e => `Company: ${e.name}`),
+      ...context.entities.tasks.map(e => `Task: ${e.name}`),
+      ...context.entities.issues.map(e => `Issue: ${e.name}`),
+      ...context.entities.drafts.map(e => `Draft: ${e.name}`)
     ];
 
     if (allEntities.length > 0) {
@@ -129,14 +145,16 @@ export class ContextManager {
       return this.storage.getRecentEntity(contextId, 'contact');
     }
 
-    // "it" could be a deal or company
-    if (pronounLower === 'it' || pronounLower === 'its') {
-      // Check deals first
-      const deal = this.storage.getRecentEntity(contextId, 'deal');
-      if (deal) return deal;
+    // "it", "this" and "that" mean the most recently touched object of any
+    // non-person kind - a deal, issue, draft, task, note or company
+    if (['it', 'its', 'this', 'that'].includes(pronounLower)) {
+      const candidates = (['deal', 'issue', 'draft', 'task', 'note', 'company'] as const)
+        .map(type => this.storage.getRecentEntity(contextId, type))
+        .filter((e): e is EntityRef => e !== null);
+      if (candidates.length === 0) return null;
 
-      // Then companies
-      return this.storage.getRecentEntity(contextId, 'company');
+      // Ties keep the order above
+      return candidates.reduce((latest, e) => (e.mentionedAt > latest.mentionedAt ? e : latest));
     }
 
     return null;
@@ -7,13 +7,32 @@ import { IntentClassifier } from './classifier.js';
 import { ContentAgent } from '../agents/content/index.js';
 import { HubSpotAgent } from '../agents/hubspot/index.js';
 import { LinearAgent } from '../agents/linear/index.js';
+import { GeneralAgent } from '../agents/general/index.js';
+import { Agent, AgentHandleOptions, AgentRegistry } from '../agents/registry.js';
 import {
   AgentType,
   AgentResponse,
   ConversationContext,
-  ClassificationResult
+  ClassificationResult,
+  PendingAction,
+  PermissionDenial
 } from '../shared/types.js';
 import { getUserFriendlyError } from '../shared/errors.js';
+import { ActionLogStorage } from '../db/action-log.js';
+import { ToolAccess, ToolPolicy } from '../shared/policy.js';
+import { ADMIN_ROLE, PermissionStore, rolesFor, canUseAgent, canUseTool, denialMessage } from '../shared/permissions.js';
+import { CredentialResolver, CredentialsConfig } from '../agents/credentials.js';
+import { CredentialOnboarding, isCredentialCommand, redactCredentials } from './onboarding.js';
+import { AuditLog, AuditOutcome } from '../db/audit.js';
+import { AuditCommand, formatAuditReply, parseAuditCommand } from './audit-command.js';
+import { UsageCommand, formatUsageReport, parseUsageCommand } from './usage-command.js';
+import { UsageStorage } from '../db/usage.js';
+import { UsageConfig, UsageMeter, budgetMessage } from '../shared/usage.js';
+import { dependencyEntities, mergeResponses, runSubIntents, withDependency } from './multi-intent.js';
+import { WorkflowEngine, WorkflowsConfig } from '../workflows/index.js';
+import { formatWorkflowReport, isWorkflowCommand } from './workflow-command.js';
+import { EmbeddingsConfig, createEmbeddingProvider } from '../shared/embeddings.js';
+import { CriticLoopOptions } from '../agents/content/critic-loop.js';
 
 export interface OrchestratorConfig {
   llm: LLMConfig;
@@ -26,25 +45,94 @@ export interface OrchestratorConfig {
     confidenceThreshold?: number;
     directRouteThreshold?: number;
   };
+  undo?: {
+    windowMinutes?: number; // How far back "undo that" reaches (default: 30)
+  };
+  policies?: Record<string, ToolPolicy>; // Tool confirmation policy per agent name
+  credentials?: CredentialsConfig;       // Per-user HubSpot/Linear credentials
+  permissions?: {
+    file: string; // Role/permission matrix (JSON); omit to let everyone use every tool
+  };
+  admins?: string[];                     // Slack users who may see audit/usage reports when there's no matrix
+  usage?: UsageConfig;                   // LLM price table and spend budgets
+  workflows?: WorkflowsConfig;           // Cross-agent workflows (none by default)
+  embeddings?: EmbeddingsConfig;         // For content signals; default is the offline hashing embedder
+  critic?: CriticLoopOptions;            // Content critic-revise loop rounds and score threshold
+}
+
+// Pronouns that stand in for a recently mentioned object ("assign it to me")
+const PRONOUN_PATTERN = /\b(it|its|he|him|his|she|her|they|them|their)\b/;
+
+// "undo", "undo that", "revert the last change" - handled without routing to an agent
+const UNDO_PATTERN = /^(please\s+)?(undo|revert|roll\s*back)(\s+(that|it|this|the\s+last\s+(action|change|one)))?(\s+please)?[.!]*$/i;
+
+// "... and open a ticket", "..., then log a note" - a second request in the same message
+const COMPOUND_PATTERN = /(\band|\bthen|,)\s+(then\s+|also\s+)?(add|create|open|file|log|write|draft|update|assign|move|close|schedule|send|post)\b/i;
+
+// Answers to a held tool call
+const CONFIRM_PATTERN = /^(yes|y|yep|yeah|sure|ok|okay|confirm|do it|go ahead)[.!]*$/i;
+const CANCEL_PATTERN = /^(no|n|nope|cancel|stop|don'?t|do not)[.!]*$/i;
+
+// Where a request came from, stamped on each of its audit events
+interface AuditScope {
+  userId?: string;
+  channelId: string;
+  threadTs?: string;
 }
 
+const preview = (text: string): string => text.length > 200 ? `${text.slice(0, 200)}…` : text;
+
 export class Orchestrator {
   private db: Database.Database;
   private llm: LLMClient;
   private contextManager: ContextManager;
   private classifier: IntentClassifier;
-  private contentAgent: ContentAgent;
-  private hubspotAgent: HubSpotAgent;
-  private linearAgent: LinearAgent;
+  private registry: AgentRegistry;
+  private actionLog: ActionLogStorage;
+  private undoWindowMinutes: number;
+  private toolPolicies: Record<string, ToolPolicy>;
+  private onboarding: CredentialOnboarding;
+  private permissions: PermissionStore | null;
+  private admins: string[];
+  readonly audit: AuditLog;
+  readonly usage: UsageMeter;
+  readonly workflows: WorkflowEngine;
 
   constructor(db: Database.Database, config: OrchestratorConfig) {
     this.db = db;
-    this.llm = new LLMClient(config.llm);
+    this.usage = new UsageMeter(new UsageStorage(db), config.usage);
+    this.llm = new LLMClient(config.llm, usage => this.usage.record(usage));
+    this.actionLog = new ActionLogStorage(db);
+    this.audit = new AuditLog(db);
+    this.undoWindowMinutes = config.undo?.windowMinutes ?? 30;
+    this.toolPolicies = config.policies || {};
+    this.permissions = config.permissions ? new PermissionStore(config.permissions.file) : null;
+    this.admins = config.admins || [];
     this.contextManager = new ContextManager(db, config.context);
-    this.classifier = new IntentClassifier(this.llm, config.classifier);
-    this.contentAgent = new ContentAgent(db, this.llm);
-    this.hubspotAgent = new HubSpotAgent(db, this.llm);
-    this.linearAgent = new LinearAgent(db, this.llm);
+    this.registry = new AgentRegistry();
+    this.classifier = new IntentClassifier(this.llm, config.classifier, this.registry);
+
+    const credentials = new CredentialResolver(db, config.credentials);
+    this.onboarding = new CredentialOnboarding(credentials.users);
+
+    // Registration order is quick-match priority; general goes last as the catch-all
+    this.registry.register(new ContentAgent(db, this.llm, config.embeddings && createEmbeddingProvider(config.embeddings), config.critic));
+    this.registry.register(new HubSpotAgent(db, this.llm, credentials));
+    this.registry.register(new LinearAgent(db, this.llm, credentials));
+    this.registry.register(new GeneralAgent(this.llm, this.registry));
+
+    this.workflows = new WorkflowEngine(
+      db,
+      config.workflows || { workflows: [] },
+      this.llm,
+      credentials,
+      (call, userId, userGroups) => this.runWorkflowStep(call, { userId, userGroups })
+    );
+  }
+
+  // Add an agent; the classifier and help prompt pick it up automatically
+  registerAgent(agent: Agent): void {
+    this.registry.register(agent);
   }
 
   // Main entry point for handling messages
@@ -52,61 +140,319 @@ export class Orchestrator {
     message: string,
     channelId: string,
     threadTs?: string,
-    userId?: string
+    userId?: string,
+    options: AgentHandleOptions = {}
   ): Promise<AgentResponse> {
+    const startedAt = new Date();
+    const scope: AuditScope = { userId, channelId, threadTs };
+
     // Get or create conversation context
     const context = this.contextManager.getContext(channelId, threadTs, userId);
 
+    // Agents act with the requesting user's credentials
+    options = { ...options, userId };
+
     // Add user message to history
-    this.contextManager.addUserMessage(context.id, message);
+    const text = redactCredentials(message);
+    this.contextManager.addUserMessage(context.id, text);
+    this.audit.record({ ...scope, type: 'request', outcome: 'ok', summary: preview(text) });
 
     try {
-      // Classify intent
-      const classification = await this.classifyWithContext(message, context);
-
-      // Handle low confidence - ask for clarification
-      if (this.classifier.needsClarification(classification)) {
-        const response = this.buildClarificationResponse(classification);
-        this.contextManager.addAssistantMessage(context.id, response.message);
-        return response;
-      }
+      const turn = await this.respond(message, context, scope, options);
+      this.recordTurn(scope, context.id, startedAt, turn);
+
+      // Workflows post their own cards, so the reply doesn't wait for them
+      this.workflows.observe(turn.response, scope).catch(error => {
+        console.error('[workflows] Failed to check turn for triggers:', error);
+      });
+      return turn.response;
+    } catch (error) {
+      console.error('Orchestrator error:', error);
+      this.audit.record({
+        ...scope,
+        type: 'error',
+        outcome: 'error',
+        durationMs: Date.now() - startedAt.getTime(),
+        summary: error instanceof Error ? error.message : String(error)
+      });
+      const errorMessage = getUserFriendlyError(error);
+      this.contextManager.addAssistantMessage(context.id, errorMessage);
+      return { message: errorMessage };
+    }
+  }
 
-      // Resolve any pronoun references in entities
-      const resolvedEntities = this.resolveEntities(classification, context);
+  // One turn of the conversation; the agent is the one that answered, if any
+  private async respond(
+    message: string,
+    context: ConversationContext,
+    scope: AuditScope,
+    options: AgentHandleOptions
+  ): Promise<{ response: AgentResponse; agent?: string }> {
+    if (isCredentialCommand(message)) {
+      const response = await this.onboarding.handle(message, scope.channelId, scope.userId);
+      this.contextManager.addAssistantMessage(context.id, response.message);
+      return { response };
+    }
 
-      // Route to appropriate agent
-      const response = await this.routeToAgent(
-        classification.agent,
-        message,
-        context,
-        resolvedEntities
-      );
+    const auditCommand = parseAuditCommand(message);
+    if (auditCommand) {
+      const response = this.showAudit(auditCommand, options);
+      this.contextManager.addAssistantMessage(context.id, response.message);
+      return { response };
+    }
 
-      // Update context with response
-      this.contextManager.addAssistantMessage(context.id, response.message, classification.agent);
-      this.contextManager.setActiveAgent(context.id, classification.agent);
+    const usageCommand = parseUsageCommand(message);
+    if (usageCommand) {
+      const response = this.showUsage(usageCommand, options);
+      this.contextManager.addAssistantMessage(context.id, response.message);
+      return { response };
+    }
 
-      // Add any new entity references
-      if (response.entities) {
-        for (const entity of response.entities) {
+    if (isWorkflowCommand(message)) {
+      const response = { message: formatWorkflowReport(this.workflows.definitions, this.workflows.runs.listRecent(10)) };
+      this.contextManager.addAssistantMessage(context.id, response.message);
+      return { response };
+    }
+
+    if (UNDO_PATTERN.test(message.trim())) {
+      const response = await this.undoLastAction(context, options);
+      this.contextManager.addAssistantMessage(context.id, response.message, undefined, response.actions);
+      return { response };
+    }
+
+    // A held tool call is answered with yes/no; any other message drops it
+    if (context.pendingAction) {
+      const pending = context.pendingAction;
+      const response = await this.answerPendingAction(context, pending, message, options);
+      if (response) {
+        this.contextManager.addAssistantMessage(context.id, response.message, pending.agent, response.actions);
+        for (const entity of response.entities || []) {
           this.contextManager.addEntityReference(context.id, entity);
         }
+        return { response, agent: pending.agent };
       }
+    }
 
-      return response;
-    } catch (error) {
-      console.error('Orchestrator error:', error);
-      const errorMessage = getUserFriendlyError(error);
-      this.contextManager.addAssistantMessage(context.id, errorMessage);
-      return { message: errorMessage };
+    // Classify intent
+    const classification = await this.classifyWithContext(message, context, scope.userId);
+    this.audit.record({
+      ...scope,
+      type: 'classification',
+      agent: classification.agent,
+      outcome: classification.failure ? 'error' : 'ok',
+      summary: classification.intent,
+      details: {
+        confidence: classification.confidence,
+        ...(classification.subIntents ? { subIntents: classification.subIntents.map(sub => sub.agent) } : {}),
+        ...classification.failure
+      }
+    });
+
+    // Handle low confidence - ask for clarification
+    if (this.classifier.needsClarification(classification)) {
+      const response = this.buildClarificationResponse(classification);
+      this.contextManager.addAssistantMessage(context.id, response.message);
+      return { response };
+    }
+
+    // Several requests for different agents in one message
+    if (classification.subIntents) {
+      return this.respondToSubIntents(classification, context, scope, options);
+    }
+
+    // Stop before spending more when a budget is used up, or warn alongside the answer
+    const breach = this.usage.checkBudget(scope.userId, classification.agent);
+    const budgetNote = breach ? budgetMessage(breach, this.registry.get(classification.agent)?.definition.label) : null;
+    if (breach?.action === 'refuse') {
+      const response = { message: budgetNote! };
+      this.contextManager.addAssistantMessage(context.id, response.message);
+      return { response, agent: classification.agent };
+    }
+
+    // Resolve any pronoun references in entities
+    const resolvedEntities = this.resolveEntities(message, classification, context);
+
+    // Route to appropriate agent
+    const routed = await this.routeToAgent(
+      classification.agent,
+      message,
+      context,
+      resolvedEntities,
+      options
+    );
+    const response = budgetNote ? { ...routed, message: `${routed.message}\n\n_${budgetNote}_` } : routed;
+
+    // Update context with response
+    this.contextManager.addAssistantMessage(context.id, response.message, classification.agent, response.actions, response.model);
+    this.contextManager.setActiveAgent(context.id, classification.agent);
+    if (response.pendingAction) {
+      this.contextManager.setPendingAction(context.id, response.pendingAction);
+    }
+
+    // Add any new entity references
+    if (response.entities) {
+      for (const entity of response.entities) {
+        this.contextManager.addEntityReference(context.id, entity);
+      }
+    }
+
+    return { response, agent: classification.agent };
+  }
+
+  // Fan the sub-intents out to their agents - in parallel unless one needs
+  // another's result - and answer with one message, a section per agent
+  private async respondToSubIntents(
+    classification: ClassificationResult,
+    context: ConversationContext,
+    scope: AuditScope,
+    options: AgentHandleOptions
+  ): Promise<{ response: AgentResponse; agent?: string }> {
+    // Parallel agents would interleave streamed text, so only tool progress is passed on
+    const onEvent = options.onEvent;
+    const subOptions: AgentHandleOptions = {
+      ...options,
+      onEvent: onEvent && (event => { if (event.type !== 'text-delta') onEvent(event); })
+    };
+    const budgetNotes = new Set<string>();
+
+    const results = await runSubIntents(classification.subIntents!, async (subIntent, dependency) => {
+      const breach = this.usage.checkBudget(scope.userId, subIntent.agent);
+      if (breach) {
+        const note = budgetMessage(breach, this.registry.get(subIntent.agent)?.definition.label);
+        if (breach.action === 'refuse') return { message: note };
+        budgetNotes.add(note);
+      }
+
+      const entities = this.resolveEntities(subIntent.request, { ...classification, entities: subIntent.entities }, context);
+      return this.routeToAgent(
+        subIntent.agent,
+        dependency ? withDependency(subIntent.request, dependency) : subIntent.request,
+        context,
+        dependency ? [...entities, ...dependencyEntities(dependency)] : entities,
+        subOptions
+      );
+    });
+
+    for (const { subIntent, error } of results) {
+      if (error) {
+        this.audit.record({ ...scope, type: 'error', agent: subIntent.agent, outcome: 'error', summary: error });
+      }
+    }
+
+    const merged = mergeResponses(results.map(({ subIntent, response }) => ({
+      agent: subIntent.agent,
+      label: this.registry.get(subIntent.agent)?.definition.label || subIntent.agent,
+      response
+    })));
+    const notes = [...budgetNotes].map(note => `_${note}_`);
+    const response = notes.length > 0 ? { ...merged, message: [merged.message, ...notes].join('\n\n') } : merged;
+
+    this.contextManager.addAssistantMessage(context.id, response.message, classification.agent, response.actions, response.model);
+    this.contextManager.setActiveAgent(context.id, classification.agent);
+    if (response.pendingAction) {
+      this.contextManager.setPendingAction(context.id, response.pendingAction);
+    }
+    for (const entity of response.entities || []) {
+      this.contextManager.addEntityReference(context.id, entity);
+    }
+
+    return { response, agent: classification.agent };
+  }
+
+  // Audit what a turn did: tool calls, the changes they made, refusals and the reply
+  private recordTurn(
+    scope: AuditScope,
+    contextId: string,
+    startedAt: Date,
+    turn: { response: AgentResponse; agent?: string }
+  ): void {
+    const { response, agent } = turn;
+    const denied = new Set((response.denials || []).map(denial => denial.toolName));
+    // Calls held this turn; one queued from an earlier turn was never an action of this one
+    const pending = response.pendingAction;
+    const held = new Set((pending ? [pending, ...(pending.queued || [])] : [])
+      .filter(call => call.requestedAt >= startedAt.toISOString())
+      .map(call => call.toolName));
+
+    for (const action of response.actions || []) {
+      const outcome: AuditOutcome = action.error ? 'error'
+        : denied.has(action.type) ? 'denied'
+        : held.has(action.type) ? 'held'
+        : 'ok';
+      this.audit.record({
+        ...scope,
+        type: action.type === 'undo' ? 'mutation' : 'tool_call',
+        agent: action.agent || agent,
+        toolName: action.type,
+        durationMs: action.durationMs,
+        outcome,
+        summary: action.error ? `${action.description}: ${action.error}` : action.description,
+        details: action.entityId ? { entityType: action.entityType, entityId: action.entityId } : undefined
+      });
+    }
+
+    for (const entry of this.actionLog.listSince(contextId, startedAt.toISOString())) {
+      this.audit.record({
+        ...scope,
+        type: 'mutation',
+        agent: entry.agent,
+        toolName: entry.toolName,
+        outcome: 'ok',
+        summary: entry.description,
+        details: { actionId: entry.id, reversible: !!entry.inverse }
+      });
     }
+
+    for (const denial of response.denials || []) {
+      this.audit.record({
+        ...scope,
+        type: 'denial',
+        agent: denial.agent,
+        toolName: denial.toolName,
+        outcome: 'denied',
+        summary: `${denial.toolName || 'agent'} refused for roles ${denial.roles.join(', ')}`
+      });
+    }
+
+    this.audit.record({
+      ...scope,
+      type: 'response',
+      agent,
+      durationMs: Date.now() - startedAt.getTime(),
+      outcome: response.pendingAction ? 'held' : 'ok',
+      summary: preview(response.message),
+      details: response.model ? { model: response.model } : undefined
+    });
+  }
+
+  // "show audit for today" - admins only
+  private showAudit(command: AuditCommand, options: AgentHandleOptions): AgentResponse {
+    const denial = this.adminDenial(options, 'audit', 'the audit log');
+    if (denial) return denial;
+    return { message: formatAuditReply(command, this.audit.query(command.filter)) };
+  }
+
+  // "show usage for this month by agent" - admins only
+  private showUsage(command: UsageCommand, options: AgentHandleOptions): AgentResponse {
+    const denial = this.adminDenial(options, 'usage', 'the usage report');
+    if (denial) return denial;
+    const filter = { since: command.period.since, until: command.period.until, userId: command.userId };
+    return {
+      message: formatUsageReport(command, this.usage.storage.total(filter), this.usage.storage.summarize(filter, command.by))
+    };
   }
 
   // Classify with quick patterns first, then LLM
   private async classifyWithContext(
     message: string,
-    context: ConversationContext
+    context: ConversationContext,
+    userId?: string
   ): Promise<ClassificationResult> {
+    // Messages with a second request go to the LLM, which can split them
+    if (COMPOUND_PATTERN.test(message)) {
+      return this.classifier.classify(message, context, userId);
+    }
+
     // Try quick classification first
     const quickResult = this.classifier.quickClassify(message);
     if (quickResult) {
@@ -124,7 +470,7 @@ export class Orchestrator {
     }
 
     // Full LLM classification
-    return this.classifier.classify(message, context);
+    return this.classifier.classify(message, context, userId);
   }
 
   // Check if message looks like a follow-up
@@ -148,11 +494,12 @@ export class Orchestrator {
 
   // Resolve entity references using context
   private resolveEntities(
+    message: string,
     classification: ClassificationResult,
     context: ConversationContext
   ): ClassificationResult['entities'] {
     // Look for pronoun patterns in the original entities
-    return classification.entities.map(entity => {
+    const entities = classification.entities.map(entity => {
       // If it's already resolved, return as-is
       if (entity.resolved_id) return entity;
 
@@ -173,6 +520,18 @@ export class Orchestrator {
 
       return entity;
     });
+
+    // The classifier leaves pronouns out and quick routes extract nothing, so
+    // resolve a pronoun in the message itself ("assign it to me")
+    if (!entities.some(e => e.resolved_id)) {
+      const pronoun = message.toLowerCase().match(PRONOUN_PATTERN)?.[1];
+      const resolved = pronoun ? this.contextManager.resolvePronoun(context.id, pronoun) : null;
+      if (pronoun && resolved) {
+        entities.push({ type: resolved.type, value: pronoun, resolved_id: resolved.id, resolved_name: resolved.name });
+      }
+    }
+
+    return entities;
   }
 
   // Route to the appropriate agent
@@ -180,64 +539,205 @@ export class Orchestrator {
     agent: AgentType,
     message: string,
     context: ConversationContext,
-    entities: ClassificationResult['entities']
+    entities: ClassificationResult['entities'],
+    options: AgentHandleOptions
   ): Promise<AgentResponse> {
     const history = this.contextManager.getHistoryForLLM(context.id);
+    const target = this.registry.get(agent) || this.registry.get('general')!;
+    const name = target.definition.name;
+
+    const roles = this.rolesOf(options);
+    if (roles && !canUseAgent(this.permissions!.get(), roles, name)) {
+      return this.denialResponse({ userId: options.userId!, roles, agent: name });
+    }
 
-    switch (agent) {
-      case 'content':
-        return this.contentAgent.handle(message, history, entities);
+    const denials: PermissionDenial[] = [];
+    const response = await target.handle(message, history, entities, {
+      ...options,
+      contextId: context.id,
+      toolPolicy: this.toolPolicies[name],
+      toolAccess: this.toolAccess(name, options, denials)
+    });
 
-      case 'hubspot':
-        return this.hubspotAgent.handle(message, history, entities);
+    return denials.length > 0 ? { ...response, denials: [...(response.denials || []), ...denials] } : response;
+  }
 
-      case 'linear':
-        return this.linearAgent.handle(message, history, entities);
+  // Roles of the requesting user, or null when permissions aren't enforced
+  // (no matrix configured, or an internal call without a user)
+  private rolesOf(options: AgentHandleOptions): string[] | null {
+    if (!this.permissions || !options.userId) return null;
+    return rolesFor(this.permissions.get(), options.userId, options.userGroups);
+  }
 
-      case 'general':
-      default:
-        return this.handleGeneralQuery(message, history);
+  // Reports on everyone's requests and spend: the admin role when a matrix is
+  // configured, else only the listed admins. Internal calls without a user pass.
+  private adminDenial(options: AgentHandleOptions, agent: string, label: string): AgentResponse | null {
+    if (!options.userId) return null;
+    const roles = this.rolesOf(options);
+    if (roles) {
+      return roles.includes(ADMIN_ROLE) ? null : { message: denialMessage({ userId: options.userId, roles, agent }, label) };
     }
+    return this.admins.includes(options.userId)
+      ? null
+      : { message: `Sorry, only admins can see ${label}. Ask one to add you to ADMIN_USER_IDS if you need access.` };
+  }
+
+  // Tool checks for one agent turn; denied calls are collected for the audit trail
+  private toolAccess(agent: string, options: AgentHandleOptions, denials: PermissionDenial[]): ToolAccess | undefined {
+    const roles = this.rolesOf(options);
+    if (!roles) return undefined;
+
+    const matrix = this.permissions!.get();
+    return {
+      allows: (toolName, risk) => canUseTool(matrix, roles, agent, toolName, risk),
+      onDenied: toolName => denials.push({ userId: options.userId!, roles, agent, toolName })
+    };
+  }
+
+  // Check one tool outside an agent turn (confirmations, undo, approval buttons).
+  // Returns the denial, or null when the user may run it.
+  authorizeTool(agent: AgentType, toolName: string, options: AgentHandleOptions): PermissionDenial | null {
+    const roles = this.rolesOf(options);
+    if (!roles) return null;
+
+    const definition = this.registry.get(agent)?.definition;
+    const risk = this.toolPolicies[agent]?.risks?.[toolName] || definition?.toolRisks?.[toolName] || 'write';
+    return canUseTool(this.permissions!.get(), roles, agent, toolName, risk)
+      ? null
+      : { userId: options.userId!, roles, agent, toolName };
   }
 
-  // Handle general queries
-  private async handleGeneralQuery(
+  private denialResponse(denial: PermissionDenial): AgentResponse {
+    const label = this.registry.get(denial.agent)?.definition.label;
+    return { message: denialMessage(denial, label), denials: [denial] };
+  }
+
+  // Run or cancel a held tool call. Returns null when the message isn't an
+  // answer, in which case the held call is dropped and routing continues.
+  private async answerPendingAction(
+    context: ConversationContext,
+    pending: PendingAction,
     message: string,
-    history: Array<{ role: 'user' | 'assistant'; content: string }>
-  ): Promise<AgentResponse> {
-    const systemPrompt = `You are a helpful assistant with three main capabilities:
+    options: AgentHandleOptions
+  ): Promise<AgentResponse | null> {
+    const answer = message.trim();
+
+    // Someone whose role can't run the call leaves it waiting for someone who can
+    if (CONFIRM_PATTERN.test(answer)) {
+      const denial = this.authorizeTool(pending.agent, pending.toolName, options);
+      if (denial) return this.denialResponse(denial);
+    }
 
-1. Content Creation (via Content Agent): Create LinkedIn posts, articles, manage drafts, research topics
-2. CRM Management (via HubSpot Agent): Manage contacts, companies, deals, tasks, and notes
-3. Project Management (via Linear Agent): Manage issues, projects, sprints, and team tasks
+    // Clear first so a double-clicked button can't run the call twice
+    this.contextManager.setPendingAction(context.id, null);
 
-For general questions or greetings, respond helpfully. If the user's request is unclear, ask clarifying questions to understand what they need.
+    if (CANCEL_PATTERN.test(answer)) {
+      return this.askNextQueued(context, pending, { message: `Okay, cancelled: ${pending.description}` });
+    }
+    if (!CONFIRM_PATTERN.test(answer)) {
+      return null;
+    }
 
-Available commands:
-- Content: "Write a LinkedIn post about...", "Show my drafts", "Add topic..."
-- HubSpot: "Add contact...", "Create deal...", "Log note on...", "Follow up with..."
-- Linear: "Create issue...", "My tasks", "Current sprint", "Update issue..."
+    const agent = this.registry.get(pending.agent);
+    if (!agent?.resume) {
+      return this.askNextQueued(context, pending, { message: `Sorry, I can't run ${pending.toolName} any more, so nothing was changed.` });
+    }
 
-Be friendly and conversational, but concise.`;
+    const response = await agent.resume(pending, {
+      ...options,
+      contextId: context.id,
+      toolPolicy: this.toolPolicies[pending.agent]
+    });
+    return this.askNextQueued(context, pending, response);
+  }
 
-    const response = await this.llm.chat(message, history.map(h => ({
-      role: h.role,
-      content: h.content
-    })), { systemPrompt });
+  // Once a held call is answered, the next one held in the same turn waits for its yes/no
+  private askNextQueued(context: ConversationContext, answered: PendingAction, response: AgentResponse): AgentResponse {
+    const [next, ...rest] = answered.queued || [];
+    if (!next) return response;
 
-    return { message: response };
+    const pending = rest.length > 0 ? { ...next, queued: rest } : next;
+    this.contextManager.setPendingAction(context.id, pending);
+    return { ...response, message: `${response.message}\n\nNext: ${next.description}. Reply yes or no.`, pendingAction: pending };
   }
 
-  // Build clarification response for low-confidence classifications
-  private buildClarificationResponse(classification: ClassificationResult): AgentResponse {
-    const suggestions: string[] = [];
+  // Run an approved workflow step as the user who approved it, audited like a turn
+  private async runWorkflowStep(call: PendingAction, options: AgentHandleOptions): Promise<AgentResponse> {
+    const startedAt = Date.now();
+    const scope = { userId: options.userId, agent: call.agent, toolName: call.toolName, details: { workflow: true } };
+
+    const denial = this.authorizeTool(call.agent, call.toolName, options);
+    if (denial) {
+      this.audit.record({
+        ...scope,
+        type: 'denial',
+        outcome: 'denied',
+        summary: `${call.toolName} refused for roles ${denial.roles.join(', ')}`
+      });
+      return this.denialResponse(denial);
+    }
+
+    const agent = this.registry.get(call.agent);
+    if (!agent?.resume) {
+      return {
+        message: `Sorry, I can't run ${call.toolName} any more, so nothing was changed.`,
+        actions: [{ type: call.toolName, description: call.description, error: 'Agent cannot resume tool calls' }]
+      };
+    }
+
+    const response = await agent.resume(call, { ...options, toolPolicy: this.toolPolicies[call.agent] });
+    for (const action of response.actions || []) {
+      this.audit.record({
+        ...scope,
+        type: 'tool_call',
+        toolName: action.type,
+        durationMs: action.durationMs ?? Date.now() - startedAt,
+        outcome: action.error ? 'error' : 'ok',
+        summary: action.error ? `${action.description}: ${action.error}` : action.description
+      });
+    }
+    return response;
+  }
 
-    if (classification.agent === 'content' || classification.confidence > 0.3) {
-      suggestions.push('Create or edit content (LinkedIn posts, articles)');
+  // Reverse the most recent action in this conversation, if it is recent and reversible
+  private async undoLastAction(context: ConversationContext, options: AgentHandleOptions): Promise<AgentResponse> {
+    const entry = this.actionLog.getLatest(context.id);
+    if (!entry) {
+      return { message: "There's nothing to undo in this conversation." };
     }
-    if (classification.agent === 'hubspot' || classification.confidence > 0.3) {
-      suggestions.push('Manage CRM (contacts, deals, tasks)');
+
+    const ageMinutes = (Date.now() - new Date(entry.createdAt).getTime()) / 60000;
+    if (ageMinutes > this.undoWindowMinutes) {
+      return {
+        message: `The last change (${entry.description}) was more than ${this.undoWindowMinutes} minutes ago, so I won't undo it automatically. Please fix it by hand.`
+      };
     }
+
+    const agent = this.registry.get(entry.agent);
+    if (!entry.inverse || !agent?.undo) {
+      return { message: `Sorry, "${entry.description}" can't be undone automatically.` };
+    }
+
+    // Undoing a change needs the same permission as making it
+    const denial = this.authorizeTool(entry.agent, entry.toolName, options);
+    if (denial) return this.denialResponse(denial);
+
+    await agent.undo(entry.inverse, options);
+    this.actionLog.markUndone(entry.id);
+
+    return {
+      message: `Undone: ${entry.description}.`,
+      actions: [{ type: 'undo', description: `Reverted ${entry.toolName}: ${entry.description}` }]
+    };
+  }
+
+  // Build clarification response for low-confidence classifications
+  private buildClarificationResponse(classification: ClassificationResult): AgentResponse {
+    // Best guess first, then the rest in registration order
+    const suggestions = this.registry.definitions()
+      .filter(d => d.name !== 'general')
+      .sort((a, b) => Number(b.name === classification.agent) - Number(a.name === classification.agent))
+      .map(d => `${d.label}: ${d.description}`);
     suggestions.push('Something else');
 
     return {
@@ -245,6 +745,11 @@ Be friendly and conversational, but concise.`;
     };
   }
 
+  // Whether roles are assigned to Slack user groups, so callers know to look up membership
+  usesGroupRoles(): boolean {
+    return !!this.permissions && Object.keys(this.permissions.get().groups).length > 0;
+  }
+
   // Get context for a channel/thread (for external use)
   getContext(channelId: string, threadTs?: string): ConversationContext | null {
     return this.contextManager.getFullContext(
@@ -0,0 +1,106 @@
+// Multi-intent turns - run each sub-intent on its agent and merge the replies
+
+import { AgentResponse, EntityRef, ExtractedEntity, SubIntent } from '../shared/types.js';
+import { getUserFriendlyError } from '../shared/errors.js';
+
+export interface SubIntentResult {
+  subIntent: SubIntent;
+  response: AgentResponse;
+  error?: string; // Set when the agent failed, or was skipped because its dependency didn't run
+}
+
+// Why a dependent sub-intent can't build on its dependency: it failed, is
+// still waiting for a yes/no, or was refused for the user's role
+const blockedBy = (dependency: SubIntentResult): { message: string; error: string } | null => {
+  const { intent } = dependency.subIntent;
+  if (dependency.error) {
+    return { message: `Skipped, because it needed "${intent}", which didn't work out.`, error: `Dependency failed: ${dependency.error}` };
+  }
+  if (dependency.response.pendingAction) {
+    return {
+      message: `Skipped for now, because it needs "${intent}", which is waiting for your confirmation. Ask me again once that's done.`,
+      error: 'Dependency is waiting for confirmation'
+    };
+  }
+  if (dependency.response.denials?.length) {
+    return { message: `Skipped, because it needed "${intent}", which your role doesn't allow.`, error: 'Dependency was refused' };
+  }
+  return null;
+};
+
+// Start every sub-intent at once; one with a dependency waits for it and gets
+// its result. A failed, held or refused step only stops the sub-intents that depend on it.
+export const runSubIntents = async (
+  subIntents: SubIntent[],
+  run: (subIntent: SubIntent, dependency?: SubIntentResult) => Promise<AgentResponse>
+): Promise<SubIntentResult[]> => {
+  const started: Array<Promise<SubIntentResult>> = [];
+
+  for (const subIntent of subIntents) {
+    const dependency = subIntent.dependsOn !== undefined ? started[subIntent.dependsOn] : undefined;
+
+    started.push((async (): Promise<SubIntentResult> => {
+      const previous = dependency ? await dependency : undefined;
+      const blocked = previous ? blockedBy(previous) : null;
+      if (blocked) {
+        return { subIntent, response: { message: blocked.message }, error: blocked.error };
+      }
+
+      try {
+        return { subIntent, response: await run(subIntent, previous) };
+      } catch (error) {
+        console.error(`[multi-intent] ${subIntent.agent} failed:`, error);
+        return {
+          subIntent,
+          response: { message: getUserFriendlyError(error) },
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    })());
+  }
+
+  return Promise.all(started);
+};
+
+// The request a dependent sub-intent is sent: its own text plus what the step before it replied
+export const withDependency = (request: string, dependency: SubIntentResult): string =>
+  `${request}\n\nFor reference, the previous step (${dependency.subIntent.intent}) replied:\n${dependency.response.message}`;
+
+// Entities a dependency produced, as already-resolved references for the next agent
+export const dependencyEntities = (dependency: SubIntentResult): ExtractedEntity[] =>
+  (dependency.response.entities || []).map((entity: EntityRef) => ({
+    type: entity.type,
+    value: entity.name,
+    resolved_id: entity.id,
+    resolved_name: entity.name
+  }));
+
+// One reply with a section per agent; actions remember which agent ran them.
+// Held tool calls are asked about one at a time: the first waits for a yes/no
+// and the rest queue behind it.
+export const mergeResponses = (
+  sections: Array<{ agent: string; label: string; response: AgentResponse }>
+): AgentResponse => {
+  const responses = sections.map(section => section.response);
+  const models = [...new Set(responses.map(response => response.model).filter(Boolean))];
+  const [pending, ...queued] = responses.flatMap(({ pendingAction }) =>
+    pendingAction ? [pendingAction, ...(pendingAction.queued || [])] : []
+  );
+  const message = sections.map(({ label, response }) => `*${label}*\n${response.message}`).join('\n\n');
+
+  return {
+    message: queued.length > 0
+      ? `${message}\n\n_${queued.length + 1} actions are waiting for confirmation. I'll ask about them one at a time, starting with ${pending.description}._`
+      : message,
+    entities: responses.flatMap(response => response.entities || []),
+    actions: sections.flatMap(({ agent, response }) =>
+      (response.actions || []).map(action => ({ ...action, agent: action.agent || agent }))
+    ),
+    drafts: responses.flatMap(response => response.drafts || []),
+    syntheses: responses.flatMap(response => response.syntheses || []),
+    denials: responses.flatMap(response => response.denials || []),
+    pendingAction: pending && (queued.length > 0 ? { ...pending, queued } : pending),
+    needsCredentials: responses.find(response => response.needsCredentials)?.needsCredentials,
+    model: models.length > 0 ? models.join(', ') : undefined
+  };
+};
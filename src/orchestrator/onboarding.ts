@@ -0,0 +1,96 @@
+// Credential onboarding - users connect their own Linear/HubSpot accounts in a DM
+
+import { UserStorage } from '../db/users.js';
+import { LinearApiClient } from '../agents/linear/api.js';
+import { HubSpotApiClient } from '../agents/hubspot/api.js';
+import { AgentResponse, CredentialService } from '../shared/types.js';
+import { isDirectMessageChannel } from '../shared/slack.js';
+
+// "connect linear lin_api_...", "connect hubspot", "disconnect linear"
+const CREDENTIAL_PATTERN = /^(connect|disconnect)\s+(linear|hubspot)(?:\s+(\S+))?\s*$/i;
+
+const SERVICE_LABELS: Record<CredentialService, string> = {
+  linear: 'Linear',
+  hubspot: 'HubSpot'
+};
+
+// How to connect a service, sent as a DM when a user hasn't yet
+export const connectInstructions = (service: CredentialService): string => {
+  if (service === 'linear') {
+    return [
+      "To use Linear as yourself, I need your personal API key:",
+      "1. In Linear, open *Settings → Security & access → Personal API keys* and create a key",
+      "2. Reply here with `connect linear <your key>`",
+      "",
+      "Keys are stored encrypted. Send `disconnect linear` any time to remove yours."
+    ].join('\n');
+  }
+  return [
+    "To use HubSpot as yourself, I need an access token:",
+    "1. In HubSpot, open *Settings → Integrations → Private Apps*, create an app with CRM scopes and copy its token",
+    "2. Reply here with `connect hubspot <your token>`",
+    "",
+    "An admin can also link your HubSpot login with `npm run hubspot:auth -- --user <your Slack ID>`.",
+    "Tokens are stored encrypted. Send `disconnect hubspot` any time to remove yours."
+  ].join('\n');
+};
+
+export const isCredentialCommand = (message: string): boolean => CREDENTIAL_PATTERN.test(message.trim());
+
+// Keep secrets out of the stored conversation history
+export const redactCredentials = (message: string): string => {
+  const match = message.trim().match(CREDENTIAL_PATTERN);
+  return match?.[3] ? `${match[1]} ${match[2]} [redacted]` : message;
+};
+
+export class CredentialOnboarding {
+  constructor(private users: UserStorage) {}
+
+  async handle(message: string, channelId: string, userId?: string): Promise<AgentResponse> {
+    const [, command, name, secret] = message.trim().match(CREDENTIAL_PATTERN)!;
+    const service = name.toLowerCase() as CredentialService;
+    const label = SERVICE_LABELS[service];
+
+    if (!userId) {
+      return { message: `I can only connect ${label} for a Slack user.` };
+    }
+
+    if (command.toLowerCase() === 'disconnect') {
+      if (service === 'linear') this.users.setLinearApiKey(userId, null);
+      else this.users.setHubSpotTokens(userId, null);
+      return { message: `Disconnected ${label}. I won't use your credentials any more.` };
+    }
+
+    if (!secret) {
+      return { message: connectInstructions(service) };
+    }
+
+    if (!isDirectMessageChannel(channelId)) {
+      return {
+        message: `Please don't paste credentials in a channel - I didn't save it. Revoke that ${label} key, create a new one and send it to me in a DM.`
+      };
+    }
+
+    try {
+      return service === 'linear'
+        ? await this.connectLinear(userId, secret)
+        : await this.connectHubSpot(userId, secret);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { message: `That ${label} key didn't work (${reason}), so I didn't save it.` };
+    }
+  }
+
+  // Check the key against the API before storing it
+  private async connectLinear(userId: string, apiKey: string): Promise<AgentResponse> {
+    const viewer = await new LinearApiClient({ apiKey }).getViewer();
+    this.users.setLinearApiKey(userId, apiKey);
+    return { message: `Connected Linear as *${viewer.name}*. "My issues" now means yours.` };
+  }
+
+  private async connectHubSpot(userId: string, accessToken: string): Promise<AgentResponse> {
+    await new HubSpotApiClient({ accessToken }).listContacts(1);
+    this.users.setHubSpotTokens(userId, { accessToken });
+    return { message: 'Connected HubSpot. CRM changes you ask for now use your account.' };
+  }
+}
@@ -0,0 +1,43 @@
+// "show usage for this month by agent" - LLM spend report from Slack
+
+import { UsageGrouping, UsageTotal } from '../db/usage.js';
+import { Period, parsePeriod } from '../shared/period.js';
+import { formatUsd } from '../shared/usage.js';
+
+export interface UsageCommand {
+  period: Period;
+  by: UsageGrouping;
+  userId?: string;
+}
+
+const COMMAND_PATTERN = /^show\s+(the\s+|my\s+)?(llm\s+|ai\s+)?(usage|spend|costs?)(\s+report)?\b/i;
+
+// "show [ai] usage|spend|costs [for today|yesterday|this week|this month|the last N days] [for <@U123>] [by user|agent|model|day]"
+export const parseUsageCommand = (message: string, now: Date = new Date()): UsageCommand | null => {
+  const text = message.trim();
+  if (!COMMAND_PATTERN.test(text)) return null;
+
+  const by = text.match(/\bby\s+(user|agent|model|day)s?\b/i)?.[1].toLowerCase() as UsageGrouping | undefined;
+  const user = text.match(/\bfor\s+<@([A-Z0-9]+)(\|[^>]*)?>/i);
+
+  return { period: parsePeriod(text, now), by: by || 'agent', userId: user?.[1] };
+};
+
+const tokens = (count: number): string => count.toLocaleString('en-US');
+
+const label = (by: UsageGrouping, key: string): string =>
+  by === 'user' && key !== 'unknown' ? `<@${key}>` : key;
+
+export const formatUsageReport = (command: UsageCommand, total: UsageTotal, rows: UsageTotal[]): string => {
+  const whose = command.userId ? ` for <@${command.userId}>` : '';
+  if (total.calls === 0) {
+    return `No AI usage${whose} for ${command.period.label}.`;
+  }
+
+  const header = `AI spend${whose} for ${command.period.label}: *${formatUsd(total.costUsd)}* across ${total.calls} call${total.calls === 1 ? '' : 's'} (${tokens(total.inputTokens)} input / ${tokens(total.outputTokens)} output tokens).`;
+  const lines = rows.map(row =>
+    `• ${label(command.by, row.key)} — ${formatUsd(row.costUsd)} (${row.calls} call${row.calls === 1 ? '' : 's'}, ${tokens(row.inputTokens + row.outputTokens)} tokens)`
+  );
+
+  return `${header}\nBy ${command.by}:\n${lines.join('\n')}`;
+};
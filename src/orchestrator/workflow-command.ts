@@ -0,0 +1,37 @@
+// "show workflows" - configured workflows and their recent runs, from Slack
+
+import { WorkflowRun } from '../db/workflows.js';
+import { WorkflowDefinition } from '../workflows/index.js';
+
+const COMMAND_PATTERN = /^(show|list)\s+(the\s+|my\s+)?workflows?(\s+runs?)?[.!?]*$/i;
+
+export const isWorkflowCommand = (message: string): boolean => COMMAND_PATTERN.test(message.trim());
+
+const STATUS_LABELS: Record<WorkflowRun['status'], string> = {
+  awaiting_approval: 'waiting for approval',
+  done: 'done',
+  skipped: 'skipped',
+  failed: 'failed'
+};
+
+const formatStep = (step: WorkflowDefinition['steps'][number]): string =>
+  step.approve === 'auto' ? `${step.action} (auto)` : step.action;
+
+export const formatWorkflowReport = (definitions: WorkflowDefinition[], runs: WorkflowRun[]): string => {
+  if (definitions.length === 0) {
+    return 'No workflows are configured. Point WORKFLOWS_FILE at a workflows JSON file to add some.';
+  }
+
+  const lines = definitions.map(definition =>
+    `• *${definition.name}* — on ${definition.trigger}: ${definition.steps.map(formatStep).join(' → ')}`
+  );
+  const recent = runs.map(run => {
+    const done = run.steps.filter(step => step.status === 'done').length;
+    return `• ${run.createdAt.slice(0, 10)} *${run.workflow}* — ${run.summary} (${STATUS_LABELS[run.status]}, ${done}/${run.steps.length} steps done)`;
+  });
+
+  return [
+    `Workflows:\n${lines.join('\n')}`,
+    recent.length > 0 ? `Recent runs:\n${recent.join('\n')}` : 'No runs yet.'
+  ].join('\n\n');
+};
@@ -0,0 +1,92 @@
+// Scheduler - runs jobs on configured weekdays at a time of day in a timezone
+
+import Database from 'better-sqlite3';
+import { ScheduleStorage } from '../db/schedules.js';
+import { getMostRecentSlot, parseTimeOfDay, parseWeekdays } from './time.js';
+
+export interface ScheduledJob {
+  name: string;
+  days: string[];   // e.g. ['tuesday', 'thursday']
+  time: string;     // "HH:MM" in the scheduler timezone
+  run: () => Promise<void>;
+}
+
+export interface SchedulerConfig {
+  timezone: string;
+  tickIntervalMs?: number; // How often to check for due jobs (default: 60s)
+}
+
+interface RegisteredJob extends ScheduledJob {
+  weekdays: number[];
+  timeOfDay: { hour: number; minute: number };
+}
+
+export class Scheduler {
+  private storage: ScheduleStorage;
+  private jobs: RegisteredJob[] = [];
+  private running: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(db: Database.Database, private config: SchedulerConfig) {
+    this.storage = new ScheduleStorage(db);
+  }
+
+  // Register a job (validates days/time up front)
+  addJob(job: ScheduledJob): void {
+    this.jobs.push({
+      ...job,
+      weekdays: parseWeekdays(job.days),
+      timeOfDay: parseTimeOfDay(job.time)
+    });
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    // Check immediately so a run missed while we were down catches up
+    void this.tick();
+    this.timer = setInterval(() => void this.tick(), this.config.tickIntervalMs || 60 * 1000);
+    console.log(`[Scheduler] Started with ${this.jobs.length} job(s) in ${this.config.timezone}`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run any jobs whose most recent slot hasn't been handled yet
+  async tick(now: Date = new Date()): Promise<void> {
+    for (const job of this.jobs) {
+      if (this.running.has(job.name)) continue;
+
+      const slot = getMostRecentSlot(now, job.weekdays, job.timeOfDay, this.config.timezone);
+      if (!slot) continue;
+
+      const slotIso = slot.toISOString();
+      const state = this.storage.get(job.name);
+
+      // First time we see this job: treat past slots as handled rather than
+      // firing a checkpoint for last week the moment the job is deployed
+      if (!state) {
+        this.storage.markSlot(job.name, slotIso);
+        continue;
+      }
+
+      if (state.lastSlot >= slotIso) continue;
+
+      this.running.add(job.name);
+      try {
+        console.log(`[Scheduler] Running ${job.name} for slot ${slotIso}`);
+        await job.run();
+      } catch (error) {
+        // Still mark the slot below - retrying every tick would spam the channel
+        console.error(`[Scheduler] Job ${job.name} failed:`, error);
+      } finally {
+        this.storage.markSlot(job.name, slotIso, new Date().toISOString());
+        this.running.delete(job.name);
+      }
+    }
+  }
+}
@@ -0,0 +1,113 @@
+// Timezone helpers for the scheduler (Intl-based, no extra dependencies)
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+// Break a UTC instant into wall-clock parts in the given timezone
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'long'
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')),
+    day: parseInt(get('day')),
+    hour: parseInt(get('hour')),
+    minute: parseInt(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday').toLowerCase())
+  };
+};
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+const getOffsetMs = (timestamp: number, timeZone: string): number => {
+  const p = getZonedParts(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(timestamp / 60000) * 60000;
+};
+
+// Convert a wall-clock time in the timezone to a UTC instant
+export const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date => {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const first = guess - getOffsetMs(guess, timeZone);
+  // Re-check in case the guess landed on the other side of a DST change
+  const second = guess - getOffsetMs(first, timeZone);
+  return new Date(second);
+};
+
+// Parse day names like "tuesday" or "tue" into weekday numbers
+export const parseWeekdays = (days: string[]): number[] => {
+  return days
+    .map(day => day.trim().toLowerCase())
+    .filter(Boolean)
+    .map(day => {
+      const index = day.length >= 3 ? WEEKDAYS.findIndex(name => name.startsWith(day)) : -1;
+      if (index === -1) {
+        throw new Error(`Invalid day name: ${day}`);
+      }
+      return index;
+    });
+};
+
+// Parse "HH:MM" into hour and minute
+export const parseTimeOfDay = (time: string): { hour: number; minute: number } => {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || parseInt(match[1]) > 23 || parseInt(match[2]) > 59) {
+    throw new Error(`Invalid time of day: ${time}`);
+  }
+  return { hour: parseInt(match[1]), minute: parseInt(match[2]) };
+};
+
+// Find the most recent scheduled slot at or before `now`
+export const getMostRecentSlot = (
+  now: Date,
+  weekdays: number[],
+  time: { hour: number; minute: number },
+  timeZone: string
+): Date | null => {
+  const today = getZonedParts(now, timeZone);
+
+  for (let daysBack = 0; daysBack <= 7; daysBack++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day - daysBack));
+    if (!weekdays.includes(date.getUTCDay())) continue;
+
+    const slot = zonedTimeToUtc(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      time.hour,
+      time.minute,
+      timeZone
+    );
+
+    if (slot.getTime() <= now.getTime()) {
+      return slot;
+    }
+  }
+
+  return null;
+};
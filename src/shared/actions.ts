@@ -0,0 +1,97 @@
+// Turn LLM tool-call traces into AgentActions and entity references
+
+import { AgentAction, EntityRef, EntityType } from './types.js';
+import { ToolCallTrace } from './llm.js';
+
+// Kinds tracked in ConversationContext.entities
+const CONTEXT_ENTITY_TYPES: EntityType[] = ['contact', 'deal', 'company', 'task', 'note', 'issue', 'draft'];
+
+// Outputs are kept with the conversation turn, so cap their size
+const MAX_OUTPUT_CHARS = 4000;
+
+const parseOutput = (output: unknown): unknown => {
+  if (typeof output !== 'string') return output;
+  try {
+    return JSON.parse(output);
+  } catch {
+    return output;
+  }
+};
+
+// Large objects keep the top-level fields that fit (id, name, title...), so
+// the entity can still be named later; anything else is cut to the cap as text
+const capOutput = (output: unknown, raw: unknown): unknown => {
+  if (typeof raw !== 'string' || raw.length <= MAX_OUTPUT_CHARS) return output;
+  if (!output || typeof output !== 'object' || Array.isArray(output)) {
+    return raw.slice(0, MAX_OUTPUT_CHARS) + '…';
+  }
+
+  const kept: Record<string, unknown> = {};
+  let size = 2;
+  for (const [key, value] of Object.entries(output)) {
+    const length = key.length + (JSON.stringify(value)?.length ?? 0) + 4;
+    if (size + length > MAX_OUTPUT_CHARS) continue;
+    kept[key] = value;
+    size += length;
+  }
+  return kept;
+};
+
+const describe = (call: ToolCallTrace): string => {
+  const input = JSON.stringify(call.input ?? {});
+  const summary = `${call.toolName}(${input.length > 120 ? input.slice(0, 120) + '…' : input})`;
+  return call.error ? `${summary} failed: ${call.error}` : summary;
+};
+
+// `entityTypes` maps tool name -> the entity its output describes; the output's
+// `id` becomes the action's entityId
+export const traceToActions = (
+  trace: ToolCallTrace[],
+  entityTypes: Record<string, string> = {}
+): AgentAction[] => {
+  return trace.map(call => {
+    // Parsed in full so the id survives however large the output is
+    const parsed = parseOutput(call.output);
+    const output = capOutput(parsed, call.output);
+    const entityType = entityTypes[call.toolName];
+    const id = parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as { id?: unknown }).id
+      : undefined;
+
+    return {
+      type: call.toolName,
+      description: describe(call),
+      entityType,
+      entityId: entityType && typeof id === 'string' ? id : undefined,
+      input: call.input,
+      output,
+      error: call.error,
+      durationMs: call.durationMs
+    };
+  });
+};
+
+// Entity references for the objects the tools actually touched, newest last.
+// `nameOf` picks a display name from the tool output; failed calls are skipped.
+export const actionsToEntities = (
+  actions: AgentAction[],
+  nameOf: (type: EntityType, output: any) => string | undefined
+): EntityRef[] => {
+  const entities = new Map<string, EntityRef>();
+
+  for (const action of actions) {
+    const type = action.entityType as EntityType | undefined;
+    if (action.error || !type || !action.entityId || !CONTEXT_ENTITY_TYPES.includes(type)) continue;
+
+    const key = `${type}:${action.entityId}`;
+    entities.delete(key); // Re-insert so the latest mention ends up last
+    entities.set(key, {
+      type,
+      id: action.entityId,
+      name: nameOf(type, action.output) || action.entityId,
+      mentionedAt: new Date().toISOString()
+    });
+  }
+
+  return [...entities.values()];
+};
@@ -0,0 +1,30 @@
+// Encryption for secrets stored in the database (AES-256-GCM)
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+// Any secret string works as the key; it is hashed to 32 bytes
+const deriveKey = (secret: string): Buffer => createHash('sha256').update(secret).digest();
+
+// Encrypt to "v1:<iv>:<tag>:<ciphertext>" (base64 parts)
+export const encryptSecret = (plaintext: string, secret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+};
+
+// Throws if the value was encrypted with a different key or has been tampered with
+export const decryptSecret = (encrypted: string, secret: string): string => {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted value');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, deriveKey(secret), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,121 @@
+// Text embeddings - pluggable providers behind one interface, plus an offline
+// hashing embedder that needs no model at all
+
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import { EmbeddingModel, embedMany } from 'ai';
+import { DEFAULT_LOCAL_BASE_URL } from './llm.js';
+
+export type EmbeddingsProviderName = 'openai' | 'local' | 'hashing';
+
+export interface EmbeddingsConfig {
+  provider: EmbeddingsProviderName;
+  model?: string;      // Default: text-embedding-3-small (openai), nomic-embed-text (local)
+  baseURL?: string;    // OpenAI-compatible server for 'local' (default: Ollama's)
+  apiKey?: string;
+  threshold?: number;  // Overrides the provider's similarity threshold
+}
+
+export interface EmbeddingProvider {
+  readonly id: string;        // Vectors are only comparable with the same id, e.g. "openai/text-embedding-3-small"
+  readonly threshold: number; // Cosine similarity above which two texts say the same thing
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// Any embedding model the ai SDK supports
+export class ModelEmbeddings implements EmbeddingProvider {
+  constructor(
+    readonly id: string,
+    private model: EmbeddingModel,
+    readonly threshold: number = 0.75
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const { embeddings } = await embedMany({ model: this.model, values: texts });
+    return embeddings;
+  }
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is',
+  'it', 'its', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'was',
+  'we', 'were', 'with', 'you', 'your'
+]);
+
+// Crude suffix stripping so "spreadsheets" and "spreadsheet" share a feature
+const stem = (word: string): string => word.replace(/(ing|ed|es|s)$/, '').replace(/(.)\1$/, '$1') || word;
+
+// FNV-1a
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+// Offline fallback: words and character trigrams hashed into a fixed-size
+// vector. Catches rewordings that share vocabulary, not synonyms.
+export class HashingEmbeddings implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private dimensions: number = 512, readonly threshold: number = 0.5) {
+    this.id = `hashing/${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vector(text));
+  }
+
+  private vector(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      vector[h % this.dimensions] += (h & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => !STOP_WORDS.has(word)).map(stem);
+    for (const word of words) {
+      add(`w:${word}`, 1);
+      const padded = `_${word}_`;
+      for (let i = 0; i + 3 <= padded.length; i++) add(`c:${padded.slice(i, i + 3)}`, 0.3);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+export const createEmbeddingProvider = (config: EmbeddingsConfig): EmbeddingProvider => {
+  switch (config.provider) {
+    case 'openai': {
+      const model = config.model || 'text-embedding-3-small';
+      const provider = config.apiKey ? createOpenAI({ apiKey: config.apiKey }) : openai;
+      return new ModelEmbeddings(`openai/${model}`, provider.embedding(model), config.threshold);
+    }
+    case 'local': {
+      const model = config.model || 'nomic-embed-text';
+      const provider = createOpenAI({
+        name: 'local',
+        baseURL: config.baseURL || DEFAULT_LOCAL_BASE_URL,
+        apiKey: config.apiKey || process.env.LOCAL_LLM_API_KEY || 'local'
+      });
+      return new ModelEmbeddings(`local/${model}`, provider.embedding(model), config.threshold);
+    }
+    default:
+      return new HashingEmbeddings(512, config.threshold);
+  }
+};
@@ -8,6 +8,7 @@ export enum ErrorCategory {
   LLM_ERROR = 'llm_error',
   AUTH_FAILURE = 'auth_failure',
   VALIDATION = 'validation',
+  INVALID_OUTPUT = 'invalid_output', // Model reply that doesn't match the requested schema
   UNKNOWN = 'unknown'
 }
 
@@ -110,6 +111,40 @@ export const createValidationError = (message: string): AgentErrorClass => {
   });
 };
 
+// Model output that never matched the schema, even after retries; keeps the
+// last raw reply for debugging
+export const createInvalidOutputError = (details: string, rawOutput?: string): AgentErrorClass => {
+  return new AgentErrorClass({
+    category: ErrorCategory.INVALID_OUTPUT,
+    message: `Invalid model output: ${details}`,
+    userMessage: "I couldn't make sense of that — could you rephrase?",
+    retryable: true,
+    details: { details, rawOutput }
+  });
+};
+
+// Sort a model provider failure into a category; the AI SDK wraps the final
+// attempt's error in a RetryError (lastError) and HTTP failures carry statusCode
+export const categorizeLLMFailure = (error: unknown): ErrorCategory => {
+  const cause = (error as { lastError?: unknown })?.lastError ?? error;
+  const statusCode = (cause as { statusCode?: number })?.statusCode;
+  const name = cause instanceof Error ? cause.name : '';
+  const message = cause instanceof Error ? cause.message : String(cause);
+
+  if (statusCode === 429 || /rate limit|too many requests|overloaded/i.test(message)) {
+    return ErrorCategory.RATE_LIMIT;
+  }
+  if (statusCode === 401 || statusCode === 403 || message.includes('API key')) {
+    return ErrorCategory.AUTH_FAILURE;
+  }
+  if ((statusCode !== undefined && statusCode >= 500) ||
+      name === 'TimeoutError' || name === 'AbortError' ||
+      /timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|fetch failed/i.test(message)) {
+    return ErrorCategory.API_FAILURE;
+  }
+  return ErrorCategory.LLM_ERROR;
+};
+
 // Error handler for user-facing messages
 export const getUserFriendlyError = (error: unknown): string => {
   if (error instanceof AgentErrorClass) {
@@ -1,36 +1,197 @@
 // Shared LLM interface for the multi-agent platform
 
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
-import { generateText } from "ai";
+import { openai, createOpenAI } from "@ai-sdk/openai";
+import { anthropic, createAnthropic } from "@ai-sdk/anthropic";
+import { generateObject, generateText, streamText, stepCountIs, LanguageModel, LanguageModelUsage, ModelMessage, NoObjectGeneratedError } from "ai";
+import { z } from "zod";
 import { LLMMessage } from "./types.js";
-import { createLLMError } from "./errors.js";
+import { AgentErrorClass, createInvalidOutputError, createLLMError, categorizeLLMFailure, ErrorCategory } from "./errors.js";
+import { buildTextToolPrompt, isToolSupportError, parseTextToolCall, validateTextToolInput } from "./text-tools.js";
+
+// 'local' is any OpenAI-compatible server: Ollama, llama.cpp server, vLLM...
+export type LLMProvider = 'openai' | 'anthropic' | 'local';
+
+// How tools reach the model: native tool calling, JSON in the text, or native
+// with a switch to JSON when the server says the model can't do tools
+export type ToolProtocol = 'native' | 'json' | 'auto';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'; // Ollama
+
+// What a model is used for; each can have its own model
+export type LLMPurpose = 'classifier' | 'summarizer' | 'content' | 'critic' | 'crm' | 'linear';
+
+export interface ModelChoice {
+  provider: LLMProvider;
+  model: string;
+  baseURL?: string;              // 'local' server URL (default: LLMConfig.baseURL, then Ollama's)
+  apiKey?: string;               // Instead of OPENAI_API_KEY / ANTHROPIC_API_KEY / LOCAL_LLM_API_KEY
+  toolProtocol?: ToolProtocol;   // Default: auto
+  languageModel?: LanguageModel; // Use this model instead of the provider (e.g. a scripted fake)
+}
 
 export interface LLMConfig {
-  provider: 'openai' | 'anthropic';
+  provider: LLMProvider;
   model: string;
+  baseURL?: string;              // OpenAI-compatible server for the 'local' provider
+  apiKey?: string;               // Overrides the provider's API key environment variable
+  toolProtocol?: ToolProtocol;
   maxTokens?: number;
   temperature?: number;
+  timeoutMs?: number;            // Abandon a call after this long (counts as a timeout for fallback)
+  languageModel?: LanguageModel; // Use this model instead of the provider (e.g. a scripted fake)
+  models?: Partial<Record<LLMPurpose, ModelChoice>>; // Per-purpose overrides of provider/model
+  fallbacks?: ModelChoice[];     // Tried in order on rate limits, timeouts and 5xx errors
 }
 
+// Progress events emitted while a streamed chat runs
+export type LLMStreamEvent =
+  | { type: 'text-delta'; text: string }
+  | { type: 'tool-call'; toolName: string; input: unknown }
+  | { type: 'tool-result'; toolName: string }
+  | { type: 'tool-error'; toolName: string; error: string };
+
 export interface ChatOptions {
   systemPrompt: string;
   tools?: Record<string, any>;
   maxSteps?: number;
+  onEvent?: (event: LLMStreamEvent) => void; // Set to stream via streamText
+  caller?: LLMCaller;                        // Who the spend is attributed to
+  purpose?: LLMPurpose;                      // Picks the model; default is LLMConfig.provider/model
+}
+
+export interface ObjectOptions {
+  systemPrompt: string;
+  schemaName?: string;   // Names the output for the model and in errors (e.g. 'classification')
+  attempts?: number;     // Tries per model before giving up on invalid output (default: 2)
+  caller?: LLMCaller;
+  purpose?: LLMPurpose;
 }
 
+export interface LLMCaller {
+  agent?: string;  // Agent name, or 'classifier'
+  userId?: string; // Slack user the call is made for
+}
+
+// Tokens used by one model call
+export interface LLMUsage extends LLMCaller {
+  provider: string;
+  model: string;
+  purpose: 'chat' | 'summary' | 'fallback' | 'object';
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageRecorder = (usage: LLMUsage) => void;
+
+// One tool call made while answering, in the order the calls finished
+export interface ToolCallTrace {
+  toolCallId: string;
+  toolName: string;
+  input: unknown;   // As validated against the tool's input schema
+  output?: unknown; // What execute() returned (absent on error)
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface ChatResult {
+  text: string;
+  trace: ToolCallTrace[];
+  model: string; // "provider/model" that answered, after any fallback
+}
+
+// Failures worth retrying on the next model in the chain
+const FALLBACK_CATEGORIES = [ErrorCategory.RATE_LIMIT, ErrorCategory.API_FAILURE];
+
+export const modelLabel = (choice: ModelChoice): string => `${choice.provider}/${choice.model}`;
+
+// The provider's model for a choice; `baseURL` is the default for local servers
+export const createLanguageModel = (choice: ModelChoice, baseURL?: string): LanguageModel => {
+  if (choice.languageModel) {
+    return choice.languageModel;
+  }
+  if (choice.provider === 'local') {
+    // Local servers speak Chat Completions, not the Responses API
+    return createOpenAI({
+      name: 'local',
+      baseURL: choice.baseURL || baseURL || DEFAULT_LOCAL_BASE_URL,
+      apiKey: choice.apiKey || process.env.LOCAL_LLM_API_KEY || 'local'
+    }).chat(choice.model);
+  }
+  if (choice.provider === 'anthropic') {
+    return choice.apiKey ? createAnthropic({ apiKey: choice.apiKey })(choice.model) : anthropic(choice.model);
+  }
+  return choice.apiKey ? createOpenAI({ apiKey: choice.apiKey })(choice.model) : openai(choice.model);
+};
+
 export class LLMClient {
   private config: LLMConfig;
+  private onUsage?: UsageRecorder;
+  private textToolModels = new Set<string>(); // Found not to support native tools; JSON-in-text from then on
 
-  constructor(config: LLMConfig) {
+  constructor(config: LLMConfig, onUsage?: UsageRecorder) {
     this.config = config;
+    this.onUsage = onUsage;
   }
 
-  private getModel() {
-    if (this.config.provider === 'anthropic') {
-      return anthropic(this.config.model);
+  // Report a call's token usage; accounting failures never fail the chat
+  private recordUsage(
+    choice: ModelChoice,
+    purpose: LLMUsage['purpose'],
+    usage: LanguageModelUsage | undefined,
+    caller?: LLMCaller
+  ): void {
+    if (!this.onUsage) return;
+    try {
+      this.onUsage({
+        ...caller,
+        provider: choice.provider,
+        model: choice.model,
+        purpose,
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0
+      });
+    } catch (error) {
+      console.error('[llm] Failed to record usage:', error);
     }
-    return openai(this.config.model);
+  }
+
+  private getModel(choice: ModelChoice): LanguageModel {
+    return createLanguageModel(choice, this.config.baseURL);
+  }
+
+  private hasApiKey(choice: ModelChoice): boolean {
+    if (choice.languageModel || choice.apiKey || choice.provider === 'local') return true;
+    return !!(choice.provider === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.OPENAI_API_KEY);
+  }
+
+  // The model configured for a purpose, else the default
+  private primaryFor(purpose?: LLMPurpose): ModelChoice {
+    return (purpose && this.config.models?.[purpose]) || {
+      provider: this.config.provider,
+      model: this.config.model,
+      baseURL: this.config.baseURL,
+      apiKey: this.config.apiKey,
+      toolProtocol: this.config.toolProtocol,
+      languageModel: this.config.languageModel
+    };
+  }
+
+  private usesTextTools(choice: ModelChoice): boolean {
+    return choice.toolProtocol === 'json' ||
+      (choice.toolProtocol !== 'native' && this.textToolModels.has(modelLabel(choice)));
+  }
+
+  // The purpose's model, then the fallbacks - skipping repeats and providers without a key
+  private modelChain(purpose?: LLMPurpose): ModelChoice[] {
+    const chain: ModelChoice[] = [];
+    for (const choice of [this.primaryFor(purpose), ...(this.config.fallbacks || [])]) {
+      const duplicate = chain.some(c => modelLabel(c) === modelLabel(choice) && c.languageModel === choice.languageModel);
+      if (!duplicate && this.hasApiKey(choice)) {
+        chain.push(choice);
+      }
+    }
+    return chain;
   }
 
   async chat(
@@ -38,110 +199,363 @@ export class LLMClient {
     history: LLMMessage[] = [],
     options: ChatOptions
   ): Promise<string> {
-    const apiKey = this.config.provider === 'anthropic'
-      ? process.env.ANTHROPIC_API_KEY
-      : process.env.OPENAI_API_KEY;
+    const result = await this.chatWithTrace(message, history, options);
+    return result.text;
+  }
 
-    if (!apiKey) {
-      throw createLLMError(`${this.config.provider} API key not configured`);
-    }
+  // Like chat(), but also returns every tool call made along the way
+  async chatWithTrace(
+    message: string,
+    history: LLMMessage[] = [],
+    options: ChatOptions
+  ): Promise<ChatResult> {
+    const trace: ToolCallTrace[] = [];
+    const tools = options.tools ? this.traceTools(options.tools, trace) : undefined;
+    const { text, model } = await this.generate(message, history, { ...options, tools });
+    return { text, trace, model };
+  }
 
-    try {
-      const messages = [
-        ...history.filter(m => m.role !== 'system').map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content
-        })),
-        { role: 'user' as const, content: message }
-      ];
-
-      const generateOptions: any = {
-        model: this.getModel(),
-        system: options.systemPrompt,
-        messages
+  // Wrap each tool's execute() to record input, output, timing and errors
+  private traceTools(tools: Record<string, any>, trace: ToolCallTrace[]): Record<string, any> {
+    return Object.fromEntries(Object.entries(tools).map(([toolName, definition]) => {
+      if (typeof definition.execute !== 'function') {
+        return [toolName, definition];
+      }
+
+      const execute = async (input: unknown, executeOptions: { toolCallId: string }) => {
+        const startedAt = new Date();
+        const entry: ToolCallTrace = {
+          toolCallId: executeOptions.toolCallId,
+          toolName,
+          input,
+          startedAt: startedAt.toISOString(),
+          durationMs: 0
+        };
+
+        try {
+          entry.output = await definition.execute(input, executeOptions);
+          return entry.output;
+        } catch (error) {
+          entry.error = error instanceof Error ? error.message : String(error);
+          throw error;
+        } finally {
+          entry.durationMs = Date.now() - startedAt.getTime();
+          trace.push(entry);
+        }
       };
 
-      if (options.tools && Object.keys(options.tools).length > 0) {
-        generateOptions.tools = options.tools;
-        generateOptions.maxSteps = options.maxSteps || 10;
+      return [toolName, { ...definition, execute }];
+    }));
+  }
+
+  private async generate(
+    message: string,
+    history: LLMMessage[],
+    options: ChatOptions
+  ): Promise<{ text: string; model: string }> {
+    const { value, model } = await this.withFallback(options.purpose, (choice, progress, isLast) =>
+      this.generateWith(choice, message, history, options, progress, isLast)
+    );
+    return { text: value, model };
+  }
+
+  // Try each model in the chain until one answers. Once a model has produced
+  // output or run a tool, its failure is final - retrying elsewhere could
+  // repeat the tool call or garble a streamed reply.
+  private async withFallback<T>(
+    purpose: LLMPurpose | undefined,
+    run: (choice: ModelChoice, progress: { started: boolean }, isLast: boolean) => Promise<T>
+  ): Promise<{ value: T; model: string }> {
+    const chain = this.modelChain(purpose);
+    if (chain.length === 0) {
+      throw createLLMError(`${this.primaryFor(purpose).provider} API key not configured`);
+    }
+
+    let lastError: unknown;
+    for (const [index, choice] of chain.entries()) {
+      const progress = { started: false };
+      const isLast = index === chain.length - 1;
+      try {
+        return { value: await run(choice, progress, isLast), model: modelLabel(choice) };
+      } catch (error) {
+        lastError = error;
+        const category = categorizeLLMFailure(error);
+        if (isLast || progress.started || !FALLBACK_CATEGORIES.includes(category)) {
+          break;
+        }
+        console.warn(`[llm] ${modelLabel(choice)} failed (${category}), falling back to ${modelLabel(chain[index + 1])}`);
       }
+    }
 
-      const result = await generateText(generateOptions);
-      
-      // The final text response after all tool calls are processed
-      if (result.text) {
-        return result.text;
+    const error = lastError;
+    if (error instanceof AgentErrorClass) {
+      throw error;
+    }
+    if (error instanceof Error) {
+      if (error.message.includes('API key')) {
+        throw createLLMError('API key is invalid or missing');
       }
-      
-      // Check if any tools were actually called
-      const hasToolCalls = result.steps?.some(step => 
-        step.toolCalls && step.toolCalls.length > 0
-      );
-      
-      // If tools were called, collect results and summarize
-      if (hasToolCalls && result.steps && result.steps.length > 0) {
-        const toolOutputs: string[] = [];
-        
-        for (const step of result.steps) {
-          // Check step.content for tool-result items (new AI SDK structure)
-          const content = (step as any).content;
-          if (Array.isArray(content)) {
-            for (const item of content) {
-              if (item.type === 'tool-result' && item.output) {
-                toolOutputs.push(String(item.output));
-              }
-            }
+      if (categorizeLLMFailure(error) === ErrorCategory.RATE_LIMIT) {
+        throw createLLMError('Rate limited, please try again');
+      }
+    }
+    throw createLLMError(error instanceof Error ? error.message : 'Unknown LLM error');
+  }
+
+  // Typed, schema-validated output. A reply that doesn't parse or validate is
+  // sent back to the model with the problem, up to `attempts` times in all;
+  // after that it's an INVALID_OUTPUT error carrying the last raw reply.
+  async generateObject<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options: ObjectOptions
+  ): Promise<T> {
+    const { value } = await this.withFallback(options.purpose, async (choice, _progress, isLast) => {
+      const attempts = Math.max(1, options.attempts ?? 2);
+      const messages: ModelMessage[] = [{ role: 'user', content: prompt }];
+      let problem = '';
+      let rawOutput: string | undefined;
+
+      for (let attempt = 1; attempt <= attempts; attempt++) {
+        try {
+          const result = await generateObject({
+            model: this.getModel(choice),
+            system: options.systemPrompt,
+            messages,
+            schema,
+            schemaName: options.schemaName,
+            // Models that wrap the JSON in prose or a code fence
+            experimental_repairText: async ({ text }) => text.match(/\{[\s\S]*\}/)?.[0] ?? null,
+            ...(isLast ? {} : { maxRetries: 0 }),
+            ...(this.config.timeoutMs ? { abortSignal: AbortSignal.timeout(this.config.timeoutMs) } : {})
+          });
+          this.recordUsage(choice, 'object', result.usage, options.caller);
+          return result.object as T;
+        } catch (error) {
+          if (!NoObjectGeneratedError.isInstance(error)) {
+            throw error;
           }
-          // Also check toolResults for backwards compatibility
-          for (const toolResult of step.toolResults || []) {
-            const output = (toolResult as any).result || (toolResult as any).output;
-            if (output && !toolOutputs.includes(String(output))) {
-              toolOutputs.push(String(output));
+          this.recordUsage(choice, 'object', error.usage, options.caller);
+          rawOutput = error.text;
+          problem = error.cause instanceof Error ? error.cause.message : error.message;
+          messages.push(
+            { role: 'assistant', content: rawOutput || '(empty reply)' },
+            { role: 'user', content: `That reply didn't match the required JSON schema: ${problem}\nReply again with only the corrected JSON object.` }
+          );
+        }
+      }
+
+      throw createInvalidOutputError(`${options.schemaName || 'object'} failed validation after ${attempts} attempts: ${problem}`, rawOutput);
+    });
+    return value;
+  }
+
+  private async generateWith(
+    choice: ModelChoice,
+    message: string,
+    history: LLMMessage[],
+    options: ChatOptions,
+    progress: { started: boolean },
+    isLast: boolean
+  ): Promise<string> {
+    const messages = [
+      ...history.filter(m => m.role !== 'system').map(msg => ({
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content
+      })),
+      { role: 'user' as const, content: message }
+    ];
+
+    const generateOptions: any = {
+      model: this.getModel(choice),
+      system: options.systemPrompt,
+      messages,
+      onStepFinish: () => { progress.started = true; }
+    };
+
+    // With somewhere to fall back to, switch right away instead of backing off
+    if (!isLast) {
+      generateOptions.maxRetries = 0;
+    }
+    if (this.config.timeoutMs) {
+      generateOptions.abortSignal = AbortSignal.timeout(this.config.timeoutMs);
+    }
+
+    const hasTools = !!options.tools && Object.keys(options.tools).length > 0;
+    if (hasTools && this.usesTextTools(choice)) {
+      return this.generateWithTextTools(choice, generateOptions, options, progress);
+    }
+    if (hasTools) {
+      generateOptions.tools = options.tools;
+      generateOptions.stopWhen = stepCountIs(options.maxSteps || 10);
+    }
+
+    let result;
+    try {
+      result = options.onEvent
+        ? await this.streamSteps(generateOptions, options.onEvent, progress)
+        : await generateText(generateOptions);
+    } catch (error) {
+      if (!hasTools || progress.started || choice.toolProtocol === 'native' || !isToolSupportError(error)) {
+        throw error;
+      }
+      console.warn(`[llm] ${modelLabel(choice)} can't use native tools; switching to JSON-in-text tool calls`);
+      this.textToolModels.add(modelLabel(choice));
+      delete generateOptions.tools;
+      delete generateOptions.stopWhen;
+      return this.generateWithTextTools(choice, generateOptions, options, progress);
+    }
+    this.recordUsage(choice, 'chat', result.totalUsage, options.caller);
+
+    // The final text response after all tool calls are processed
+    if (result.text) {
+      return result.text;
+    }
+
+    // Check if any tools were actually called
+    const hasToolCalls = result.steps?.some(step =>
+      step.toolCalls && step.toolCalls.length > 0
+    );
+
+    // If tools were called, collect results and summarize
+    if (hasToolCalls && result.steps && result.steps.length > 0) {
+      const toolOutputs: string[] = [];
+
+      for (const step of result.steps) {
+        // Check step.content for tool-result items (new AI SDK structure)
+        const content = (step as any).content;
+        if (Array.isArray(content)) {
+          for (const item of content) {
+            if (item.type === 'tool-result' && item.output) {
+              toolOutputs.push(String(item.output));
             }
           }
         }
-        
-        if (toolOutputs.length > 0) {
-          // Ask LLM to summarize the tool results in natural language
-          const summaryResult = await generateText({
-            model: this.getModel(),
-            system: `You are a helpful assistant. The user asked a question and tools were used to get data. 
+        // Also check toolResults for backwards compatibility
+        for (const toolResult of step.toolResults || []) {
+          const output = (toolResult as any).result || (toolResult as any).output;
+          if (output && !toolOutputs.includes(String(output))) {
+            toolOutputs.push(String(output));
+          }
+        }
+      }
+
+      if (toolOutputs.length > 0) {
+        // Ask LLM to summarize the tool results in natural language
+        const summarizer = this.config.models?.summarizer || choice;
+        const summaryResult = await generateText({
+          model: this.getModel(summarizer),
+          system: `You are a helpful assistant. The user asked a question and tools were used to get data. 
 Summarize the results in a natural, conversational way. Be concise and helpful.
 Format for Slack: use bullet points, bold important info, keep it scannable.
 Never show raw JSON to users.`,
-            messages: [
-              { role: 'user', content: message },
-              { role: 'assistant', content: `I found this data:\n${toolOutputs.join('\n\n')}` },
-              { role: 'user', content: 'Please summarize this in a natural, helpful way.' }
-            ]
-          });
-          
-          return summaryResult.text || 'I completed the action but could not generate a summary.';
-        }
-      }
-      
-      // No tools called and no text - this shouldn't happen but make a simple call
-      if (!result.text) {
-        const fallbackResult = await generateText({
-          model: this.getModel(),
-          system: options.systemPrompt,
-          messages: [{ role: 'user', content: message }]
+          messages: [
+            { role: 'user', content: message },
+            { role: 'assistant', content: `I found this data:\n${toolOutputs.join('\n\n')}` },
+            { role: 'user', content: 'Please summarize this in a natural, helpful way.' }
+          ]
         });
-        return fallbackResult.text || "I'm not sure how to help with that. Could you rephrase?";
+        this.recordUsage(summarizer, 'summary', summaryResult.totalUsage, options.caller);
+
+        return summaryResult.text || 'I completed the action but could not generate a summary.';
       }
-      
-      return result.text;
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('API key')) {
-          throw createLLMError('API key is invalid or missing');
-        }
-        if (error.message.includes('rate limit')) {
-          throw createLLMError('Rate limited, please try again');
+    }
+
+    // No tools called and no text - this shouldn't happen but make a simple call
+    const fallbackResult = await generateText({
+      model: this.getModel(choice),
+      system: options.systemPrompt,
+      messages: [{ role: 'user', content: message }]
+    });
+    this.recordUsage(choice, 'fallback', fallbackResult.totalUsage, options.caller);
+    return fallbackResult.text || "I'm not sure how to help with that. Could you rephrase?";
+  }
+
+  // Tool loop for models without native tools: the catalogue goes in the system
+  // prompt, the model answers with {"tool": ..., "input": ...} and gets the
+  // result back as a user message, until it replies in plain text
+  private async generateWithTextTools(
+    choice: ModelChoice,
+    generateOptions: any,
+    options: ChatOptions,
+    progress: { started: boolean }
+  ): Promise<string> {
+    const tools = options.tools!;
+    const toolNames = Object.keys(tools);
+    const system = `${options.systemPrompt}${await buildTextToolPrompt(tools)}`;
+    const messages = [...generateOptions.messages];
+    const maxSteps = options.maxSteps || 10;
+
+    for (let step = 1; step <= maxSteps; step++) {
+      const result = await generateText({ ...generateOptions, system, messages, onStepFinish: undefined });
+      this.recordUsage(choice, 'chat', result.totalUsage, options.caller);
+
+      const call = parseTextToolCall(result.text, toolNames);
+      if (!call) {
+        options.onEvent?.({ type: 'text-delta', text: result.text });
+        return result.text || "I'm not sure how to help with that. Could you rephrase?";
+      }
+
+      progress.started = true;
+      options.onEvent?.({ type: 'tool-call', toolName: call.toolName, input: call.input });
+      messages.push({ role: 'assistant' as const, content: result.text });
+
+      let output: string;
+      const input = await validateTextToolInput(tools[call.toolName], call.input);
+      if (!input.success) {
+        output = `Error: invalid input for ${call.toolName}: ${input.error}`;
+        options.onEvent?.({ type: 'tool-error', toolName: call.toolName, error: output });
+      } else {
+        try {
+          const value = await tools[call.toolName].execute(input.value, { toolCallId: `text-${step}`, messages });
+          output = typeof value === 'string' ? value : JSON.stringify(value);
+          options.onEvent?.({ type: 'tool-result', toolName: call.toolName });
+        } catch (error) {
+          output = `Error: ${error instanceof Error ? error.message : String(error)}`;
+          options.onEvent?.({ type: 'tool-error', toolName: call.toolName, error: output });
         }
       }
-      throw createLLMError(error instanceof Error ? error.message : 'Unknown LLM error');
+      messages.push({ role: 'user' as const, content: `Result of ${call.toolName}:\n${output}` });
+    }
+
+    return 'I ran out of steps before finishing. Could you narrow the request down?';
+  }
+
+  // Run the same request through streamText, forwarding progress events.
+  // Resolves to the same { text, steps, totalUsage } shape generateText returns.
+  private async streamSteps(
+    generateOptions: any,
+    onEvent: (event: LLMStreamEvent) => void,
+    progress: { started: boolean }
+  ): Promise<{ text: string; steps: any[]; totalUsage: LanguageModelUsage }> {
+    const result = streamText(generateOptions);
+
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case 'text-delta':
+          progress.started = true;
+          onEvent({ type: 'text-delta', text: part.text });
+          break;
+        case 'tool-call':
+          progress.started = true;
+          onEvent({ type: 'tool-call', toolName: part.toolName, input: part.input });
+          break;
+        case 'tool-result':
+          onEvent({ type: 'tool-result', toolName: part.toolName });
+          break;
+        case 'tool-error':
+          onEvent({
+            type: 'tool-error',
+            toolName: part.toolName,
+            error: part.error instanceof Error ? part.error.message : String(part.error)
+          });
+          break;
+        case 'error':
+          throw part.error;
+      }
     }
+
+    return { text: await result.text, steps: await result.steps, totalUsage: await result.totalUsage };
   }
 
   // Classify intent with confidence score
@@ -152,12 +566,7 @@ Never show raw JSON to users.`,
   ): Promise<{ choice: string; confidence: number; reasoning: string }> {
     const systemPrompt = `You are an intent classifier. Given a user message and context, classify the intent into one of the provided options.
 
-Respond in JSON format:
-{
-  "choice": "the selected option",
-  "confidence": 0.0 to 1.0,
-  "reasoning": "brief explanation"
-}`;
+Respond with the selected option, your confidence from 0.0 to 1.0 and a brief explanation.`;
 
     const userMessage = `Options: ${options.join(', ')}
 
@@ -168,21 +577,12 @@ User message: "${message}"
 Classify this message.`;
 
     try {
-      const response = await this.chat(userMessage, [], { systemPrompt });
-
-      // Parse JSON response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          choice: parsed.choice || options[0],
-          confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0.5,
-          reasoning: parsed.reasoning || ''
-        };
-      }
-
-      return { choice: options[0], confidence: 0.5, reasoning: 'Could not parse response' };
+      return await this.generateObject(userMessage, intentSchema(options), {
+        systemPrompt,
+        schemaName: 'intent'
+      });
     } catch (error) {
+      console.error('[llm] Intent classification failed:', error);
       return { choice: options[0], confidence: 0.3, reasoning: 'Classification failed' };
     }
   }
@@ -192,16 +592,9 @@ Classify this message.`;
     message: string,
     entityTypes: string[]
   ): Promise<Array<{ type: string; value: string; confidence: number }>> {
-    const systemPrompt = `You are an entity extractor. Extract entities of the specified types from the user message.
+    const systemPrompt = `You are an entity extractor. Extract entities of the specified types from the user message, each with a confidence from 0.0 to 1.0.
 
-Respond in JSON format:
-{
-  "entities": [
-    { "type": "entity_type", "value": "extracted_value", "confidence": 0.0 to 1.0 }
-  ]
-}
-
-If no entities found, return { "entities": [] }`;
+If no entities are found, return an empty list.`;
 
     const userMessage = `Entity types to extract: ${entityTypes.join(', ')}
 
@@ -210,21 +603,34 @@ Message: "${message}"
 Extract all entities.`;
 
     try {
-      const response = await this.chat(userMessage, [], { systemPrompt });
-
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return parsed.entities || [];
-      }
-
-      return [];
+      const result = await this.generateObject(userMessage, ENTITIES_SCHEMA, {
+        systemPrompt,
+        schemaName: 'entities'
+      });
+      return result.entities;
     } catch (error) {
+      console.error('[llm] Entity extraction failed:', error);
       return [];
     }
   }
 }
 
+const confidence = z.number().min(0).max(1);
+
+const intentSchema = (options: string[]) => z.object({
+  choice: z.enum(options as [string, ...string[]]),
+  confidence,
+  reasoning: z.string()
+});
+
+const ENTITIES_SCHEMA = z.object({
+  entities: z.array(z.object({
+    type: z.string(),
+    value: z.string(),
+    confidence
+  }))
+});
+
 // Create default LLM client
 export const createDefaultLLMClient = (): LLMClient => {
   return new LLMClient({
@@ -0,0 +1,36 @@
+// Reporting periods said in chat - "today", "yesterday", "this week", "the last 3 days"
+
+export interface Period {
+  since: string;  // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, exclusive
+  label: string;  // As the user said it, for the reply
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+
+// Finds "for <period>" in the text; defaults to today
+export const parsePeriod = (text: string, now: Date = new Date(), fallback: string = 'today'): Period => {
+  const match = text.match(/\bfor\s+(today|yesterday|this\s+week|this\s+month|the\s+last\s+(\d+)\s+(hours?|days?))\b/i);
+  const label = match ? match[1].toLowerCase().replace(/\s+/g, ' ') : fallback;
+  const today = startOfDay(now);
+
+  if (label === 'yesterday') {
+    return { since: new Date(today.getTime() - DAY_MS).toISOString(), until: today.toISOString(), label };
+  }
+  if (label === 'this week') {
+    // Weeks start on Monday
+    return { since: new Date(today.getTime() - ((today.getDay() + 6) % 7) * DAY_MS).toISOString(), label };
+  }
+  if (label === 'this month') {
+    return { since: startOfMonth(now).toISOString(), label };
+  }
+  if (match?.[2]) {
+    const hours = Number(match[2]) * (match[3].toLowerCase().startsWith('day') ? 24 : 1);
+    return { since: new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString(), label };
+  }
+  return { since: today.toISOString(), label };
+};
@@ -0,0 +1,126 @@
+// Role-based permissions - which agents and tools each Slack user may use
+
+import { readFileSync, statSync, writeFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { PermissionDenial, ToolRisk } from './types.js';
+
+// Grants per agent ('*' = every agent): tool names, '*' for every tool, or
+// 'risk:<level>' for every tool at or below that risk
+export type RoleGrants = Record<string, string[]>;
+
+export interface PermissionMatrix {
+  defaultRole: string;               // Role for users with no assignment
+  users: Record<string, string[]>;   // Slack user ID -> roles
+  groups: Record<string, string[]>;  // Slack user group ID -> roles
+  roles: Record<string, RoleGrants>;
+}
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  defaultRole: 'viewer',
+  users: {},
+  groups: {},
+  roles: {
+    admin: { '*': ['*'] },
+    sales: { hubspot: ['*'], general: ['*'], '*': ['risk:read'] },
+    content: { content: ['*'], general: ['*'], '*': ['risk:read'] },
+    engineering: { linear: ['*'], general: ['*'], '*': ['risk:read'] },
+    viewer: { '*': ['risk:read'] }
+  }
+};
+
+// Role that may also read the audit log
+export const ADMIN_ROLE = 'admin';
+
+const RISK_ORDER: Record<ToolRisk, number> = { read: 0, write: 1, destructive: 2 };
+
+// Roles from the user's own assignment and their groups, else the default role
+export const rolesFor = (matrix: PermissionMatrix, userId: string, groups: string[] = []): string[] => {
+  const roles = new Set([
+    ...(matrix.users[userId] || []),
+    ...groups.flatMap(group => matrix.groups[group] || [])
+  ]);
+  return roles.size > 0 ? [...roles] : [matrix.defaultRole];
+};
+
+// Grants that apply to an agent across the given roles
+const grantsFor = (matrix: PermissionMatrix, roles: string[], agent: string): string[] =>
+  roles.flatMap(role => {
+    const grants = matrix.roles[role] || {};
+    return [...(grants[agent] || []), ...(grants['*'] || [])];
+  });
+
+export const canUseAgent = (matrix: PermissionMatrix, roles: string[], agent: string): boolean => {
+  return grantsFor(matrix, roles, agent).length > 0;
+};
+
+export const canUseTool = (
+  matrix: PermissionMatrix,
+  roles: string[],
+  agent: string,
+  toolName: string,
+  risk: ToolRisk
+): boolean => {
+  return grantsFor(matrix, roles, agent).some(grant => {
+    if (grant === '*' || grant === toolName) return true;
+    const level = grant.startsWith('risk:') ? grant.slice(5) as ToolRisk : null;
+    return level !== null && level in RISK_ORDER && RISK_ORDER[risk] <= RISK_ORDER[level];
+  });
+};
+
+// Friendly explanation for the user
+export const denialMessage = (denial: PermissionDenial, agentLabel: string = denial.agent): string => {
+  const roles = denial.roles.join(', ');
+  return denial.toolName
+    ? `Sorry, your role (${roles}) doesn't allow ${denial.toolName} in ${agentLabel}, so I didn't do it. Ask an admin if you need access.`
+    : `Sorry, your role (${roles}) doesn't allow using ${agentLabel}. Ask an admin if you need access.`;
+};
+
+// Permission matrix kept in a JSON file. Edits (e.g. from the CLI) are picked
+// up on the next request without a restart.
+export class PermissionStore {
+  private matrix: PermissionMatrix = DEFAULT_PERMISSIONS;
+  private loadedVersion: string | null = null;
+
+  constructor(readonly file: string) {}
+
+  get(): PermissionMatrix {
+    // File timestamps are coarse, so size is part of the version too
+    let version: string | null;
+    try {
+      const stat = statSync(this.file);
+      version = `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      version = null; // No file yet - use the defaults
+    }
+
+    if (version !== this.loadedVersion) {
+      this.loadedVersion = version;
+      try {
+        this.matrix = version === null ? DEFAULT_PERMISSIONS : parsePermissions(readFileSync(this.file, 'utf-8'));
+      } catch (error) {
+        // Keep the last good matrix rather than locking everyone out
+        console.error(`[permissions] Ignoring invalid ${this.file}:`, error);
+      }
+    }
+
+    return this.matrix;
+  }
+
+  save(matrix: PermissionMatrix): void {
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(matrix, null, 2) + '\n');
+  }
+}
+
+const parsePermissions = (json: string): PermissionMatrix => {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== 'object' || typeof data.roles !== 'object') {
+    throw new Error('Expected an object with "roles"');
+  }
+  return {
+    defaultRole: typeof data.defaultRole === 'string' ? data.defaultRole : DEFAULT_PERMISSIONS.defaultRole,
+    users: data.users || {},
+    groups: data.groups || {},
+    roles: data.roles
+  };
+};
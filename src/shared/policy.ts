@@ -0,0 +1,121 @@
+// Tool confirmation policies - hold risky tool calls until a human says yes
+
+import { randomUUID } from 'node:crypto';
+import { AgentType, PendingAction, ToolRisk } from './types.js';
+import { ToolCallTrace } from './llm.js';
+
+export interface ToolPolicy {
+  confirmAt: ToolRisk | 'never';       // Lowest risk that needs confirmation
+  risks?: Record<string, ToolRisk>;    // Per-tool overrides of the agent's own tagging
+}
+
+export const DEFAULT_TOOL_POLICY: ToolPolicy = { confirmAt: 'destructive' };
+
+const RISK_ORDER: Record<ToolRisk, number> = { read: 0, write: 1, destructive: 2 };
+
+// Shown to the model in place of the tool result while a call is held
+const HELD_RESULT = 'This action needs the user\'s confirmation before it runs and has NOT been done yet. ' +
+  'Tell the user what you are about to do and ask them to reply yes or no. Do not call the tool again.';
+const ALREADY_HELD_RESULT = 'Another action is already waiting for confirmation and this one was NOT done. ' +
+  'Ask the user about the first one only.';
+const DENIED_RESULT = 'The user\'s role does not allow this tool, so it was NOT run. ' +
+  'Tell the user they don\'t have permission for it and can ask an admin for access. Do not retry.';
+
+// Which tools the requesting user may run this turn; denied calls are reported, not run
+export interface ToolAccess {
+  allows: (toolName: string, risk: ToolRisk) => boolean;
+  onDenied: (toolName: string) => void;
+}
+
+export const needsConfirmation = (risk: ToolRisk, policy: ToolPolicy = DEFAULT_TOOL_POLICY): boolean => {
+  return policy.confirmAt !== 'never' && RISK_ORDER[risk] >= RISK_ORDER[policy.confirmAt];
+};
+
+// "updateDealStage · id: 1001, stage: closedwon"
+export const describeToolCall = (toolName: string, input: unknown): string => {
+  const fields = input && typeof input === 'object'
+    ? Object.entries(input as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => {
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        return `${key}: ${text.length > 60 ? text.slice(0, 60) + '…' : text}`;
+      })
+    : [];
+  return fields.length > 0 ? `${toolName} · ${fields.join(', ')}` : toolName;
+};
+
+interface GateOptions {
+  agent: AgentType;
+  risks: Record<string, ToolRisk>;     // The agent's tagging; untagged tools count as writes
+  policy?: ToolPolicy;
+  access?: ToolAccess;
+  onHold: (pending: PendingAction) => void;
+}
+
+// Wrap tools so calls the user's role doesn't allow are refused, and calls the
+// policy flags are held (reported via onHold) instead of executed. Only the
+// first held call is kept per turn.
+export const gateTools = (tools: Record<string, any>, options: GateOptions): Record<string, any> => {
+  const policy = options.policy || DEFAULT_TOOL_POLICY;
+  const access = options.access;
+  let held = false;
+
+  return Object.fromEntries(Object.entries(tools).map(([toolName, definition]) => {
+    const risk = policy.risks?.[toolName] || options.risks[toolName] || 'write';
+    const hold = needsConfirmation(risk, policy);
+    if (typeof definition.execute !== 'function' || (!hold && !access)) {
+      return [toolName, definition];
+    }
+
+    const execute = async (input: unknown, callOptions: unknown) => {
+      if (access && !access.allows(toolName, risk)) {
+        access.onDenied(toolName);
+        return DENIED_RESULT;
+      }
+      if (!hold) return definition.execute(input, callOptions);
+      if (held) return ALREADY_HELD_RESULT;
+      held = true;
+      options.onHold({
+        agent: options.agent,
+        toolName,
+        input,
+        risk,
+        description: describeToolCall(toolName, input),
+        requestedAt: new Date().toISOString()
+      });
+      return HELD_RESULT;
+    };
+
+    return [toolName, { ...definition, execute }];
+  }));
+};
+
+// Run a confirmed call with the agent's (ungated) tools
+export const runPendingAction = async (
+  tools: Record<string, any>,
+  pending: PendingAction
+): Promise<{ message: string; trace: ToolCallTrace[] }> => {
+  const definition = tools[pending.toolName];
+  if (typeof definition?.execute !== 'function') {
+    return { message: `I can't run ${pending.toolName} any more, so nothing was changed.`, trace: [] };
+  }
+
+  const startedAt = new Date();
+  const entry: ToolCallTrace = {
+    toolCallId: `confirmed-${randomUUID()}`,
+    toolName: pending.toolName,
+    input: pending.input,
+    startedAt: startedAt.toISOString(),
+    durationMs: 0
+  };
+
+  try {
+    entry.output = await definition.execute(pending.input, { toolCallId: entry.toolCallId, messages: [] });
+    return { message: `Done: ${pending.description}`, trace: [entry] };
+  } catch (error) {
+    entry.error = error instanceof Error ? error.message : String(error);
+    return { message: `Sorry, ${pending.toolName} failed: ${entry.error}`, trace: [entry] };
+  } finally {
+    entry.durationMs = Date.now() - startedAt.getTime();
+  }
+};
@@ -0,0 +1,72 @@
+// Recorded LLM replies - capture a live model's answers once, then replay them
+// offline (e.g. to run the classifier evaluation in CI without an API key)
+
+import { LanguageModel, LanguageModelMiddleware, wrapLanguageModel } from 'ai';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+type ModelV3 = Extract<LanguageModel, { specificationVersion: 'v3' }>;
+type CallOptions = Parameters<ModelV3['doGenerate']>[0];
+
+// Replies per prompt in call order; a retry after a rejected reply is the second entry
+export type LLMRecordings = Record<string, string[]>;
+
+const USAGE = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 0, text: 0, reasoning: undefined }
+};
+
+// A call is keyed by its first user message; replies already in the prompt say which retry it is
+const promptKey = (options: CallOptions): { key: string; turn: number } => {
+  const first = options.prompt.find(message => message.role === 'user');
+  const key = first?.role === 'user'
+    ? first.content.map(part => (part.type === 'text' ? part.text : '')).join('')
+    : '';
+  return { key, turn: options.prompt.filter(message => message.role === 'assistant').length };
+};
+
+// Wrap a live model so every reply is saved into `recordings`
+export const recordReplies = (model: LanguageModel, recordings: LLMRecordings): ModelV3 => {
+  const middleware: LanguageModelMiddleware = {
+    specificationVersion: 'v3',
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const result = await doGenerate();
+      const { key, turn } = promptKey(params);
+      (recordings[key] ??= [])[turn] = result.content.map(part => (part.type === 'text' ? part.text : '')).join('');
+      return result;
+    }
+  };
+  return wrapLanguageModel({ model: model as ModelV3, middleware });
+};
+
+// A model that answers only from recordings; an unrecorded prompt is an error
+export const replayModel = (recordings: LLMRecordings): ModelV3 => ({
+  specificationVersion: 'v3',
+  provider: 'recorded',
+  modelId: 'recorded',
+  supportedUrls: {},
+  doGenerate: async options => {
+    const { key, turn } = promptKey(options);
+    const replies = recordings[key];
+    if (!replies || replies.length === 0) {
+      throw new Error(`No recorded reply for: ${key.length > 120 ? `${key.slice(0, 120)}…` : key}`);
+    }
+    return {
+      content: [{ type: 'text', text: replies[Math.min(turn, replies.length - 1)] }],
+      finishReason: { unified: 'stop', raw: undefined },
+      usage: USAGE,
+      warnings: []
+    };
+  },
+  doStream: async () => {
+    throw new Error('Recorded models only replay non-streaming calls');
+  }
+});
+
+export const loadRecordings = (file: string): LLMRecordings =>
+  existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) : {};
+
+export const saveRecordings = (file: string, recordings: LLMRecordings): void => {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(recordings, null, 2) + '\n');
+};
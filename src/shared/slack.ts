@@ -161,3 +161,8 @@ export const truncate = (text: string, maxLength: number): string => {
 export const buildThreadKey = (channelId: string, threadTs?: string): string => {
   return threadTs ? `${channelId}:${threadTs}` : channelId;
 };
+
+// Check if a channel ID is a direct message (Slack DM channel IDs start with "D")
+export const isDirectMessageChannel = (channelId: string): boolean => {
+  return channelId.startsWith('D');
+};
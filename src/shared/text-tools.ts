@@ -0,0 +1,91 @@
+// JSON-in-text tool calling, for models that can't take native tool definitions
+// (many local models behind Ollama, llama.cpp or vLLM)
+
+import { asSchema } from 'ai';
+
+export interface TextToolCall {
+  toolName: string;
+  input: unknown;
+}
+
+// Server replies meaning "this model/server can't do native tool calls"
+const TOOLS_UNSUPPORTED_PATTERN = /does not support tools|tools? (param|parameter)s? (is |are )?(not supported|requires)|tool[_ ]choice.*requires|tool(s| calling| use)? (is |are )?not supported/i;
+
+export const isToolSupportError = (error: unknown): boolean => {
+  const cause = (error as { lastError?: unknown })?.lastError ?? error;
+  const message = cause instanceof Error ? cause.message : String(cause);
+  const body = (cause as { responseBody?: string })?.responseBody || '';
+  return TOOLS_UNSUPPORTED_PATTERN.test(`${message} ${body}`);
+};
+
+// Appended to the system prompt: the tool catalogue and the reply format
+export const buildTextToolPrompt = async (tools: Record<string, any>): Promise<string> => {
+  const entries = await Promise.all(Object.entries(tools).map(async ([name, definition]) => {
+    const schema = definition.inputSchema ? await asSchema(definition.inputSchema).jsonSchema : {};
+    return `- ${name}: ${definition.description || ''}\n  input schema: ${JSON.stringify(schema)}`;
+  }));
+
+  return `
+
+## Tools
+You can use these tools:
+${entries.join('\n')}
+
+To use a tool, reply with ONLY a JSON object and nothing else:
+{"tool": "<tool name>", "input": { ...arguments matching the input schema... }}
+
+You will get the result in the next message. Use one tool at a time. When you
+have everything you need, reply to the user in plain text (no JSON).`;
+};
+
+// Candidate JSON objects in the text, outermost first
+const jsonObjects = (text: string): string[] => {
+  const objects: string[] = [];
+  for (let start = text.indexOf('{'); start !== -1; start = text.indexOf('{', start + 1)) {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        objects.push(text.slice(start, i + 1));
+        start = i;
+        break;
+      }
+    }
+  }
+  return objects;
+};
+
+// The tool call in a reply, if the model asked for a known tool
+export const parseTextToolCall = (text: string, toolNames: string[]): TextToolCall | null => {
+  for (const candidate of jsonObjects(text)) {
+    try {
+      const parsed = JSON.parse(candidate);
+      const toolName = parsed?.tool ?? parsed?.name;
+      if (typeof toolName === 'string' && toolNames.includes(toolName)) {
+        return { toolName, input: parsed.input ?? parsed.arguments ?? {} };
+      }
+    } catch {
+      // Not JSON - keep looking
+    }
+  }
+  return null;
+};
+
+// Check the model's arguments against the tool's schema
+export const validateTextToolInput = async (
+  definition: any,
+  input: unknown
+): Promise<{ success: true; value: unknown } | { success: false; error: string }> => {
+  if (!definition.inputSchema) return { success: true, value: input };
+  const result = await asSchema(definition.inputSchema).validate?.(input);
+  if (!result || result.success) return { success: true, value: result ? result.value : input };
+  return { success: false, error: result.error.message };
+};
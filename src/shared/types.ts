@@ -1,7 +1,7 @@
 // Shared types for the multi-agent platform
 
-// Agent types
-export type AgentType = 'content' | 'hubspot' | 'linear' | 'general';
+// Agent types - the built-in agents, plus any name registered with the AgentRegistry
+export type AgentType = 'content' | 'hubspot' | 'linear' | 'general' | (string & {});
 
 // Content types (from original models)
 export type ContentType = "linkedin_post" | "linkedin_article" | "blog_post";
@@ -17,6 +17,36 @@ export interface Draft {
   updatedAt: string;
   status: ApprovalStatus;
   feedback?: string;
+  sources?: DraftSource[]; // Research items the draft cites
+}
+
+// Research item linked to a draft, rendered as its "Sources" footer
+export interface DraftSource {
+  id: string;
+  title: string;
+  url: string;
+}
+
+// Snapshot of a draft's title/body at a point in time
+export interface DraftVersion {
+  id: string;
+  draftId: string;
+  version: number;
+  title: string;
+  body: string;
+  note?: string;
+  createdAt: string;
+  scores?: RubricScores;  // Set when the critic reviewed this version
+  critique?: string;
+}
+
+// Critic rubric scores, 1-10 per criterion in CRITIC_SYSTEM_PROMPT
+export interface RubricScores {
+  hook: number;
+  value: number;
+  voice: number;
+  structure: number;
+  cta: number;
 }
 
 // Interview entry
@@ -54,6 +84,28 @@ export interface ResearchItem {
   usedInPost: boolean;
 }
 
+// Research synthesis, linked back to the research items and signals it drew on
+export interface ResearchSynthesis {
+  id: string;
+  createdAt: string;
+  since?: string;            // Inputs dated from (inclusive)
+  until?: string;            // Inputs dated before
+  tags: string[];            // Research items had at least one of these, if any
+  synthesis: string;
+  angles: SynthesisAngle[];
+  researchIds: string[];
+  signalIds: string[];
+  checkpoint?: boolean;      // Run by a scheduled checkpoint; the next one starts from it
+}
+
+// Content angle a synthesis suggests, ready to add to the topic queue
+export interface SynthesisAngle {
+  title: string;
+  rationale: string;
+  topicId?: string;          // Set once it has been queued
+  queuedBy?: string;         // Slack user who queued it
+}
+
 // Signal log entry for Content Agent
 export interface SignalLogEntry {
   id: string;
@@ -124,9 +176,12 @@ export interface HubSpotNote {
   createdAt: string;
 }
 
+// Kinds of objects the agents create and the conversation can refer back to
+export type EntityType = 'contact' | 'deal' | 'company' | 'task' | 'note' | 'issue' | 'draft';
+
 // Entity reference for conversation context
 export interface EntityRef {
-  type: 'contact' | 'deal' | 'company' | 'task';
+  type: EntityType;
   id: string;
   name: string;
   mentionedAt: string;
@@ -138,6 +193,8 @@ export interface ConversationTurn {
   content: string;
   timestamp: string;
   agent?: AgentType;
+  actions?: AgentAction[]; // Tool calls behind an assistant turn
+  model?: string;          // "provider/model" that wrote the reply
 }
 
 // Conversation context
@@ -148,10 +205,15 @@ export interface ConversationContext {
   userId: string;
   activeAgent: AgentType | null;
   history: ConversationTurn[];
+  pendingAction?: PendingAction; // Tool call waiting for the user's yes/no
   entities: {
     contacts: EntityRef[];
     deals: EntityRef[];
     companies: EntityRef[];
+    tasks: EntityRef[];
+    notes: EntityRef[];
+    issues: EntityRef[];
+    drafts: EntityRef[];
   };
   createdAt: string;
   lastActivityAt: string;
@@ -164,11 +226,26 @@ export interface ClassificationResult {
   intent: string;
   confidence: number;
   entities: ExtractedEntity[];
+  subIntents?: SubIntent[]; // Set when the message asks several agents for things; agent is the first one's
+  failure?: {         // Set when the LLM classification failed and this is the fallback
+    category: string;   // ErrorCategory - 'invalid_output' when the reply never matched the schema
+    message: string;
+    rawOutput?: string; // The model's last reply, when it didn't match the schema
+  };
+}
+
+// One of several requests in a message ("log a note on the Acme deal and open a ticket for it")
+export interface SubIntent {
+  agent: AgentType;
+  intent: string;
+  request: string;            // This part of the message, rewritten to stand alone
+  entities: ExtractedEntity[];
+  dependsOn?: number;         // Index of an earlier sub-intent whose result this one needs
 }
 
 // Extracted entity from message
 export interface ExtractedEntity {
-  type: 'contact' | 'deal' | 'company' | 'task' | 'date' | 'amount';
+  type: EntityType | 'date' | 'amount';
   value: string;
   resolved_id?: string;
   resolved_name?: string;
@@ -179,14 +256,56 @@ export interface AgentResponse {
   message: string;
   entities?: EntityRef[];
   actions?: AgentAction[];
+  drafts?: Draft[]; // Drafts created this turn, posted as approval cards
+  syntheses?: ResearchSynthesis[]; // Research syntheses run this turn, posted with buttons to queue their angles
+  pendingAction?: PendingAction; // Tool call held for confirmation this turn
+  needsCredentials?: CredentialService; // The user must connect this service first (triggers DM onboarding)
+  denials?: PermissionDenial[]; // Agents or tools the user's role stopped this turn
+  model?: string; // "provider/model" that answered, after any fallback
+}
+
+// Someone was stopped from using an agent or tool by their role
+export interface PermissionDenial {
+  userId: string;
+  roles: string[];
+  agent: string;
+  toolName?: string;
+}
+
+// Services users connect with their own credentials
+export type CredentialService = 'hubspot' | 'linear';
+
+// How much a tool call can change; confirmation policies gate on this
+export type ToolRisk = 'read' | 'write' | 'destructive';
+
+// A tool call held back until the user confirms it
+export interface PendingAction {
+  agent: AgentType;
+  toolName: string;
+  input: unknown;
+  risk: ToolRisk;
+  description: string; // Human-readable summary, e.g. "deleteDraft · id: 42"
+  requestedAt: string;
+  queued?: PendingAction[]; // Calls held in the same turn, asked about one at a time after this one
+}
+
+// Inverse of a mutating tool call, replayed by the owning agent on "undo"
+export interface UndoOperation {
+  op: string;                    // Agent-specific, e.g. "archive" or "restoreVersion"
+  args: Record<string, any>;
 }
 
-// Agent action for tracking what was done
+// Agent action for tracking what was done (one per tool call)
 export interface AgentAction {
-  type: string;
+  type: string;          // Tool name, e.g. "createDeal"
+  agent?: string;        // Agent that ran it, when one reply merges several agents'
   description: string;
   entityId?: string;
-  entityType?: string;
+  entityType?: string;   // An EntityType, or e.g. "comment" for objects not tracked in context
+  input?: unknown;       // Validated tool input
+  output?: unknown;      // Tool output, parsed from JSON when possible
+  error?: string;
+  durationMs?: number;
 }
 
 // Search result from web search
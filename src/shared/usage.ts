@@ -0,0 +1,146 @@
+// LLM cost accounting - price table, spend recording and per-user/agent budgets
+
+import { readFileSync } from 'node:fs';
+import { UsageStorage } from '../db/usage.js';
+import { LLMUsage } from './llm.js';
+import { startOfDay, startOfMonth } from './period.js';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices; override or extend with LLM_PRICES_FILE
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 }
+};
+
+// Exact model name first, then the longest known prefix, so dated
+// snapshots ("gpt-4o-2024-08-06") price like their family. Unknown models cost 0.
+export const priceFor = (prices: Record<string, ModelPrice>, model: string): ModelPrice | null => {
+  if (prices[model]) return prices[model];
+  const family = Object.keys(prices)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? prices[family] : null;
+};
+
+export const estimateCost = (
+  prices: Record<string, ModelPrice>,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number => {
+  const price = priceFor(prices, model);
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+// Reads a { "<model>": { "input": 2.5, "output": 10 } } file over the defaults
+export const loadPrices = (file?: string): Record<string, ModelPrice> => {
+  if (!file) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(readFileSync(file, 'utf-8')) };
+  } catch (error) {
+    console.error(`[usage] Ignoring invalid ${file}:`, error);
+    return DEFAULT_PRICES;
+  }
+};
+
+// USD limits; unset means unlimited
+export interface BudgetLimits {
+  daily?: number;
+  monthly?: number;
+}
+
+export interface UsageConfig {
+  prices?: Record<string, ModelPrice>;
+  budgets?: {
+    user?: BudgetLimits;                  // Each Slack user
+    agent?: BudgetLimits;                 // Each agent, across users
+    onExceeded?: 'warn' | 'refuse';       // Default: warn
+  };
+}
+
+export interface BudgetBreach {
+  scope: 'user' | 'agent';
+  id: string;
+  period: 'daily' | 'monthly';
+  limitUsd: number;
+  spentUsd: number;
+  action: 'warn' | 'refuse';
+}
+
+export const formatUsd = (amount: number): string =>
+  amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+
+// Friendly explanation for the user
+export const budgetMessage = (breach: BudgetBreach, agentLabel: string = breach.id): string => {
+  const whose = breach.scope === 'user' ? 'your' : `the ${agentLabel}`;
+  const when = breach.period === 'daily' ? 'tomorrow' : 'next month';
+  const spent = `${formatUsd(breach.spentUsd)} of ${formatUsd(breach.limitUsd)}`;
+  return breach.action === 'refuse'
+    ? `Sorry, ${whose} ${breach.period} AI budget is used up (${spent}), so I can't take this on until ${when}. Ask an admin if it needs raising.`
+    : `Heads up: ${whose} ${breach.period} AI budget is used up (${spent}).`;
+};
+
+// Records every model call and checks spend against the budgets
+export class UsageMeter {
+  readonly storage: UsageStorage;
+  private prices: Record<string, ModelPrice>;
+
+  constructor(storage: UsageStorage, private config: UsageConfig = {}) {
+    this.storage = storage;
+    this.prices = config.prices || DEFAULT_PRICES;
+  }
+
+  record(usage: LLMUsage): void {
+    this.storage.record({
+      ...usage,
+      costUsd: estimateCost(this.prices, usage.model, usage.inputTokens, usage.outputTokens)
+    });
+  }
+
+  // The first budget the user or agent has used up, or null
+  checkBudget(userId: string | undefined, agent: string, now: Date = new Date()): BudgetBreach | null {
+    const budgets = this.config.budgets;
+    if (!budgets) return null;
+
+    const action = budgets.onExceeded || 'warn';
+    const scopes: Array<[BudgetBreach['scope'], string | undefined, BudgetLimits | undefined]> = [
+      ['user', userId, budgets.user],
+      ['agent', agent, budgets.agent]
+    ];
+
+    for (const [scope, id, limits] of scopes) {
+      if (!id || !limits) continue;
+      const periods: Array<[BudgetBreach['period'], number | undefined, Date]> = [
+        ['daily', limits.daily, startOfDay(now)],
+        ['monthly', limits.monthly, startOfMonth(now)]
+      ];
+
+      for (const [period, limitUsd, since] of periods) {
+        if (limitUsd === undefined) continue;
+        const spentUsd = this.storage.total({
+          since: since.toISOString(),
+          ...(scope === 'user' ? { userId: id } : { agent: id })
+        }).costUsd;
+        if (spentUsd >= limitUsd) {
+          return { scope, id, period, limitUsd, spentUsd, action };
+        }
+      }
+    }
+
+    return null;
+  }
+}
@@ -1,8 +1,17 @@
 // Slack app setup
 
-import { App, LogLevel } from '@slack/bolt';
+import { App, LogLevel, types } from '@slack/bolt';
+import Database from 'better-sqlite3';
 import { Orchestrator } from '../orchestrator/index.js';
+import { DraftStorage } from '../db/drafts.js';
+import { ResearchStorage } from '../db/research.js';
+import { SynthesisStorage } from '../db/syntheses.js';
 import { SlackMessageHandler } from './handlers.js';
+import { DraftApprovalHandler, DraftAuthorizer } from './approvals.js';
+import { SynthesisCardHandler } from './synthesis.js';
+import { UserGroupDirectory } from './usergroups.js';
+import { WorkflowCardHandler } from './workflows.js';
+import { denialMessage } from '../shared/permissions.js';
 
 export interface SlackAppConfig {
   botToken: string;
@@ -16,9 +25,12 @@ export interface SlackAppConfig {
 export class SlackApp {
   private app: App;
   private handler: SlackMessageHandler;
+  private approvals: DraftApprovalHandler;
+  private workflows: WorkflowCardHandler;
+  private syntheses: SynthesisCardHandler;
   private config: SlackAppConfig;
 
-  constructor(config: SlackAppConfig, orchestrator: Orchestrator) {
+  constructor(config: SlackAppConfig, orchestrator: Orchestrator, db: Database.Database) {
     this.config = config;
 
     this.app = new App({
@@ -32,11 +44,39 @@ export class SlackApp {
     this.handler = new SlackMessageHandler(this.app, orchestrator, {
       auditChannel: config.auditChannel
     });
+
+    // Approval and add-topic buttons need the same content permissions as asking the agent
+    const userGroups = new UserGroupDirectory(this.app.client);
+    const authorizeContent: DraftAuthorizer = async (userId, toolName) => {
+      const groups = orchestrator.usesGroupRoles() ? await userGroups.groupsOf(userId) : undefined;
+      const denial = orchestrator.authorizeTool('content', toolName, { userId, userGroups: groups });
+      if (!denial) return null;
+
+      orchestrator.audit.record({
+        type: 'denial',
+        userId,
+        agent: 'content',
+        toolName,
+        outcome: 'denied',
+        summary: `${toolName} refused for roles ${denial.roles.join(', ')}`
+      });
+      return denialMessage(denial, 'Content');
+    };
+    this.approvals = new DraftApprovalHandler(this.app, new DraftStorage(db), authorizeContent);
+    this.syntheses = new SynthesisCardHandler(this.app, new SynthesisStorage(db), new ResearchStorage(db), authorizeContent);
+
+    // Workflow steps run as whoever presses Approve, with their permissions
+    this.workflows = new WorkflowCardHandler(this.app, orchestrator.workflows, config.defaultChannel, async userId =>
+      orchestrator.usesGroupRoles() ? userGroups.groupsOf(userId) : undefined
+    );
   }
 
   async start(): Promise<void> {
     // Set up message handlers
     this.handler.setup();
+    this.approvals.setup();
+    this.workflows.setup();
+    this.syntheses.setup();
 
     // Start the app
     await this.app.start();
@@ -48,22 +88,23 @@ export class SlackApp {
     console.log('[SlackApp] Bot stopped');
   }
 
-  // Post a message to a channel
-  async postMessage(channel: string, text: string, threadTs?: string): Promise<void> {
+  // Post a message to a channel; `text` is the fallback when blocks are given
+  async postMessage(channel: string, text: string, threadTs?: string, blocks?: types.KnownBlock[]): Promise<void> {
     await this.app.client.chat.postMessage({
       channel,
       text,
-      thread_ts: threadTs
+      thread_ts: threadTs,
+      blocks
     });
   }
 
   // Post to the default channel
-  async notify(text: string): Promise<void> {
+  async notify(text: string, blocks?: types.KnownBlock[]): Promise<void> {
     if (!this.config.defaultChannel) {
       console.warn('[SlackApp] No default channel configured');
       return;
     }
-    await this.postMessage(this.config.defaultChannel, text);
+    await this.postMessage(this.config.defaultChannel, text, undefined, blocks);
   }
 
   // Post to the audit channel
@@ -0,0 +1,317 @@
+// Block Kit approval cards for drafts
+
+import { App, BlockButtonAction, ViewSubmitAction, types } from '@slack/bolt';
+import { DraftStorage } from '../db/drafts.js';
+import { Draft } from '../shared/types.js';
+import { truncate } from '../shared/slack.js';
+
+export const DRAFT_ACTIONS = {
+  approve: 'draft_approve',
+  reject: 'draft_reject',
+  edit: 'draft_edit'
+} as const;
+
+export const DRAFT_VIEWS = {
+  reject: 'draft_reject_modal',
+  edit: 'draft_edit_modal'
+} as const;
+
+// Slack's limits for plain_text_input values
+const MAX_TITLE_INPUT = 150;
+const MAX_BODY_INPUT = 3000;
+
+// Who last acted on a card, shown under the draft
+export interface DraftCardActivity {
+  userId: string;
+  action: 'approved' | 'rejected' | 'edited';
+}
+
+// Checks whether a user may run a content tool; returns why not, or null if allowed
+export type DraftAuthorizer = (userId: string, toolName: string) => Promise<string | null>;
+
+// Where the card lives, carried through modals in private_metadata
+interface CardLocation {
+  draftId: string;
+  channel: string;
+  messageTs: string;
+}
+
+const ACTIVITY_LABELS: Record<DraftCardActivity['action'], string> = {
+  approved: ':white_check_mark: Approved',
+  rejected: ':x: Rejected',
+  edited: ':pencil2: Edited'
+};
+
+// Build the Block Kit card for a draft
+export const buildDraftCard = (draft: Draft, activity?: DraftCardActivity): types.KnownBlock[] => {
+  const blocks: types.KnownBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: truncate(draft.title, 150) }
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(draft.body, 2900) }
+    },
+    {
+      type: 'context',
+      elements: [
+        { type: 'mrkdwn', text: `:page_facing_up: ${draft.contentType} · Status: *${draft.status}*` }
+      ]
+    }
+  ];
+
+  if (draft.sources && draft.sources.length > 0) {
+    const sources = draft.sources.map((source, index) => `${index + 1}. <${source.url}|${truncate(source.title, 100)}>`);
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: truncate(`*Sources*\n${sources.join('\n')}`, 2900) }]
+    });
+  }
+
+  if (activity) {
+    const feedback = activity.action === 'rejected' && draft.feedback ? ` — "${truncate(draft.feedback, 200)}"` : '';
+    blocks.push({
+      type: 'context',
+      elements: [
+        { type: 'mrkdwn', text: `${ACTIVITY_LABELS[activity.action]} by <@${activity.userId}>${feedback}` }
+      ]
+    });
+  }
+
+  // Only pending drafts can still be acted on
+  if (draft.status === 'pending') {
+    blocks.push({
+      type: 'actions',
+      block_id: 'draft_actions',
+      elements: [
+        {
+          type: 'button',
+          action_id: DRAFT_ACTIONS.approve,
+          text: { type: 'plain_text', text: 'Approve' },
+          style: 'primary',
+          value: draft.id
+        },
+        {
+          type: 'button',
+          action_id: DRAFT_ACTIONS.reject,
+          text: { type: 'plain_text', text: 'Reject' },
+          style: 'danger',
+          value: draft.id
+        },
+        {
+          type: 'button',
+          action_id: DRAFT_ACTIONS.edit,
+          text: { type: 'plain_text', text: 'Edit' },
+          value: draft.id
+        }
+      ]
+    });
+  }
+
+  return blocks;
+};
+
+// Fallback text for notifications and clients without Block Kit
+export const draftCardText = (draft: Draft): string => {
+  return `Draft: ${draft.title} (${draft.status})`;
+};
+
+// Modal asking why a draft was rejected
+const buildRejectModal = (location: CardLocation, draft: Draft): types.View => ({
+  type: 'modal',
+  callback_id: DRAFT_VIEWS.reject,
+  private_metadata: JSON.stringify(location),
+  title: { type: 'plain_text', text: 'Reject draft' },
+  submit: { type: 'plain_text', text: 'Reject' },
+  close: { type: 'plain_text', text: 'Cancel' },
+  blocks: [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*${truncate(draft.title, 200)}*` }
+    },
+    {
+      type: 'input',
+      block_id: 'feedback',
+      label: { type: 'plain_text', text: 'What should change?' },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'value',
+        multiline: true
+      }
+    }
+  ]
+});
+
+// Modal for editing a draft's title and body. Only offered when both fit the
+// inputs - a cut-off value would overwrite the draft when saved.
+export const fitsEditModal = (draft: Draft): boolean =>
+  draft.title.length <= MAX_TITLE_INPUT && draft.body.length <= MAX_BODY_INPUT;
+
+const buildEditModal = (location: CardLocation, draft: Draft): types.View => ({
+  type: 'modal',
+  callback_id: DRAFT_VIEWS.edit,
+  private_metadata: JSON.stringify(location),
+  title: { type: 'plain_text', text: 'Edit draft' },
+  submit: { type: 'plain_text', text: 'Save' },
+  close: { type: 'plain_text', text: 'Cancel' },
+  blocks: [
+    {
+      type: 'input',
+      block_id: 'title',
+      label: { type: 'plain_text', text: 'Title' },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'value',
+        initial_value: draft.title,
+        max_length: MAX_TITLE_INPUT
+      }
+    },
+    {
+      type: 'input',
+      block_id: 'body',
+      label: { type: 'plain_text', text: 'Body' },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'value',
+        multiline: true,
+        initial_value: draft.body,
+        max_length: MAX_BODY_INPUT
+      }
+    }
+  ]
+});
+
+export class DraftApprovalHandler {
+  constructor(
+    private app: App,
+    private drafts: DraftStorage,
+    private authorize?: DraftAuthorizer
+  ) {}
+
+  // Register button and modal handlers
+  setup(): void {
+    this.app.action<BlockButtonAction>(DRAFT_ACTIONS.approve, async ({ ack, body, client }) => {
+      await ack();
+      const location = this.locationFromAction(body);
+      if (!location || !(await this.isAllowed(client, body, location, 'approveDraft'))) return;
+
+      try {
+        const draft = this.drafts.updateStatus(location.draftId, 'approved');
+        await this.updateCard(client, location, draft, { userId: body.user.id, action: 'approved' });
+      } catch (error) {
+        console.error('[approvals] Failed to approve draft:', error);
+      }
+    });
+
+    this.app.action<BlockButtonAction>(DRAFT_ACTIONS.reject, async ({ ack, body, client }) => {
+      await ack();
+      const location = this.locationFromAction(body);
+      if (!location || !(await this.isAllowed(client, body, location, 'rejectDraft'))) return;
+
+      const draft = this.drafts.get(location.draftId);
+      if (!draft) return;
+
+      await client.views.open({
+        trigger_id: body.trigger_id,
+        view: buildRejectModal(location, draft)
+      });
+    });
+
+    this.app.action<BlockButtonAction>(DRAFT_ACTIONS.edit, async ({ ack, body, client }) => {
+      await ack();
+      const location = this.locationFromAction(body);
+      if (!location || !(await this.isAllowed(client, body, location, 'updateDraft'))) return;
+
+      const draft = this.drafts.get(location.draftId);
+      if (!draft) return;
+
+      if (!fitsEditModal(draft)) {
+        await client.chat.postEphemeral({
+          channel: location.channel,
+          user: body.user.id,
+          text: `This draft is too long to edit in Slack (${MAX_TITLE_INPUT} characters for the title, ${MAX_BODY_INPUT} for the body). Ask me to make the changes instead.`
+        });
+        return;
+      }
+
+      await client.views.open({
+        trigger_id: body.trigger_id,
+        view: buildEditModal(location, draft)
+      });
+    });
+
+    this.app.view<ViewSubmitAction>(DRAFT_VIEWS.reject, async ({ ack, view, body, client }) => {
+      await ack();
+      const location = JSON.parse(view.private_metadata) as CardLocation;
+      const feedback = view.state.values.feedback?.value?.value || undefined;
+
+      try {
+        const draft = this.drafts.updateStatus(location.draftId, 'rejected', feedback);
+        await this.updateCard(client, location, draft, { userId: body.user.id, action: 'rejected' });
+      } catch (error) {
+        console.error('[approvals] Failed to reject draft:', error);
+      }
+    });
+
+    this.app.view<ViewSubmitAction>(DRAFT_VIEWS.edit, async ({ ack, view, body, client }) => {
+      await ack();
+      const location = JSON.parse(view.private_metadata) as CardLocation;
+      const title = view.state.values.title?.value?.value || undefined;
+      const draftBody = view.state.values.body?.value?.value || undefined;
+
+      try {
+        const draft = this.drafts.update(
+          location.draftId,
+          { title, body: draftBody },
+          `Edited in Slack by <@${body.user.id}>`
+        );
+        await this.updateCard(client, location, draft, { userId: body.user.id, action: 'edited' });
+      } catch (error) {
+        console.error('[approvals] Failed to edit draft:', error);
+      }
+    });
+  }
+
+  // Tell the user privately when their role doesn't allow the button they pressed
+  private async isAllowed(
+    client: App['client'],
+    body: BlockButtonAction,
+    location: CardLocation,
+    toolName: string
+  ): Promise<boolean> {
+    const reason = this.authorize ? await this.authorize(body.user.id, toolName) : null;
+    if (!reason) return true;
+
+    await client.chat.postEphemeral({ channel: location.channel, user: body.user.id, text: reason });
+    return false;
+  }
+
+  private locationFromAction(body: BlockButtonAction): CardLocation | null {
+    const draftId = body.actions[0]?.value;
+    const channel = body.channel?.id;
+    const messageTs = body.message?.ts;
+
+    if (!draftId || !channel || !messageTs) {
+      console.warn('[approvals] Action missing draft, channel or message');
+      return null;
+    }
+
+    return { draftId, channel, messageTs };
+  }
+
+  // Re-render the card in place with the new status and who acted
+  private async updateCard(
+    client: App['client'],
+    location: CardLocation,
+    draft: Draft,
+    activity: DraftCardActivity
+  ): Promise<void> {
+    await client.chat.update({
+      channel: location.channel,
+      ts: location.messageTs,
+      text: draftCardText(draft),
+      blocks: buildDraftCard(draft, activity)
+    });
+  }
+}
@@ -0,0 +1,111 @@
+// Block Kit cards asking the user to confirm a held tool call
+
+import { types } from '@slack/bolt';
+import { PendingAction } from '../shared/types.js';
+import { truncate } from '../shared/slack.js';
+
+export const CONFIRM_ACTIONS = {
+  confirm: 'pending_action_confirm',
+  cancel: 'pending_action_cancel'
+} as const;
+
+// Who answered, shown in place of the buttons
+export interface ConfirmationOutcome {
+  userId: string;
+  confirmed: boolean;
+}
+
+const RISK_LABELS: Record<PendingAction['risk'], string> = {
+  read: ':mag: Read',
+  write: ':pencil2: Write',
+  destructive: ':warning: Destructive'
+};
+
+// What the buttons carry: the conversation to answer in, and which held call
+// the card asked about, so a click on an outdated card can't answer a newer one
+export interface ConfirmationValue {
+  threadTs: string;
+  action: string;
+}
+
+export const pendingActionKey = (pending: PendingAction): string =>
+  `${pending.agent}:${pending.toolName}:${pending.requestedAt}`;
+
+export const parseConfirmationValue = (value?: string): ConfirmationValue | null => {
+  try {
+    const parsed = JSON.parse(value || '');
+    return typeof parsed?.threadTs === 'string' && typeof parsed?.action === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Build the card; the buttons carry the thread and the held call they answer
+export const buildConfirmationCard = (
+  pending: PendingAction,
+  threadTs: string,
+  outcome?: ConfirmationOutcome
+): types.KnownBlock[] => {
+  const blocks: types.KnownBlock[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*Confirm before I continue*\n\`${truncate(pending.description, 2800)}\`` }
+    },
+    {
+      type: 'context',
+      elements: [
+        { type: 'mrkdwn', text: `${RISK_LABELS[pending.risk]} · ${pending.agent}` }
+      ]
+    }
+  ];
+
+  if (outcome) {
+    blocks.push({
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `${outcome.confirmed ? ':white_check_mark: Confirmed' : ':x: Cancelled'} by <@${outcome.userId}>`
+        }
+      ]
+    });
+    return blocks;
+  }
+
+  const value = JSON.stringify({ threadTs, action: pendingActionKey(pending) } satisfies ConfirmationValue);
+  blocks.push({
+    type: 'actions',
+    block_id: 'pending_action',
+    elements: [
+      {
+        type: 'button',
+        action_id: CONFIRM_ACTIONS.confirm,
+        text: { type: 'plain_text', text: 'Confirm' },
+        style: pending.risk === 'destructive' ? 'danger' : 'primary',
+        value
+      },
+      {
+        type: 'button',
+        action_id: CONFIRM_ACTIONS.cancel,
+        text: { type: 'plain_text', text: 'Cancel' },
+        value
+      }
+    ]
+  });
+
+  return blocks;
+};
+
+// An answered or replaced card: the same text, with a note instead of the buttons
+export const buildStaleConfirmationCard = (blocks: types.KnownBlock[]): types.KnownBlock[] => [
+  ...blocks.filter(block => block.type !== 'actions'),
+  {
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: ':no_entry_sign: No longer waiting for an answer. Use the latest card in the thread.' }]
+  }
+];
+
+// Fallback text for notifications and clients without Block Kit
+export const confirmationText = (pending: PendingAction): string => {
+  return `Confirm: ${pending.description} (reply yes or no)`;
+};
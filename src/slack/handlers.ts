@@ -1,8 +1,22 @@
 // Slack message handlers
 
-import { App } from '@slack/bolt';
+import { App, BlockButtonAction } from '@slack/bolt';
 import { Orchestrator } from '../orchestrator/index.js';
 import { stripBotMention, buildThreadKey } from '../shared/slack.js';
+import { buildDraftCard, draftCardText } from './approvals.js';
+import { buildSynthesisCard, synthesisCardText } from './synthesis.js';
+import { ProgressiveMessage } from './progress.js';
+import {
+  buildConfirmationCard,
+  buildStaleConfirmationCard,
+  confirmationText,
+  parseConfirmationValue,
+  pendingActionKey,
+  CONFIRM_ACTIONS
+} from './confirmations.js';
+import { connectInstructions, redactCredentials } from '../orchestrator/onboarding.js';
+import { UserGroupDirectory } from './usergroups.js';
+import { AuditEvent } from '../db/audit.js';
 
 export interface MessageHandlerConfig {
   trackActiveThreads?: boolean;
@@ -11,26 +25,30 @@ export interface MessageHandlerConfig {
 
 export class SlackMessageHandler {
   private activeThreads: Set<string> = new Set();
+  private userGroups: UserGroupDirectory;
 
   constructor(
     private app: App,
     private orchestrator: Orchestrator,
     private config: MessageHandlerConfig = {}
-  ) {}
+  ) {
+    this.userGroups = new UserGroupDirectory(app.client);
+  }
+
+  // Slack user groups of the user, when roles are assigned by group
+  private async groupsOf(userId?: string): Promise<string[] | undefined> {
+    return userId && this.orchestrator.usesGroupRoles() ? this.userGroups.groupsOf(userId) : undefined;
+  }
+
+  // Mirror requests, replies, refusals and errors to the audit channel
+  private async postAuditEvent(event: AuditEvent): Promise<void> {
+    const line = auditLine(event);
+    if (!line || !this.config.auditChannel) return;
 
-  // Log to audit channel
-  private async auditLog(message: string): Promise<void> {
-    if (!this.config.auditChannel) {
-      console.log('[auditLog] No audit channel configured');
-      return;
-    }
-    
-    console.log('[auditLog] Posting to:', this.config.auditChannel);
-    const timestamp = new Date().toISOString();
     try {
       await this.app.client.chat.postMessage({
         channel: this.config.auditChannel,
-        text: `\`${timestamp}\` ${message}`,
+        text: `\`${event.createdAt}\` ${line}`,
         unfurl_links: false,
         unfurl_media: false
       });
@@ -41,6 +59,10 @@ export class SlackMessageHandler {
 
   // Set up all message handlers
   setup(): void {
+    if (this.config.auditChannel) {
+      this.orchestrator.audit.addSink(event => this.postAuditEvent(event));
+    }
+
     // Handle all messages (DMs and thread replies)
     this.app.message(async ({ message, client }) => {
       await this.handleMessage(message as any, client);
@@ -50,6 +72,60 @@ export class SlackMessageHandler {
     this.app.event('app_mention', async ({ event, client }) => {
       await this.handleMention(event as any, client);
     });
+
+    // Confirm/Cancel on a held tool call - answered as if the user replied yes/no
+    this.app.action<BlockButtonAction>(CONFIRM_ACTIONS.confirm, async ({ ack, body, client }) => {
+      await ack();
+      await this.handleConfirmation(body, client, true);
+    });
+
+    this.app.action<BlockButtonAction>(CONFIRM_ACTIONS.cancel, async ({ ack, body, client }) => {
+      await ack();
+      await this.handleConfirmation(body, client, false);
+    });
+  }
+
+  private async handleConfirmation(body: BlockButtonAction, client: any, confirmed: boolean): Promise<void> {
+    const channel = body.channel?.id;
+    const answer = parseConfirmationValue(body.actions[0]?.value);
+    const messageTs = body.message?.ts;
+    if (!channel || !answer || !messageTs) {
+      console.warn('[confirmation] Action missing channel, thread or message');
+      return;
+    }
+    const { threadTs } = answer;
+
+    // Already answered (or superseded by another message)
+    const pending = this.orchestrator.getContext(channel, threadTs)?.pendingAction;
+    if (!pending) return;
+
+    // The card asked about an earlier call; the one waiting now gets its own card
+    if (pendingActionKey(pending) !== answer.action) {
+      await client.chat.update({
+        channel,
+        ts: messageTs,
+        text: body.message?.text || 'No longer waiting for an answer',
+        blocks: buildStaleConfirmationCard(body.message?.blocks || [])
+      });
+      return;
+    }
+
+    // Leave the buttons for someone allowed to run it; the reply explains why
+    const userGroups = await this.groupsOf(body.user.id);
+    if (confirmed && this.orchestrator.authorizeTool(pending.agent, pending.toolName, { userId: body.user.id, userGroups })) {
+      await this.processMessage(client, channel, threadTs, 'yes', body.user.id);
+      return;
+    }
+
+    // Swap the buttons for the outcome so the card can't be answered twice
+    await client.chat.update({
+      channel,
+      ts: messageTs,
+      text: confirmationText(pending),
+      blocks: buildConfirmationCard(pending, threadTs, { userId: body.user.id, confirmed })
+    });
+
+    await this.processMessage(client, channel, threadTs, confirmed ? 'yes' : 'no', body.user.id);
   }
 
   // Handle regular messages
@@ -70,7 +146,7 @@ export class SlackMessageHandler {
 
     // For DMs, always respond
     if (channelType === 'im') {
-      console.log('[message] DM received:', { channel, text: text.substring(0, 50) });
+      console.log('[message] DM received:', { channel, text: redactCredentials(text).substring(0, 50) });
       await this.processMessage(client, channel, threadTs || messageTs, text, userId);
       return;
     }
@@ -119,7 +195,7 @@ export class SlackMessageHandler {
     console.log('[app_mention] Received:', {
       channel,
       threadTs,
-      text: text?.substring(0, 50)
+      text: text && redactCredentials(text).substring(0, 50)
     });
 
     // Track this thread as active
@@ -142,28 +218,62 @@ export class SlackMessageHandler {
     userId?: string
   ): Promise<void> {
     const startTime = Date.now();
+    const progress = new ProgressiveMessage(client, channel, threadTs);
     
     try {
       console.log('[processMessage] Processing:', { channel, threadTs, textLength: text.length });
 
-      // Log incoming request
-      await this.auditLog(`📥 *Request* | User: <@${userId}> | Channel: <#${channel}> | Text: "${text.substring(0, 100)}${text.length > 100 ? '...' : ''}"`);
+      // Post a placeholder, then stream the reply into it
+      await progress.start();
 
       // Route through orchestrator
-      const response = await this.orchestrator.handle(text, channel, threadTs, userId);
+      const response = await this.orchestrator.handle(text, channel, threadTs, userId, {
+        onEvent: progress.handleEvent,
+        userGroups: await this.groupsOf(userId)
+      });
 
-      const duration = Date.now() - startTime;
       console.log('[processMessage] Response length:', response.message.length);
       console.log('[processMessage] Posting to:', { channel, threadTs });
 
-      await client.chat.postMessage({
-        channel,
-        thread_ts: threadTs,
-        text: response.message
-      });
+      await progress.finish(response.message);
+
+      // Ask for confirmation of a held tool call
+      if (response.pendingAction) {
+        await client.chat.postMessage({
+          channel,
+          thread_ts: threadTs,
+          text: confirmationText(response.pendingAction),
+          blocks: buildConfirmationCard(response.pendingAction, threadTs)
+        });
+      }
 
-      // Log successful response
-      await this.auditLog(`📤 *Response* | Duration: ${duration}ms | Length: ${response.message.length} chars | Preview: "${response.message.substring(0, 80)}${response.message.length > 80 ? '...' : ''}"`);
+      // DM the user how to connect a service they haven't linked yet
+      if (response.needsCredentials && userId) {
+        await client.chat.postMessage({
+          channel: userId,
+          text: connectInstructions(response.needsCredentials)
+        });
+      }
+
+      // Post any new drafts as approval cards
+      for (const draft of response.drafts || []) {
+        await client.chat.postMessage({
+          channel,
+          thread_ts: threadTs,
+          text: draftCardText(draft),
+          blocks: buildDraftCard(draft)
+        });
+      }
+
+      // Post syntheses with buttons to queue their angles as topics
+      for (const synthesis of response.syntheses || []) {
+        await client.chat.postMessage({
+          channel,
+          thread_ts: threadTs,
+          text: synthesisCardText(synthesis),
+          blocks: buildSynthesisCard(synthesis)
+        });
+      }
 
       console.log('[processMessage] Posted successfully');
     } catch (error) {
@@ -171,14 +281,18 @@ export class SlackMessageHandler {
       console.error('[processMessage] Error:', error);
       
       // Log error
-      await this.auditLog(`❌ *Error* | Duration: ${duration}ms | User: <@${userId}> | Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.orchestrator.audit.record({
+        type: 'error',
+        userId,
+        channelId: channel,
+        threadTs,
+        durationMs: duration,
+        outcome: 'error',
+        summary: error instanceof Error ? error.message : 'Unknown error'
+      });
       
       try {
-        await client.chat.postMessage({
-          channel,
-          thread_ts: threadTs,
-          text: "Sorry, something went wrong. Please try again."
-        });
+        await progress.finish("Sorry, something went wrong. Please try again.");
       } catch (e) {
         console.error('[processMessage] Failed to send error message:', e);
       }
@@ -200,3 +314,21 @@ export class SlackMessageHandler {
     this.activeThreads.delete(buildThreadKey(channel, threadTs));
   }
 }
+
+// Audit channel line for the event types people watch; the rest stay in the database
+const auditLine = (event: AuditEvent): string | null => {
+  const user = event.userId ? `<@${event.userId}>` : 'system';
+  const tool = event.toolName ? `Tool: ${event.agent}.${event.toolName}` : `Agent: ${event.agent}`;
+  switch (event.type) {
+    case 'request':
+      return `📥 *Request* | User: ${user} | Channel: <#${event.channelId}> | Text: "${event.summary.substring(0, 100)}"`;
+    case 'response':
+      return `📤 *Response* | Duration: ${event.durationMs}ms | Agent: ${event.agent || 'none'} | Preview: "${event.summary.substring(0, 80)}"`;
+    case 'denial':
+      return `🚫 *Denied* | User: ${user} | ${tool} | ${event.summary}`;
+    case 'error':
+      return `❌ *Error* | Duration: ${event.durationMs ?? 0}ms | User: ${user} | Error: ${event.summary}`;
+    default:
+      return null;
+  }
+};
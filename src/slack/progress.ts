@@ -0,0 +1,132 @@
+// Progressive replies - post a placeholder, then edit it as the answer streams in
+
+import { LLMStreamEvent } from '../shared/llm.js';
+
+// chat.update is Tier 3 (~50/min), so keep well under one edit per second
+const DEFAULT_UPDATE_INTERVAL_MS = 1500;
+
+const TOOL_STATUS: Record<string, string> = {
+  webSearch: ':mag_right: searching the web…',
+  fetchUrl: ':globe_with_meridians: reading the page…',
+  criticizeDraft: ':face_with_monocle: reviewing the draft…',
+  refineDraft: ':face_with_monocle: reviewing and revising the draft…',
+  pipelineSummary: ':bar_chart: summarizing the pipeline…'
+};
+
+const VERB_STATUS: Array<[RegExp, string, string]> = [
+  [/^(list|get|find|search)/, ':clipboard:', 'looking up'],
+  [/^(create|add|log)/, ':pencil2:', 'creating'],
+  [/^(delete)/, ':wastebasket:', 'deleting'],
+  [/^(update|complete|approve|reject|restore|diff)/, ':wrench:', 'updating']
+];
+
+// Human-readable status line for a tool call, e.g. "searchIssues" -> "looking up issues…"
+export const toolStatus = (toolName: string): string => {
+  if (TOOL_STATUS[toolName]) return TOOL_STATUS[toolName];
+
+  for (const [pattern, icon, verb] of VERB_STATUS) {
+    const match = toolName.match(pattern);
+    if (match) {
+      const noun = toolName
+        .slice(match[0].length)
+        .replace(/([A-Z])/g, ' $1')
+        .trim()
+        .toLowerCase();
+      return `${icon} ${verb} ${noun || 'data'}…`;
+    }
+  }
+
+  return ':gear: working…';
+};
+
+export class ProgressiveMessage {
+  private ts: string | null = null;
+  private text = '';
+  private status: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private lastUpdateAt = 0;
+  private updates: Promise<void> = Promise.resolve(); // Serializes chat.update calls
+  private finished = false;
+
+  constructor(
+    private client: any,
+    private channel: string,
+    private threadTs: string,
+    private updateIntervalMs: number = DEFAULT_UPDATE_INTERVAL_MS
+  ) {}
+
+  // Post the placeholder message that later updates will edit
+  async start(placeholder: string = ':hourglass_flowing_sand: Thinking…'): Promise<void> {
+    const result = await this.client.chat.postMessage({
+      channel: this.channel,
+      thread_ts: this.threadTs,
+      text: placeholder
+    });
+    this.ts = result.ts;
+    this.lastUpdateAt = Date.now();
+  }
+
+  // Feed a stream event (pass as AgentHandleOptions.onEvent)
+  handleEvent = (event: LLMStreamEvent): void => {
+    if (this.finished) return;
+
+    switch (event.type) {
+      case 'text-delta':
+        this.text += event.text;
+        this.status = null;
+        break;
+      case 'tool-call':
+        // Keep text from an earlier step separate from what comes next
+        if (this.text && !this.text.endsWith('\n')) {
+          this.text += '\n\n';
+        }
+        this.status = toolStatus(event.toolName);
+        break;
+      case 'tool-error':
+        this.status = `:warning: ${event.toolName} failed`;
+        break;
+      case 'tool-result':
+        return;
+    }
+
+    this.scheduleUpdate();
+  };
+
+  // Replace the placeholder with the final reply (or post it if start() never ran)
+  async finish(finalText: string): Promise<void> {
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.updates;
+
+    if (this.ts) {
+      await this.client.chat.update({ channel: this.channel, ts: this.ts, text: finalText });
+    } else {
+      await this.client.chat.postMessage({ channel: this.channel, thread_ts: this.threadTs, text: finalText });
+    }
+  }
+
+  private render(): string {
+    const parts = [this.text.trim(), this.status ? `_${this.status}_` : ''].filter(Boolean);
+    return parts.join('\n\n') || ':hourglass_flowing_sand: Thinking…';
+  }
+
+  // Throttle edits: at most one chat.update per interval, always sending the latest text
+  private scheduleUpdate(): void {
+    if (!this.ts || this.timer) return;
+
+    const delay = Math.max(0, this.lastUpdateAt + this.updateIntervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.finished) return;
+
+      this.lastUpdateAt = Date.now();
+      const text = this.render();
+      this.updates = this.updates
+        .then(() => this.client.chat.update({ channel: this.channel, ts: this.ts, text }))
+        .catch((error: unknown) => console.error('[ProgressiveMessage] Update failed:', error));
+    }, delay);
+  }
+}
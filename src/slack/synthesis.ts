@@ -0,0 +1,139 @@
+// Block Kit cards for research syntheses - the synthesis, then each angle with
+// a button that adds it to the topic queue
+
+import { App, BlockButtonAction, types } from '@slack/bolt';
+import { SynthesisStorage } from '../db/syntheses.js';
+import { ResearchStorage } from '../db/research.js';
+import { ResearchSynthesis } from '../shared/types.js';
+import { truncate } from '../shared/slack.js';
+import { DraftAuthorizer } from './approvals.js';
+
+export const SYNTHESIS_ACTIONS = {
+  addTopic: 'synthesis_add_topic'
+} as const;
+
+// Button values carry the synthesis and angle: "<synthesisId>:<index>"
+const angleValue = (synthesis: ResearchSynthesis, index: number): string => `${synthesis.id}:${index}`;
+
+const parseAngleValue = (value?: string): { synthesisId: string; index: number } | null => {
+  const match = value?.match(/^(.+):(\d+)$/);
+  return match ? { synthesisId: match[1], index: parseInt(match[2]) } : null;
+};
+
+const describeScope = (synthesis: ResearchSynthesis): string => {
+  const scope = [
+    synthesis.since ? `since ${synthesis.since.slice(0, 10)}` : '',
+    synthesis.until ? `until ${synthesis.until.slice(0, 10)}` : '',
+    synthesis.tags.length ? `tagged ${synthesis.tags.join(', ')}` : ''
+  ].filter(Boolean).join(' · ');
+  return scope ? ` · ${scope}` : '';
+};
+
+// Build the Block Kit card for a synthesis
+export const buildSynthesisCard = (synthesis: ResearchSynthesis): types.KnownBlock[] => {
+  const blocks: types.KnownBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: 'Research synthesis' }
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(synthesis.synthesis, 2900) }
+    },
+    {
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: `:books: ${synthesis.researchIds.length} research items · ${synthesis.signalIds.length} signals${describeScope(synthesis)}`
+      }]
+    }
+  ];
+
+  synthesis.angles.forEach((angle, index) => {
+    const text = truncate(`*${angle.title}*\n${angle.rationale}`, 2900);
+    if (angle.topicId) {
+      blocks.push({ type: 'section', text: { type: 'mrkdwn', text } });
+      blocks.push({
+        type: 'context',
+        elements: [{
+          type: 'mrkdwn',
+          text: `:white_check_mark: Added to topics${angle.queuedBy ? ` by <@${angle.queuedBy}>` : ''}`
+        }]
+      });
+      return;
+    }
+
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text },
+      accessory: {
+        type: 'button',
+        action_id: SYNTHESIS_ACTIONS.addTopic,
+        text: { type: 'plain_text', text: 'Add to topics' },
+        value: angleValue(synthesis, index)
+      }
+    });
+  });
+
+  return blocks;
+};
+
+// Fallback text for notifications and clients without Block Kit
+export const synthesisCardText = (synthesis: ResearchSynthesis): string => {
+  const angles = synthesis.angles.length;
+  return `Research synthesis: ${angles} angle${angles === 1 ? '' : 's'} from ${synthesis.researchIds.length} research items and ${synthesis.signalIds.length} signals`;
+};
+
+export class SynthesisCardHandler {
+  constructor(
+    private app: App,
+    private syntheses: SynthesisStorage,
+    private research: ResearchStorage,
+    private authorize?: DraftAuthorizer
+  ) {}
+
+  // Register the add-to-topics button
+  setup(): void {
+    this.app.action<BlockButtonAction>(SYNTHESIS_ACTIONS.addTopic, async ({ ack, body, client }) => {
+      await ack();
+      const angle = parseAngleValue(body.actions[0]?.value);
+      const channel = body.channel?.id;
+      const messageTs = body.message?.ts;
+      if (!angle || !channel || !messageTs) {
+        console.warn('[synthesis] Action missing angle, channel or message');
+        return;
+      }
+
+      const reason = this.authorize ? await this.authorize(body.user.id, 'addTopic') : null;
+      if (reason) {
+        await client.chat.postEphemeral({ channel, user: body.user.id, text: reason });
+        return;
+      }
+
+      try {
+        const synthesis = this.queueAngle(angle.synthesisId, angle.index, body.user.id);
+        await client.chat.update({
+          channel,
+          ts: messageTs,
+          text: synthesisCardText(synthesis),
+          blocks: buildSynthesisCard(synthesis)
+        });
+      } catch (error) {
+        console.error('[synthesis] Failed to add angle to topics:', error);
+      }
+    });
+  }
+
+  // A second click on a stale card doesn't queue the angle twice
+  private queueAngle(synthesisId: string, index: number, userId: string): ResearchSynthesis {
+    const synthesis = this.syntheses.get(synthesisId);
+    const angle = synthesis?.angles[index];
+    if (!synthesis || !angle) {
+      throw new Error(`Synthesis angle not found: ${synthesisId} #${index}`);
+    }
+    if (angle.topicId) return synthesis;
+
+    const topic = this.research.createTopic(angle.title, angle.rationale);
+    return this.syntheses.markAngleQueued(synthesisId, index, topic.id, userId);
+  }
+}
@@ -0,0 +1,34 @@
+// Slack user group membership, cached - roles can be assigned per group
+
+const CACHE_MS = 10 * 60 * 1000;
+
+export class UserGroupDirectory {
+  private groupsByUser: Map<string, string[]> = new Map();
+  private loadedAt = 0;
+
+  constructor(private client: any) {}
+
+  // Group IDs the user belongs to; empty if groups can't be read (e.g. missing usergroups:read)
+  async groupsOf(userId: string): Promise<string[]> {
+    if (Date.now() - this.loadedAt > CACHE_MS) {
+      await this.load();
+    }
+    return this.groupsByUser.get(userId) || [];
+  }
+
+  private async load(): Promise<void> {
+    this.loadedAt = Date.now();
+    try {
+      const result = await this.client.usergroups.list({ include_users: true });
+      const groupsByUser = new Map<string, string[]>();
+      for (const group of result.usergroups || []) {
+        for (const user of group.users || []) {
+          groupsByUser.set(user, [...(groupsByUser.get(user) || []), group.id]);
+        }
+      }
+      this.groupsByUser = groupsByUser;
+    } catch (error) {
+      console.warn('[usergroups] Could not list Slack user groups:', error);
+    }
+  }
+}
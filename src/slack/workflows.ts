@@ -0,0 +1,183 @@
+// Block Kit cards for workflow runs - one card per run, with Approve/Skip on the step that's up next
+
+import { App, BlockButtonAction, types } from '@slack/bolt';
+import { WorkflowEngine } from '../workflows/index.js';
+import { WorkflowRun, WorkflowStepStatus } from '../db/workflows.js';
+import { truncate } from '../shared/slack.js';
+
+export const WORKFLOW_CARD_ACTIONS = {
+  approve: 'workflow_step_approve',
+  skip: 'workflow_step_skip'
+} as const;
+
+// Looks up a user's Slack groups when roles are assigned to groups
+export type UserGroupLookup = (userId: string) => Promise<string[] | undefined>;
+
+const STEP_ICONS: Record<WorkflowStepStatus, string> = {
+  waiting: ':white_circle:',
+  proposed: ':large_blue_circle:',
+  running: ':hourglass_flowing_sand:',
+  done: ':white_check_mark:',
+  skipped: ':fast_forward:',
+  failed: ':x:'
+};
+
+const RUN_LABELS: Record<WorkflowRun['status'], string> = {
+  awaiting_approval: 'Waiting for approval',
+  done: 'Done',
+  skipped: 'Skipped',
+  failed: 'Failed'
+};
+
+// Button values carry the run and step: "<runId>:<index>"
+const stepValue = (run: WorkflowRun, index: number): string => `${run.id}:${index}`;
+
+const parseStepValue = (value?: string): { runId: string; index: number } | null => {
+  const match = value?.match(/^(.+):(\d+)$/);
+  return match ? { runId: match[1], index: parseInt(match[2]) } : null;
+};
+
+// Build the Block Kit card for a run
+export const buildWorkflowCard = (run: WorkflowRun): types.KnownBlock[] => {
+  const blocks: types.KnownBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: truncate(`Workflow: ${run.workflow}`, 150) }
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(run.summary, 2900) }
+    }
+  ];
+
+  run.steps.forEach((step, index) => {
+    const who = step.decidedBy ? ` · ${step.status === 'skipped' ? 'skipped' : 'approved'} by <@${step.decidedBy}>` : '';
+    const auto = step.approve === 'auto' ? ' _(automatic)_' : '';
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: truncate(`${STEP_ICONS[step.status]} *${index + 1}.* ${step.call.description}${auto}${who}`, 2900)
+      }
+    });
+
+    if (step.result) {
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: truncate(step.result, 2900) }]
+      });
+    }
+
+    if (step.status === 'proposed') {
+      blocks.push({
+        type: 'actions',
+        block_id: `workflow_step_${index}`,
+        elements: [
+          {
+            type: 'button',
+            action_id: WORKFLOW_CARD_ACTIONS.approve,
+            text: { type: 'plain_text', text: 'Approve' },
+            style: 'primary',
+            value: stepValue(run, index)
+          },
+          {
+            type: 'button',
+            action_id: WORKFLOW_CARD_ACTIONS.skip,
+            text: { type: 'plain_text', text: 'Skip' },
+            value: stepValue(run, index)
+          }
+        ]
+      });
+    }
+  });
+
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: `:gear: Status: *${RUN_LABELS[run.status]}*` }]
+  });
+
+  return blocks;
+};
+
+// Fallback text for notifications and clients without Block Kit
+export const workflowCardText = (run: WorkflowRun): string => {
+  return `Workflow ${run.workflow}: ${run.summary} (${RUN_LABELS[run.status]})`;
+};
+
+export class WorkflowCardHandler {
+  constructor(
+    private app: App,
+    private engine: WorkflowEngine,
+    private defaultChannel?: string,
+    private groupsOf?: UserGroupLookup
+  ) {}
+
+  // Post or refresh the card whenever a run changes, and register the buttons
+  setup(): void {
+    this.engine.addSink(run => this.showCard(run));
+
+    this.app.action<BlockButtonAction>(WORKFLOW_CARD_ACTIONS.approve, async ({ ack, body, client }) => {
+      await ack();
+      const step = parseStepValue(body.actions[0]?.value);
+      if (!step) return;
+
+      try {
+        const groups = this.groupsOf ? await this.groupsOf(body.user.id) : undefined;
+        const { denial } = await this.engine.approve(step.runId, step.index, body.user.id, groups);
+        if (denial && body.channel?.id) {
+          await client.chat.postEphemeral({ channel: body.channel.id, user: body.user.id, text: denial });
+        }
+      } catch (error) {
+        console.error('[workflows] Failed to approve step:', error);
+      }
+    });
+
+    this.app.action<BlockButtonAction>(WORKFLOW_CARD_ACTIONS.skip, async ({ ack, body }) => {
+      await ack();
+      const step = parseStepValue(body.actions[0]?.value);
+      if (!step) return;
+
+      try {
+        await this.engine.skip(step.runId, step.index, body.user.id);
+      } catch (error) {
+        console.error('[workflows] Failed to skip step:', error);
+      }
+    });
+  }
+
+  // The stored run knows whether its card was already posted
+  private async showCard(changed: WorkflowRun): Promise<void> {
+    const run = { ...changed, ...this.location(changed.id) };
+
+    if (run.messageTs && run.channelId) {
+      await this.app.client.chat.update({
+        channel: run.channelId,
+        ts: run.messageTs,
+        text: workflowCardText(run),
+        blocks: buildWorkflowCard(run)
+      });
+      return;
+    }
+
+    const channel = run.channelId || this.defaultChannel;
+    if (!channel) {
+      console.warn(`[workflows] No channel for ${run.workflow}; set "channel" in the workflows file or SLACK_DEFAULT_CHANNEL`);
+      return;
+    }
+
+    const posted = await this.app.client.chat.postMessage({
+      channel,
+      thread_ts: run.threadTs,
+      text: workflowCardText(run),
+      blocks: buildWorkflowCard(run)
+    });
+    if (posted.ts) {
+      this.engine.runs.setMessage(run.id, posted.channel || channel, posted.ts);
+    }
+  }
+
+  private location(runId: string): { channelId?: string; messageTs?: string } {
+    const stored = this.engine.runs.get(runId);
+    return stored?.messageTs ? { channelId: stored.channelId, messageTs: stored.messageTs } : {};
+  }
+}
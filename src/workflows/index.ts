@@ -0,0 +1,344 @@
+// Cross-agent workflows - when something happens in one agent (a deal closes,
+// a Linear project completes, a draft names a customer), plan steps on another
+// and post them to Slack to approve one at a time
+
+import Database from 'better-sqlite3';
+import { readFileSync } from 'node:fs';
+import { LLMClient } from '../shared/llm.js';
+import { AgentResponse, PendingAction } from '../shared/types.js';
+import { CredentialResolver } from '../agents/credentials.js';
+import { HubSpotApiClient } from '../agents/hubspot/api.js';
+import { HubSpotCompany } from '../agents/hubspot/types.js';
+import { LinearApiClient } from '../agents/linear/api.js';
+import { ScheduleStorage } from '../db/schedules.js';
+import { WorkflowRun, WorkflowRunStorage, WorkflowStepState } from '../db/workflows.js';
+import {
+  WORKFLOW_ACTIONS,
+  WORKFLOW_TRIGGERS,
+  WorkflowAction,
+  WorkflowEvent,
+  WorkflowTrigger,
+  buildStep,
+  closedWonDeals,
+  draftMentions,
+  projectCompleted
+} from './steps.js';
+
+export interface WorkflowStepDefinition {
+  action: WorkflowAction;
+  approve?: 'manual' | 'auto'; // Default: manual - wait for a Slack approval
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  trigger: WorkflowTrigger;
+  steps: WorkflowStepDefinition[];
+  channel?: string;            // Where its cards go (default: WorkflowsConfig.channel)
+}
+
+export interface WorkflowsConfig {
+  channel?: string;            // Default channel for cards; else the thread that fired it, else SLACK_DEFAULT_CHANNEL
+  pollMinutes?: number;        // How often to check Linear for completed projects (default: 10)
+  workflows: WorkflowDefinition[];
+}
+
+// Where a workflow was fired from
+export interface WorkflowOrigin {
+  userId?: string;
+  channelId?: string;
+  threadTs?: string;
+}
+
+// Runs a step's tool call as the given user; the orchestrator checks their permissions
+export type StepRunner = (call: PendingAction, userId?: string, userGroups?: string[]) => Promise<AgentResponse>;
+
+// Told about every new run and every change to one (e.g. to post its Slack card)
+export type WorkflowSink = (run: WorkflowRun) => void | Promise<void>;
+
+// Schedule state row that remembers the last Linear check
+const LINEAR_POLL_JOB = 'workflow-linear-projects';
+
+// Accepts steps as "content.propose_topic" or { "action": ..., "approve": "auto" }
+export const parseWorkflows = (json: string): WorkflowsConfig => {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.workflows)) {
+    throw new Error('Expected an object with a "workflows" array');
+  }
+
+  const workflows = data.workflows.map((workflow: any, index: number): WorkflowDefinition => {
+    const name = workflow?.name || `workflow-${index + 1}`;
+    if (!WORKFLOW_TRIGGERS.includes(workflow?.trigger)) {
+      throw new Error(`${name}: unknown trigger "${workflow?.trigger}" (expected one of ${WORKFLOW_TRIGGERS.join(', ')})`);
+    }
+    if (!Array.isArray(workflow.steps) || workflow.steps.length === 0) {
+      throw new Error(`${name}: needs at least one step`);
+    }
+
+    const steps = workflow.steps.map((step: any): WorkflowStepDefinition => {
+      const action = typeof step === 'string' ? step : step?.action;
+      if (!WORKFLOW_ACTIONS.includes(action)) {
+        throw new Error(`${name}: unknown step "${action}" (expected one of ${WORKFLOW_ACTIONS.join(', ')})`);
+      }
+      return { action, approve: step?.approve === 'auto' ? 'auto' : 'manual' };
+    });
+
+    return { name, trigger: workflow.trigger, steps, channel: workflow.channel };
+  });
+
+  return { channel: data.channel, pollMinutes: data.pollMinutes, workflows };
+};
+
+// No file means no workflows; a broken one is reported and ignored
+export const loadWorkflows = (file?: string): WorkflowsConfig => {
+  if (!file) return { workflows: [] };
+  try {
+    return parseWorkflows(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    console.error(`[workflows] Ignoring invalid ${file}:`, error);
+    return { workflows: [] };
+  }
+};
+
+export class WorkflowEngine {
+  readonly runs: WorkflowRunStorage;
+  private schedule: ScheduleStorage;
+  private sinks: WorkflowSink[] = [];
+
+  constructor(
+    db: Database.Database,
+    private config: WorkflowsConfig,
+    private llm: LLMClient,
+    private credentials: CredentialResolver,
+    private runStep: StepRunner
+  ) {
+    this.runs = new WorkflowRunStorage(db);
+    this.schedule = new ScheduleStorage(db);
+  }
+
+  get definitions(): WorkflowDefinition[] {
+    return this.config.workflows;
+  }
+
+  get pollMinutes(): number {
+    return this.config.pollMinutes || 10;
+  }
+
+  listensTo(trigger: WorkflowTrigger): boolean {
+    return this.config.workflows.some(workflow => workflow.trigger === trigger);
+  }
+
+  addSink(sink: WorkflowSink): void {
+    this.sinks.push(sink);
+  }
+
+  // Triggers in an agent's reply: deals moved to closed won, drafts naming a customer
+  async observe(response: AgentResponse, origin: WorkflowOrigin = {}): Promise<WorkflowRun[]> {
+    const events = closedWonDeals(response);
+
+    if ((response.drafts || []).length > 0 && this.listensTo('content.draft_mentions_customer')) {
+      const companies = await this.companies(origin.userId);
+      for (const draft of response.drafts!) {
+        events.push(...draftMentions(draft, companies));
+      }
+    }
+
+    const runs: WorkflowRun[] = [];
+    for (const event of events) {
+      runs.push(...await this.fire(event, origin));
+    }
+    return runs;
+  }
+
+  // Linear projects completed since the last check. The first check only sets
+  // the mark, so projects finished before workflows were set up don't fire.
+  async pollLinear(now: Date = new Date()): Promise<WorkflowRun[]> {
+    if (!this.listensTo('linear.project_completed')) return [];
+
+    const config = await this.credentials.linear();
+    if (!config) return [];
+
+    const since = this.schedule.get(LINEAR_POLL_JOB)?.lastSlot;
+    const projects = await new LinearApiClient(config).getProjects(50);
+    this.schedule.markSlot(LINEAR_POLL_JOB, now.toISOString(), now.toISOString());
+    if (!since) return [];
+
+    const runs: WorkflowRun[] = [];
+    for (const project of projects) {
+      if (project.completedAt && project.completedAt > since && project.completedAt <= now.toISOString()) {
+        runs.push(...await this.fire(projectCompleted(project)));
+      }
+    }
+    return runs;
+  }
+
+  // Start each workflow listening for the event, once per subject. All steps
+  // are planned up front so the card shows exactly what each one will do;
+  // repeats are dropped before planning, which can cost a model call.
+  async fire(event: WorkflowEvent, origin: WorkflowOrigin = {}): Promise<WorkflowRun[]> {
+    const runs: WorkflowRun[] = [];
+
+    for (const definition of this.config.workflows.filter(workflow => workflow.trigger === event.trigger)) {
+      if (this.runs.hasRun(definition.name, event.subject)) continue;
+
+      let steps: WorkflowStepState[];
+      try {
+        steps = await Promise.all(definition.steps.map(async step => ({
+          action: step.action,
+          approve: step.approve || 'manual',
+          status: 'waiting' as const,
+          call: await buildStep(step.action, event, this.llm)
+        })));
+      } catch (error) {
+        console.error(`[workflows] Couldn't plan ${definition.name} for ${event.subject}:`, error);
+        continue;
+      }
+
+      const channelId = definition.channel || this.config.channel || origin.channelId;
+      const run = this.runs.create({
+        workflow: definition.name,
+        subject: event.subject,
+        summary: event.summary,
+        status: 'awaiting_approval',
+        steps,
+        userId: origin.userId,
+        channelId,
+        threadTs: channelId && channelId === origin.channelId ? origin.threadTs : undefined
+      });
+      if (!run) continue; // Fired again while the first was being planned
+
+      console.log(`[workflows] ${definition.name} fired: ${event.summary}`);
+      runs.push(await this.advance(run, origin.userId));
+    }
+
+    return runs;
+  }
+
+  // Run the proposed step for the user who approved it. Returns why not when
+  // their role doesn't allow it; the step stays proposed for someone who can.
+  async approve(
+    runId: string,
+    stepIndex: number,
+    userId: string,
+    userGroups?: string[]
+  ): Promise<{ run: WorkflowRun | null; denial?: string }> {
+    let run = this.runs.get(runId);
+    const step = run?.steps[stepIndex];
+    if (!run || step?.status !== 'proposed') return { run };
+
+    // Mark it first so a double-clicked button can't run it twice
+    step.status = 'running';
+    run = this.runs.update(run);
+
+    const response = await this.execute(step, userId, userGroups);
+    if (response && (response.denials || []).length > 0) {
+      step.status = 'proposed';
+      return { run: this.runs.update(run), denial: response.message };
+    }
+
+    run = await this.advance(this.runs.update(run), userId);
+    if (response) await this.observeStep(response, run);
+    return { run };
+  }
+
+  // Leave the proposed step out and move on to the next one
+  async skip(runId: string, stepIndex: number, userId: string): Promise<WorkflowRun | null> {
+    const run = this.runs.get(runId);
+    const step = run?.steps[stepIndex];
+    if (!run || step?.status !== 'proposed') return run;
+
+    step.status = 'skipped';
+    step.decidedBy = userId;
+    return this.advance(this.runs.update(run), userId);
+  }
+
+  // Run auto steps until one needs approval or none are left. A failed step ends the run.
+  private async advance(run: WorkflowRun, userId?: string): Promise<WorkflowRun> {
+    for (;;) {
+      const step = run.steps.find(s => s.status === 'waiting');
+      const failed = run.steps.some(s => s.status === 'failed');
+
+      if (!step || failed) {
+        for (const rest of run.steps.filter(s => s.status === 'waiting')) {
+          rest.status = 'skipped';
+        }
+        run.status = failed ? 'failed' : run.steps.some(s => s.status === 'done') ? 'done' : 'skipped';
+        break;
+      }
+
+      if (step.approve === 'manual') {
+        step.status = 'proposed';
+        run.status = 'awaiting_approval';
+        break;
+      }
+
+      step.status = 'running';
+      const response = await this.execute(step, userId);
+      // Nobody approved an auto step, so there's no one else to hand a denial to
+      if (response && (response.denials || []).length > 0) {
+        this.finishStep(step, response, userId);
+      } else if (response) {
+        await this.observeStep(response, run);
+      }
+    }
+
+    const saved = this.runs.update(run);
+    await this.emit(saved);
+    return saved;
+  }
+
+  // Run a step and record how it went. A step that throws is marked failed
+  // (not left running) and gives no response. Denials are left for the caller.
+  private async execute(step: WorkflowStepState, userId?: string, userGroups?: string[]): Promise<AgentResponse | null> {
+    let response: AgentResponse;
+    try {
+      response = await this.runStep(step.call, userId, userGroups);
+    } catch (error) {
+      console.error(`[workflows] Step ${step.action} failed:`, error);
+      step.status = 'failed';
+      step.result = `Failed: ${error instanceof Error ? error.message : String(error)}`;
+      step.decidedBy = step.approve === 'manual' ? userId : undefined;
+      return null;
+    }
+
+    if ((response.denials || []).length === 0) this.finishStep(step, response, userId);
+    return response;
+  }
+
+  // Nothing ran when the service isn't connected (needsCredentials), so that counts as failed too
+  private finishStep(step: WorkflowStepState, response: AgentResponse, userId?: string): void {
+    const failed = (response.actions || []).some(action => action.error)
+      || (response.denials || []).length > 0
+      || !!response.needsCredentials;
+    step.status = failed ? 'failed' : 'done';
+    step.result = response.message;
+    step.decidedBy = step.approve === 'manual' ? userId : undefined;
+  }
+
+  // A step's own output can fire further workflows (a drafted post naming a customer)
+  private async observeStep(response: AgentResponse, run: WorkflowRun): Promise<void> {
+    try {
+      await this.observe(response, { userId: run.userId, channelId: run.channelId, threadTs: run.threadTs });
+    } catch (error) {
+      console.error('[workflows] Failed to check step output for triggers:', error);
+    }
+  }
+
+  private async emit(run: WorkflowRun): Promise<void> {
+    for (const sink of this.sinks) {
+      try {
+        await sink(run);
+      } catch (error) {
+        console.error('[workflows] Sink failed:', error);
+      }
+    }
+  }
+
+  // HubSpot companies, to spot customers named in drafts
+  private async companies(userId?: string): Promise<HubSpotCompany[]> {
+    const config = await this.credentials.hubspot(userId);
+    return config ? new HubSpotApiClient(config).listCompanies(100) : [];
+  }
+}
+
+export { WORKFLOW_ACTIONS, WORKFLOW_TRIGGERS } from './steps.js';
+export type { WorkflowAction, WorkflowEvent, WorkflowTrigger } from './steps.js';
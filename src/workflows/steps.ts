@@ -0,0 +1,146 @@
+// Workflow catalogue - the events a workflow can start on, how they're spotted,
+// and the steps it can take (each one a tool call on another agent)
+
+import { LLMClient } from '../shared/llm.js';
+import { AgentResponse, Draft, PendingAction, ToolRisk } from '../shared/types.js';
+import { describeToolCall } from '../shared/policy.js';
+import { HubSpotCompany } from '../agents/hubspot/types.js';
+import { LinearProject } from '../agents/linear/types.js';
+
+export const WORKFLOW_TRIGGERS = [
+  'hubspot.deal_closed_won',
+  'linear.project_completed',
+  'content.draft_mentions_customer'
+] as const;
+
+export type WorkflowTrigger = typeof WORKFLOW_TRIGGERS[number];
+
+export const WORKFLOW_ACTIONS = [
+  'content.propose_topic',
+  'content.draft_post',
+  'hubspot.log_note'
+] as const;
+
+export type WorkflowAction = typeof WORKFLOW_ACTIONS[number];
+
+// Something that happened in one of the agents
+export interface WorkflowEvent {
+  trigger: WorkflowTrigger;
+  subject: string;   // What it's about, e.g. "deal:123" - a workflow runs once per subject
+  summary: string;   // "Deal Acme renewal moved to closed won"
+  title: string;     // What content about it is called, e.g. "Acme renewal"
+  details?: string;  // Extra background for drafting
+  ids: {
+    dealId?: string;
+    companyId?: string;
+    projectId?: string;
+    draftId?: string;
+  };
+}
+
+const CLOSED_WON_PATTERN = /^closed[\s_-]*won$/i;
+
+// Deals a turn created as, or moved to, closed won. Only calls that returned
+// the deal count: held or denied calls return a message instead and did nothing.
+export const closedWonDeals = (response: AgentResponse): WorkflowEvent[] =>
+  (response.actions || [])
+    .filter(action => !action.error && (action.type === 'updateDealStage' || action.type === 'createDeal'))
+    .flatMap(action => {
+      const deal = action.output as { id?: string; properties?: Record<string, string> } | undefined;
+      if (!deal || typeof deal !== 'object' || typeof deal.id !== 'string') return [];
+
+      const input = action.input as { stage?: string; name?: string };
+      const stage = deal.properties?.dealstage ?? input.stage ?? '';
+      if (!CLOSED_WON_PATTERN.test(stage)) return [];
+
+      const name = deal.properties?.dealname || input.name || `deal ${deal.id}`;
+      const amount = deal.properties?.amount;
+      return [{
+        trigger: 'hubspot.deal_closed_won' as const,
+        subject: `deal:${deal.id}`,
+        summary: `Deal ${name} moved to closed won${amount ? ` (${amount})` : ''}`,
+        title: name,
+        ids: { dealId: deal.id }
+      }];
+    });
+
+export const projectCompleted = (project: LinearProject): WorkflowEvent => ({
+  trigger: 'linear.project_completed',
+  subject: `project:${project.id}`,
+  summary: `Linear project ${project.name} completed`,
+  title: project.name,
+  details: project.description,
+  ids: { projectId: project.id }
+});
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Customer companies named in a draft, as whole words
+export const draftMentions = (draft: Draft, companies: HubSpotCompany[]): WorkflowEvent[] => {
+  const text = `${draft.title}\n${draft.body}`;
+
+  return companies
+    .filter(company => company.properties.lifecyclestage === 'customer')
+    .filter(company => {
+      const name = company.properties.name?.trim();
+      return !!name && name.length >= 3 && new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(text);
+    })
+    .map(company => ({
+      trigger: 'content.draft_mentions_customer' as const,
+      subject: `draft:${draft.id}:company:${company.id}`,
+      summary: `Draft "${draft.title}" mentions customer ${company.properties.name}`,
+      title: company.properties.name!,
+      details: draft.body,
+      ids: { companyId: company.id, draftId: draft.id }
+    }));
+};
+
+const call = (agent: string, toolName: string, input: Record<string, unknown>, risk: ToolRisk = 'write'): PendingAction => ({
+  agent,
+  toolName,
+  input,
+  risk,
+  description: describeToolCall(toolName, input),
+  requestedAt: new Date().toISOString()
+});
+
+const TOPIC_PREFIXES: Record<WorkflowTrigger, string> = {
+  'hubspot.deal_closed_won': 'Case study',
+  'linear.project_completed': 'What we shipped',
+  'content.draft_mentions_customer': 'Customer story'
+};
+
+const DRAFT_POST_PROMPT = `You write short LinkedIn posts for a small B2B team.
+Write a post of 80-150 words about the event below: concrete, first person plural, no hashtags,
+no invented numbers or quotes. Reply with the post text only.`;
+
+// The tool call a step makes for an event
+export const buildStep = async (action: WorkflowAction, event: WorkflowEvent, llm: LLMClient): Promise<PendingAction> => {
+  switch (action) {
+    case 'content.propose_topic':
+      return call('content', 'addTopic', {
+        topic: `${TOPIC_PREFIXES[event.trigger]}: ${event.title}`,
+        notes: event.summary
+      });
+
+    case 'content.draft_post': {
+      const body = await llm.chat(
+        `${event.summary}${event.details ? `\n\nBackground:\n${event.details}` : ''}`,
+        [],
+        { systemPrompt: DRAFT_POST_PROMPT, purpose: 'content', caller: { agent: 'workflows' } }
+      );
+      return call('content', 'createDraft', {
+        title: `${TOPIC_PREFIXES[event.trigger]}: ${event.title}`,
+        body: body.trim(),
+        contentType: 'linkedin_post'
+      });
+    }
+
+    case 'hubspot.log_note':
+      return call('hubspot', 'logNote', {
+        body: event.summary,
+        ...(event.ids.companyId ? { companyId: event.ids.companyId } : {}),
+        ...(event.ids.dealId ? { dealId: event.ids.dealId } : {})
+      });
+  }
+};
@@ -4,6 +4,8 @@ import path from "node:path";
 import os from "node:os";
 import fs from "node:fs";
 import { fileURLToPath } from "node:url";
+import { initializeDatabase, closeDatabase } from "../src/db/index.js";
+import { ResearchStorage } from "../src/db/research.js";
 
 const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
 const cliPath = path.join(repoRoot, "src", "cli.ts");
@@ -50,4 +52,60 @@ describe("CLI integration", () => {
     expect(result.status).toBe(1);
     expect(result.stderr).toContain("Invalid content type");
   });
+
+  it("edits the permission matrix with roles commands", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "content-agent-"));
+    const file = path.join(tempDir, "permissions.json");
+    const runRoles = (args: string[]) =>
+      spawnSync(tsxBin, [cliPath, "roles", ...args], {
+        cwd: tempDir,
+        encoding: "utf8",
+        env: { ...process.env, PERMISSIONS_FILE: file }
+      });
+
+    expect(runRoles(["assign", "--user", "U1", "--role", "sales"]).status).toBe(0);
+    expect(runRoles(["grant", "--role", "sales", "--agent", "linear", "--tool", "createIssue"]).status).toBe(0);
+
+    const saved = JSON.parse(fs.readFileSync(file, "utf8"));
+    expect(saved.users).toEqual({ U1: ["sales"] });
+    expect(saved.roles.sales.linear).toEqual(["createIssue"]);
+
+    const unknown = runRoles(["assign", "--user", "U1", "--role", "wizard"]);
+    expect(unknown.status).toBe(1);
+    expect(unknown.stderr).toContain("Unknown role: wizard");
+  });
+
+  it("scores the classifier on the recorded corpus and fails on a regression", () => {
+    const result = runCli(["classifier-eval", "--format", "json"], repoRoot);
+    expect(result.status).toBe(0);
+    const report = JSON.parse(result.stdout) as { total: number; comparison: { regressions: string[] } };
+    expect(report.total).toBeGreaterThan(0);
+    expect(report.comparison.regressions).toEqual([]);
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "content-agent-"));
+    const baseline = path.join(tempDir, "baseline.json");
+    fs.writeFileSync(baseline, JSON.stringify({ accuracy: 1, agents: {}, entities: { precision: 0, recall: 0 }, passed: [] }));
+
+    const regressed = runCli(["classifier-eval", "--baseline", baseline], repoRoot);
+    expect(regressed.status).toBe(1);
+    expect(regressed.stdout).toContain("Regressions vs baseline:");
+  });
+
+  it("searches interviews and topics in the bot database", async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "content-agent-"));
+    const db = await initializeDatabase({ path: path.join(tempDir, "data/db/main.sqlite") });
+    const research = new ResearchStorage(db);
+    research.createInterview("What do people get wrong about AIP?", "They skip the ontology.");
+    research.createTopic("Hiring ops people");
+    closeDatabase();
+
+    const result = runCli(["search", "--query", "AIP ontology"], tempDir);
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("1 match for \"AIP ontology\":");
+    expect(result.stdout).toContain("Interview: What do people get wrong about *AIP*?");
+
+    const unknownKind = runCli(["search", "--query", "AIP", "--kind", "email"], tempDir);
+    expect(unknownKind.status).toBe(1);
+    expect(unknownKind.stderr).toContain("Unknown kind: email");
+  });
 });
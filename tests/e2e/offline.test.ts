@@ -0,0 +1,732 @@
+// Offline end-to-end tests: Slack -> orchestrator -> agents -> fake backends.
+// Everything runs in-process with a scripted LLM, so these are deterministic in CI.
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { types } from '@slack/bolt';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { Orchestrator } from '../../src/orchestrator/index.js';
+import { SlackMessageHandler } from '../../src/slack/handlers.js';
+import { initializeDatabase, closeDatabase } from '../../src/db/index.js';
+import { ContextStorage } from '../../src/db/context.js';
+import { DraftStorage } from '../../src/db/drafts.js';
+import { startFakeBackends, FakeBackends, FakeSlack, ScriptedLLM, text, toolCall } from '../fakes/index.js';
+import { FAKE_LINEAR_VIEWER, FakeLinearUser } from '../fakes/linear.js';
+import { FakeSlackMessage } from '../fakes/slack.js';
+import { PermissionStore, DEFAULT_PERMISSIONS } from '../../src/shared/permissions.js';
+import { WorkflowCardHandler } from '../../src/slack/workflows.js';
+import { ResearchStorage } from '../../src/db/research.js';
+import { SynthesisStorage } from '../../src/db/syntheses.js';
+import { SynthesisCardHandler } from '../../src/slack/synthesis.js';
+
+// What the buttons on a confirmation card answer with
+const confirmValue = (card: FakeSlackMessage): string =>
+  (card.blocks as types.KnownBlock[])
+    .flatMap(block => (block.type === 'actions' ? block.elements : []))
+    .find((element): element is types.Button => element.type === 'button')!.value!;
+
+describe('Offline conversation replay', () => {
+  let db: Database.Database;
+  let testDbPath: string;
+  let backends: FakeBackends;
+  let llm: ScriptedLLM;
+  let slack: FakeSlack;
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-offline-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    backends = await startFakeBackends();
+    llm = new ScriptedLLM();
+    slack = new FakeSlack();
+
+    const orchestrator = new Orchestrator(db, {
+      llm: { provider: 'openai', model: 'scripted', languageModel: llm.model }
+    });
+    new SlackMessageHandler(slack.app, orchestrator).setup();
+  });
+
+  afterEach(async () => {
+    await backends.close();
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('adds a HubSpot contact and associates the company', async () => {
+    llm.reply(
+      toolCall('addContact', { firstName: 'Maria', lastName: 'Lopez', company: 'TechStartup', title: 'CTO' }),
+      text('Added *Maria Lopez* (CTO at TechStartup).')
+    );
+
+    const ts = await slack.sendDM('U1', 'add Maria Lopez as a contact, she is CTO at TechStartup');
+
+    const contacts = [...backends.hubspot.objects.contacts.values()];
+    expect(contacts).toHaveLength(1);
+    expect(contacts[0].properties).toMatchObject({ firstname: 'Maria', lastname: 'Lopez', jobtitle: 'CTO' });
+    expect(backends.hubspot.associations[0]).toMatchObject({ fromType: 'contacts', toType: 'companies' });
+
+    const [reply] = slack.thread('D-U1', ts);
+    expect(reply.text).toBe('Added *Maria Lopez* (CTO at TechStartup).');
+    expect(llm.pending).toBe(0);
+  });
+
+  it('creates a Linear issue using the team from getTeams', async () => {
+    llm.reply(
+      toolCall('getTeams'),
+      toolCall('createIssue', { title: 'Fix login timeout', teamId: 'team-eng', priority: 2 })
+    );
+    // Answer from the tool output so the reply reflects what the fake created
+    llm.on(
+      call => call.toolResults.some(r => r.toolName === 'createIssue'),
+      call => {
+        const issue = JSON.parse(String(call.toolResults[0].output));
+        return text(`Created ${issue.identifier}: ${issue.title}`);
+      }
+    );
+
+    const ts = await slack.sendDM('U1', 'create an issue to fix the login timeout');
+
+    const issues = [...backends.linear.issues.values()];
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ identifier: 'ENG-1', title: 'Fix login timeout', priority: 2 });
+    expect(slack.thread('D-U1', ts)[0].text).toBe('Created ENG-1: Fix login timeout');
+  });
+
+  it('resolves "it" in a follow-up to the issue created earlier in the thread', async () => {
+    llm.reply(
+      toolCall('createIssue', { title: 'Fix login timeout', teamId: 'team-eng' }),
+      text('Created ENG-1.')
+    );
+    const ts = await slack.mention('U1', 'create an issue to fix the login timeout', 'C-TEAM');
+
+    // The follow-up prompt names the issue's real ID; assign using it
+    llm.on(
+      call => call.userText.includes('assign it to me') && call.toolResults.length === 0,
+      call => toolCall('updateIssue', {
+        id: call.userText.match(/\(ID: ([^)]+)\)/)![1],
+        assigneeId: FAKE_LINEAR_VIEWER.id
+      })
+    );
+    llm.reply(text('Assigned ENG-1 to you.'));
+    await slack.mention('U1', 'assign it to me', 'C-TEAM', ts);
+
+    const [issue] = [...backends.linear.issues.values()];
+    expect(llm.calls.at(-2)!.userText).toContain(`refers to ENG-1: Fix login timeout (ID: ${issue.id})`);
+    expect(issue.assigneeId).toBe(FAKE_LINEAR_VIEWER.id);
+  });
+
+  it('undoes the last actions in a thread, most recent first', async () => {
+    llm.reply(
+      toolCall('createDeal', { name: 'Acme renewal', stage: 'appointmentscheduled' }),
+      text('Created *Acme renewal*.')
+    );
+    const ts = await slack.mention('U1', 'create a deal for Acme renewal', 'C-TEAM');
+    const [deal] = [...backends.hubspot.objects.deals.values()];
+
+    llm.reply(
+      toolCall('updateDealStage', { id: deal.id, stage: 'closedwon' }),
+      text('Moved *Acme renewal* to Closed Won.')
+    );
+    await slack.mention('U1', 'move it to closed won', 'C-TEAM', ts);
+    expect(deal.properties.dealstage).toBe('closedwon');
+
+    await slack.mention('U1', 'undo that', 'C-TEAM', ts);
+    expect(deal.properties.dealstage).toBe('appointmentscheduled');
+    expect(slack.thread('C-TEAM', ts).at(-1)!.text).toBe(
+      'Undone: Moved deal Acme renewal from appointmentscheduled to closedwon.'
+    );
+
+    await slack.mention('U1', 'undo', 'C-TEAM', ts);
+    expect(backends.hubspot.objects.deals.size).toBe(0);
+
+    await slack.mention('U1', 'undo', 'C-TEAM', ts);
+    expect(slack.thread('C-TEAM', ts).at(-1)!.text).toBe("There's nothing to undo in this conversation.");
+    expect(llm.pending).toBe(0);
+  });
+
+  it('refuses to undo actions that cannot be reversed or are too old', async () => {
+    llm.reply(
+      toolCall('createIssue', { title: 'Fix login timeout', teamId: 'team-eng' }),
+      text('Created ENG-1.')
+    );
+    const ts = await slack.mention('U1', 'create an issue to fix the login timeout', 'C-TEAM');
+
+    db.prepare('UPDATE action_log SET created_at = ?').run(new Date(Date.now() - 60 * 60 * 1000).toISOString());
+    await slack.mention('U1', 'undo that', 'C-TEAM', ts);
+    expect(slack.thread('C-TEAM', ts).at(-1)!.text).toContain('more than 30 minutes ago');
+    expect([...backends.linear.issues.values()][0].archivedAt).toBeUndefined();
+
+    llm.reply(
+      toolCall('addInterview', { question: 'Why AI?', answer: 'Because process first.' }),
+      text('Saved your answer.')
+    );
+    await slack.mention('U1', 'draft a post from my answer: why AI? because process first', 'C-TEAM', ts);
+    await slack.mention('U1', 'undo that', 'C-TEAM', ts);
+    expect(slack.thread('C-TEAM', ts).at(-1)!.text).toBe(
+      'Sorry, "Added interview answer to "Why AI?"" can\'t be undone automatically.'
+    );
+  });
+
+  it('refuses to undo past a change that cannot be reversed', async () => {
+    llm.reply(
+      toolCall('createDeal', { name: 'Acme renewal' }),
+      text('Created *Acme renewal*.')
+    );
+    const ts = await slack.mention('U1', 'create a deal for Acme renewal', 'C-TEAM');
+    llm.reply(
+      toolCall('addInterview', { question: 'Why AI?', answer: 'Because process first.' }),
+      text('Saved your answer.')
+    );
+    await slack.mention('U1', 'draft a post from my answer: why AI? because process first', 'C-TEAM', ts);
+
+    await slack.mention('U1', 'undo that', 'C-TEAM', ts);
+
+    // The deal made before it is left alone
+    expect(backends.hubspot.objects.deals.size).toBe(1);
+    expect(slack.thread('C-TEAM', ts).at(-1)!.text).toBe(
+      'Sorry, "Added interview answer to "Why AI?"" can\'t be undone automatically.'
+    );
+  });
+
+  it('holds a destructive tool call until the user confirms it', async () => {
+    const draft = new DraftStorage(db).create({ title: 'Old take', body: 'Outdated.', contentType: 'linkedin_post' });
+    llm.reply(
+      toolCall('deleteDraft', { id: draft.id }),
+      text('Deleting *Old take* needs your confirmation.')
+    );
+    const ts = await slack.mention('U1', 'show my drafts and delete the old take', 'C-TEAM');
+
+    // The model was told the call is on hold, and nothing was deleted yet
+    expect(String(llm.calls[1].toolResults[0].output)).toContain('NOT been done');
+    expect(new DraftStorage(db).get(draft.id)).not.toBeNull();
+
+    const [reply, card] = slack.thread('C-TEAM', ts);
+    expect(reply.text).toBe('Deleting *Old take* needs your confirmation.');
+    expect(card.text).toContain(`deleteDraft · id: ${draft.id}`);
+
+    await slack.click('pending_action_confirm', confirmValue(card), card, 'U2');
+
+    expect(new DraftStorage(db).get(draft.id)).toBeNull();
+    expect(card.blocks?.some((b: any) => b.type === 'actions')).toBe(false);
+    expect(slack.thread('C-TEAM', ts).at(-1)!.text).toBe(`Done: deleteDraft · id: ${draft.id}`);
+  });
+
+  it('cancels a held tool call when the user says no', async () => {
+    const draft = new DraftStorage(db).create({ title: 'Old take', body: 'Outdated.', contentType: 'linkedin_post' });
+    llm.reply(toolCall('deleteDraft', { id: draft.id }), text('Please confirm.'));
+    const ts = await slack.mention('U1', 'show my drafts and delete the old take', 'C-TEAM');
+
+    await slack.mention('U1', 'no', 'C-TEAM', ts);
+
+    expect(new DraftStorage(db).get(draft.id)).not.toBeNull();
+    expect(slack.thread('C-TEAM', ts).at(-1)!.text).toBe(`Okay, cancelled: deleteDraft · id: ${draft.id}`);
+    expect(new ContextStorage(db).find('C-TEAM', ts)!.pendingAction).toBeUndefined();
+  });
+
+  it('persists the tool-call trace with the assistant turn', async () => {
+    llm.reply(
+      toolCall('addContact', { firstName: 'Maria', lastName: 'Lopez' }),
+      text('Added *Maria Lopez*.')
+    );
+
+    const ts = await slack.sendDM('U1', 'add Maria Lopez as a contact');
+
+    const context = new ContextStorage(db).find('D-U1', ts)!;
+    const turn = context.history.find(t => t.role === 'assistant')!;
+    const contact = [...backends.hubspot.objects.contacts.values()][0];
+
+    expect(turn.agent).toBe('hubspot');
+    expect(turn.actions).toHaveLength(1);
+    expect(turn.actions![0]).toMatchObject({
+      type: 'addContact',
+      entityType: 'contact',
+      entityId: contact.id,
+      input: { firstName: 'Maria', lastName: 'Lopez' }
+    });
+    expect(turn.actions![0].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('researches with web search and posts the new draft as an approval card', async () => {
+    backends.tavily.results.push({
+      title: 'Why AI onboarding fails',
+      url: 'https://example.com/ai-onboarding',
+      content: 'Most teams skip process mapping.',
+      score: 0.9
+    });
+    llm.reply(
+      toolCall('webSearch', { query: 'AI onboarding for SMBs' }),
+      toolCall('createDraft', {
+        title: 'Stop starting with AI',
+        body: 'Most teams skip process mapping.',
+        contentType: 'linkedin_post'
+      }),
+      text('Here is a draft for your review.')
+    );
+
+    const ts = await slack.sendDM('U1', 'write a LinkedIn post about AI onboarding');
+
+    expect(backends.tavily.requests[0].body).toMatchObject({ query: 'AI onboarding for SMBs' });
+    // The search results were handed back to the model
+    expect(llm.calls[1].toolResults[0].output).toContain('Why AI onboarding fails');
+
+    const [reply, card] = slack.thread('D-U1', ts);
+    expect(reply.text).toBe('Here is a draft for your review.');
+    expect(card.text).toContain('Stop starting with AI');
+    expect(card.blocks?.some((b: any) => b.type === 'actions')).toBe(true);
+  });
+
+  it('files search hits in the research library and cites them in a draft', async () => {
+    backends.tavily.results.push({
+      title: 'Why AI onboarding fails',
+      url: 'https://www.reddit.com/r/smallbusiness/ai-onboarding',
+      content: 'Most teams skip process mapping.',
+      score: 0.9
+    });
+    llm.onSystem('filing web research', text(JSON.stringify({
+      items: [{ title: 'ignored', summary: 'Teams that skip process mapping stall.', tags: ['AI Adoption', 'onboarding'] }]
+    })));
+    llm.reply(
+      toolCall('webSearch', { query: 'AI onboarding for SMBs' }),
+      toolCall('saveResearch', { urls: ['https://www.reddit.com/r/smallbusiness/ai-onboarding'], tags: ['smb'] }),
+      text('Saved one source.')
+    );
+
+    await slack.sendDM('U1', 'write a LinkedIn post about AI onboarding, save what you find');
+
+    const research = new ResearchStorage(db);
+    const [item] = research.searchResearchItems({ tag: 'ai adoption', source: 'reddit' });
+    expect(item).toMatchObject({
+      title: 'Why AI onboarding fails',
+      summary: 'Teams that skip process mapping stall.',
+      tags: ['smb', 'ai adoption', 'onboarding'],
+      usedInPost: false
+    });
+    // The page came from this turn's search, so nothing was fetched
+    expect(backends.tavily.requests.map(request => request.path)).toEqual(['/search']);
+
+    llm.reply(
+      toolCall('createDraft', {
+        title: 'Stop starting with AI',
+        body: 'Most teams skip process mapping.',
+        contentType: 'linkedin_post',
+        researchIds: [item.id]
+      }),
+      text('Here is a draft citing the Reddit thread.')
+    );
+
+    const ts = await slack.sendDM('U1', 'write a LinkedIn post from that research');
+
+    const [, card] = slack.thread('D-U1', ts);
+    const sources: any = card.blocks!.find((block: any) => block.elements?.[0]?.text?.startsWith('*Sources*'));
+    expect(sources.elements[0].text).toBe('*Sources*\n1. <https://www.reddit.com/r/smallbusiness/ai-onboarding|Why AI onboarding fails>');
+    expect(research.getResearchItem(item.id)!.usedInPost).toBe(true);
+  });
+
+  it('creates no draft when it cites research that does not exist', async () => {
+    llm.reply(
+      toolCall('createDraft', {
+        title: 'Stop starting with AI',
+        body: 'Most teams skip process mapping.',
+        contentType: 'linkedin_post',
+        researchIds: ['missing-item']
+      }),
+      text('I could not find that research item.')
+    );
+
+    await slack.sendDM('U1', 'write a LinkedIn post from that research');
+
+    expect(new DraftStorage(db).list()).toEqual([]);
+    expect(JSON.stringify(llm.calls.at(-1)!.toolResults[0].output)).toContain('Research item not found: missing-item');
+  });
+
+  it('synthesizes recent research and queues an angle from its card', async () => {
+    new SynthesisCardHandler(slack.app, new SynthesisStorage(db), new ResearchStorage(db)).setup();
+    const research = new ResearchStorage(db);
+    research.createResearchItem({
+      date: new Date().toISOString(),
+      source: 'hbr',
+      url: 'https://hbr.org/data-debt',
+      title: 'Data debt survey',
+      summary: 'Most SMBs run on spreadsheets.',
+      tags: ['data'],
+      usedInPost: false
+    });
+    llm.onSystem('synthesizing research', text(JSON.stringify({
+      synthesis: 'Teams keep buying AI before fixing their data.',
+      angles: [{ title: 'Fix the spreadsheet first', rationale: 'Comes up in every call.' }]
+    })));
+    llm.reply(toolCall('synthesizeResearch', {}), text('One angle stood out.'));
+
+    const ts = await slack.sendDM('U1', 'synthesize my research from the last two weeks');
+
+    const [reply, card] = slack.thread('D-U1', ts);
+    expect(reply.text).toBe('One angle stood out.');
+    expect(card.text).toBe('Research synthesis: 1 angle from 1 research items and 0 signals');
+
+    const button = (card.blocks as any[]).find(block => block.accessory?.action_id === 'synthesis_add_topic').accessory;
+    await slack.click('synthesis_add_topic', button.value, card, 'U2');
+
+    expect(research.listTopics().map(topic => [topic.topic, topic.notes])).toEqual([['Fix the spreadsheet first', 'Comes up in every call.']]);
+    expect(JSON.stringify(card.blocks)).toContain('Added to topics by <@U2>');
+    expect((card.blocks as any[]).some(block => block.accessory)).toBe(false);
+  });
+
+  it('routes through the LLM classifier when no pattern matches', async () => {
+    llm.onSystem('intent classifier', text(JSON.stringify({
+      agent: 'linear',
+      intent: 'List assigned issues',
+      confidence: 0.9,
+      entities: []
+    })));
+    backends.linear.seedIssue({ title: 'Ship onboarding checklist' });
+    llm.reply(
+      toolCall('getMyIssues', { limit: 20 }),
+      text('You have 1 open issue: ENG-1 Ship onboarding checklist.')
+    );
+
+    const ts = await slack.mention('U1', 'what am I working on this week?', 'C-TEAM');
+
+    expect(slack.thread('C-TEAM', ts)[0].text).toContain('ENG-1');
+    expect(llm.calls[0].system).toContain('intent classifier');
+    expect(llm.calls[1].toolNames).toContain('getMyIssues');
+  });
+
+  it('splits a message for two agents and answers with a section for each', async () => {
+    llm.onSystem('intent classifier', text(JSON.stringify({
+      agent: 'hubspot',
+      intent: 'Create a deal and a ticket for it',
+      confidence: 0.9,
+      entities: [],
+      subIntents: [
+        { agent: 'hubspot', intent: 'Create the Acme deal', request: 'create a deal for Acme renewal', entities: [] },
+        { agent: 'linear', intent: 'Open a dashboard ticket', request: 'open an issue to build the Acme dashboard', entities: [], dependsOn: 0 }
+      ]
+    })));
+    llm.reply(
+      toolCall('createDeal', { name: 'Acme renewal' }),
+      text('Created *Acme renewal*.'),
+      toolCall('createIssue', { title: 'Build Acme dashboard', teamId: 'team-eng' }),
+      text('Opened ENG-1.')
+    );
+
+    const ts = await slack.mention('U1', 'create a deal for Acme renewal and open an issue to build their dashboard', 'C-TEAM');
+
+    expect(backends.hubspot.objects.deals.size).toBe(1);
+    expect(backends.linear.issues.size).toBe(1);
+    // The ticket was written knowing what the deal step did
+    expect(llm.calls.find(call => call.toolNames.includes('createIssue'))!.userText).toContain('Created *Acme renewal*.');
+    expect(slack.thread('C-TEAM', ts)[0].text).toBe('*HubSpot*\nCreated *Acme renewal*.\n\n*Linear*\nOpened ENG-1.');
+
+    const { entities } = new ContextStorage(db).find('C-TEAM', ts)!;
+    expect(entities.deals.map(deal => deal.name)).toEqual(['Acme renewal']);
+    expect(entities.issues.map(issue => issue.name)).toContain('ENG-1: Build Acme dashboard');
+  });
+
+  describe('held calls across agents', () => {
+    // Rebuild the bot so HubSpot writes are held too
+    beforeEach(() => {
+      slack = new FakeSlack();
+      const orchestrator = new Orchestrator(db, {
+        llm: { provider: 'openai', model: 'scripted', languageModel: llm.model },
+        policies: { hubspot: { confirmAt: 'write' } }
+      });
+      new SlackMessageHandler(slack.app, orchestrator).setup();
+    });
+
+    it('asks about every held call one at a time', async () => {
+      const draft = new DraftStorage(db).create({ title: 'Old take', body: 'Outdated.', contentType: 'linkedin_post' });
+      llm.onSystem('intent classifier', text(JSON.stringify({
+        agent: 'content',
+        intent: 'Delete a draft and create a deal',
+        confidence: 0.9,
+        entities: [],
+        subIntents: [
+          { agent: 'content', intent: 'Delete the old take', request: 'delete the old take draft', entities: [] },
+          { agent: 'hubspot', intent: 'Create the Acme deal', request: 'create a deal for Acme renewal', entities: [] }
+        ]
+      })));
+      llm.on(
+        call => call.toolNames.includes('deleteDraft'),
+        call => (call.toolResults.length ? text('Deleting *Old take* needs your confirmation.') : toolCall('deleteDraft', { id: draft.id }))
+      );
+      llm.on(
+        call => call.toolNames.includes('createDeal'),
+        call => (call.toolResults.length ? text('Creating *Acme renewal* needs your confirmation.') : toolCall('createDeal', { name: 'Acme renewal' }))
+      );
+
+      const ts = await slack.mention('U1', 'delete the old take and create a deal for Acme renewal', 'C-TEAM');
+
+      const [reply, card] = slack.thread('C-TEAM', ts);
+      expect(reply.text).toContain(`_2 actions are waiting for confirmation. I'll ask about them one at a time, starting with deleteDraft · id: ${draft.id}._`);
+      expect(card.text).toContain('deleteDraft');
+
+      await slack.click('pending_action_confirm', confirmValue(card), card, 'U1');
+      expect(new DraftStorage(db).get(draft.id)).toBeNull();
+      expect(backends.hubspot.objects.deals.size).toBe(0);
+
+      const [next, nextCard] = slack.thread('C-TEAM', ts).slice(-2);
+      expect(next.text).toBe(`Done: deleteDraft · id: ${draft.id}\n\nNext: createDeal · name: Acme renewal. Reply yes or no.`);
+      expect(nextCard.text).toContain('createDeal');
+
+      await slack.click('pending_action_confirm', confirmValue(nextCard), nextCard, 'U1');
+      expect(backends.hubspot.objects.deals.size).toBe(1);
+      expect(new ContextStorage(db).find('C-TEAM', ts)!.pendingAction).toBeUndefined();
+    });
+
+    it('ignores a click on a card for a call that was already answered', async () => {
+      const draft = new DraftStorage(db).create({ title: 'Old take', body: 'Outdated.', contentType: 'linkedin_post' });
+      llm.onSystem('intent classifier', text(JSON.stringify({
+        agent: 'content',
+        intent: 'Delete a draft and create a deal',
+        confidence: 0.9,
+        entities: [],
+        subIntents: [
+          { agent: 'content', intent: 'Delete the old take', request: 'delete the old take draft', entities: [] },
+          { agent: 'hubspot', intent: 'Create the Acme deal', request: 'create a deal for Acme renewal', entities: [] }
+        ]
+      })));
+      llm.on(
+        call => call.toolNames.includes('deleteDraft'),
+        call => (call.toolResults.length ? text('Please confirm.') : toolCall('deleteDraft', { id: draft.id }))
+      );
+      llm.on(
+        call => call.toolNames.includes('createDeal'),
+        call => (call.toolResults.length ? text('Please confirm.') : toolCall('createDeal', { name: 'Acme renewal' }))
+      );
+      const ts = await slack.mention('U1', 'delete the old take and create a deal for Acme renewal', 'C-TEAM');
+      const [, card] = slack.thread('C-TEAM', ts);
+
+      // Answered by text, so the deal is what's waiting now
+      await slack.mention('U1', 'yes', 'C-TEAM', ts);
+      expect(new DraftStorage(db).get(draft.id)).toBeNull();
+
+      await slack.click('pending_action_confirm', confirmValue(card), card, 'U1');
+
+      expect(backends.hubspot.objects.deals.size).toBe(0);
+      expect(new ContextStorage(db).find('C-TEAM', ts)!.pendingAction?.toolName).toBe('createDeal');
+      expect(JSON.stringify(card.blocks)).toContain('No longer waiting for an answer');
+      expect((card.blocks as types.KnownBlock[]).some(block => block.type === 'actions')).toBe(false);
+    });
+  });
+
+  describe('per-user credentials', () => {
+    const SAM: FakeLinearUser = { id: 'user-2', name: 'Sam Lee', email: 'sam@example.com', displayName: 'sam' };
+
+    // Rebuild the bot with credential storage and no shared-key fallback
+    beforeEach(() => {
+      slack = new FakeSlack();
+      const orchestrator = new Orchestrator(db, {
+        llm: { provider: 'openai', model: 'scripted', languageModel: llm.model },
+        credentials: { encryptionKey: 'test-encryption-key', sharedFallback: false }
+      });
+      new SlackMessageHandler(slack.app, orchestrator).setup();
+    });
+
+    it('answers "my issues" with the asking user\'s own Linear key', async () => {
+      backends.linear.viewers.set('lin_api_sam', SAM);
+      backends.linear.seedIssue({ title: "Alex's issue" });
+      backends.linear.seedIssue({ title: "Sam's issue", assigneeId: SAM.id });
+
+      const dm = await slack.sendDM('U2', 'connect linear lin_api_sam');
+      expect(slack.thread('D-U2', dm)[0].text).toContain('Connected Linear as *Sam Lee*');
+      // The key never lands in the conversation history
+      expect(new ContextStorage(db).find('D-U2', dm)!.history[0].content).toBe('connect linear [redacted]');
+
+      llm.reply(toolCall('getMyIssues', { limit: 20 }));
+      llm.on(
+        call => call.toolResults.some(r => r.toolName === 'getMyIssues'),
+        call => text(JSON.parse(String(call.toolResults[0].output)).map((i: any) => i.title).join(', '))
+      );
+      const ts = await slack.mention('U2', 'my issues', 'C-TEAM');
+
+      expect(slack.thread('C-TEAM', ts)[0].text).toBe("Sam's issue");
+    });
+
+    it('sends onboarding instructions by DM to users who have not connected', async () => {
+      const ts = await slack.mention('U3', 'my issues', 'C-TEAM');
+
+      expect(slack.thread('C-TEAM', ts)[0].text).toContain("Linear isn't connected for your account yet");
+      const dm = slack.messages.find(m => m.channel === 'U3')!;
+      expect(dm.text).toContain('connect linear <your key>');
+      expect(llm.calls).toHaveLength(0);
+    });
+
+    it('refuses credentials pasted in a channel', async () => {
+      const ts = await slack.mention('U3', 'connect linear lin_api_oops', 'C-TEAM');
+
+      expect(slack.thread('C-TEAM', ts)[0].text).toContain("didn't save it");
+      expect(db.prepare('SELECT COUNT(*) AS n FROM users').get()).toEqual({ n: 0 });
+    });
+  });
+
+  describe('role-based permissions', () => {
+    let permissionsFile: string;
+
+    // Rebuild the bot with a permission matrix: U-SALES is sales, everyone else a viewer
+    beforeEach(() => {
+      permissionsFile = path.join('/tmp', `test-permissions-${randomUUID()}.json`);
+      new PermissionStore(permissionsFile).save({ ...DEFAULT_PERMISSIONS, users: { 'U-SALES': ['sales'] } });
+
+      slack = new FakeSlack();
+      const orchestrator = new Orchestrator(db, {
+        llm: { provider: 'openai', model: 'scripted', languageModel: llm.model },
+        permissions: { file: permissionsFile }
+      });
+      new SlackMessageHandler(slack.app, orchestrator).setup();
+    });
+
+    afterEach(async () => {
+      await fs.unlink(permissionsFile);
+    });
+
+    it('refuses a tool call the user\'s role does not allow', async () => {
+      llm.reply(toolCall('createDeal', { name: 'Acme renewal' }), text("I can't create deals for you."));
+      await slack.mention('U-VIEW', 'create a deal for Acme renewal', 'C-TEAM');
+
+      expect(backends.hubspot.objects.deals.size).toBe(0);
+      expect(String(llm.calls[1].toolResults[0].output)).toContain('NOT run');
+
+      llm.reply(toolCall('createDeal', { name: 'Acme renewal' }), text('Created *Acme renewal*.'));
+      await slack.mention('U-SALES', 'create a deal for Acme renewal', 'C-TEAM');
+
+      expect(backends.hubspot.objects.deals.size).toBe(1);
+    });
+
+    it('keeps a held call waiting when someone without permission confirms it', async () => {
+      new PermissionStore(permissionsFile).save({ ...DEFAULT_PERMISSIONS, users: { 'U-ADMIN': ['admin'], 'U-CONTENT': ['content'] } });
+      const draft = new DraftStorage(db).create({ title: 'Old take', body: 'Outdated.', contentType: 'linkedin_post' });
+      llm.reply(toolCall('deleteDraft', { id: draft.id }), text('Please confirm.'));
+      const ts = await slack.mention('U-CONTENT', 'show my drafts and delete the old take', 'C-TEAM');
+      const card = slack.thread('C-TEAM', ts)[1];
+
+      await slack.click('pending_action_confirm', confirmValue(card), card, 'U-VIEW');
+      expect(slack.thread('C-TEAM', ts).at(-1)!.text).toContain("your role (viewer) doesn't allow deleteDraft in Content");
+      expect(new DraftStorage(db).get(draft.id)).not.toBeNull();
+
+      await slack.click('pending_action_confirm', confirmValue(card), card, 'U-ADMIN');
+      expect(new DraftStorage(db).get(draft.id)).toBeNull();
+    });
+  });
+  describe('audit log', () => {
+    let orchestrator: Orchestrator;
+
+    // Rebuild the bot with an audit channel sink
+    beforeEach(() => {
+      slack = new FakeSlack();
+      orchestrator = new Orchestrator(db, {
+        llm: { provider: 'openai', model: 'scripted', languageModel: llm.model },
+        admins: ['U1']
+      });
+      new SlackMessageHandler(slack.app, orchestrator, { auditChannel: 'C-AUDIT' }).setup();
+    });
+
+    it('records each step of a request and answers "show audit for today"', async () => {
+      llm.reply(toolCall('createDeal', { name: 'Acme renewal' }), text('Created *Acme renewal*.'));
+      await slack.mention('U1', 'create a deal for Acme renewal', 'C-TEAM');
+
+      const events = orchestrator.audit.query({ userId: 'U1' });
+      expect(events.map(e => e.type)).toEqual(['request', 'classification', 'tool_call', 'mutation', 'response']);
+      expect(events[2]).toMatchObject({ agent: 'hubspot', toolName: 'createDeal', outcome: 'ok', channelId: 'C-TEAM' });
+      expect(events[2].durationMs).toBeTypeOf('number');
+      expect(events[3].summary).toContain('Acme renewal');
+      expect(events[4].details).toEqual({ model: 'openai/scripted' });
+
+      const ts = await slack.mention('U1', 'show audit for today', 'C-TEAM');
+      expect(slack.thread('C-TEAM', ts)[0].text).toContain('tool_call <@U1> hubspot.createDeal');
+
+      // Without a permissions file only listed admins can read it
+      const refused = await slack.mention('U2', 'show audit for today', 'C-TEAM');
+      expect(slack.thread('C-TEAM', refused)[0].text).toBe('Sorry, only admins can see the audit log. Ask one to add you to ADMIN_USER_IDS if you need access.');
+
+      // The audit channel gets the request/response lines only
+      await vi.waitFor(() => {
+        const posted = slack.messages.filter(m => m.channel === 'C-AUDIT').map(m => m.text);
+        expect(posted.some(t => t.includes('📥 *Request*'))).toBe(true);
+        expect(posted.some(t => t.includes('📤 *Response*'))).toBe(true);
+        expect(posted.some(t => t.includes('createDeal'))).toBe(false);
+      });
+    });
+  });
+  describe('LLM usage', () => {
+    // Rebuild the bot with a price for the scripted model ($0.02 a step) and a refusing budget
+    beforeEach(() => {
+      slack = new FakeSlack();
+      const orchestrator = new Orchestrator(db, {
+        llm: { provider: 'openai', model: 'scripted', languageModel: llm.model },
+        usage: {
+          prices: { scripted: { input: 1000, output: 1000 } },
+          budgets: { user: { daily: 0.05 }, onExceeded: 'refuse' }
+        },
+        admins: ['U2']
+      });
+      new SlackMessageHandler(slack.app, orchestrator).setup();
+    });
+
+    it('records each call for the user and agent and refuses once the budget is spent', async () => {
+      llm.reply(toolCall('createDeal', { name: 'Acme renewal' }), text('Created *Acme renewal*.'));
+      await slack.mention('U1', 'create a deal for Acme renewal', 'C-TEAM');
+
+      const rows = db.prepare('SELECT agent, user_id, purpose, input_tokens, cost_usd FROM llm_usage').all();
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ agent: 'hubspot', user_id: 'U1', purpose: 'chat', input_tokens: 20 });
+
+      llm.reply(text('Here are your deals.'));
+      await slack.mention('U1', 'show my deals', 'C-TEAM');
+
+      const ts = await slack.mention('U1', 'show my deals again', 'C-TEAM');
+      expect(slack.thread('C-TEAM', ts)[0].text).toContain('your daily AI budget is used up ($0.06 of $0.05)');
+      expect(llm.pending).toBe(0);
+
+      // Someone else still has budget
+      const report = await slack.mention('U2', 'show usage for today by user', 'C-TEAM');
+      expect(slack.thread('C-TEAM', report)[0].text).toContain('AI spend for today: *$0.06* across 2 calls');
+      expect(slack.thread('C-TEAM', report)[0].text).toContain('• <@U1> — $0.06 (2 calls');
+    });
+  });
+
+  describe('workflows', () => {
+    // Rebuild the bot with a closed-won workflow whose cards post in the thread that fired it
+    beforeEach(() => {
+      slack = new FakeSlack();
+      const orchestrator = new Orchestrator(db, {
+        llm: { provider: 'openai', model: 'scripted', languageModel: llm.model },
+        workflows: {
+          workflows: [{ name: 'case-study', trigger: 'hubspot.deal_closed_won', steps: [{ action: 'content.propose_topic' }] }]
+        }
+      });
+      new SlackMessageHandler(slack.app, orchestrator).setup();
+      new WorkflowCardHandler(slack.app, orchestrator.workflows).setup();
+    });
+
+    it('proposes a case-study topic when a deal closes and queues it once approved', async () => {
+      llm.reply(
+        toolCall('createDeal', { name: 'Acme renewal', stage: 'closedwon' }),
+        text('Created *Acme renewal* as closed won.')
+      );
+      const ts = await slack.mention('U1', 'create a deal for Acme renewal', 'C-TEAM');
+
+      const card = await vi.waitFor(() => {
+        const posted = slack.thread('C-TEAM', ts).find(message => message.text.startsWith('Workflow case-study'));
+        if (!posted) throw new Error('No workflow card yet');
+        return posted;
+      });
+      expect(card.text).toBe('Workflow case-study: Deal Acme renewal moved to closed won (Waiting for approval)');
+      expect(new ResearchStorage(db).listTopics()).toHaveLength(0);
+
+      const button = (card.blocks as any[]).find(block => block.type === 'actions').elements[0];
+      await slack.click('workflow_step_approve', button.value, card, 'U2');
+
+      expect(new ResearchStorage(db).listTopics().map(topic => topic.topic)).toEqual(['Case study: Acme renewal']);
+      expect(card.text).toBe('Workflow case-study: Deal Acme renewal moved to closed won (Done)');
+      expect((card.blocks as any[]).some(block => block.type === 'actions')).toBe(false);
+
+      const list = await slack.mention('U1', 'show workflows', 'C-TEAM');
+      expect(slack.thread('C-TEAM', list)[0].text).toContain('*case-study* — Deal Acme renewal moved to closed won (done, 1/1 steps done)');
+    });
+  });
+});
@@ -21,7 +21,11 @@ function runMigrations(database: Database.Database): void {
     { name: '004_create_topics', sql: `CREATE TABLE topics (id TEXT PRIMARY KEY, topic TEXT NOT NULL, notes TEXT, created_at TEXT NOT NULL);` },
     { name: '005_create_research_items', sql: `CREATE TABLE research_items (id TEXT PRIMARY KEY, date TEXT NOT NULL, source TEXT NOT NULL, url TEXT NOT NULL, title TEXT NOT NULL, summary TEXT NOT NULL, tags TEXT NOT NULL DEFAULT '[]', used_in_post INTEGER NOT NULL DEFAULT 0);` },
     { name: '006_create_signal_log', sql: `CREATE TABLE signal_log (id TEXT PRIMARY KEY, date TEXT NOT NULL, source TEXT NOT NULL, observation TEXT NOT NULL, potential_angle TEXT NOT NULL, frequency INTEGER NOT NULL DEFAULT 1);` },
-    { name: '007_create_hubspot_cache', sql: `CREATE TABLE hubspot_cache (id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, hubspot_id TEXT NOT NULL, data TEXT NOT NULL, cached_at TEXT NOT NULL, UNIQUE(entity_type, hubspot_id));` }
+    { name: '007_create_hubspot_cache', sql: `CREATE TABLE hubspot_cache (id TEXT PRIMARY KEY, entity_type TEXT NOT NULL, hubspot_id TEXT NOT NULL, data TEXT NOT NULL, cached_at TEXT NOT NULL, UNIQUE(entity_type, hubspot_id));` },
+    { name: '013_create_audit_events', sql: `CREATE TABLE audit_events (id TEXT PRIMARY KEY, created_at TEXT NOT NULL, type TEXT NOT NULL, user_id TEXT, channel_id TEXT, thread_ts TEXT, agent TEXT, tool_name TEXT, duration_ms INTEGER, outcome TEXT NOT NULL, summary TEXT NOT NULL, details TEXT);` },
+    { name: '014_create_llm_usage', sql: `CREATE TABLE llm_usage (id TEXT PRIMARY KEY, created_at TEXT NOT NULL, provider TEXT NOT NULL, model TEXT NOT NULL, purpose TEXT NOT NULL, agent TEXT, user_id TEXT, input_tokens INTEGER NOT NULL, output_tokens INTEGER NOT NULL, cost_usd REAL NOT NULL);` },
+    { name: '015_create_workflow_runs', sql: `CREATE TABLE workflow_runs (id TEXT PRIMARY KEY, workflow TEXT NOT NULL, subject TEXT NOT NULL, summary TEXT NOT NULL, status TEXT NOT NULL, steps TEXT NOT NULL, user_id TEXT, channel_id TEXT, thread_ts TEXT, message_ts TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, UNIQUE (workflow, subject));` },
+    { name: '016_create_draft_sources', sql: `CREATE TABLE draft_sources (draft_id TEXT NOT NULL, research_id TEXT NOT NULL, created_at TEXT NOT NULL, PRIMARY KEY (draft_id, research_id));` }
   ];
 
   for (const migration of migrations) {
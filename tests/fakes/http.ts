@@ -0,0 +1,77 @@
+// Tiny in-process JSON HTTP server used by the fake backends
+
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+export interface FakeResponse {
+  status?: number; // Default 200
+  body?: unknown;
+}
+
+export interface FakeServer {
+  url: string;
+  requests: FakeRequest[]; // Every request received, in order
+  close(): Promise<void>;
+}
+
+const readBody = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+// Start a server on a random localhost port
+export const startJsonServer = async (
+  handler: (req: FakeRequest) => FakeResponse | Promise<FakeResponse>
+): Promise<FakeServer> => {
+  const requests: FakeRequest[] = [];
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const request: FakeRequest = {
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      headers: req.headers,
+      body: await readBody(req)
+    };
+    requests.push(request);
+
+    try {
+      const { status = 200, body } = await handler(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(status === 204 || body === undefined ? undefined : JSON.stringify(body));
+    } catch (error) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ message: error instanceof Error ? error.message : String(error) }));
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+};
@@ -0,0 +1,129 @@
+// Fake HubSpot CRM v3 REST API - enough for HubSpotApiClient
+
+import { startJsonServer, FakeRequest, FakeResponse, FakeServer } from './http.js';
+
+export type HubSpotObjectType = 'contacts' | 'companies' | 'deals' | 'tasks' | 'notes';
+
+export interface FakeHubSpotObject {
+  id: string;
+  properties: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FakeHubSpotAssociation {
+  fromType: string;
+  fromId: string;
+  toType: string;
+  toId: string;
+  associationType: string;
+}
+
+export interface FakeHubSpot extends FakeServer {
+  objects: Record<HubSpotObjectType, Map<string, FakeHubSpotObject>>;
+  associations: FakeHubSpotAssociation[];
+  seed(type: HubSpotObjectType, properties: Record<string, string>): FakeHubSpotObject;
+}
+
+const OBJECT_TYPES: HubSpotObjectType[] = ['contacts', 'companies', 'deals', 'tasks', 'notes'];
+
+const DEFAULT_PIPELINE = {
+  id: 'default',
+  label: 'Sales Pipeline',
+  stages: [
+    { id: 'appointmentscheduled', label: 'Appointment Scheduled', displayOrder: 0 },
+    { id: 'qualifiedtobuy', label: 'Qualified To Buy', displayOrder: 1 },
+    { id: 'presentationscheduled', label: 'Presentation Scheduled', displayOrder: 2 },
+    { id: 'decisionmakerboughtin', label: 'Decision Maker Bought-In', displayOrder: 3 },
+    { id: 'contractsent', label: 'Contract Sent', displayOrder: 4 },
+    { id: 'closedwon', label: 'Closed Won', displayOrder: 5 },
+    { id: 'closedlost', label: 'Closed Lost', displayOrder: 6 }
+  ]
+};
+
+export const startFakeHubSpot = async (): Promise<FakeHubSpot> => {
+  const objects = Object.fromEntries(
+    OBJECT_TYPES.map(type => [type, new Map<string, FakeHubSpotObject>()])
+  ) as FakeHubSpot['objects'];
+  const associations: FakeHubSpotAssociation[] = [];
+  let nextId = 1001;
+
+  const create = (type: HubSpotObjectType, properties: Record<string, string>): FakeHubSpotObject => {
+    const now = new Date().toISOString();
+    const object = { id: String(nextId++), properties: { ...properties }, createdAt: now, updatedAt: now };
+    objects[type].set(object.id, object);
+    return object;
+  };
+
+  const all = (type: HubSpotObjectType) => [...objects[type].values()];
+
+  const handle = (req: FakeRequest): FakeResponse => {
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      return { status: 401, body: { message: 'Authentication credentials not found' } };
+    }
+
+    if (req.method === 'GET' && req.path === '/crm/v3/pipelines/deals') {
+      return { body: { results: [DEFAULT_PIPELINE] } };
+    }
+
+    const segments = req.path.split('/').filter(Boolean); // crm, v3, objects, type, ...
+    const type = segments[3] as HubSpotObjectType;
+    if (segments[0] !== 'crm' || segments[2] !== 'objects' || !OBJECT_TYPES.includes(type)) {
+      return { status: 404, body: { message: `Unknown endpoint ${req.method} ${req.path}` } };
+    }
+
+    const [, , , , idOrAction, , toType, toId, associationType] = segments;
+
+    // /crm/v3/objects/{type}
+    if (!idOrAction) {
+      if (req.method === 'POST') {
+        return { status: 201, body: create(type, req.body?.properties || {}) };
+      }
+      const limit = parseInt(req.query.get('limit') || '100');
+      return { body: { results: all(type).slice(0, limit) } };
+    }
+
+    // /crm/v3/objects/{type}/search
+    if (idOrAction === 'search' && req.method === 'POST') {
+      const query = String(req.body?.query || '').toLowerCase();
+      const results = all(type).filter(o =>
+        !query || Object.values(o.properties).some(v => v?.toLowerCase().includes(query))
+      );
+      return { body: { total: results.length, results: results.slice(0, req.body?.limit || 10) } };
+    }
+
+    const object = objects[type].get(idOrAction);
+    if (!object) {
+      return { status: 404, body: { message: `${type} ${idOrAction} not found` } };
+    }
+
+    // /crm/v3/objects/{type}/{id}/associations/{toType}/{toId}/{associationType}
+    if (toType && req.method === 'PUT') {
+      associations.push({ fromType: type, fromId: object.id, toType, toId, associationType });
+      return { body: {} };
+    }
+
+    switch (req.method) {
+      case 'GET':
+        return { body: object };
+      case 'PATCH':
+        object.properties = { ...object.properties, ...(req.body?.properties || {}) };
+        object.updatedAt = new Date().toISOString();
+        return { body: object };
+      case 'DELETE':
+        objects[type].delete(object.id);
+        return { status: 204 };
+      default:
+        return { status: 405, body: { message: `Method ${req.method} not allowed` } };
+    }
+  };
+
+  const server = await startJsonServer(handle);
+
+  return {
+    ...server,
+    objects,
+    associations,
+    seed: create
+  };
+};
@@ -0,0 +1,59 @@
+// Offline fakes for end-to-end tests: HubSpot, Linear, Tavily, Slack and a scripted LLM
+
+import { startFakeHubSpot, FakeHubSpot } from './hubspot.js';
+import { startFakeLinear, FakeLinear } from './linear.js';
+import { startFakeTavily, FakeTavily } from './tavily.js';
+
+export interface FakeBackends {
+  hubspot: FakeHubSpot;
+  linear: FakeLinear;
+  tavily: FakeTavily;
+  close(): Promise<void>; // Stops the servers and restores the environment
+}
+
+// Env vars the agents read when they construct their API clients
+const FAKE_ENV_KEYS = [
+  'HUBSPOT_ACCESS_TOKEN',
+  'HUBSPOT_CLIENT_ID',
+  'HUBSPOT_API_BASE_URL',
+  'LINEAR_API_KEY',
+  'LINEAR_API_URL',
+  'TAVILY_API_KEY',
+  'TAVILY_API_BASE_URL'
+];
+
+// Start all fake servers and point the agents at them.
+// Call before constructing the Orchestrator - agents read env in their constructors.
+export const startFakeBackends = async (): Promise<FakeBackends> => {
+  const [hubspot, linear, tavily] = await Promise.all([
+    startFakeHubSpot(),
+    startFakeLinear(),
+    startFakeTavily()
+  ]);
+
+  const saved = Object.fromEntries(FAKE_ENV_KEYS.map(key => [key, process.env[key]]));
+
+  process.env.HUBSPOT_ACCESS_TOKEN = 'fake-hubspot-token';
+  delete process.env.HUBSPOT_CLIENT_ID;
+  process.env.HUBSPOT_API_BASE_URL = hubspot.url;
+  process.env.LINEAR_API_KEY = 'fake-linear-key';
+  process.env.LINEAR_API_URL = `${linear.url}/graphql`;
+  process.env.TAVILY_API_KEY = 'fake-tavily-key';
+  process.env.TAVILY_API_BASE_URL = tavily.url;
+
+  return {
+    hubspot,
+    linear,
+    tavily,
+    close: async () => {
+      for (const [key, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+      await Promise.all([hubspot.close(), linear.close(), tavily.close()]);
+    }
+  };
+};
+
+export { ScriptedLLM, text, toolCall } from './llm.js';
+export { FakeSlack } from './slack.js';
@@ -0,0 +1,244 @@
+// Fake Linear GraphQL API - resolves the operations LinearApiClient sends
+
+import { startJsonServer, FakeRequest, FakeResponse, FakeServer } from './http.js';
+
+export interface FakeLinearIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string;
+  priority: number;
+  url: string;
+  stateId: string;
+  assigneeId?: string;
+  projectId?: string;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt?: string;
+}
+
+export interface FakeLinearComment {
+  id: string;
+  issueId: string;
+  body: string;
+}
+
+export interface FakeLinearUser {
+  id: string;
+  name: string;
+  email: string;
+  displayName: string;
+}
+
+export interface FakeLinear extends FakeServer {
+  issues: Map<string, FakeLinearIssue>;
+  comments: FakeLinearComment[];
+  viewers: Map<string, FakeLinearUser>; // API key -> user; unknown keys act as FAKE_LINEAR_VIEWER
+  seedIssue(input: { title: string; description?: string; priority?: number; stateId?: string; assigneeId?: string }): FakeLinearIssue;
+}
+
+export const FAKE_LINEAR_TEAM = { id: 'team-eng', name: 'Engineering', key: 'ENG', description: 'Product engineering' };
+
+export const FAKE_LINEAR_VIEWER: FakeLinearUser = {
+  id: 'user-1',
+  name: 'Alex Rivera',
+  email: 'alex@example.com',
+  displayName: 'alex'
+};
+
+const STATES = [
+  { id: 'state-backlog', name: 'Backlog', type: 'backlog', color: '#bec2c8', position: 0 },
+  { id: 'state-todo', name: 'Todo', type: 'unstarted', color: '#e2e2e2', position: 1 },
+  { id: 'state-progress', name: 'In Progress', type: 'started', color: '#f2c94c', position: 2 },
+  { id: 'state-done', name: 'Done', type: 'completed', color: '#5e6ad2', position: 3 }
+];
+
+const PROJECT = {
+  id: 'project-1',
+  name: 'Onboarding revamp',
+  description: 'Make the first week great',
+  state: 'started',
+  progress: 0.4,
+  targetDate: '2026-12-01',
+  teams: { nodes: [FAKE_LINEAR_TEAM] }
+};
+
+// Name of the first field in the operation, e.g. "issueCreate"
+const rootField = (query: string): string | null => {
+  const match = query.match(/^\s*(?:query|mutation)?\s*(?:\([^)]*\))?\s*\{\s*(\w+)/);
+  return match ? match[1] : null;
+};
+
+export const startFakeLinear = async (): Promise<FakeLinear> => {
+  const issues = new Map<string, FakeLinearIssue>();
+  const comments: FakeLinearComment[] = [];
+  const viewers = new Map<string, FakeLinearUser>();
+  let nextNumber = 1;
+
+  const findUser = (id?: string): FakeLinearUser | null =>
+    [FAKE_LINEAR_VIEWER, ...viewers.values()].find(u => u.id === id) || null;
+
+  const createIssue = (input: Record<string, any>): FakeLinearIssue => {
+    const number = nextNumber++;
+    const now = new Date().toISOString();
+    const issue: FakeLinearIssue = {
+      id: `issue-${number}`,
+      identifier: `${FAKE_LINEAR_TEAM.key}-${number}`,
+      title: input.title,
+      description: input.description,
+      priority: input.priority ?? 0,
+      url: `https://linear.app/fake/issue/${FAKE_LINEAR_TEAM.key}-${number}`,
+      stateId: input.stateId || 'state-todo',
+      assigneeId: input.assigneeId,
+      projectId: input.projectId,
+      createdAt: now,
+      updatedAt: now
+    };
+    issues.set(issue.id, issue);
+    return issue;
+  };
+
+  const findIssue = (idOrIdentifier: string): FakeLinearIssue | undefined =>
+    [...issues.values()].find(i => i.id === idOrIdentifier || i.identifier === idOrIdentifier);
+
+  // Shape an issue the way the GraphQL API returns it
+  const toNode = (issue: FakeLinearIssue) => ({
+    id: issue.id,
+    identifier: issue.identifier,
+    title: issue.title,
+    description: issue.description,
+    priority: issue.priority,
+    url: issue.url,
+    state: STATES.find(s => s.id === issue.stateId),
+    assignee: findUser(issue.assigneeId),
+    project: issue.projectId === PROJECT.id ? { id: PROJECT.id, name: PROJECT.name } : null,
+    team: FAKE_LINEAR_TEAM,
+    labels: { nodes: [] },
+    createdAt: issue.createdAt,
+    updatedAt: issue.updatedAt
+  });
+
+  // Archived issues stay in the map but drop out of lists and search
+  const allIssues = () => [...issues.values()].filter(i => !i.archivedAt);
+
+  const resolve = (field: string, query: string, variables: Record<string, any>, viewer: FakeLinearUser): unknown => {
+    switch (field) {
+      case 'viewer':
+        return {
+          ...viewer,
+          assignedIssues: {
+            nodes: allIssues()
+              .filter(i => i.assigneeId === viewer.id)
+              .filter(i => !['completed', 'canceled'].includes(STATES.find(s => s.id === i.stateId)!.type))
+              .slice(0, variables.first || 50)
+              .map(toNode)
+          }
+        };
+
+      case 'teams':
+        return { nodes: [FAKE_LINEAR_TEAM] };
+
+      case 'team':
+        if (variables.teamId !== FAKE_LINEAR_TEAM.id) {
+          throw new Error(`Entity not found: Team ${variables.teamId}`);
+        }
+        return {
+          ...FAKE_LINEAR_TEAM,
+          states: { nodes: STATES },
+          members: { nodes: [FAKE_LINEAR_VIEWER, ...viewers.values()] },
+          activeCycle: {
+            id: 'cycle-1',
+            number: 1,
+            name: 'Cycle 1',
+            startsAt: '2026-10-12T00:00:00.000Z',
+            endsAt: '2026-10-26T00:00:00.000Z',
+            progress: 0.5,
+            issues: { nodes: allIssues().map(toNode) }
+          }
+        };
+
+      case 'issueCreate':
+        return { success: true, issue: toNode(createIssue(variables.input)) };
+
+      case 'issueUpdate': {
+        const issue = findIssue(variables.id);
+        if (!issue) throw new Error(`Entity not found: Issue ${variables.id}`);
+        Object.assign(issue, variables.input, { updatedAt: new Date().toISOString() });
+        return { success: true, issue: toNode(issue) };
+      }
+
+      case 'issueSearch': {
+        const term = String(variables.query || '').toLowerCase();
+        return {
+          nodes: allIssues()
+            .filter(i => `${i.identifier} ${i.title} ${i.description || ''}`.toLowerCase().includes(term))
+            .slice(0, variables.first || 20)
+            .map(toNode)
+        };
+      }
+
+      case 'issue': {
+        const issue = findIssue(variables.id);
+        if (!issue) throw new Error(`Entity not found: Issue ${variables.id}`);
+        return toNode(issue);
+      }
+
+      case 'commentCreate': {
+        const issue = findIssue(variables.input.issueId);
+        if (!issue) throw new Error(`Entity not found: Issue ${variables.input.issueId}`);
+        const comment = { id: `comment-${comments.length + 1}`, issueId: issue.id, body: variables.input.body };
+        comments.push(comment);
+        return { success: true, comment: { id: comment.id, body: comment.body } };
+      }
+
+      case 'issueArchive': {
+        const issue = findIssue(variables.id);
+        if (!issue) throw new Error(`Entity not found: Issue ${variables.id}`);
+        issue.archivedAt = new Date().toISOString();
+        return { success: true };
+      }
+
+      case 'commentDelete': {
+        const index = comments.findIndex(c => c.id === variables.id);
+        if (index < 0) throw new Error(`Entity not found: Comment ${variables.id}`);
+        comments.splice(index, 1);
+        return { success: true };
+      }
+
+      case 'projects':
+        return { nodes: [PROJECT] };
+
+      default:
+        throw new Error(`Fake Linear does not support "${field}" (query: ${query.trim().slice(0, 80)})`);
+    }
+  };
+
+  const handle = (req: FakeRequest): FakeResponse => {
+    if (!req.headers.authorization) {
+      return { body: { errors: [{ message: 'Authentication required, not authenticated' }] } };
+    }
+
+    const query = String(req.body?.query || '');
+    const field = rootField(query);
+    if (!field) {
+      return { status: 400, body: { errors: [{ message: 'Could not parse query' }] } };
+    }
+
+    try {
+      const viewer = viewers.get(String(req.headers.authorization)) || FAKE_LINEAR_VIEWER;
+      return { body: { data: { [field]: resolve(field, query, req.body?.variables || {}, viewer) } } };
+    } catch (error) {
+      return { body: { errors: [{ message: error instanceof Error ? error.message : String(error) }] } };
+    }
+  };
+
+  const server = await startJsonServer(handle);
+
+  return {
+    ...server,
+    issues,
+    comments,
+    viewers,
+    seedIssue: input => createIssue({ ...input, assigneeId: input.assigneeId ?? FAKE_LINEAR_VIEWER.id })
+  };
+};
@@ -0,0 +1,168 @@
+// Scripted fake LLM - plug into LLMConfig.languageModel for deterministic runs
+
+import { MockLanguageModelV3 } from 'ai/test';
+
+type CallOptions = Parameters<MockLanguageModelV3['doGenerate']>[0];
+
+export type ScriptedReply =
+  | { text: string }
+  | { toolCalls: Array<{ toolName: string; input: Record<string, unknown> }> };
+
+// What the model was asked, flattened for matching and assertions
+export interface ScriptedCall {
+  system: string;
+  userText: string;                                      // Latest user message
+  toolNames: string[];                                   // Tools offered this call
+  toolResults: Array<{ toolName: string; output: unknown }>; // Results since the last assistant turn
+}
+
+interface ScriptRule {
+  when: (call: ScriptedCall) => boolean;
+  reply: ScriptedReply | ((call: ScriptedCall) => ScriptedReply);
+}
+
+export const text = (value: string): ScriptedReply => ({ text: value });
+
+export const toolCall = (toolName: string, input: Record<string, unknown> = {}): ScriptedReply => ({
+  toolCalls: [{ toolName, input }]
+});
+
+const USAGE = {
+  inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 10, text: 10, reasoning: undefined }
+};
+
+const describeCall = (options: CallOptions): ScriptedCall => {
+  let system = '';
+  let userText = '';
+  let toolResults: ScriptedCall['toolResults'] = [];
+
+  for (const message of options.prompt) {
+    if (message.role === 'system') {
+      system = message.content;
+    } else if (message.role === 'user') {
+      userText = message.content.map(part => (part.type === 'text' ? part.text : '')).join('');
+      toolResults = [];
+    } else if (message.role === 'assistant') {
+      toolResults = [];
+    } else if (message.role === 'tool') {
+      for (const part of message.content) {
+        if (part.type === 'tool-result') {
+          const output = part.output as { type: string; value?: unknown };
+          toolResults.push({ toolName: part.toolName, output: output.value });
+        }
+      }
+    }
+  }
+
+  return {
+    system,
+    userText,
+    toolNames: (options.tools || []).map(t => t.name),
+    toolResults
+  };
+};
+
+export class ScriptedLLM {
+  readonly calls: ScriptedCall[] = [];
+  readonly model: MockLanguageModelV3;
+  private rules: ScriptRule[] = [];
+  private queue: ScriptedReply[] = [];
+  private toolCallCount = 0;
+
+  constructor() {
+    this.model = new MockLanguageModelV3({
+      provider: 'scripted',
+      modelId: 'scripted-llm',
+      doGenerate: async options => {
+        const reply = this.next(options);
+        return {
+          content: this.toContent(reply),
+          finishReason: { unified: 'toolCalls' in reply ? 'tool-calls' : 'stop', raw: undefined },
+          usage: USAGE,
+          warnings: []
+        };
+      },
+      doStream: async options => {
+        const reply = this.next(options);
+        const parts: any[] = [{ type: 'stream-start', warnings: [] }];
+
+        if ('text' in reply) {
+          parts.push({ type: 'text-start', id: 'text-1' });
+          // Stream word by word so consumers see several deltas
+          for (const word of reply.text.match(/\S+\s*/g) || []) {
+            parts.push({ type: 'text-delta', id: 'text-1', delta: word });
+          }
+          parts.push({ type: 'text-end', id: 'text-1' });
+        } else {
+          parts.push(...this.toContent(reply));
+        }
+
+        parts.push({
+          type: 'finish',
+          finishReason: { unified: 'toolCalls' in reply ? 'tool-calls' : 'stop', raw: undefined },
+          usage: USAGE
+        });
+
+        return {
+          stream: new ReadableStream({
+            start(controller) {
+              for (const part of parts) controller.enqueue(part);
+              controller.close();
+            }
+          })
+        };
+      }
+    });
+  }
+
+  // Always answer calls matching `when` (checked before the queue)
+  on(when: ScriptRule['when'], reply: ScriptRule['reply']): this {
+    this.rules.push({ when, reply });
+    return this;
+  }
+
+  // Answer calls whose system prompt contains `marker` - e.g. the classifier
+  onSystem(marker: string, reply: ScriptRule['reply']): this {
+    return this.on(call => call.system.includes(marker), reply);
+  }
+
+  // Queue replies for the next unmatched calls, in order
+  reply(...replies: ScriptedReply[]): this {
+    this.queue.push(...replies);
+    return this;
+  }
+
+  // Replies queued but never consumed
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  private next(options: CallOptions): ScriptedReply {
+    const call = describeCall(options);
+    this.calls.push(call);
+
+    const rule = this.rules.find(r => r.when(call));
+    if (rule) {
+      return typeof rule.reply === 'function' ? rule.reply(call) : rule.reply;
+    }
+
+    const reply = this.queue.shift();
+    if (!reply) {
+      throw new Error(`ScriptedLLM has no reply for: "${call.userText.slice(0, 80)}"`);
+    }
+    return reply;
+  }
+
+  private toContent(reply: ScriptedReply): any[] {
+    if ('text' in reply) {
+      return [{ type: 'text', text: reply.text }];
+    }
+    return reply.toolCalls.map(call => ({
+      type: 'tool-call',
+      toolCallId: `call-${++this.toolCallCount}`,
+      toolName: call.toolName,
+      input: JSON.stringify(call.input)
+    }));
+  }
+}
@@ -0,0 +1,108 @@
+// Fake Bolt app - records posted messages and lets tests deliver events
+
+export interface FakeSlackMessage {
+  channel: string;
+  ts: string;
+  thread_ts?: string;
+  text: string;
+  blocks?: unknown[];
+  edits: number; // How many times chat.update touched this message
+}
+
+type Listener = (args: any) => Promise<void>;
+
+export class FakeSlack {
+  readonly messages: FakeSlackMessage[] = [];
+  private messageListeners: Listener[] = [];
+  private eventListeners: Map<string, Listener[]> = new Map();
+  private actionListeners: Array<{ actionId: string; listener: Listener }> = [];
+  private clock = 1700000000;
+
+  readonly client = {
+    chat: {
+      postMessage: async (args: { channel: string; thread_ts?: string; text: string; blocks?: unknown[] }) => {
+        const message: FakeSlackMessage = {
+          channel: args.channel,
+          ts: this.nextTs(),
+          thread_ts: args.thread_ts,
+          text: args.text,
+          blocks: args.blocks,
+          edits: 0
+        };
+        this.messages.push(message);
+        return { ok: true, channel: args.channel, ts: message.ts };
+      },
+      update: async (args: { channel: string; ts: string; text: string; blocks?: unknown[] }) => {
+        const message = this.messages.find(m => m.channel === args.channel && m.ts === args.ts);
+        if (!message) throw new Error(`message_not_found: ${args.ts}`);
+        message.text = args.text;
+        message.blocks = args.blocks ?? message.blocks;
+        message.edits++;
+        return { ok: true, channel: args.channel, ts: args.ts };
+      }
+    },
+    views: {
+      open: async () => ({ ok: true })
+    }
+  };
+
+  // Stand-in for the Bolt App passed to handlers
+  readonly app = {
+    client: this.client,
+    message: (listener: Listener) => {
+      this.messageListeners.push(listener);
+    },
+    event: (name: string, listener: Listener) => {
+      this.eventListeners.set(name, [...(this.eventListeners.get(name) || []), listener]);
+    },
+    action: (constraint: string | { action_id: string }, listener: Listener) => {
+      const actionId = typeof constraint === 'string' ? constraint : constraint.action_id;
+      this.actionListeners.push({ actionId, listener });
+    },
+    view: () => {}
+  } as any;
+
+  // Deliver a DM from a user; resolves once the bot has replied
+  async sendDM(user: string, text: string, channel: string = `D-${user}`): Promise<string> {
+    const ts = this.nextTs();
+    const message = { type: 'message', channel, channel_type: 'im', user, text, ts };
+    for (const listener of this.messageListeners) {
+      await listener({ message, client: this.client, say: async () => {} });
+    }
+    return ts;
+  }
+
+  // Deliver an @mention in a channel (starts a thread when threadTs is omitted)
+  async mention(user: string, text: string, channel: string, threadTs?: string): Promise<string> {
+    const ts = this.nextTs();
+    const event = { type: 'app_mention', channel, user, text: `<@UBOT> ${text}`, ts, thread_ts: threadTs };
+    for (const listener of this.eventListeners.get('app_mention') || []) {
+      await listener({ event, client: this.client, say: async () => {} });
+    }
+    return threadTs || ts;
+  }
+
+  // Click a button on a posted message
+  async click(actionId: string, value: string, message: FakeSlackMessage, user: string = 'U-TEST'): Promise<void> {
+    const body = {
+      type: 'block_actions',
+      user: { id: user },
+      channel: { id: message.channel },
+      message: { ts: message.ts, text: message.text, blocks: message.blocks },
+      actions: [{ action_id: actionId, value }],
+      trigger_id: 'trigger-1'
+    };
+    for (const { listener } of this.actionListeners.filter(a => a.actionId === actionId)) {
+      await listener({ ack: async () => {}, body, action: body.actions[0], client: this.client });
+    }
+  }
+
+  // Bot messages in a thread, oldest first
+  thread(channel: string, threadTs: string): FakeSlackMessage[] {
+    return this.messages.filter(m => m.channel === channel && m.thread_ts === threadTs);
+  }
+
+  private nextTs(): string {
+    return `${this.clock++}.000100`;
+  }
+}
@@ -0,0 +1,61 @@
+// Fake Tavily search/extract API - serves ContentAgent.webSearch and fetchUrl
+
+import { startJsonServer, FakeRequest, FakeResponse, FakeServer } from './http.js';
+
+export interface FakeSearchResult {
+  title: string;
+  url: string;
+  content: string;
+  score: number;
+}
+
+export interface FakeTavily extends FakeServer {
+  results: FakeSearchResult[];                // Returned for every search, best match first
+  pages: Map<string, string>;                 // url -> raw_content for extract
+}
+
+export const startFakeTavily = async (): Promise<FakeTavily> => {
+  const results: FakeSearchResult[] = [];
+  const pages = new Map<string, string>();
+
+  const handle = (req: FakeRequest): FakeResponse => {
+    if (req.method !== 'POST') {
+      return { status: 405, body: { detail: 'Method not allowed' } };
+    }
+    if (!req.body?.api_key) {
+      return { status: 401, body: { detail: 'Unauthorized: missing or invalid API key.' } };
+    }
+
+    if (req.path === '/search') {
+      const query = String(req.body.query || '');
+      const matches = results.length > 0 ? results : [{
+        title: `Result for ${query}`,
+        url: `https://example.com/search?q=${encodeURIComponent(query)}`,
+        content: `Background reading about ${query}.`,
+        score: 0.5
+      }];
+      return {
+        body: {
+          query,
+          answer: matches[0].content,
+          results: matches.slice(0, req.body.max_results || 5)
+        }
+      };
+    }
+
+    if (req.path === '/extract') {
+      const urls: string[] = req.body.urls || [];
+      return {
+        body: {
+          results: urls.filter(url => pages.has(url)).map(url => ({ url, raw_content: pages.get(url) })),
+          failed_results: urls.filter(url => !pages.has(url)).map(url => ({ url, error: 'Not found' }))
+        }
+      };
+    }
+
+    return { status: 404, body: { detail: `Unknown endpoint ${req.path}` } };
+  };
+
+  const server = await startJsonServer(handle);
+  return { ...server, results, pages };
+};
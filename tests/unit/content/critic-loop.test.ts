@@ -0,0 +1,120 @@
+// Unit tests for the critic-revise loop: scored reviews, revisions and keeping the best version
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { DraftStorage } from '../../../src/db/drafts.js';
+import { LLMClient } from '../../../src/shared/llm.js';
+import { RubricScores } from '../../../src/shared/types.js';
+import { CriticLoop } from '../../../src/agents/content/critic-loop.js';
+import { ContentAgent } from '../../../src/agents/content/index.js';
+import { formatCheckpointReport } from '../../../src/agents/content/checkpoint.js';
+import { ScriptedLLM, text } from '../../fakes/index.js';
+
+const scored = (overall: number, critique: string) => ({
+  scores: { hook: overall, value: overall, voice: overall, structure: overall, cta: overall } as RubricScores,
+  critique
+});
+
+describe('CriticLoop', () => {
+  let db: Database.Database;
+  let testDbPath: string;
+  let drafts: DraftStorage;
+  let llm: ScriptedLLM;
+  let client: LLMClient;
+  let reviews: object[];
+  let revisions: object[];
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-critic-loop-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    drafts = new DraftStorage(db);
+    llm = new ScriptedLLM();
+    client = new LLMClient({ provider: 'openai', model: 'scripted', languageModel: llm.model });
+
+    // The critic and the writer each answer from their own script, in order
+    reviews = [];
+    revisions = [];
+    llm.onSystem('content critic', () => text(JSON.stringify(reviews.shift())));
+    llm.onSystem('revising a LinkedIn draft', () => text(JSON.stringify(revisions.shift())));
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('revises until the score clears the threshold and keeps every round as a scored version', async () => {
+    const draft = drafts.create({ title: 'AI is hard', body: 'It is.', contentType: 'linkedin_post' });
+    reviews.push(scored(5, 'Weak hook.'), scored(8.5, 'Much sharper.'));
+    revisions.push({ title: 'Most AI projects fail before the model', body: 'They fail at the spreadsheet.', note: 'Sharper hook' });
+
+    const result = await new CriticLoop(db, client, { maxRounds: 3, threshold: 8 }).run(draft.id);
+
+    expect(result.thresholdMet).toBe(true);
+    expect(result.reviews.map(review => [review.version, review.overall])).toEqual([[1, 5], [2, 8.5]]);
+    expect(result.draft).toMatchObject({ title: 'Most AI projects fail before the model', status: 'pending' });
+    expect(drafts.listVersions(draft.id).map(version => [version.note, version.scores?.hook, version.critique])).toEqual([
+      ['Initial draft', 5, 'Weak hook.'],
+      ['Critic round 1: Sharper hook', 8.5, 'Much sharper.']
+    ]);
+    expect(llm.calls[1].userText).toContain('Weak hook.');
+  });
+
+  it('stops after the last round and restores the best-scoring version', async () => {
+    const draft = drafts.create({ title: 'AI is hard', body: 'It is.', contentType: 'linkedin_post' });
+    reviews.push(scored(6, 'Fine.'), scored(7, 'Better.'), scored(4, 'Lost the point.'));
+    revisions.push(
+      { title: 'Better title', body: 'Better body.', note: 'Tightened' },
+      { title: 'Worse title', body: 'Worse body.', note: 'Rewrote' }
+    );
+
+    const result = await new CriticLoop(db, client, { maxRounds: 2, threshold: 9 }).run(draft.id);
+
+    expect(result.thresholdMet).toBe(false);
+    expect(result.best).toMatchObject({ version: 2, overall: 7 });
+    expect(result.draft).toMatchObject({ title: 'Better title', body: 'Better body.' });
+    const latest = drafts.listVersions(draft.id).at(-1)!;
+    expect(latest).toMatchObject({ version: 4, note: 'Restored from version 2', critique: 'Better.' });
+  });
+
+  it('clamps scores to the 1-10 scale', async () => {
+    const draft = drafts.create({ title: 'AI is hard', body: 'It is.', contentType: 'linkedin_post' });
+    reviews.push({ scores: { hook: 12, value: 0, voice: 7, structure: 7, cta: 7 }, critique: 'Off the scale.' });
+
+    const review = await new CriticLoop(db, client).review(draft.id);
+
+    expect(review.scores).toEqual({ hook: 10, value: 1, voice: 7, structure: 7, cta: 7 });
+    expect(review.overall).toBe(6.4);
+  });
+
+  it('refines pending drafts at a checkpoint once, until someone edits them', async () => {
+    const draft = drafts.create({ title: 'AI is hard', body: 'It is.', contentType: 'linkedin_post' });
+    reviews.push(scored(9, 'Ready.'));
+    const agent = new ContentAgent(db, client);
+
+    const [checkpoint] = (await agent.runCheckpoint()).checkpoints;
+    expect(checkpoint).toMatchObject({ criticFeedback: ['Ready.'], rounds: 1, revised: false, needsHumanReview: true, scores: { hook: 9 } });
+
+    // Already reviewed: no model calls the second time
+    const calls = llm.calls.length;
+    const [again] = (await agent.runCheckpoint()).checkpoints;
+    expect(again).toMatchObject({ criticFeedback: ['Ready.'], rounds: 1 });
+    expect(llm.calls.length).toBe(calls);
+
+    drafts.update(draft.id, { body: 'It is, mostly.' });
+    reviews.push(scored(5, 'Weaker now.'), scored(8, 'Still good.'));
+    revisions.push({ title: 'AI is hard', body: 'It is, and here is why.', note: 'Added the why' });
+    const report = await agent.runCheckpoint();
+    expect(report.checkpoints[0]).toMatchObject({ criticFeedback: ['Still good.'], revised: true });
+    // The approval card already posted shows the old text
+    expect(formatCheckpointReport(report)).toContain('Approve it from the new card below');
+  });
+});
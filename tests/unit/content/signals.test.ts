@@ -0,0 +1,130 @@
+// Unit tests for merging and clustering content signals by embedding similarity
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { ResearchStorage } from '../../../src/db/research.js';
+import { SignalLog } from '../../../src/agents/content/signals.js';
+import { EmbeddingProvider, HashingEmbeddings, cosineSimilarity } from '../../../src/shared/embeddings.js';
+
+// Stands in for a real model: one dimension per concept, so synonyms land together
+const CONCEPTS: Record<string, string[]> = {
+  spreadsheets: ['spreadsheet', 'excel'],
+  frustration: ['hate', 'drowning', 'sick'],
+  hiring: ['hire', 'hiring', 'recruit']
+};
+
+class ConceptEmbeddings implements EmbeddingProvider {
+  readonly id = 'concepts';
+  readonly threshold = 0.7;
+  calls: string[][] = [];
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+    return texts.map(text => Object.values(CONCEPTS).map(words =>
+      words.some(word => text.toLowerCase().includes(word)) ? 1 : 0
+    ));
+  }
+}
+
+describe('SignalLog', () => {
+  let db: Database.Database;
+  let testDbPath: string;
+  let storage: ResearchStorage;
+  let embeddings: ConceptEmbeddings;
+  let signals: SignalLog;
+
+  const record = (observation: string, potentialAngle = `Angle for ${observation}`) =>
+    signals.record({ source: 'reddit', observation, potentialAngle });
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-signals-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    storage = new ResearchStorage(db);
+    embeddings = new ConceptEmbeddings();
+    signals = new SignalLog(db, embeddings);
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('counts an observation that means the same thing towards the existing signal', async () => {
+    const first = await record('Customers hate spreadsheets', 'Spreadsheets are a symptom');
+    const second = await record('SMBs are drowning in Excel');
+    const third = await record('We cannot hire fast enough');
+
+    expect(first.merged).toBe(false);
+    expect(second).toMatchObject({ merged: true, similarity: 1, signal: { id: first.signal.id, frequency: 2 } });
+    expect(third.merged).toBe(false);
+    expect(storage.listSignals().map(signal => [signal.observation, signal.frequency])).toEqual([
+      ['Customers hate spreadsheets', 2],
+      ['We cannot hire fast enough', 1]
+    ]);
+    // Stored vectors are reused; only the new observation is embedded
+    expect(embeddings.calls.at(-1)).toEqual(['We cannot hire fast enough']);
+  });
+
+  it('increments the most similar signal and takes the sighting back off on undo', async () => {
+    const { signal } = await signals.record({ source: 'call', observation: 'Customers hate spreadsheets', potentialAngle: 'x', date: '2026-01-01' });
+
+    const counted = await signals.incrementSignalFrequency('SMBs are drowning in Excel', '2026-02-01');
+    expect(counted).toMatchObject({ merged: true, previousDate: '2026-01-01', signal: { id: signal.id, frequency: 2, date: '2026-02-01' } });
+    expect(await signals.incrementSignalFrequency('We cannot hire fast enough')).toBeNull();
+
+    // Undo restores the count and when it was last seen
+    storage.uncountSignal(signal.id, counted!.previousDate);
+    expect(storage.getSignal(signal.id)).toMatchObject({ frequency: 1, date: '2026-01-01' });
+  });
+
+  it('clusters signals logged before they could be merged and suggests the leading angle', async () => {
+    storage.createSignal({ date: '2026-01-01', source: 'call', observation: 'Customers hate spreadsheets', potentialAngle: 'Spreadsheets are a symptom', frequency: 3 });
+    storage.createSignal({ date: '2026-02-01', source: 'reddit', observation: 'SMBs are drowning in Excel', potentialAngle: 'Excel hell', frequency: 1 });
+    storage.createSignal({ date: '2026-01-15', source: 'call', observation: 'Recruiting ops people is slow', potentialAngle: 'Hire for systems', frequency: 2 });
+
+    const clusters = await signals.clusters({ minFrequency: 3 });
+
+    expect(clusters).toEqual([{
+      angle: 'Spreadsheets are a symptom',
+      observations: ['Customers hate spreadsheets', 'SMBs are drowning in Excel'],
+      frequency: 4,
+      signalIds: expect.any(Array),
+      lastSeen: '2026-02-01'
+    }]);
+  });
+
+  it('falls back to offline hashing when the provider fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing: EmbeddingProvider = { id: 'remote', threshold: 0.9, embed: async () => { throw new Error('503'); } };
+    signals = new SignalLog(db, failing);
+
+    await signals.record({ source: 'reddit', observation: 'Customers hate their spreadsheets', potentialAngle: 'x' });
+    const repeat = await signals.record({ source: 'call', observation: 'customers hate spreadsheets', potentialAngle: 'x' });
+
+    expect(repeat.merged).toBe(true);
+    expect(warn).toHaveBeenCalled();
+    expect(storage.listSignalEmbeddings('remote').size).toBe(0);
+    warn.mockRestore();
+  });
+});
+
+describe('HashingEmbeddings', () => {
+  it('scores shared wording above unrelated text', async () => {
+    const [a, b, c] = await new HashingEmbeddings().embed([
+      'Our customers hate spreadsheets',
+      'Customers hating their spreadsheet',
+      'Quarterly board meeting agenda'
+    ]);
+
+    expect(cosineSimilarity(a, b)).toBeGreaterThan(0.5);
+    expect(cosineSimilarity(a, c)).toBeLessThan(0.2);
+  });
+});
@@ -0,0 +1,116 @@
+// Unit tests for research synthesis: input selection, persistence and the Slack card
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { ResearchStorage } from '../../../src/db/research.js';
+import { LLMClient } from '../../../src/shared/llm.js';
+import { ResearchSynthesizer } from '../../../src/agents/content/synthesis.js';
+import { ContentAgent } from '../../../src/agents/content/index.js';
+import { buildSynthesisCard, SYNTHESIS_ACTIONS } from '../../../src/slack/synthesis.js';
+import { ScriptedLLM, text } from '../../fakes/index.js';
+
+const SYNTHESIS = {
+  synthesis: 'Teams keep buying AI before fixing their data.',
+  angles: [
+    { title: 'Fix the spreadsheet first', rationale: 'Comes up in every call.' },
+    { title: 'AI readiness checklist', rationale: 'Readers ask where to start.' }
+  ]
+};
+
+describe('ResearchSynthesizer', () => {
+  let db: Database.Database;
+  let testDbPath: string;
+  let storage: ResearchStorage;
+  let llm: ScriptedLLM;
+  let synthesizer: ResearchSynthesizer;
+
+  const addResearch = (title: string, date: string, tags: string[]) =>
+    storage.createResearchItem({ date, source: 'hbr', url: `https://hbr.org/${randomUUID()}`, title, summary: `${title} summary`, tags, usedInPost: false });
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-synthesis-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    storage = new ResearchStorage(db);
+    llm = new ScriptedLLM();
+    synthesizer = new ResearchSynthesizer(db, new LLMClient({ provider: 'openai', model: 'scripted', languageModel: llm.model }));
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('synthesizes research and signals in the range and keeps links to them', async () => {
+    const march = addResearch('Data debt survey', '2026-03-10T00:00:00.000Z', ['data']);
+    addResearch('Old AI hype piece', '2026-01-05T00:00:00.000Z', ['ai']);
+    const signal = storage.createSignal({ date: '2026-03-12T00:00:00.000Z', source: 'call', observation: 'Customers hate spreadsheets', potentialAngle: 'Spreadsheets are a symptom', frequency: 3 });
+    llm.onSystem('synthesizing research', text(JSON.stringify(SYNTHESIS)));
+
+    const synthesis = await synthesizer.synthesize({ since: '2026-03-01T00:00:00.000Z', until: '2026-04-01T00:00:00.000Z' });
+
+    expect(synthesis).toMatchObject({ ...SYNTHESIS, researchIds: [march.id], signalIds: [signal.id], tags: [] });
+    expect(llm.calls[0].userText).toContain('Data debt survey');
+    expect(llm.calls[0].userText).toContain('Customers hate spreadsheets (×3, call)');
+    expect(llm.calls[0].userText).not.toContain('Old AI hype piece');
+    expect(synthesizer.syntheses.get(synthesis!.id)).toEqual(synthesis);
+  });
+
+  it('selects research by tag and makes no model call when nothing matches', async () => {
+    addResearch('Data debt survey', '2026-03-10T00:00:00.000Z', ['data']);
+    const ai = addResearch('AI adoption study', '2026-01-05T00:00:00.000Z', ['ai adoption']);
+    storage.createSignal({ date: '2026-03-12T00:00:00.000Z', source: 'call', observation: 'Customers hate spreadsheets', potentialAngle: 'Spreadsheets are a symptom', frequency: 3 });
+    llm.onSystem('synthesizing research', text(JSON.stringify(SYNTHESIS)));
+
+    // Signals aren't tagged, so a tagged run leaves them out
+    const synthesis = await synthesizer.synthesize({ tags: ['AI Adoption'] });
+    expect(synthesis?.researchIds).toEqual([ai.id]);
+    expect(synthesis?.signalIds).toEqual([]);
+    expect(synthesis?.tags).toEqual(['ai adoption']);
+
+    expect(await synthesizer.synthesize({ tags: ['hiring'] })).toBeNull();
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('starts a checkpoint where the last checkpoint ended, not at an ad-hoc run', async () => {
+    const agent = new ContentAgent(db, new LLMClient({ provider: 'openai', model: 'scripted', languageModel: llm.model }));
+    llm.onSystem('synthesizing research', text(JSON.stringify(SYNTHESIS)));
+    addResearch('Data debt survey', new Date().toISOString(), ['data']);
+    const first = (await agent.runCheckpoint()).synthesis!;
+    expect(first.checkpoint).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const untagged = addResearch('Hiring freeze memo', new Date().toISOString(), []);
+    addResearch('Hiring plans', new Date().toISOString(), ['hiring']);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const adHoc = await synthesizer.synthesize({ tags: ['hiring'] });
+    expect(adHoc?.checkpoint).toBeUndefined();
+
+    const second = (await agent.runCheckpoint()).synthesis!;
+    expect(second.since).toBe(first.createdAt);
+    expect(second.researchIds).toContain(untagged.id);
+  });
+
+  it('records which angles went into the topic queue', async () => {
+    addResearch('Data debt survey', new Date().toISOString(), ['data']);
+    llm.onSystem('synthesizing research', text(JSON.stringify(SYNTHESIS)));
+    const synthesis = (await synthesizer.synthesize())!;
+
+    const updated = synthesizer.syntheses.markAngleQueued(synthesis.id, 1, 'topic-1', 'U1');
+
+    expect(updated.angles[1]).toMatchObject({ title: 'AI readiness checklist', topicId: 'topic-1', queuedBy: 'U1' });
+    expect(synthesizer.syntheses.latest()?.angles).toEqual(updated.angles);
+
+    const card = buildSynthesisCard(updated);
+    const buttons = card.filter((block: any) => block.accessory?.action_id === SYNTHESIS_ACTIONS.addTopic) as any[];
+    expect(buttons.map(block => block.accessory.value)).toEqual([`${synthesis.id}:0`]);
+    expect(JSON.stringify(card)).toContain('Added to topics by <@U1>');
+  });
+});
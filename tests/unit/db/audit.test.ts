@@ -0,0 +1,78 @@
+// Unit tests for the audit log and its Slack query command
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { AuditLog, formatAuditEvents } from '../../../src/db/audit.js';
+import { parseAuditCommand } from '../../../src/orchestrator/audit-command.js';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+describe('AuditLog', () => {
+  let db: Database.Database;
+  let audit: AuditLog;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-audit-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    audit = new AuditLog(db);
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('records events and filters them by user, agent and type', () => {
+    audit.record({ type: 'request', userId: 'U1', channelId: 'C1', outcome: 'ok', summary: 'create a deal' });
+    audit.record({ type: 'tool_call', userId: 'U1', agent: 'hubspot', toolName: 'createDeal', durationMs: 12, outcome: 'ok', summary: 'Created deal', details: { entityId: 'd1' } });
+    audit.record({ type: 'request', userId: 'U2', outcome: 'ok', summary: 'hello' });
+
+    expect(audit.query({ userId: 'U1' }).map(e => e.type)).toEqual(['request', 'tool_call']);
+    expect(audit.query({ agent: 'hubspot' })[0]).toMatchObject({ toolName: 'createDeal', durationMs: 12, details: { entityId: 'd1' } });
+    expect(audit.query({ type: 'request', limit: 1 })).toHaveLength(1);
+    expect(audit.query({ since: new Date(Date.now() + 60000).toISOString() })).toEqual([]);
+  });
+
+  it('keeps recording when a sink fails', async () => {
+    audit.addSink(() => { throw new Error('Slack is down'); });
+    audit.record({ type: 'error', outcome: 'error', summary: 'boom' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(audit.query()).toHaveLength(1);
+  });
+
+  it('exports CSV with quoted cells', () => {
+    const event = audit.record({ type: 'response', outcome: 'ok', summary: 'Said "hi", then left' });
+    const [header, row] = formatAuditEvents([event], 'csv').split('\n');
+
+    expect(header).toBe('createdAt,type,userId,channelId,threadTs,agent,toolName,durationMs,outcome,summary');
+    expect(row).toBe(`${event.createdAt},response,,,,,,,ok,"Said ""hi"", then left"`);
+  });
+});
+
+describe('parseAuditCommand', () => {
+  const now = new Date(2026, 2, 11, 15, 30); // Wednesday
+
+  it('parses the period, user and export format', () => {
+    expect(parseAuditCommand('show audit for yesterday for <@U123> as csv', now)).toEqual({
+      filter: {
+        since: new Date(2026, 2, 10).toISOString(),
+        until: new Date(2026, 2, 11).toISOString(),
+        userId: 'U123'
+      },
+      format: 'csv',
+      period: 'yesterday'
+    });
+    expect(parseAuditCommand('show the audit log for the last 2 hours', now)!.filter.since)
+      .toBe(new Date(2026, 2, 11, 13, 30).toISOString());
+    expect(parseAuditCommand('show audit for this week', now)!.filter.since).toBe(new Date(2026, 2, 9).toISOString());
+    expect(parseAuditCommand('show my drafts', now)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+// Unit tests for DraftStorage version history
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { DraftStorage } from '../../../src/db/drafts.js';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+describe('DraftStorage', () => {
+  let db: Database.Database;
+  let storage: DraftStorage;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-drafts-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    storage = new DraftStorage(db);
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('versions', () => {
+    it('records version 1 on create', () => {
+      const draft = storage.create({ title: 'Hook', body: 'First take', contentType: 'linkedin_post' });
+
+      const versions = storage.listVersions(draft.id);
+      expect(versions).toHaveLength(1);
+      expect(versions[0].version).toBe(1);
+      expect(versions[0].body).toBe('First take');
+    });
+
+    it('snapshots every update as a new version', () => {
+      const draft = storage.create({ title: 'Hook', body: 'First take', contentType: 'linkedin_post' });
+      storage.update(draft.id, { body: 'Second take' }, 'Tightened the hook');
+      storage.update(draft.id, { title: 'Better hook' });
+
+      const versions = storage.listVersions(draft.id);
+      expect(versions.map(v => v.version)).toEqual([1, 2, 3]);
+      expect(versions[1].body).toBe('Second take');
+      expect(versions[1].note).toBe('Tightened the hook');
+      expect(versions[2].title).toBe('Better hook');
+      expect(versions[2].body).toBe('Second take');
+    });
+
+    it('restores an earlier version as a new version', () => {
+      const draft = storage.create({ title: 'Hook', body: 'First take', contentType: 'linkedin_post' });
+      storage.update(draft.id, { body: 'Second take' });
+
+      const restored = storage.restoreVersion(draft.id, 1);
+
+      expect(restored.body).toBe('First take');
+      expect(storage.latestVersion(draft.id)).toBe(3);
+      expect(storage.getVersion(draft.id, 3)?.note).toBe('Restored from version 1');
+    });
+
+    it('keeps the original wording of drafts created before versioning', () => {
+      const draft = storage.create({ title: 'Hook', body: 'Legacy body', contentType: 'linkedin_post' });
+      db.prepare('DELETE FROM draft_versions WHERE draft_id = ?').run(draft.id);
+
+      storage.update(draft.id, { body: 'New body' });
+
+      const versions = storage.listVersions(draft.id);
+      expect(versions).toHaveLength(2);
+      expect(versions[0].body).toBe('Legacy body');
+      expect(versions[1].body).toBe('New body');
+    });
+
+    it('throws when restoring a missing version', () => {
+      const draft = storage.create({ title: 'Hook', body: 'First take', contentType: 'linkedin_post' });
+
+      expect(() => storage.restoreVersion(draft.id, 7)).toThrow('Version 7 not found');
+    });
+
+    it('removes versions when the draft is deleted', () => {
+      const draft = storage.create({ title: 'Hook', body: 'First take', contentType: 'linkedin_post' });
+      storage.update(draft.id, { body: 'Second take' });
+
+      storage.delete(draft.id);
+
+      expect(storage.listVersions(draft.id)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// Unit tests for the research library: search and draft citations
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { ResearchStorage } from '../../../src/db/research.js';
+import { DraftStorage } from '../../../src/db/drafts.js';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { ResearchItem } from '../../../src/shared/types.js';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+describe('ResearchStorage', () => {
+  let db: Database.Database;
+  let research: ResearchStorage;
+  let drafts: DraftStorage;
+  let testDbPath: string;
+
+  const save = (title: string, source: string, tags: string[], date = '2026-01-01T00:00:00.000Z'): ResearchItem =>
+    research.createResearchItem({
+      date,
+      source,
+      url: `https://${source}.com/${encodeURIComponent(title)}`,
+      title,
+      summary: `${title} summary`,
+      tags,
+      usedInPost: false
+    });
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-research-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    research = new ResearchStorage(db);
+    drafts = new DraftStorage(db);
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('searchResearchItems', () => {
+    it('filters by exact tag, source and text, newest first', () => {
+      const older = save('Foundry ontology basics', 'palantir', ['foundry', 'data modeling']);
+      const newer = save('Ontology pitfalls', 'reddit', ['foundry'], '2026-02-01T00:00:00.000Z');
+      save('Hiring ops people', 'medium', ['hiring']);
+
+      expect(research.searchResearchItems({ tag: 'Foundry' }).map(item => item.id)).toEqual([newer.id, older.id]);
+      expect(research.searchResearchItems({ tag: 'data' })).toEqual([]);
+      expect(research.searchResearchItems({ source: 'reddit' }).map(item => item.id)).toEqual([newer.id]);
+      expect(research.searchResearchItems({ text: 'modeling' }).map(item => item.id)).toEqual([older.id]);
+      expect(research.searchResearchItems({ text: 'ontology', tag: 'foundry', source: 'palantir' }).map(item => item.id)).toEqual([older.id]);
+    });
+  });
+
+  describe('draft citations', () => {
+    it('links items to a draft once and marks them used', () => {
+      const item = save('Ontology pitfalls', 'reddit', ['foundry']);
+      const draft = drafts.create({ title: 'Ontology first', body: 'Body', contentType: 'linkedin_post' });
+
+      expect(research.linkToDraft(draft.id, [item.id])).toEqual([item.id]);
+      expect(research.linkToDraft(draft.id, [item.id])).toEqual([]);
+
+      expect(drafts.get(draft.id)!.sources).toEqual([{ id: item.id, title: 'Ontology pitfalls', url: item.url }]);
+      expect(research.searchResearchItems({ unused: true })).toEqual([]);
+    });
+
+    it('returns items to unused only when no draft cites them any more', () => {
+      const item = save('Ontology pitfalls', 'reddit', ['foundry']);
+      const first = drafts.create({ title: 'First', body: 'Body', contentType: 'linkedin_post' });
+      const second = drafts.create({ title: 'Second', body: 'Body', contentType: 'linkedin_post' });
+      research.linkToDraft(first.id, [item.id]);
+      research.linkToDraft(second.id, [item.id]);
+
+      research.unlinkFromDraft(first.id);
+      expect(research.getResearchItem(item.id)!.usedInPost).toBe(true);
+      expect(drafts.get(first.id)!.sources).toBeUndefined();
+
+      research.unlinkFromDraft(second.id, [item.id]);
+      expect(research.getResearchItem(item.id)!.usedInPost).toBe(false);
+    });
+  });
+});
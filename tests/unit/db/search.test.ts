@@ -0,0 +1,74 @@
+// Unit tests for full-text content search and the triggers that keep it in sync
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { ContentSearch, toMatchQuery } from '../../../src/db/search.js';
+import { DraftStorage } from '../../../src/db/drafts.js';
+import { ResearchStorage } from '../../../src/db/research.js';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+describe('ContentSearch', () => {
+  let db: Database.Database;
+  let search: ContentSearch;
+  let drafts: DraftStorage;
+  let research: ResearchStorage;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-search-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    search = new ContentSearch(db);
+    drafts = new DraftStorage(db);
+    research = new ResearchStorage(db);
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('finds every kind, ranking title matches first, with highlighted snippets', () => {
+    const inBody = drafts.create({ title: 'Data teams', body: 'Start with the Foundry ontology, not the dashboards.', contentType: 'linkedin_post' });
+    const inTitle = drafts.create({ title: 'Foundry ontology mistakes', body: 'Three things we got wrong.', contentType: 'linkedin_post' });
+    const interview = research.createInterview('What do people get wrong about AIP?', 'They skip the ontology.');
+    research.createTopic('Ontology before AI');
+
+    const results = search.search('ontology');
+    expect(results.map(result => result.kind)).toEqual(expect.arrayContaining(['draft', 'interview', 'topic']));
+
+    const foundry = search.search('foundry ontologies', { kinds: ['draft'] });
+    expect(foundry.map(result => result.id)).toEqual([inTitle.id, inBody.id]);
+    expect(foundry[0].title).toBe('*Foundry* *ontology* mistakes');
+    expect(foundry[1].snippet).toContain('the *Foundry* *ontology*, not');
+
+    expect(search.search('AIP', { kinds: ['interview'] })).toMatchObject([{ id: interview.id, title: 'What do people get wrong about *AIP*?' }]);
+  });
+
+  it('follows edits and deletes in the source tables', () => {
+    const draft = drafts.create({ title: 'Hooks', body: 'Open with a question.', contentType: 'linkedin_post' });
+    expect(search.search('question')).toHaveLength(1);
+
+    drafts.update(draft.id, { body: 'Open with a number.' });
+    expect(search.search('question')).toEqual([]);
+    expect(search.search('number')).toHaveLength(1);
+
+    drafts.delete(draft.id);
+    expect(search.search('number')).toEqual([]);
+  });
+
+  it('treats punctuation as plain text and keeps quoted phrases together', () => {
+    drafts.create({ title: 'Ontology', body: 'Build the ontology first, then the apps.', contentType: 'linkedin_post' });
+
+    expect(toMatchQuery('AIP? "ontology first" -apps')).toBe('"ontology first" "AIP" "apps"');
+    expect(search.search('"ontology first"')).toHaveLength(1);
+    expect(search.search('"first ontology"')).toEqual([]);
+    expect(search.search('?!')).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+// Unit tests for UserStorage credential encryption
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { UserStorage } from '../../../src/db/users.js';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+describe('UserStorage', () => {
+  let db: Database.Database;
+  let storage: UserStorage;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-users-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    storage = new UserStorage(db, 'test-encryption-key');
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('stores credentials encrypted and reads them back', () => {
+    storage.setLinearApiKey('U1', 'lin_api_secret');
+    storage.setHubSpotTokens('U1', { accessToken: 'pat-secret', refreshToken: 'refresh-secret', expiresAt: 1700000000000 });
+
+    const raw = db.prepare('SELECT * FROM users WHERE slack_user_id = ?').get('U1') as Record<string, unknown>;
+    expect(JSON.stringify(raw)).not.toContain('secret');
+
+    expect(storage.get('U1')).toMatchObject({
+      slackUserId: 'U1',
+      linearApiKey: 'lin_api_secret',
+      hubspot: { accessToken: 'pat-secret', refreshToken: 'refresh-secret', expiresAt: 1700000000000 }
+    });
+  });
+
+  it('clears one service without touching the other', () => {
+    storage.setLinearApiKey('U1', 'lin_api_secret');
+    storage.setHubSpotTokens('U1', { accessToken: 'pat-secret' });
+
+    const profile = storage.setLinearApiKey('U1', null);
+
+    expect(profile.linearApiKey).toBeUndefined();
+    expect(profile.hubspot).toEqual({ accessToken: 'pat-secret', refreshToken: undefined, expiresAt: undefined });
+  });
+
+  it('refuses to read credentials with the wrong key or without one', () => {
+    storage.setLinearApiKey('U1', 'lin_api_secret');
+
+    expect(() => new UserStorage(db, 'another-key').get('U1')).toThrow();
+    expect(() => new UserStorage(db).get('U1')).toThrow('CREDENTIALS_ENCRYPTION_KEY');
+    expect(new UserStorage(db).get('U2')).toBeNull();
+  });
+});
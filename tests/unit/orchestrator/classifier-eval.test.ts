@@ -0,0 +1,106 @@
+// Unit tests for the classifier evaluation harness, plus the recorded corpus run against its baseline
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { LLMClient } from '../../../src/shared/llm.js';
+import { IntentClassifier } from '../../../src/orchestrator/classifier.js';
+import {
+  EvalBaseline,
+  EvalCaseResult,
+  compareToBaseline,
+  parseEvalCorpus,
+  runClassifierEval,
+  scoreEval,
+  toBaseline
+} from '../../../src/orchestrator/classifier-eval.js';
+import { loadRecordings, replayModel } from '../../../src/shared/recorded-llm.js';
+import { ScriptedLLM, text } from '../../fakes/index.js';
+
+const EVAL_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../eval/classifier');
+
+const result = (id: string, expected: string, actual: string): EvalCaseResult => ({
+  id,
+  message: id,
+  expected,
+  actual,
+  source: 'llm',
+  correct: expected === actual
+});
+
+describe('scoreEval', () => {
+  it('computes per-agent precision and recall and a confusion matrix', () => {
+    const report = scoreEval([
+      result('a', 'hubspot', 'hubspot'),
+      result('b', 'hubspot', 'linear'),
+      result('c', 'linear', 'linear'),
+      result('d', 'content', 'content')
+    ]);
+
+    expect(report.accuracy).toBe(0.75);
+    expect(report.agents.hubspot).toEqual({ precision: 1, recall: 0.5, f1: 2 / 3, support: 2 });
+    expect(report.agents.linear).toMatchObject({ precision: 0.5, recall: 1, support: 1 });
+    expect(report.confusion.hubspot).toEqual({ hubspot: 1, linear: 1, content: 0 });
+  });
+
+  it('scores entities only on cases that label them', () => {
+    const report = scoreEval([
+      { ...result('a', 'hubspot', 'hubspot'), entities: { expected: 2, found: 3, matched: 2 } },
+      { ...result('b', 'linear', 'linear'), entities: { expected: 2, found: 1, matched: 1 } },
+      result('c', 'content', 'content')
+    ]);
+
+    expect(report.entities).toEqual({ precision: 0.75, recall: 0.75 });
+  });
+});
+
+describe('compareToBaseline', () => {
+  it('flags metric drops beyond the tolerance and cases that used to pass', () => {
+    const baseline: EvalBaseline = toBaseline(scoreEval([
+      result('a', 'hubspot', 'hubspot'),
+      result('b', 'linear', 'linear'),
+      result('c', 'content', 'hubspot')
+    ]));
+
+    const comparison = compareToBaseline(scoreEval([
+      result('a', 'hubspot', 'hubspot'),
+      result('b', 'linear', 'hubspot'),
+      result('c', 'content', 'content')
+    ]), baseline);
+
+    expect(comparison.regressions).toContain('linear recall fell from 100.0% to 0.0%');
+    expect(comparison.regressions).toContain('b now goes to hubspot (expected linear)');
+    expect(comparison.improvements).toContain('c now goes to content');
+  });
+});
+
+describe('runClassifierEval', () => {
+  it('passes the case context to the classifier and matches entities case-insensitively', async () => {
+    const llm = new ScriptedLLM().reply(text('{"agent": "hubspot", "intent": "Update deal", "confidence": 0.9, "entities": [{"type": "deal", "value": "acme renewal"}]}'));
+    const classifier = new IntentClassifier(new LLMClient({ provider: 'openai', model: 'gpt-test', languageModel: llm.model }));
+
+    const [evaluated] = await runClassifierEval(classifier, parseEvalCorpus(JSON.stringify({
+      id: 'ctx-1',
+      message: 'mark it won',
+      context: { activeAgent: 'hubspot', entities: [{ type: 'deal', name: 'Acme renewal' }] },
+      expected: { agent: 'hubspot', entities: [{ type: 'deal', value: 'Acme renewal' }] }
+    })));
+
+    expect(llm.calls[0].userText).toContain('Current agent: hubspot');
+    expect(llm.calls[0].userText).toContain('Recent entities: Deal: Acme renewal');
+    expect(evaluated).toMatchObject({ correct: true, source: 'llm', entities: { expected: 1, found: 1, matched: 1 } });
+  });
+
+  it('replays the recorded corpus without regressing against the saved baseline', async () => {
+    const recordings = loadRecordings(path.join(EVAL_DIR, 'recordings.json'));
+    const classifier = new IntentClassifier(new LLMClient({ provider: 'openai', model: 'recorded', languageModel: replayModel(recordings) }));
+    const cases = parseEvalCorpus(readFileSync(path.join(EVAL_DIR, 'corpus.jsonl'), 'utf8'));
+    const baseline = JSON.parse(readFileSync(path.join(EVAL_DIR, 'baseline.json'), 'utf8')) as EvalBaseline;
+
+    const report = scoreEval(await runClassifierEval(classifier, cases));
+
+    expect(report.cases.filter(evaluated => evaluated.failure)).toEqual([]);
+    expect(compareToBaseline(report, baseline).regressions).toEqual([]);
+  });
+});
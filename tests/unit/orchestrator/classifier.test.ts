@@ -4,11 +4,13 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { IntentClassifier } from '../../../src/orchestrator/classifier.js';
 import { LLMClient } from '../../../src/shared/llm.js';
 import { ConversationContext } from '../../../src/shared/types.js';
+import { AgentRegistry, Agent } from '../../../src/agents/registry.js';
+import { createInvalidOutputError, ErrorCategory } from '../../../src/shared/errors.js';
 
 // Mock LLM client
 const createMockLLM = () => {
   return {
-    chat: vi.fn(),
+    generateObject: vi.fn(),
     classifyIntent: vi.fn(),
     extractEntities: vi.fn()
   } as unknown as LLMClient;
@@ -23,7 +25,11 @@ const createEmptyContext = (): ConversationContext => ({
   entities: {
     contacts: [],
     deals: [],
-    companies: []
+    companies: [],
+    tasks: [],
+    notes: [],
+    issues: [],
+    drafts: []
   },
   createdAt: new Date().toISOString(),
   lastActivityAt: new Date().toISOString(),
@@ -89,6 +95,12 @@ describe('IntentClassifier', () => {
       expect(result!.agent).toBe('general');
     });
 
+    it('classifies issue identifiers as linear', () => {
+      const result = classifier.quickClassify('what is the status of ENG-123?');
+      expect(result).not.toBeNull();
+      expect(result!.agent).toBe('linear');
+    });
+
     it('returns null for ambiguous messages', () => {
       const result = classifier.quickClassify('can you help me with something?');
       expect(result).toBeNull();
@@ -97,7 +109,7 @@ describe('IntentClassifier', () => {
 
   describe('classify with LLM', () => {
     it('calls LLM for complex classification', async () => {
-      mockLLM.chat = vi.fn().mockResolvedValue(JSON.stringify({
+      mockLLM.generateObject = vi.fn().mockResolvedValue({
         agent: 'hubspot',
         intent: 'Create contact with company association',
         confidence: 0.85,
@@ -105,7 +117,7 @@ describe('IntentClassifier', () => {
           { type: 'contact', value: 'Maria Lopez' },
           { type: 'company', value: 'TechStartup' }
         ]
-      }));
+      });
 
       const result = await classifier.classify(
         'Add Maria Lopez, she is CTO at TechStartup',
@@ -127,12 +139,12 @@ describe('IntentClassifier', () => {
         mentionedAt: new Date().toISOString()
       });
 
-      mockLLM.chat = vi.fn().mockResolvedValue(JSON.stringify({
+      mockLLM.generateObject = vi.fn().mockResolvedValue({
         agent: 'hubspot',
         intent: 'Log note on contact',
         confidence: 0.9,
         entities: []
-      }));
+      });
 
       const result = await classifier.classify(
         'log a note that we discussed pricing',
@@ -140,16 +152,91 @@ describe('IntentClassifier', () => {
       );
 
       expect(result.agent).toBe('hubspot');
-      expect(mockLLM.chat).toHaveBeenCalled();
+      expect(mockLLM.generateObject).toHaveBeenCalled();
 
       // Check that context was included in the prompt
-      const callArgs = (mockLLM.chat as any).mock.calls[0][0];
+      const callArgs = (mockLLM.generateObject as any).mock.calls[0][0];
       expect(callArgs).toContain('hubspot');
       expect(callArgs).toContain('Maria Lopez');
     });
 
-    it('falls back to general on parse error', async () => {
-      mockLLM.chat = vi.fn().mockResolvedValue('Invalid JSON response');
+    it('accepts linear from the LLM', async () => {
+      mockLLM.generateObject = vi.fn().mockResolvedValue({
+        agent: 'linear',
+        intent: 'List issues in the current cycle',
+        confidence: 0.9,
+        entities: []
+      });
+
+      const result = await classifier.classify('what are we working on this week?', createEmptyContext());
+
+      expect(result.agent).toBe('linear');
+    });
+
+    it('returns sub-intents for requests spanning several agents', async () => {
+      mockLLM.generateObject = vi.fn().mockResolvedValue({
+        agent: 'hubspot',
+        intent: 'Log a note and open a ticket',
+        confidence: 0.9,
+        entities: [],
+        subIntents: [
+          { agent: 'hubspot', intent: 'Log a note', request: 'log a note on the Acme deal', entities: [{ type: 'deal', value: 'Acme' }] },
+          { agent: 'linear', intent: 'Open a ticket', request: 'open a ticket to build the Acme dashboard', entities: [], dependsOn: 0 },
+          { agent: 'calendar', intent: 'Book a call', request: 'book a call with Acme', entities: [], dependsOn: 5 }
+        ]
+      });
+
+      const result = await classifier.classify('log a note on the Acme deal and open a ticket for their dashboard', createEmptyContext());
+
+      expect(result.subIntents).toEqual([
+        { agent: 'hubspot', intent: 'Log a note', request: 'log a note on the Acme deal', entities: [{ type: 'deal', value: 'Acme' }] },
+        { agent: 'linear', intent: 'Open a ticket', request: 'open a ticket to build the Acme dashboard', entities: [], dependsOn: 0 },
+        // Unknown agents become general; dependencies must point backwards
+        { agent: 'general', intent: 'Book a call', request: 'book a call with Acme', entities: [] }
+      ]);
+    });
+
+    it('renumbers dependencies when empty sub-intents are dropped', async () => {
+      mockLLM.generateObject = vi.fn().mockResolvedValue({
+        agent: 'hubspot',
+        intent: 'Create a deal and open a ticket',
+        confidence: 0.9,
+        entities: [],
+        subIntents: [
+          { agent: 'content', intent: 'Nothing', request: '  ', entities: [] },
+          { agent: 'hubspot', intent: 'Create a deal', request: 'create a deal for Acme', entities: [] },
+          { agent: 'linear', intent: 'Open a ticket', request: 'open a ticket for the Acme deal', entities: [], dependsOn: 1 },
+          { agent: 'content', intent: 'Draft a post', request: 'draft a post about it', entities: [], dependsOn: 0 }
+        ]
+      });
+
+      const result = await classifier.classify('create a deal for Acme, open a ticket for it and draft a post', createEmptyContext());
+
+      expect(result.subIntents?.map(sub => sub.dependsOn)).toEqual([undefined, 0, undefined]);
+    });
+
+    it('ignores sub-intents that all go to one agent', async () => {
+      mockLLM.generateObject = vi.fn().mockResolvedValue({
+        agent: 'hubspot',
+        intent: 'Two CRM updates',
+        confidence: 0.9,
+        entities: [],
+        subIntents: [
+          { agent: 'hubspot', intent: 'Log a note', request: 'log a note on Acme', entities: [] },
+          { agent: 'hubspot', intent: 'Create a task', request: 'create a task to call Acme', entities: [] }
+        ]
+      });
+
+      const result = await classifier.classify('log a note on Acme and create a task to call them', createEmptyContext());
+
+      expect(result.agent).toBe('hubspot');
+      expect(result.subIntents).toBeUndefined();
+    });
+
+    it('falls back to general with the raw output on invalid output', async () => {
+      mockLLM.generateObject = vi.fn().mockRejectedValue(
+        createInvalidOutputError('classification failed validation after 2 attempts', 'Invalid JSON response')
+      );
 
       const result = await classifier.classify(
         'something unclear',
@@ -158,10 +245,14 @@ describe('IntentClassifier', () => {
 
       expect(result.agent).toBe('general');
       expect(result.confidence).toBeLessThan(0.5);
+      expect(result.failure).toMatchObject({
+        category: ErrorCategory.INVALID_OUTPUT,
+        rawOutput: 'Invalid JSON response'
+      });
     });
 
     it('falls back to general on LLM error', async () => {
-      mockLLM.chat = vi.fn().mockRejectedValue(new Error('API error'));
+      mockLLM.generateObject = vi.fn().mockRejectedValue(new Error('API error'));
 
       const result = await classifier.classify(
         'something unclear',
@@ -173,6 +264,48 @@ describe('IntentClassifier', () => {
     });
   });
 
+  describe('registered agents', () => {
+    const calendarAgent: Agent = {
+      definition: {
+        name: 'calendar',
+        label: 'Calendar',
+        description: 'Handles meetings and scheduling',
+        keywords: ['meeting', 'calendar'],
+        examples: ['Book a meeting with...'],
+        quickPatterns: [/^book\s+(a\s+)?meeting/]
+      },
+      handle: vi.fn()
+    };
+
+    beforeEach(() => {
+      const registry = new AgentRegistry();
+      registry.register(calendarAgent);
+      classifier = new IntentClassifier(mockLLM as unknown as LLMClient, undefined, registry);
+    });
+
+    it('quick-matches patterns from registered agents', () => {
+      expect(classifier.quickClassify('book a meeting with Sam')?.agent).toBe('calendar');
+      expect(classifier.quickClassify('show my drafts')).toBeNull();
+    });
+
+    it('builds the prompt from registered agents', async () => {
+      mockLLM.generateObject = vi.fn().mockResolvedValue({
+        agent: 'content',
+        intent: 'Write a post',
+        confidence: 0.9,
+        entities: []
+      });
+
+      const result = await classifier.classify('move my 3pm', createEmptyContext());
+      const systemPrompt = (mockLLM.generateObject as any).mock.calls[0][2].systemPrompt;
+
+      expect(systemPrompt).toContain('- calendar: Handles meetings and scheduling');
+      expect(systemPrompt).not.toContain('- content:');
+      // Unregistered agents are rejected
+      expect(result.agent).toBe('general');
+    });
+  });
+
   describe('confidence thresholds', () => {
     it('identifies high confidence for direct routing', () => {
       const result = {
@@ -210,6 +210,41 @@ describe('ContextManager', () => {
       expect(resolved!.name).toBe('Acme Deal');
     });
 
+    it('resolves "it" to the most recently mentioned object of any kind', () => {
+      const context = contextManager.getContext('C123', 'thread-1');
+      contextManager.addEntityReference(context.id, {
+        type: 'deal',
+        id: 'deal-123',
+        name: 'Acme Deal',
+        mentionedAt: '2026-01-01T10:00:00.000Z'
+      });
+      contextManager.addEntityReference(context.id, {
+        type: 'issue',
+        id: 'issue-uuid-1',
+        name: 'ENG-1: Fix login timeout',
+        mentionedAt: '2026-01-01T10:05:00.000Z'
+      });
+
+      const resolved = contextManager.resolvePronoun(context.id, 'it');
+      expect(resolved).toMatchObject({ type: 'issue', id: 'issue-uuid-1' });
+    });
+
+    it('reads contexts saved before issues and drafts were tracked', () => {
+      const context = contextManager.getContext('C123', 'thread-1');
+      db.prepare('UPDATE conversation_contexts SET entities = ? WHERE id = ?')
+        .run(JSON.stringify({ contacts: [], deals: [], companies: [] }), context.id);
+
+      contextManager.addEntityReference(context.id, {
+        type: 'draft',
+        id: 'draft-1',
+        name: 'Stop starting with AI',
+        mentionedAt: new Date().toISOString()
+      });
+
+      expect(contextManager.getFullContext(context.id)!.entities.drafts).toHaveLength(1);
+      expect(contextManager.resolvePronoun(context.id, 'it')!.id).toBe('draft-1');
+    });
+
     it('returns null when no matching entity', () => {
       const context = contextManager.getContext('C123', 'thread-1');
       const resolved = contextManager.resolvePronoun(context.id, 'her');
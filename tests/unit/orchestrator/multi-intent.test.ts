@@ -0,0 +1,126 @@
+// Unit tests for fanning sub-intents out and merging the replies
+
+import { describe, it, expect } from 'vitest';
+import { mergeResponses, runSubIntents, withDependency } from '../../../src/orchestrator/multi-intent.js';
+import { AgentResponse, SubIntent } from '../../../src/shared/types.js';
+
+const subIntent = (agent: string, request: string, dependsOn?: number): SubIntent => ({
+  agent,
+  intent: request,
+  request,
+  entities: [],
+  ...(dependsOn !== undefined ? { dependsOn } : {})
+});
+
+describe('runSubIntents', () => {
+  it('runs independent sub-intents in parallel and dependent ones after their dependency', async () => {
+    const events: string[] = [];
+    let release!: () => void;
+    const hubspotDone = new Promise<void>(resolve => { release = resolve; });
+
+    const results = runSubIntents(
+      [subIntent('hubspot', 'create a deal'), subIntent('linear', 'open an issue'), subIntent('content', 'draft a post', 0)],
+      async (sub, dependency) => {
+        events.push(`start ${sub.agent}${dependency ? ` after ${dependency.subIntent.agent}` : ''}`);
+        if (sub.agent === 'hubspot') await hubspotDone;
+        events.push(`end ${sub.agent}`);
+        return { message: `${sub.agent} done` };
+      }
+    );
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(events).toEqual(['start hubspot', 'start linear', 'end linear']);
+
+    release();
+    const finished = await results;
+    expect(events.slice(3)).toEqual(['end hubspot', 'start content after hubspot', 'end content']);
+    expect(finished.map(result => result.response.message)).toEqual(['hubspot done', 'linear done', 'content done']);
+  });
+
+  it('skips sub-intents whose dependency failed and keeps the rest', async () => {
+    const results = await runSubIntents(
+      [subIntent('hubspot', 'create a deal'), subIntent('linear', 'open an issue', 0), subIntent('content', 'draft a post')],
+      async sub => {
+        if (sub.agent === 'hubspot') throw new Error('HubSpot is down');
+        return { message: `${sub.agent} done` };
+      }
+    );
+
+    expect(results[0].error).toBe('HubSpot is down');
+    expect(results[1]).toMatchObject({ error: 'Dependency failed: HubSpot is down' });
+    expect(results[1].response.message).toContain('Skipped');
+    expect(results[2]).toEqual({ subIntent: expect.anything(), response: { message: 'content done' } });
+  });
+
+  it('skips sub-intents whose dependency is waiting for confirmation or was refused', async () => {
+    const held: AgentResponse = {
+      message: 'Please confirm.',
+      pendingAction: { agent: 'hubspot', toolName: 'createDeal', input: {}, risk: 'write', description: 'createDeal', requestedAt: '2026-01-01T00:00:00.000Z' }
+    };
+    const refused: AgentResponse = { message: 'Not allowed.', denials: [{ userId: 'U1', roles: ['viewer'], agent: 'linear', toolName: 'createIssue' }] };
+    const ran: string[] = [];
+
+    const results = await runSubIntents(
+      [subIntent('hubspot', 'create a deal'), subIntent('content', 'draft a post', 0), subIntent('linear', 'open an issue'), subIntent('content', 'draft another', 2)],
+      async sub => {
+        ran.push(sub.request);
+        return sub.agent === 'hubspot' ? held : refused;
+      }
+    );
+
+    expect(ran).toEqual(['create a deal', 'open an issue']);
+    expect(results[1]).toMatchObject({ error: 'Dependency is waiting for confirmation' });
+    expect(results[1].response.message).toContain('waiting for your confirmation');
+    expect(results[3]).toMatchObject({ error: 'Dependency was refused' });
+  });
+
+  it('passes the dependency reply along with the request', () => {
+    const dependency = { subIntent: subIntent('hubspot', 'create a deal'), response: { message: 'Created *Acme*.' } };
+    expect(withDependency('open an issue for it', dependency)).toBe(
+      'open an issue for it\n\nFor reference, the previous step (create a deal) replied:\nCreated *Acme*.'
+    );
+  });
+});
+
+describe('mergeResponses', () => {
+  it('makes one message with a section per agent and keeps everything each produced', () => {
+    const hubspot: AgentResponse = {
+      message: 'Logged a note on *Acme*.',
+      entities: [{ type: 'deal', id: 'd1', name: 'Acme', mentionedAt: '2026-01-01T00:00:00.000Z' }],
+      actions: [{ type: 'createNote', description: 'Logged note' }],
+      model: 'openai/gpt-4o'
+    };
+    const linear: AgentResponse = {
+      message: 'Opened ENG-1.',
+      entities: [{ type: 'issue', id: 'i1', name: 'ENG-1', mentionedAt: '2026-01-01T00:00:00.000Z' }],
+      actions: [{ type: 'createIssue', description: 'Created ENG-1' }],
+      model: 'openai/gpt-4o'
+    };
+
+    const merged = mergeResponses([
+      { agent: 'hubspot', label: 'HubSpot', response: hubspot },
+      { agent: 'linear', label: 'Linear', response: linear }
+    ]);
+
+    expect(merged.message).toBe('*HubSpot*\nLogged a note on *Acme*.\n\n*Linear*\nOpened ENG-1.');
+    expect(merged.entities!.map(entity => entity.id)).toEqual(['d1', 'i1']);
+    expect(merged.actions!.map(action => action.agent)).toEqual(['hubspot', 'linear']);
+    expect(merged.model).toBe('openai/gpt-4o');
+  });
+
+  it('queues every held call behind the first', () => {
+    const held = (agent: string, toolName: string): AgentResponse => ({
+      message: 'Please confirm.',
+      pendingAction: { agent, toolName, input: {}, risk: 'write', description: toolName, requestedAt: '2026-01-01T00:00:00.000Z' }
+    });
+
+    const merged = mergeResponses([
+      { agent: 'hubspot', label: 'HubSpot', response: held('hubspot', 'createDeal') },
+      { agent: 'linear', label: 'Linear', response: held('linear', 'createIssue') }
+    ]);
+
+    expect(merged.pendingAction?.toolName).toBe('createDeal');
+    expect(merged.pendingAction?.queued?.map(call => call.toolName)).toEqual(['createIssue']);
+    expect(merged.message).toContain('2 actions are waiting for confirmation');
+  });
+});
@@ -0,0 +1,101 @@
+// Unit tests for the Scheduler
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { Scheduler } from '../../../src/scheduler/index.js';
+import { getMostRecentSlot, parseWeekdays, zonedTimeToUtc } from '../../../src/scheduler/time.js';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+const TZ = 'America/Denver';
+
+describe('scheduler time helpers', () => {
+  it('converts wall-clock time in a timezone to UTC', () => {
+    // Denver is UTC-6 in summer (MDT) and UTC-7 in winter (MST)
+    expect(zonedTimeToUtc(2026, 7, 14, 9, 0, TZ).toISOString()).toBe('2026-07-14T15:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 1, 13, 9, 0, TZ).toISOString()).toBe('2026-01-13T16:00:00.000Z');
+  });
+
+  it('finds the most recent slot', () => {
+    const days = parseWeekdays(['tuesday', 'thursday']);
+    const time = { hour: 9, minute: 0 };
+
+    // Wednesday 2026-07-15 noon Denver -> Tuesday 09:00 Denver
+    const slot = getMostRecentSlot(new Date('2026-07-15T18:00:00Z'), days, time, TZ);
+    expect(slot?.toISOString()).toBe('2026-07-14T15:00:00.000Z');
+
+    // Tuesday 08:59 Denver -> previous Thursday
+    const early = getMostRecentSlot(new Date('2026-07-14T14:59:00Z'), days, time, TZ);
+    expect(early?.toISOString()).toBe('2026-07-09T15:00:00.000Z');
+  });
+
+  it('rejects unknown day names', () => {
+    expect(() => parseWeekdays(['funday'])).toThrow('Invalid day name');
+  });
+});
+
+describe('Scheduler', () => {
+  let db: Database.Database;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-scheduler-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const createScheduler = (run: () => Promise<void>) => {
+    const scheduler = new Scheduler(db, { timezone: TZ });
+    scheduler.addJob({ name: 'checkpoint', days: ['tuesday', 'thursday'], time: '09:00', run });
+    return scheduler;
+  };
+
+  it('does not fire for slots before the job first ran', async () => {
+    const run = vi.fn().mockResolvedValue(undefined);
+    await createScheduler(run).tick(new Date('2026-07-15T18:00:00Z'));
+
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('fires once per slot, even across restarts', async () => {
+    const run = vi.fn().mockResolvedValue(undefined);
+    await createScheduler(run).tick(new Date('2026-07-15T18:00:00Z'));
+
+    // Thursday 09:05 Denver - new slot
+    await createScheduler(run).tick(new Date('2026-07-16T15:05:00Z'));
+    expect(run).toHaveBeenCalledTimes(1);
+
+    // "Restart" a minute later - same slot, must not fire again
+    await createScheduler(run).tick(new Date('2026-07-16T15:06:00Z'));
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('catches up a slot missed while down', async () => {
+    const run = vi.fn().mockResolvedValue(undefined);
+    await createScheduler(run).tick(new Date('2026-07-15T18:00:00Z'));
+
+    // Down through Thursday morning, back up in the afternoon
+    await createScheduler(run).tick(new Date('2026-07-16T22:00:00Z'));
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks the slot even when the job fails', async () => {
+    const run = vi.fn().mockRejectedValue(new Error('Slack down'));
+    const scheduler = createScheduler(run);
+    await scheduler.tick(new Date('2026-07-15T18:00:00Z'));
+
+    await scheduler.tick(new Date('2026-07-16T15:05:00Z'));
+    await scheduler.tick(new Date('2026-07-16T15:06:00Z'));
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,31 @@
+// Unit tests for turning tool-call traces into actions
+
+import { describe, it, expect } from 'vitest';
+import { traceToActions } from '../../../src/shared/actions.js';
+import { ToolCallTrace } from '../../../src/shared/llm.js';
+
+const trace = (toolName: string, output: string): ToolCallTrace => ({
+  toolCallId: 't1',
+  toolName,
+  input: {},
+  output,
+  startedAt: '2026-01-01T00:00:00.000Z',
+  durationMs: 5
+});
+
+describe('traceToActions', () => {
+  it('keeps the id and name of a large output while capping what is stored', () => {
+    const deal = { id: 'd1', properties: { dealname: 'Acme renewal' }, associations: { notes: 'x'.repeat(5000) } };
+    const [action] = traceToActions([trace('getDeal', JSON.stringify(deal))], { getDeal: 'deal' });
+
+    expect(action.entityId).toBe('d1');
+    expect(action.output).toEqual({ id: 'd1', properties: { dealname: 'Acme renewal' } });
+  });
+
+  it('cuts long text outputs to the cap', () => {
+    const [action] = traceToActions([trace('fetchUrl', 'y'.repeat(5000))]);
+
+    expect(action.output).toBe('y'.repeat(4000) + '…');
+    expect(action.entityId).toBeUndefined();
+  });
+});
@@ -0,0 +1,188 @@
+// Unit tests for LLMClient model selection, provider fallback, local models and structured output
+
+import { describe, it, expect } from 'vitest';
+import { tool } from 'ai';
+import { z } from 'zod';
+import { APICallError } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { LLMClient, LLMUsage } from '../../../src/shared/llm.js';
+import { AgentErrorClass, ErrorCategory, categorizeLLMFailure } from '../../../src/shared/errors.js';
+import { parseTextToolCall } from '../../../src/shared/text-tools.js';
+import { ScriptedLLM, text } from '../../fakes/index.js';
+import { startJsonServer } from '../../fakes/http.js';
+
+// A model whose every call fails with the given HTTP status
+const failingModel = (statusCode: number) =>
+  new MockLanguageModelV3({
+    doGenerate: async () => {
+      throw new APICallError({
+        message: `HTTP ${statusCode}`,
+        url: 'https://llm.test',
+        requestBodyValues: {},
+        statusCode,
+        isRetryable: statusCode === 429 || statusCode >= 500
+      });
+    }
+  });
+
+describe('categorizeLLMFailure', () => {
+  it('sorts provider errors into fallback-worthy categories', () => {
+    const apiError = (statusCode: number) =>
+      new APICallError({ message: 'x', url: 'u', requestBodyValues: {}, statusCode });
+    expect(categorizeLLMFailure(apiError(429))).toBe(ErrorCategory.RATE_LIMIT);
+    expect(categorizeLLMFailure(apiError(503))).toBe(ErrorCategory.API_FAILURE);
+    expect(categorizeLLMFailure(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))).toBe(ErrorCategory.API_FAILURE);
+    expect(categorizeLLMFailure(apiError(400))).toBe(ErrorCategory.LLM_ERROR);
+  });
+});
+
+describe('LLMClient fallback', () => {
+  it('switches to the next model on a rate limit and reports who answered', async () => {
+    const backup = new ScriptedLLM().reply(text('From the backup.'));
+    const usage: LLMUsage[] = [];
+    const client = new LLMClient({
+      provider: 'anthropic',
+      model: 'claude-test',
+      languageModel: failingModel(429),
+      fallbacks: [{ provider: 'openai', model: 'gpt-test', languageModel: backup.model }]
+    }, entry => usage.push(entry));
+
+    const result = await client.chatWithTrace('hello', [], { systemPrompt: 'Be brief.' });
+
+    expect(result).toMatchObject({ text: 'From the backup.', model: 'openai/gpt-test' });
+    expect(usage.map(u => `${u.provider}/${u.model}`)).toEqual(['openai/gpt-test']);
+  });
+
+  it('does not fall back on errors another model would repeat', async () => {
+    const backup = new ScriptedLLM().reply(text('Unused.'));
+    const client = new LLMClient({
+      provider: 'anthropic',
+      model: 'claude-test',
+      languageModel: failingModel(400),
+      fallbacks: [{ provider: 'openai', model: 'gpt-test', languageModel: backup.model }]
+    });
+
+    await expect(client.chat('hello', [], { systemPrompt: 'Be brief.' })).rejects.toThrow('HTTP 400');
+    expect(backup.pending).toBe(1);
+  });
+
+  it('uses the model configured for the purpose', async () => {
+    const main = new ScriptedLLM().reply(text('Main.'));
+    const cheap = new ScriptedLLM().reply(text('{"agent": "general"}'));
+    const client = new LLMClient({
+      provider: 'openai',
+      model: 'gpt-big',
+      languageModel: main.model,
+      models: { classifier: { provider: 'openai', model: 'gpt-small', languageModel: cheap.model } }
+    });
+
+    const result = await client.chatWithTrace('route me', [], { systemPrompt: 'Classify.', purpose: 'classifier' });
+
+    expect(result.model).toBe('openai/gpt-small');
+    expect(main.pending).toBe(1);
+  });
+});
+
+describe('LLMClient.generateObject', () => {
+  const schema = z.object({ agent: z.string(), confidence: z.number().min(0).max(1) });
+
+  it('returns the validated object, tolerating a code fence', async () => {
+    const llm = new ScriptedLLM().reply(text('```json\n{"agent": "linear", "confidence": 0.9}\n```'));
+    const usage: LLMUsage[] = [];
+    const client = new LLMClient({ provider: 'openai', model: 'gpt-test', languageModel: llm.model }, entry => usage.push(entry));
+
+    const result = await client.generateObject('route me', schema, { systemPrompt: 'Classify.', caller: { agent: 'classifier' } });
+
+    expect(result).toEqual({ agent: 'linear', confidence: 0.9 });
+    expect(usage).toMatchObject([{ purpose: 'object', agent: 'classifier', inputTokens: 10 }]);
+  });
+
+  it('sends a schema violation back to the model and retries', async () => {
+    const llm = new ScriptedLLM().reply(
+      text('{"agent": "linear", "confidence": 7}'),
+      text('{"agent": "linear", "confidence": 0.7}')
+    );
+    const client = new LLMClient({ provider: 'openai', model: 'gpt-test', languageModel: llm.model });
+
+    const result = await client.generateObject('route me', schema, { systemPrompt: 'Classify.' });
+
+    expect(result.confidence).toBe(0.7);
+    expect(llm.calls[1].userText).toContain("didn't match the required JSON schema");
+  });
+
+  it('gives up with an invalid-output error carrying the raw reply', async () => {
+    const llm = new ScriptedLLM().reply(text('I think linear?'), text('Definitely linear.'));
+    const client = new LLMClient({ provider: 'openai', model: 'gpt-test', languageModel: llm.model });
+
+    const error = await client.generateObject('route me', schema, { systemPrompt: 'Classify.', schemaName: 'classification' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AgentErrorClass);
+    expect(error.category).toBe(ErrorCategory.INVALID_OUTPUT);
+    expect(error.message).toContain('classification failed validation after 2 attempts');
+    expect(error.details.rawOutput).toBe('Definitely linear.');
+  });
+});
+
+describe('local OpenAI-compatible provider', () => {
+  const lookups: string[] = [];
+  const tools = {
+    lookupCompany: tool({
+      description: 'Look up a company by name',
+      inputSchema: z.object({ name: z.string() }),
+      execute: async ({ name }) => {
+        lookups.push(name);
+        return JSON.stringify({ name, stage: 'customer' });
+      }
+    })
+  };
+
+  const completion = (content: string) => ({
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'tiny',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 }
+  });
+
+  it('falls back to JSON-in-text tool calls when the model has no tool support', async () => {
+    // Like Ollama with a model that can't do tools
+    const server = await startJsonServer(req => {
+      if (req.body.tools) {
+        return { status: 400, body: { error: { message: 'registry.ollama.ai/library/tiny does not support tools' } } };
+      }
+      const last = req.body.messages.at(-1).content as string;
+      return {
+        body: completion(last.startsWith('Result of lookupCompany')
+          ? 'Acme is a customer.'
+          : 'Let me check.\n```json\n{"tool": "lookupCompany", "input": {"name": "Acme"}}\n```')
+      };
+    });
+
+    try {
+      const client = new LLMClient({ provider: 'local', model: 'tiny', baseURL: `${server.url}/v1` });
+      const result = await client.chatWithTrace('Is Acme a customer?', [], { systemPrompt: 'Help with CRM.', tools });
+
+      expect(result.text).toBe('Acme is a customer.');
+      expect(result.model).toBe('local/tiny');
+      expect(lookups).toEqual(['Acme']);
+      expect(result.trace.map(t => t.toolName)).toEqual(['lookupCompany']);
+      expect(server.requests.map(r => r.path)).toEqual(Array(3).fill('/v1/chat/completions'));
+      expect(server.requests[1].body.messages[0].content).toContain('"tool": "<tool name>"');
+
+      // Remembered: the next call goes straight to JSON-in-text
+      await client.chat('Is Acme a customer?', [], { systemPrompt: 'Help with CRM.', tools });
+      expect(server.requests[3].body.tools).toBeUndefined();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('parses tool calls out of surrounding text', () => {
+    expect(parseTextToolCall('Sure: {"tool": "lookupCompany", "input": {"name": "A {b}"}}', ['lookupCompany']))
+      .toEqual({ toolName: 'lookupCompany', input: { name: 'A {b}' } });
+    expect(parseTextToolCall('{"tool": "dropTables", "input": {}}', ['lookupCompany'])).toBeNull();
+    expect(parseTextToolCall('No tools needed.', ['lookupCompany'])).toBeNull();
+  });
+});
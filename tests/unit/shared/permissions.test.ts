@@ -0,0 +1,87 @@
+// Unit tests for role-based permissions
+
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import {
+  DEFAULT_PERMISSIONS,
+  PermissionMatrix,
+  PermissionStore,
+  rolesFor,
+  canUseAgent,
+  canUseTool
+} from '../../../src/shared/permissions.js';
+import { gateTools } from '../../../src/shared/policy.js';
+
+const matrix: PermissionMatrix = {
+  ...DEFAULT_PERMISSIONS,
+  users: { U_ADMIN: ['admin'], U_SALES: ['sales'] },
+  groups: { S_ENG: ['engineering'] }
+};
+
+describe('rolesFor', () => {
+  it('combines user and group roles, falling back to the default role', () => {
+    expect(rolesFor(matrix, 'U_SALES', ['S_ENG']).sort()).toEqual(['engineering', 'sales']);
+    expect(rolesFor(matrix, 'U_OTHER')).toEqual(['viewer']);
+  });
+});
+
+describe('canUseTool', () => {
+  it('grants by tool name, wildcard or risk level', () => {
+    expect(canUseTool(matrix, ['sales'], 'hubspot', 'createDeal', 'write')).toBe(true);
+    expect(canUseTool(matrix, ['sales'], 'linear', 'listIssues', 'read')).toBe(true);
+    expect(canUseTool(matrix, ['sales'], 'linear', 'createIssue', 'write')).toBe(false);
+    expect(canUseTool(matrix, ['viewer'], 'content', 'approveDraft', 'write')).toBe(false);
+    expect(canUseTool(matrix, ['admin'], 'content', 'deleteDraft', 'destructive')).toBe(true);
+  });
+
+  it('denies agents a role has no grants for', () => {
+    const restricted: PermissionMatrix = { ...matrix, roles: { viewer: { content: ['risk:read'] } } };
+    expect(canUseAgent(restricted, ['viewer'], 'content')).toBe(true);
+    expect(canUseAgent(restricted, ['viewer'], 'hubspot')).toBe(false);
+  });
+});
+
+describe('gateTools access', () => {
+  it('refuses tools the role does not allow and reports them', async () => {
+    const calls: string[] = [];
+    const denied: string[] = [];
+    const tools = gateTools({
+      listDeals: { execute: async () => { calls.push('listDeals'); return '[]'; } },
+      createDeal: { execute: async () => { calls.push('createDeal'); return '{}'; } }
+    }, {
+      agent: 'hubspot',
+      risks: { listDeals: 'read', createDeal: 'write' },
+      access: {
+        allows: (toolName, risk) => canUseTool(matrix, ['viewer'], 'hubspot', toolName, risk),
+        onDenied: toolName => denied.push(toolName)
+      },
+      onHold: () => {}
+    });
+
+    await tools.listDeals.execute({});
+    const result = await tools.createDeal.execute({});
+
+    expect(calls).toEqual(['listDeals']);
+    expect(denied).toEqual(['createDeal']);
+    expect(result).toContain('NOT run');
+  });
+});
+
+describe('PermissionStore', () => {
+  it('uses the defaults without a file and reloads when the file changes', async () => {
+    const file = path.join('/tmp', `test-permissions-${randomUUID()}.json`);
+    const store = new PermissionStore(file);
+    expect(store.get().defaultRole).toBe('viewer');
+
+    store.save({ ...DEFAULT_PERMISSIONS, users: { U1: ['admin'] } });
+    expect(store.get().users).toEqual({ U1: ['admin'] });
+
+    // Broken edits keep the last good matrix
+    await fs.writeFile(file, '{ not json');
+    expect(store.get().users).toEqual({ U1: ['admin'] });
+
+    await fs.unlink(file);
+  });
+});
@@ -0,0 +1,85 @@
+// Unit tests for tool confirmation policies
+
+import { describe, it, expect } from 'vitest';
+import { gateTools, needsConfirmation, describeToolCall } from '../../../src/shared/policy.js';
+import { PendingAction } from '../../../src/shared/types.js';
+
+const makeTools = (calls: string[]) => ({
+  listDeals: { execute: async () => { calls.push('listDeals'); return '[]'; } },
+  createDeal: { execute: async (input: any) => { calls.push(`createDeal:${input.name}`); return '{}'; } },
+  deleteDeal: { execute: async () => { calls.push('deleteDeal'); return '{}'; } }
+});
+
+const RISKS = { listDeals: 'read', createDeal: 'write', deleteDeal: 'destructive' } as const;
+
+describe('needsConfirmation', () => {
+  it('defaults to confirming destructive calls only', () => {
+    expect(needsConfirmation('write')).toBe(false);
+    expect(needsConfirmation('destructive')).toBe(true);
+  });
+
+  it('never confirms when the policy says never', () => {
+    expect(needsConfirmation('destructive', { confirmAt: 'never' })).toBe(false);
+  });
+});
+
+describe('gateTools', () => {
+  it('runs calls below the threshold and holds the rest', async () => {
+    const calls: string[] = [];
+    const held: PendingAction[] = [];
+    const tools = gateTools(makeTools(calls), {
+      agent: 'hubspot',
+      risks: { ...RISKS },
+      policy: { confirmAt: 'write' },
+      onHold: pending => held.push(pending)
+    });
+
+    await tools.listDeals.execute({});
+    const result = await tools.createDeal.execute({ name: 'Acme' });
+
+    expect(calls).toEqual(['listDeals']);
+    expect(result).toContain('NOT been done');
+    expect(held).toHaveLength(1);
+    expect(held[0]).toMatchObject({ agent: 'hubspot', toolName: 'createDeal', risk: 'write', input: { name: 'Acme' } });
+  });
+
+  it('keeps only the first held call per turn', async () => {
+    const held: PendingAction[] = [];
+    const tools = gateTools(makeTools([]), {
+      agent: 'hubspot',
+      risks: { ...RISKS },
+      policy: { confirmAt: 'write' },
+      onHold: pending => held.push(pending)
+    });
+
+    await tools.createDeal.execute({ name: 'Acme' });
+    const second = await tools.deleteDeal.execute({});
+
+    expect(held.map(p => p.toolName)).toEqual(['createDeal']);
+    expect(second).toContain('Another action is already waiting');
+  });
+
+  it('applies per-tool risk overrides from the policy', async () => {
+    const calls: string[] = [];
+    const held: PendingAction[] = [];
+    const tools = gateTools(makeTools(calls), {
+      agent: 'hubspot',
+      risks: { ...RISKS },
+      policy: { confirmAt: 'destructive', risks: { createDeal: 'destructive', deleteDeal: 'read' } },
+      onHold: pending => held.push(pending)
+    });
+
+    await tools.createDeal.execute({ name: 'Acme' });
+    await tools.deleteDeal.execute({});
+
+    expect(held.map(p => p.toolName)).toEqual(['createDeal']);
+    expect(calls).toEqual(['deleteDeal']);
+  });
+});
+
+describe('describeToolCall', () => {
+  it('lists the defined inputs', () => {
+    expect(describeToolCall('updateDealStage', { id: '1001', stage: 'closedwon', note: undefined }))
+      .toBe('updateDealStage · id: 1001, stage: closedwon');
+  });
+});
@@ -0,0 +1,79 @@
+// Unit tests for LLM cost estimation and budgets
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { DEFAULT_PRICES, UsageMeter, budgetMessage, estimateCost } from '../../../src/shared/usage.js';
+import { UsageStorage } from '../../../src/db/usage.js';
+import { parseUsageCommand } from '../../../src/orchestrator/usage-command.js';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+
+describe('estimateCost', () => {
+  it('prices dated snapshots like their model family', () => {
+    expect(estimateCost(DEFAULT_PRICES, 'gpt-4o', 1_000_000, 100_000)).toBeCloseTo(3.5);
+    expect(estimateCost(DEFAULT_PRICES, 'gpt-4o-mini-2024-07-18', 1_000_000, 0)).toBeCloseTo(0.15);
+    expect(estimateCost(DEFAULT_PRICES, 'some-local-model', 1_000_000, 1_000_000)).toBe(0);
+  });
+});
+
+describe('UsageMeter', () => {
+  let db: Database.Database;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-usage-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const call = (userId: string, agent: string, inputTokens: number) => ({
+    provider: 'openai', model: 'gpt-4o', purpose: 'chat' as const, userId, agent, inputTokens, outputTokens: 0
+  });
+
+  it('records spend and summarizes it by agent', () => {
+    const meter = new UsageMeter(new UsageStorage(db));
+    meter.record(call('U1', 'hubspot', 400_000));
+    meter.record(call('U2', 'hubspot', 400_000));
+    meter.record(call('U1', 'linear', 200_000));
+
+    expect(meter.storage.total({ userId: 'U1' })).toMatchObject({ calls: 2, inputTokens: 600_000 });
+    expect(meter.storage.total({ userId: 'U1' }).costUsd).toBeCloseTo(1.5);
+    expect(meter.storage.summarize({}, 'agent').map(row => [row.key, row.calls])).toEqual([['hubspot', 2], ['linear', 1]]);
+  });
+
+  it('reports the first budget a user or agent has used up', () => {
+    const meter = new UsageMeter(new UsageStorage(db), {
+      budgets: { user: { daily: 1 }, agent: { monthly: 5 }, onExceeded: 'refuse' }
+    });
+    expect(meter.checkBudget('U1', 'hubspot')).toBeNull();
+
+    meter.record(call('U1', 'hubspot', 400_000)); // $1.00
+    const breach = meter.checkBudget('U1', 'hubspot')!;
+    expect(breach).toMatchObject({ scope: 'user', id: 'U1', period: 'daily', limitUsd: 1, action: 'refuse' });
+    expect(budgetMessage(breach)).toContain('your daily AI budget is used up ($1.00 of $1.00)');
+    expect(meter.checkBudget('U2', 'hubspot')).toBeNull();
+  });
+});
+
+describe('parseUsageCommand', () => {
+  it('parses the period, user and grouping', () => {
+    const now = new Date(2026, 2, 11, 15, 30);
+    expect(parseUsageCommand('show ai spend for this month by user', now)).toEqual({
+      period: { since: new Date(2026, 2, 1).toISOString(), label: 'this month' },
+      by: 'user',
+      userId: undefined
+    });
+    expect(parseUsageCommand('show usage for <@U123>', now)).toMatchObject({ by: 'agent', userId: 'U123' });
+    expect(parseUsageCommand('show my drafts', now)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+// Unit tests for draft approval cards
+
+import { describe, it, expect } from 'vitest';
+import { types } from '@slack/bolt';
+import { buildDraftCard, fitsEditModal, DRAFT_ACTIONS } from '../../../src/slack/approvals.js';
+import { Draft } from '../../../src/shared/types.js';
+
+const createDraft = (overrides: Partial<Draft> = {}): Draft => ({
+  id: 'draft-1',
+  title: 'Most companies fail at AI',
+  body: 'Because they start with AI.',
+  contentType: 'linkedin_post',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  status: 'pending',
+  ...overrides
+});
+
+describe('buildDraftCard', () => {
+  it('shows approve, reject and edit buttons for pending drafts', () => {
+    const blocks = buildDraftCard(createDraft());
+
+    const actions = blocks.find((b): b is types.ActionsBlock => b.type === 'actions');
+    const buttons = (actions?.elements || []).filter((e): e is types.Button => e.type === 'button');
+    expect(buttons.map(e => e.action_id)).toEqual([
+      DRAFT_ACTIONS.approve,
+      DRAFT_ACTIONS.reject,
+      DRAFT_ACTIONS.edit
+    ]);
+    expect(buttons.every(e => e.value === 'draft-1')).toBe(true);
+  });
+
+  it('replaces buttons with who acted once approved', () => {
+    const blocks = buildDraftCard(createDraft({ status: 'approved' }), { userId: 'U123', action: 'approved' });
+
+    expect(blocks.find(b => b.type === 'actions')).toBeUndefined();
+    const text = JSON.stringify(blocks);
+    expect(text).toContain('Approved by <@U123>');
+    expect(text).toContain('Status: *approved*');
+  });
+
+  it('includes rejection feedback', () => {
+    const blocks = buildDraftCard(
+      createDraft({ status: 'rejected', feedback: 'Needs a stronger hook' }),
+      { userId: 'U123', action: 'rejected' }
+    );
+
+    expect(JSON.stringify(blocks)).toContain('Needs a stronger hook');
+  });
+});
+
+describe('fitsEditModal', () => {
+  it('only allows editing in Slack when the whole draft fits the inputs', () => {
+    expect(fitsEditModal(createDraft({ body: 'x'.repeat(3000) }))).toBe(true);
+    expect(fitsEditModal(createDraft({ body: 'x'.repeat(3001) }))).toBe(false);
+    expect(fitsEditModal(createDraft({ title: 't'.repeat(151) }))).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+// Unit tests for streamed Slack replies
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ProgressiveMessage, toolStatus } from '../../../src/slack/progress.js';
+
+const createClient = () => ({
+  chat: {
+    postMessage: vi.fn().mockResolvedValue({ ts: '111.222' }),
+    update: vi.fn().mockResolvedValue({ ok: true })
+  }
+});
+
+describe('toolStatus', () => {
+  it('describes known and generic tools', () => {
+    expect(toolStatus('webSearch')).toContain('searching the web');
+    expect(toolStatus('searchIssues')).toContain('looking up issues');
+    expect(toolStatus('createDeal')).toContain('creating deal');
+    expect(toolStatus('somethingElse')).toContain('working');
+  });
+});
+
+describe('ProgressiveMessage', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('throttles updates and sends the latest text', async () => {
+    const client = createClient();
+    const progress = new ProgressiveMessage(client, 'C1', '100.0', 1000);
+    await progress.start();
+
+    progress.handleEvent({ type: 'text-delta', text: 'Hello' });
+    progress.handleEvent({ type: 'text-delta', text: ' there' });
+    progress.handleEvent({ type: 'tool-call', toolName: 'webSearch', input: {} });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(client.chat.update).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(client.chat.update).toHaveBeenCalledTimes(1);
+    const text = client.chat.update.mock.calls[0][0].text;
+    expect(text).toContain('Hello there');
+    expect(text).toContain('searching the web');
+  });
+
+  it('replaces the placeholder with the final reply', async () => {
+    const client = createClient();
+    const progress = new ProgressiveMessage(client, 'C1', '100.0', 1000);
+    await progress.start();
+
+    progress.handleEvent({ type: 'text-delta', text: 'partial' });
+    await progress.finish('Final answer');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(client.chat.update).toHaveBeenCalledTimes(1);
+    expect(client.chat.update).toHaveBeenCalledWith({ channel: 'C1', ts: '111.222', text: 'Final answer' });
+  });
+
+  it('posts a new message if the placeholder was never sent', async () => {
+    const client = createClient();
+    const progress = new ProgressiveMessage(client, 'C1', '100.0');
+
+    await progress.finish('Sorry, something went wrong.');
+
+    expect(client.chat.postMessage).toHaveBeenCalledWith({
+      channel: 'C1',
+      thread_ts: '100.0',
+      text: 'Sorry, something went wrong.'
+    });
+  });
+});
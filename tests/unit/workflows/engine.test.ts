@@ -0,0 +1,230 @@
+// Unit tests for workflow triggers, config parsing and step approval
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { initializeDatabase, closeDatabase } from '../../../src/db/index.js';
+import { LLMClient } from '../../../src/shared/llm.js';
+import { CredentialResolver } from '../../../src/agents/credentials.js';
+import { HubSpotCompany } from '../../../src/agents/hubspot/types.js';
+import { AgentResponse, Draft, PendingAction } from '../../../src/shared/types.js';
+import { WorkflowEngine, WorkflowsConfig, parseWorkflows } from '../../../src/workflows/index.js';
+import { closedWonDeals, draftMentions } from '../../../src/workflows/steps.js';
+import { ScriptedLLM, text } from '../../fakes/index.js';
+
+const company = (id: string, name: string, lifecyclestage = 'customer'): HubSpotCompany => ({
+  id,
+  properties: { name, lifecyclestage },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+const draft = (body: string): Draft => ({
+  id: 'draft-1',
+  title: 'Launch week',
+  body,
+  contentType: 'linkedin_post',
+  status: 'pending',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+} as Draft);
+
+describe('workflow triggers', () => {
+  it('spots deals moved to closed won, ignoring failed, held or denied calls and other stages', () => {
+    const events = closedWonDeals({
+      message: 'Done.',
+      actions: [
+        { type: 'updateDealStage', description: 'Moved', input: { id: 'd1', stage: 'closedwon' }, output: { id: 'd1', properties: { dealname: 'Acme renewal', amount: '5000' } } },
+        { type: 'updateDealStage', description: 'Moved', input: { id: 'd2', stage: 'Closed Won' }, error: 'Not found' },
+        { type: 'updateDealStage', description: 'Moved', input: { id: 'd3', stage: 'contractsent' } },
+        { type: 'updateDealStage', description: 'Moved', input: { id: 'd4', stage: 'closedwon' }, output: 'This action needs the user\'s confirmation before it runs and has NOT been done yet.' },
+        { type: 'updateDealStage', description: 'Moved', input: { id: 'd5', stage: 'closedwon' }, output: 'The user\'s role does not allow this tool, so it was NOT run.' }
+      ]
+    });
+
+    expect(events).toEqual([{
+      trigger: 'hubspot.deal_closed_won',
+      subject: 'deal:d1',
+      summary: 'Deal Acme renewal moved to closed won (5000)',
+      title: 'Acme renewal',
+      ids: { dealId: 'd1' }
+    }]);
+  });
+
+  it('matches customer names in drafts as whole words only', () => {
+    const companies = [company('c1', 'Acme'), company('c2', 'Globex', 'lead'), company('c3', 'Initech')];
+    const events = draftMentions(draft('How Acme cut onboarding time, and what Globex and Initechnology taught us.'), companies);
+
+    expect(events.map(event => event.subject)).toEqual(['draft:draft-1:company:c1']);
+    expect(events[0].ids).toEqual({ companyId: 'c1', draftId: 'draft-1' });
+  });
+});
+
+describe('parseWorkflows', () => {
+  it('accepts step names or objects and defaults to manual approval', () => {
+    const config = parseWorkflows(JSON.stringify({
+      channel: 'C1',
+      workflows: [{ name: 'case-study', trigger: 'hubspot.deal_closed_won', steps: ['content.propose_topic', { action: 'hubspot.log_note', approve: 'auto' }] }]
+    }));
+
+    expect(config.channel).toBe('C1');
+    expect(config.workflows[0].steps).toEqual([
+      { action: 'content.propose_topic', approve: 'manual' },
+      { action: 'hubspot.log_note', approve: 'auto' }
+    ]);
+  });
+
+  it('rejects unknown triggers and steps', () => {
+    expect(() => parseWorkflows('{"workflows": [{"name": "x", "trigger": "deal.lost", "steps": ["content.propose_topic"]}]}'))
+      .toThrow('unknown trigger "deal.lost"');
+    expect(() => parseWorkflows('{"workflows": [{"name": "x", "trigger": "hubspot.deal_closed_won", "steps": ["email.send"]}]}'))
+      .toThrow('unknown step "email.send"');
+  });
+});
+
+describe('WorkflowEngine', () => {
+  let db: Database.Database;
+  let testDbPath: string;
+  let calls: Array<{ call: PendingAction; userId?: string }>;
+  let reply: (call: PendingAction) => AgentResponse;
+
+  const closedWon: AgentResponse = {
+    message: 'Moved the deal.',
+    actions: [{ type: 'updateDealStage', description: 'Moved', input: { id: 'd1', stage: 'closedwon' }, output: { id: 'd1', properties: { dealname: 'Acme renewal' } } }]
+  };
+
+  const createEngine = (config: WorkflowsConfig, llm = new ScriptedLLM()) =>
+    new WorkflowEngine(
+      db,
+      config,
+      new LLMClient({ provider: 'openai', model: 'gpt-test', languageModel: llm.model }),
+      new CredentialResolver(db),
+      async (call, userId) => {
+        calls.push({ call, userId });
+        return reply(call);
+      }
+    );
+
+  beforeEach(async () => {
+    testDbPath = path.join('/tmp', `test-workflows-${randomUUID()}.sqlite`);
+    db = await initializeDatabase({ path: testDbPath });
+    calls = [];
+    reply = call => ({ message: `Ran ${call.toolName}.`, actions: [{ type: call.toolName, description: call.description }] });
+  });
+
+  afterEach(async () => {
+    closeDatabase();
+    try {
+      await fs.unlink(testDbPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('proposes steps one at a time and runs each as the approver', async () => {
+    const engine = createEngine({
+      channel: 'C-workflows',
+      workflows: [{ name: 'case-study', trigger: 'hubspot.deal_closed_won', steps: [{ action: 'content.propose_topic' }, { action: 'hubspot.log_note' }] }]
+    });
+    const sink = vi.fn();
+    engine.addSink(sink);
+
+    const [run] = await engine.observe(closedWon, { userId: 'U1', channelId: 'C-sales', threadTs: '1.0' });
+    expect(run).toMatchObject({ status: 'awaiting_approval', channelId: 'C-workflows', threadTs: undefined });
+    expect(run.steps.map(step => step.status)).toEqual(['proposed', 'waiting']);
+    expect(run.steps[0].call).toMatchObject({ agent: 'content', toolName: 'addTopic', input: { topic: 'Case study: Acme renewal' } });
+    expect(calls).toEqual([]);
+
+    const approved = await engine.approve(run.id, 0, 'U2');
+    expect(calls).toEqual([{ call: expect.objectContaining({ toolName: 'addTopic' }), userId: 'U2' }]);
+    expect(approved.run!.steps.map(step => step.status)).toEqual(['done', 'proposed']);
+    expect(approved.run!.steps[0]).toMatchObject({ result: 'Ran addTopic.', decidedBy: 'U2' });
+
+    const skipped = await engine.skip(run.id, 1, 'U3');
+    expect(skipped).toMatchObject({ status: 'done' });
+    expect(skipped!.steps[1]).toMatchObject({ status: 'skipped', decidedBy: 'U3' });
+    expect(sink).toHaveBeenCalledTimes(3);
+
+    // Approving again does nothing
+    await engine.approve(run.id, 0, 'U2');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('runs once per subject and keeps denied steps waiting for someone allowed', async () => {
+    const engine = createEngine({ workflows: [{ name: 'case-study', trigger: 'hubspot.deal_closed_won', steps: [{ action: 'content.propose_topic' }] }] });
+
+    const [run] = await engine.observe(closedWon, { channelId: 'C-sales', threadTs: '1.0' });
+    expect(run).toMatchObject({ channelId: 'C-sales', threadTs: '1.0' });
+    expect(await engine.observe(closedWon)).toEqual([]);
+
+    reply = call => ({ message: 'Not allowed.', denials: [{ userId: 'U9', roles: ['viewer'], agent: call.agent, toolName: call.toolName }] });
+    const denied = await engine.approve(run.id, 0, 'U9', ['viewers']);
+    expect(denied.denial).toBe('Not allowed.');
+    expect(denied.run!.steps[0].status).toBe('proposed');
+  });
+
+  it('runs automatic steps straight away and stops the run when one fails', async () => {
+    const engine = createEngine({
+      workflows: [{ name: 'case-study', trigger: 'hubspot.deal_closed_won', steps: [{ action: 'hubspot.log_note', approve: 'auto' }, { action: 'content.propose_topic' }] }]
+    });
+    reply = call => ({ message: 'HubSpot said no.', actions: [{ type: call.toolName, description: call.description, error: 'HTTP 500' }] });
+
+    const [run] = await engine.observe(closedWon);
+    expect(run.status).toBe('failed');
+    expect(run.steps.map(step => step.status)).toEqual(['failed', 'skipped']);
+    expect(calls[0].call).toMatchObject({ agent: 'hubspot', toolName: 'logNote', input: { body: 'Deal Acme renewal moved to closed won', dealId: 'd1' } });
+  });
+
+  it('fails the run when an automatic step is denied instead of leaving it running', async () => {
+    const engine = createEngine({
+      workflows: [{ name: 'case-study', trigger: 'hubspot.deal_closed_won', steps: [{ action: 'hubspot.log_note', approve: 'auto' }, { action: 'content.propose_topic' }] }]
+    });
+    reply = call => ({ message: 'Not allowed.', denials: [{ userId: 'U1', roles: ['viewer'], agent: call.agent, toolName: call.toolName }] });
+
+    const [run] = await engine.observe(closedWon, { userId: 'U1' });
+    expect(run.status).toBe('failed');
+    expect(run.steps.map(step => step.status)).toEqual(['failed', 'skipped']);
+    expect(run.steps[0].result).toBe('Not allowed.');
+  });
+
+  it('drafts the post when the workflow fires so the card shows it', async () => {
+    const llm = new ScriptedLLM().reply(text('We shipped the new onboarding flow.'));
+    const engine = createEngine({ workflows: [{ name: 'shipped', trigger: 'linear.project_completed', steps: [{ action: 'content.draft_post' }] }] }, llm);
+
+    const [run] = await engine.fire({
+      trigger: 'linear.project_completed',
+      subject: 'project:p1',
+      summary: 'Linear project Onboarding revamp completed',
+      title: 'Onboarding revamp',
+      ids: { projectId: 'p1' }
+    });
+
+    expect(run.steps[0].call.input).toEqual({
+      title: 'What we shipped: Onboarding revamp',
+      body: 'We shipped the new onboarding flow.',
+      contentType: 'linkedin_post'
+    });
+    expect(llm.calls[0].userText).toContain('Onboarding revamp completed');
+
+    // A repeat is dropped before the post is drafted again
+    expect(await engine.fire({ trigger: 'linear.project_completed', subject: 'project:p1', summary: 'Again', title: 'Onboarding revamp', ids: { projectId: 'p1' } })).toEqual([]);
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it('fails a step that throws or needs credentials instead of leaving it running or done', async () => {
+    const engine = createEngine({ workflows: [{ name: 'case-study', trigger: 'hubspot.deal_closed_won', steps: [{ action: 'hubspot.log_note' }] }] });
+    const [run] = await engine.observe(closedWon);
+
+    reply = () => { throw new Error('Token refresh failed'); };
+    const thrown = await engine.approve(run.id, 0, 'U2');
+    expect(thrown.run).toMatchObject({ status: 'failed' });
+    expect(thrown.run!.steps[0]).toMatchObject({ status: 'failed', result: 'Failed: Token refresh failed', decidedBy: 'U2' });
+
+    const [other] = await engine.fire({ trigger: 'hubspot.deal_closed_won', subject: 'deal:d2', summary: 'Deal Globex moved to closed won', title: 'Globex', ids: { dealId: 'd2' } });
+    reply = () => ({ message: "HubSpot isn't connected for your account yet.", needsCredentials: 'hubspot' });
+    const blocked = await engine.approve(other.id, 0, 'U2');
+    expect(blocked.run!.steps[0].status).toBe('failed');
+  });
+});